@@ -10,7 +10,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/contexts/AuthContext';
+import { fetchRecurringDebts, fetchUserDebts, getDebtGroups, repairGroupTotals } from '@/firebase/firestore';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { ExportFormat, buildExportData, shareExport } from '@/utils/dataExport';
 
 // Only log in development mode
 const isDevelopment = Constants.expoConfig?.extra?.NODE_ENV === 'development';
@@ -58,6 +60,8 @@ export default function ProfileScreen() {
   const [error, setError] = useState<string | null>(null);
   const [linkCopied, setLinkCopied] = useState(false);
   const [showLinkInfoModal, setShowLinkInfoModal] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [repairing, setRepairing] = useState(false);
   
   // Use ref to track initialization and prevent duplicate refreshes
   const profileInitialized = useRef(false);
@@ -175,6 +179,89 @@ export default function ProfileScreen() {
     router.push('/profile-preview');
   }, [router]);
 
+  const handleCurrencySettings = useCallback(() => {
+    router.push('/currency-settings');
+  }, [router]);
+
+  const handleReminderTemplates = useCallback(() => {
+    router.push('/reminder-templates');
+  }, [router]);
+
+  const handleRecurringSeries = useCallback(() => {
+    router.push('/recurring-series');
+  }, [router]);
+
+  const handleImportDebts = useCallback(() => {
+    router.push('/import-debts');
+  }, [router]);
+
+  // Export every debt, group and recurring template and open the share sheet
+  const exportData = useCallback(async (format: ExportFormat) => {
+    if (!currentUser) return;
+    
+    setExporting(true);
+    
+    try {
+      const [debts, groups, recurringDebts] = await Promise.all([
+        fetchUserDebts(currentUser.uid),
+        getDebtGroups(currentUser.uid),
+        fetchRecurringDebts(currentUser.uid)
+      ]);
+      
+      await shareExport(buildExportData({ debts, groups, recurringDebts }), format);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      Alert.alert('Error', 'Failed to export your data. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  }, [currentUser]);
+  
+  const handleExportData = useCallback(() => {
+    Alert.alert(
+      'Export Data',
+      'Export all of your debts, groups and recurring debts. CSV opens in spreadsheets, JSON keeps every detail including payment history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'CSV', onPress: () => exportData('csv') },
+        { text: 'JSON', onPress: () => exportData('json') }
+      ]
+    );
+  }, [exportData]);
+
+  // Recalculate every group's totals from its debts
+  const repairGroups = useCallback(async () => {
+    if (!currentUser) return;
+    
+    setRepairing(true);
+    
+    try {
+      const repairedCount = await repairGroupTotals(currentUser.uid);
+      Alert.alert(
+        'Groups Checked',
+        repairedCount > 0
+          ? `Fixed the totals of ${repairedCount} group${repairedCount === 1 ? '' : 's'}.`
+          : 'All of your group totals were already correct.'
+      );
+    } catch (error) {
+      console.error('Error repairing group totals:', error);
+      Alert.alert('Error', 'Failed to check your groups. Please try again.');
+    } finally {
+      setRepairing(false);
+    }
+  }, [currentUser]);
+  
+  const handleRepairGroups = useCallback(() => {
+    Alert.alert(
+      'Repair Group Totals',
+      'Recalculate the totals of all of your groups from their debts. Use this if a group shows the wrong amount.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Repair', onPress: repairGroups }
+      ]
+    );
+  }, [repairGroups]);
+
   const handleDeleteAccount = useCallback(() => {
     Alert.alert(
       'Delete Account',
@@ -609,6 +696,90 @@ export default function ProfileScreen() {
             </Pressable>
             )}
             
+            {/* Currency Settings Button */}
+            <Pressable 
+              style={({pressed}) => [
+                styles.currencySettingsButton,
+                {opacity: pressed ? 0.8 : 1}
+              ]}
+              onPress={handleCurrencySettings}
+            >
+              <Ionicons name="swap-horizontal-outline" size={20} color={Colors.light.tint} />
+              <Text style={styles.currencySettingsText}>
+                Currency & Exchange Rates ({userProfile.profile?.homeCurrency || 'USD'})
+              </Text>
+            </Pressable>
+            
+            {/* Reminder Messages Button */}
+            <Pressable 
+              style={({pressed}) => [
+                styles.currencySettingsButton,
+                {opacity: pressed ? 0.8 : 1}
+              ]}
+              onPress={handleReminderTemplates}
+            >
+              <Ionicons name="chatbubble-ellipses-outline" size={20} color={Colors.light.tint} />
+              <Text style={styles.currencySettingsText}>Reminder Messages</Text>
+            </Pressable>
+            
+            {/* Recurring Debts Button */}
+            <Pressable 
+              style={({pressed}) => [
+                styles.currencySettingsButton,
+                {opacity: pressed ? 0.8 : 1}
+              ]}
+              onPress={handleRecurringSeries}
+            >
+              <Ionicons name="repeat" size={20} color={Colors.light.tint} />
+              <Text style={styles.currencySettingsText}>Recurring Debts</Text>
+            </Pressable>
+            
+            {/* Import Debts Button */}
+            <Pressable 
+              style={({pressed}) => [
+                styles.currencySettingsButton,
+                {opacity: pressed ? 0.8 : 1}
+              ]}
+              onPress={handleImportDebts}
+            >
+              <Ionicons name="cloud-upload-outline" size={20} color={Colors.light.tint} />
+              <Text style={styles.currencySettingsText}>Import Debts</Text>
+            </Pressable>
+            
+            {/* Export Data Button */}
+            <Pressable 
+              style={({pressed}) => [
+                styles.currencySettingsButton,
+                {opacity: pressed || exporting ? 0.8 : 1}
+              ]}
+              onPress={handleExportData}
+              disabled={exporting}
+            >
+              {exporting ? (
+                <ActivityIndicator size="small" color={Colors.light.tint} />
+              ) : (
+                <Ionicons name="download-outline" size={20} color={Colors.light.tint} />
+              )}
+              <Text style={styles.currencySettingsText}>{exporting ? 'Exporting...' : 'Export Data'}</Text>
+            </Pressable>
+            
+            {/* Repair Group Totals Button */}
+            <Pressable 
+              style={({pressed}) => [
+                styles.currencySettingsButton,
+                {opacity: pressed || repairing ? 0.8 : 1}
+              ]}
+              onPress={handleRepairGroups}
+              disabled={repairing}
+            >
+              {repairing ? (
+                <ActivityIndicator size="small" color={Colors.light.tint} />
+              ) : (
+                <Ionicons name="construct-outline" size={20} color={Colors.light.tint} />
+              )}
+              <Text style={styles.currencySettingsText}>{repairing ? 'Repairing...' : 'Repair Group Totals'}</Text>
+            </Pressable>
+            
             {/* Sign Out Button */}
             <Pressable 
               style={({pressed}) => [
@@ -1028,6 +1199,24 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontFamily: 'Aeonik-Black',
   },
+  currencySettingsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    marginTop: 16,
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    backgroundColor: 'rgba(74, 226, 144, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(74, 226, 144, 0.2)',
+  },
+  currencySettingsText: {
+    color: Colors.light.tint,
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+    marginLeft: 8,
+  },
   signOutButton: {
     borderRadius: 12,
     overflow: 'hidden',
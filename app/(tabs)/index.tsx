@@ -1,34 +1,31 @@
 import { Ionicons } from '@expo/vector-icons';
-import * as Clipboard from 'expo-clipboard';
 import * as ImagePicker from 'expo-image-picker';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import React, { memo, useCallback, useEffect, useState } from 'react';
-import { ActivityIndicator, Alert, FlatList, Linking, Platform, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { ActivityIndicator, Alert, FlatList, Platform, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import GroupDebtCard from '@/components/GroupDebtCard';
+import OwedDebtCard from '@/components/OwedDebtCard';
 import { ThemedText } from '@/components/ThemedText';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/contexts/AuthContext';
-import { deleteDebt, deleteDebtGroup, fetchUserDebts, getDebtGroups, getDebtGroupWithDebts, getRecurringDebtById, markDebtAsPaid } from '@/firebase/firestore';
-import { Debt, DebtGroup, RecurringDebt, RecurringFrequency } from '@/firebase/models';
+import { useDebts, useGroups, useOwedDebts, useRecurringDebts } from '@/contexts/DataContext';
+import { markSharedDebtAsSent } from '@/firebase/firestore';
+import { Debt } from '@/firebase/models';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { useCurrencySettings } from '@/hooks/useCurrencySettings';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { formatCurrency, getCurrencyInfo } from '@/utils/currency';
+import { getRemainingBalance } from '@/utils/debtBalance';
+import { compareByDueDate, describeDueDate, getDueStatus } from '@/utils/dueDates';
 import eventEmitter from '@/utils/eventEmitter';
-
-// Helper function to format recurring frequency in a user-friendly way
-const formatRecurringFrequency = (frequency: RecurringFrequency): string => {
-  switch (frequency) {
-    case 'daily': return 'Daily';
-    case 'weekly': return 'Weekly';
-    case 'biweekly': return 'Every 2 weeks';
-    case 'monthly': return 'Monthly';
-    case 'quarterly': return 'Every 3 months';
-    case 'yearly': return 'Yearly';
-    default: return 'Recurring';
-  }
-};
+import { queueDeleteDebt, queueDeleteDebtGroup, queueMarkDebtAsPaid } from '@/utils/offlineSync';
+import { describeFrequency } from '@/utils/recurringSeries';
+import { buildReminderMessage, getPaymentLink, openReminderMessage } from '@/utils/reminderMessages';
+import { loadReminderTemplates } from '@/utils/reminderTemplates';
 
 // Create a memoized Debt Item component to prevent unnecessary re-renders
 const DebtItem = memo(({ 
@@ -36,35 +33,24 @@ const DebtItem = memo(({
   onMarkPaid,
   onEdit,
   onDelete,
-  userProfile
+  userProfile,
+  isPendingSync
 }: { 
   item: Debt, 
   onMarkPaid: (id: string) => void,
   onEdit: (item: Debt) => void,
   onDelete: (id: string) => void,
-  userProfile: any
+  userProfile: any,
+  isPendingSync?: boolean
 }) => {
-  const [recurringInfo, setRecurringInfo] = useState<RecurringDebt | null>(null);
-  const { currentUser } = useAuth();
+  const { recurringDebts } = useRecurringDebts();
   const router = useRouter();
+  const dueStatus = getDueStatus(item);
   
-  // Fetch recurring information if this is a recurring debt
-  useEffect(() => {
-    const fetchRecurringInfo = async () => {
-      if (item.isRecurring && item.recurringId && currentUser) {
-        try {
-          const data = await getRecurringDebtById(currentUser.uid, item.recurringId);
-          if (data) {
-            setRecurringInfo(data as RecurringDebt);
-          }
-        } catch (err) {
-          console.error('Error fetching recurring info:', err);
-        }
-      }
-    };
-    
-    fetchRecurringInfo();
-  }, [item.isRecurring, item.recurringId, currentUser]);
+  // Recurring information if this is a recurring debt
+  const recurringInfo = item.isRecurring && item.recurringId
+    ? recurringDebts.find(recurringDebt => recurringDebt.id === item.recurringId)
+    : undefined;
 
   // Navigate to debt detail screen
   const navigateToDetail = useCallback(() => {
@@ -74,68 +60,12 @@ const DebtItem = memo(({
     });
   }, [router, item]);
 
-  // Check if user has a valid payment link
-  const hasValidPaymentLink = useCallback(() => {
-    if (!userProfile) return false;
-    
-    // Check if username exists
-    if (!userProfile.username) return false;
-    
-    // Check if user has a profile setup with at least one of these fields
-    const hasProfileData = userProfile.profile && 
-      (userProfile.profile.name || 
-       userProfile.profile.location || 
-       userProfile.profileImageUrl || 
-       userProfile.profile.backgroundImageUrl ||
-       (userProfile.profile.paymentMethods && 
-        userProfile.profile.paymentMethods.some((method: any) => method.value)));
-        
-    return hasProfileData;
-  }, [userProfile]);
-
   // Function to handle the remind button press
-  const handleRemind = useCallback(() => {
-    // Create base SMS message text
-    let message = `Hey, just a reminder that you owe me $${item.amount.toFixed(2)}${item.description ? ` for ${item.description}` : ''}.`;
-    
-    // Add payment link if available
-    if (userProfile?.username && hasValidPaymentLink()) {
-      message += `\n\nPay here: trypaid.io/${userProfile.username}`;
-    }
-    
-    // Encode the message for use in the URL
-    const encodedMessage = encodeURIComponent(message);
-    
-    // If we have a phone number, use it to fill the recipient and the message
-    if (item.phoneNumber) {
-      const phoneNumber = item.phoneNumber.replace(/\D/g, ''); // Remove non-numeric characters
-      
-      // Create the SMS URL for opening the messages app with number and message
-      const url = Platform.OS === 'ios' 
-        ? `sms:${phoneNumber}?body=${encodedMessage}`
-        : `sms:${phoneNumber}?body=${encodedMessage}`;
-      
-      Linking.openURL(url).catch(err => {
-        console.error('Error opening messages app:', err);
-      });
-    } else {
-      // If no phone number, just open the messages app with the message body
-      const url = Platform.OS === 'ios' 
-        ? `sms:?body=${encodedMessage}`
-        : `sms:?body=${encodedMessage}`;
-        
-      Linking.openURL(url).catch(err => {
-        console.error('Error opening messages app:', err);
-        
-        // Fallback to clipboard if linking fails
-        Clipboard.setString(message);
-        Alert.alert(
-          'Message Copied',
-          'The reminder message has been copied to your clipboard.'
-        );
-      });
-    }
-  }, [item, userProfile, hasValidPaymentLink]);
+  const handleRemind = useCallback(async () => {
+    const templates = await loadReminderTemplates();
+    const message = buildReminderMessage(item, templates, { paymentLink: getPaymentLink(userProfile) });
+    await openReminderMessage(message, item.phoneNumber);
+  }, [item, userProfile]);
 
   return (
     <Pressable 
@@ -153,12 +83,28 @@ const DebtItem = memo(({
             <View style={styles.recurringBadge}>
               <Ionicons name="refresh" size={10} color={Colors.light.tint} />
               <Text style={styles.recurringText}>
-                {recurringInfo?.frequency ? formatRecurringFrequency(recurringInfo.frequency) : 'Recurring'}
+                {recurringInfo ? describeFrequency(recurringInfo) : 'Recurring'}
+              </Text>
+            </View>
+          )}
+          {(dueStatus === 'overdue' || dueStatus === 'dueSoon') && (
+            <View style={[styles.dueBadge, dueStatus === 'overdue' && styles.overdueBadge]}>
+              <Ionicons name="alarm-outline" size={10} color={dueStatus === 'overdue' ? '#FF5A5A' : '#FFB020'} />
+              <Text style={[styles.dueBadgeText, dueStatus === 'overdue' && styles.overdueBadgeText]}>
+                {dueStatus === 'overdue' ? 'Overdue' : 'Due Soon'}
               </Text>
             </View>
           )}
+          {isPendingSync && (
+            <View style={styles.pendingSyncBadge}>
+              <Ionicons name="cloud-upload-outline" size={10} color="rgba(255,255,255,0.7)" />
+              <Text style={styles.pendingSyncText}>Pending sync</Text>
+            </View>
+          )}
         </View>
-        <Text style={styles.debtAmount}>${item.amount.toFixed(2)}</Text>
+        <Text style={styles.debtAmount}>
+          {formatCurrency(item.isPaid ? item.amount : getRemainingBalance(item), item.currency)}
+        </Text>
         {item.description ? (
           <Text style={styles.debtDescription}>{item.description}</Text>
         ) : null}
@@ -166,7 +112,9 @@ const DebtItem = memo(({
           <Text style={styles.debtDate}>
             {item.isPaid 
               ? `Paid on ${new Date(item.paidAt!).toLocaleDateString()}` 
-              : `Added on ${new Date(item.createdAt).toLocaleDateString()}`}
+              : item.dueDate
+                ? describeDueDate(item.dueDate)
+                : `Added on ${new Date(item.createdAt).toLocaleDateString()}`}
           </Text>
           {item.phoneNumber && (
             <View style={styles.phoneContainer}>
@@ -276,21 +224,31 @@ export default function HomeScreen() {
   const router = useRouter();
   const isDark = colorScheme === 'dark';
   const { currentUser, userProfile } = useAuth();
+  const { homeCurrency, toHomeCurrency } = useCurrencySettings();
+  const { isOnline, pendingCount, isPendingSync } = useSyncStatus();
   
-  const [debts, setDebts] = useState<Debt[]>([]);
-  const [groups, setGroups] = useState<(DebtGroup & { debts?: Debt[] })[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [refreshKey, setRefreshKey] = useState(0); // Used to force refresh
+  const { debts, loading, error } = useDebts();
+  const { groups } = useGroups();
+  const { owedDebts } = useOwedDebts(); // Debts other Paid users shared with me
+  const [sortByDueDate, setSortByDueDate] = useState(false);
   
-  // Calculate total amount owed (individual debts only, not in groups)
+  // Individual debts (group debts are shown inside their groups), most urgent first when sorting by due date
+  const individualDebts = debts.filter(debt => !debt.groupId);
+  const sortedDebts = sortByDueDate ? [...individualDebts].sort(compareByDueDate) : individualDebts;
+  const sortedGroups = sortByDueDate ? [...groups].sort(compareByDueDate) : groups;
+  
+  // Calculate total amount owed (individual debts only, not in groups), converted to the home currency
   const totalOwed = debts
     .filter(debt => !debt.isPaid && !debt.groupId) // Only count non-group debts
-    .reduce((sum, debt) => sum + debt.amount, 0);
+    .reduce((sum, debt) => sum + toHomeCurrency(getRemainingBalance(debt), debt.currency), 0);
   
   // Add group debt totals
   const totalGroupOwed = groups
-    .reduce((sum, group) => sum + (group.totalAmount - group.paidAmount), 0);
+    .reduce((sum, group) => sum + toHomeCurrency(group.totalAmount - group.paidAmount, group.currency), 0);
+  
+  // Whether any outstanding amount had to be converted
+  const hasForeignCurrency = debts.some(debt => !debt.isPaid && !debt.groupId && getCurrencyInfo(debt.currency).code !== homeCurrency) ||
+    groups.some(group => !group.isCompleted && getCurrencyInfo(group.currency).code !== homeCurrency);
   
   // Total combined owed
   const combinedTotalOwed = totalOwed + totalGroupOwed;
@@ -311,71 +269,25 @@ export default function HomeScreen() {
     }
   });
   
-  // Function to load debts and groups
-  const loadData = useCallback(async () => {
+  // Handle marking a debt as paid
+  const handleMarkPaid = async (debtId: string) => {
     if (!currentUser) return;
     
     try {
-      setLoading(true);
-      
-      // Load individual debts
-      const userDebts = await fetchUserDebts(currentUser.uid);
-      setDebts(userDebts);
-      
-      // Load debt groups
-      const userGroups = await getDebtGroups(currentUser.uid);
-      
-      // For each group, load its debts
-      const groupsWithDebts = await Promise.all(
-        userGroups.map(async (group) => {
-          try {
-            const groupWithDebts = await getDebtGroupWithDebts(currentUser.uid, group.id!);
-            return groupWithDebts;
-          } catch (err) {
-            console.error(`Error loading debts for group ${group.id}:`, err);
-            // Return the group without debts if there was an error
-            return { ...group, debts: [] };
-          }
-        })
-      );
-      
-      setGroups(groupsWithDebts);
-      setError(null);
-    } catch (err: any) {
-      console.error('Error loading data:', err);
-      // Show a user-friendly error message based on the error type
-      if (err.code === 'permission-denied') {
-        setError('Permission denied. Please check your Firestore security rules.');
-      } else {
-        setError('Failed to load data. Please try again later.');
-      }
-    } finally {
-      setLoading(false);
+      await queueMarkDebtAsPaid(currentUser.uid, debtId);
+      eventEmitter.emit('DEBT_PAID', { debtId, isPaid: true });
+    } catch (err) {
+      console.error('Error marking debt as paid:', err);
     }
-  }, [currentUser]);
-  
-  // Button to manually refresh the list
-  const handleRefresh = () => {
-    console.log('Manual refresh triggered');
-    setRefreshKey(prev => prev + 1);
   };
   
-  // Handle marking a debt as paid
-  const handleMarkPaid = async (debtId: string) => {
-    if (!currentUser) return;
-    
+  // Handle telling the creditor that I've sent the money for a shared debt
+  const handleMarkSent = async (sharedDebtId: string) => {
     try {
-      await markDebtAsPaid(currentUser.uid, debtId);
-      // Update local state to reflect the change
-      setDebts(prevDebts => 
-        prevDebts.map(debt => 
-          debt.id === debtId 
-            ? { ...debt, isPaid: true, paidAt: new Date().toISOString() } 
-            : debt
-        )
-      );
+      await markSharedDebtAsSent(sharedDebtId);
     } catch (err) {
-      console.error('Error marking debt as paid:', err);
+      console.error('Error marking shared debt as sent:', err);
+      Alert.alert('Error', 'Failed to mark as sent');
     }
   };
   
@@ -384,10 +296,8 @@ export default function HomeScreen() {
     if (!currentUser) return;
     
     try {
-      await markDebtAsPaid(currentUser.uid, debtId, !isPaid);
-      
-      // Force a refresh of the data to reflect the changes
-      loadData();
+      await queueMarkDebtAsPaid(currentUser.uid, debtId, !isPaid);
+      eventEmitter.emit('DEBT_PAID', { debtId, isPaid: !isPaid });
     } catch (err) {
       console.error('Error marking group debt as paid:', err);
       Alert.alert('Error', 'Failed to update payment status');
@@ -407,11 +317,7 @@ export default function HomeScreen() {
           text: 'Keep Debts', 
           onPress: async () => {
             try {
-              await deleteDebtGroup(currentUser.uid, groupId, true);
-              // Remove the group from state
-              setGroups(prev => prev.filter(g => g.id !== groupId));
-              // Reload debts to reflect changes
-              loadData();
+              await queueDeleteDebtGroup(currentUser.uid, groupId, true);
             } catch (err) {
               console.error('Error deleting group:', err);
               Alert.alert('Error', 'Failed to delete group');
@@ -423,11 +329,7 @@ export default function HomeScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteDebtGroup(currentUser.uid, groupId, false);
-              // Remove the group from state
-              setGroups(prev => prev.filter(g => g.id !== groupId));
-              // Reload debts to reflect changes
-              loadData();
+              await queueDeleteDebtGroup(currentUser.uid, groupId, false);
             } catch (err) {
               console.error('Error deleting group and debts:', err);
               Alert.alert('Error', 'Failed to delete group and debts');
@@ -452,9 +354,7 @@ export default function HomeScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteDebt(currentUser.uid, debtId);
-              // Remove the debt from local state
-              setDebts(prevDebts => prevDebts.filter(debt => debt.id !== debtId));
+              await queueDeleteDebt(currentUser.uid, debtId);
             } catch (err) {
               console.error('Error deleting debt:', err);
               Alert.alert('Error', 'Failed to delete debt');
@@ -481,71 +381,50 @@ export default function HomeScreen() {
     // Skip rendering if this debt belongs to a group - it will be rendered within the group
     if (item.groupId) return null;
     
-    return <DebtItem item={item} onMarkPaid={handleMarkPaid} onEdit={handleEditDebt} onDelete={handleDeleteDebt} userProfile={userProfile} />;
-  }, [handleMarkPaid, handleEditDebt, handleDeleteDebt, userProfile]);
+    return (
+      <DebtItem
+        item={item}
+        onMarkPaid={handleMarkPaid}
+        onEdit={handleEditDebt}
+        onDelete={handleDeleteDebt}
+        userProfile={userProfile}
+        isPendingSync={isPendingSync(item.id!)}
+      />
+    );
+  }, [handleMarkPaid, handleEditDebt, handleDeleteDebt, userProfile, isPendingSync]);
   
   // Render group debt items
   const renderGroupItems = useCallback(() => {
-    return groups.map(group => (
+    return sortedGroups.map(group => (
       <GroupDebtCard
         key={group.id}
         group={group}
         onMarkPaid={handleMarkGroupDebtPaid}
         onDelete={handleDeleteGroup}
+        isPendingSync={isPendingSync(group.id!) || !!group.debts?.some(debt => isPendingSync(debt.id!))}
       />
     ));
-  }, [groups, handleMarkGroupDebtPaid, handleDeleteGroup]);
-  
-  // Optimize the effect to avoid unnecessary refreshes
-  useEffect(() => {
-    // Load debts only when component mounts or when refreshKey changes
-    console.log('Loading data, refreshKey:', refreshKey);
-    loadData();
-  }, [loadData, refreshKey]); // Keep this dependency array
+  }, [sortedGroups, handleMarkGroupDebtPaid, handleDeleteGroup, isPendingSync]);
   
-  // Optimize the auto-refresh effect to prevent unnecessary refreshes
+  // Let the user know when offline changes were skipped because the server copy was newer
   useEffect(() => {
-    // Only run this effect once to check for initial data
-    let timer: ReturnType<typeof setTimeout> | null = null;
-    
-    // Only trigger a refresh if:
-    // 1. There's no data (debts and groups are empty arrays)
-    // 2. We're not currently loading
-    // 3. There's no error
-    // 4. We haven't initialized data yet (this is the key to prevent constant refreshes)
-    if (debts.length === 0 && groups.length === 0 && !loading && !error && refreshKey === 0) {
-      // Set a timeout to wait for data to load before forcing a refresh
-      timer = setTimeout(() => {
-        console.log('No data found after delay, forcing refresh');
-        setRefreshKey(prev => prev + 1);
-      }, 2000); // Increase timeout to 2 seconds to avoid too many refreshes
-    }
-    
-    // Clean up timeout on unmount
-    return () => {
-      if (timer) clearTimeout(timer);
-    };
-  }, [debts.length, groups.length, loading, error, refreshKey]); // Add refreshKey to dependencies
+    return eventEmitter.on('SYNC_CONFLICTS', conflicts => {
+      Alert.alert(
+        'Some Changes Weren\'t Synced',
+        `${conflicts.length} ${conflicts.length === 1 ? 'change' : 'changes'} made offline ${conflicts.length === 1 ? 'was' : 'were'} skipped because the debt was updated on another device in the meantime.`
+      );
+    });
+  }, []);  // Empty dependency array means this only runs once when component mounts
   
-  // Listen for debt added/updated events
+  // Let the user know when offline changes couldn't be saved at all, instead of losing them silently
   useEffect(() => {
-    // This function will be called whenever a debt is added
-    const handleDebtAdded = () => {
-      console.log('EVENT: Debt added or updated, triggering refresh');
-      // Force a refresh of the debts list
-      setRefreshKey(prev => prev + 1);
-    };
-    
-    // Subscribe to the events
-    const debtAddedUnsubscribe = eventEmitter.on('DEBT_ADDED', handleDebtAdded);
-    const debtUpdatedUnsubscribe = eventEmitter.on('DEBT_UPDATED', handleDebtAdded);
-    
-    // Clean up the subscription when the component unmounts
-    return () => {
-      debtAddedUnsubscribe();
-      debtUpdatedUnsubscribe();
-    };
-  }, []);  // Empty dependency array means this only runs once when component mounts
+    return eventEmitter.on('SYNC_FAILED', failures => {
+      Alert.alert(
+        'Some Changes Couldn\'t Be Saved',
+        `${failures.length} ${failures.length === 1 ? 'change' : 'changes'} made offline could not be saved and ${failures.length === 1 ? 'was' : 'were'} discarded. Please check your debts and make ${failures.length === 1 ? 'it' : 'them'} again.`
+      );
+    });
+  }, []);
   
   return (
     <SafeAreaView style={styles.container}>
@@ -707,8 +586,13 @@ export default function HomeScreen() {
             Total Amount Owed
           </Text>
           <Text style={[styles.debugAmount, {color: '#fff'}]}>
-            ${combinedTotalOwed.toFixed(2)}
+            {formatCurrency(combinedTotalOwed, homeCurrency)}
           </Text>
+          {hasForeignCurrency && (
+            <Text style={styles.convertedText}>
+              Converted to {homeCurrency} using your exchange rates
+            </Text>
+          )}
           <View style={styles.debugPeopleRow}>
             <View style={styles.iconContainer}>
               <Ionicons name="people-outline" size={16} color="#fff" />
@@ -719,6 +603,22 @@ export default function HomeScreen() {
           </View>
         </LinearGradient>
         
+        {/* Offline & Sync State */}
+        {(!isOnline || pendingCount > 0) && (
+          <View style={styles.syncBanner}>
+            <Ionicons
+              name={isOnline ? 'cloud-upload-outline' : 'cloud-offline-outline'}
+              size={16}
+              color="rgba(255,255,255,0.8)"
+            />
+            <Text style={styles.syncBannerText}>
+              {!isOnline
+                ? `You're offline. ${pendingCount > 0 ? `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} will sync when you reconnect.` : 'Showing your saved debts.'}`
+                : `Syncing ${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'}...`}
+            </Text>
+          </View>
+        )}
+        
         {/* Loading & Error States */}
         {loading ? (
           <View style={styles.loadingContainer}>
@@ -873,6 +773,29 @@ export default function HomeScreen() {
           </View>
         )}
         
+        {/* Debts other Paid users have shared with me */}
+        {!loading && !error && owedDebts.length > 0 && (
+          <View style={styles.debtsSection}>
+            <View style={styles.debtListHeader}>
+              <ThemedText type="subtitle" style={styles.sectionTitle}>I Owe</ThemedText>
+              <View style={styles.countBadge}>
+                <Text style={styles.countBadgeText}>
+                  {owedDebts.filter(sharedDebt => !sharedDebt.isPaid).length}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.debtListContent}>
+              {owedDebts.map(sharedDebt => (
+                <OwedDebtCard
+                  key={sharedDebt.id}
+                  sharedDebt={sharedDebt}
+                  onMarkSent={handleMarkSent}
+                />
+              ))}
+            </View>
+          </View>
+        )}
+        
         {/* If not loading and has data to show */}
         {!loading && !error && (groups.length > 0 || debts.length > 0) && (
           <>
@@ -897,18 +820,19 @@ export default function HomeScreen() {
                 <ThemedText type="subtitle" style={styles.sectionTitle}>Individual Debts</ThemedText>
                 <View style={styles.headerButtons}>
                   <Pressable 
-                    style={styles.refreshButton}
-                    onPress={handleRefresh}
+                    style={[styles.sortButton, sortByDueDate && styles.sortButtonActive]}
+                    onPress={() => setSortByDueDate(!sortByDueDate)}
                   >
-                    <Ionicons name="refresh" size={16} color={Colors.light.tint} />
+                    <Ionicons name="alarm-outline" size={14} color={sortByDueDate ? '#000' : Colors.light.tint} />
+                    <Text style={[styles.sortButtonText, sortByDueDate && styles.sortButtonTextActive]}>Due</Text>
                   </Pressable>
                   <View style={styles.countBadge}>
-                    <Text style={styles.countBadgeText}>{debts.filter(debt => !debt.groupId).length}</Text>
+                    <Text style={styles.countBadgeText}>{individualDebts.length}</Text>
                   </View>
                 </View>
               </View>
               
-              {debts.filter(debt => !debt.groupId).length === 0 ? (
+              {individualDebts.length === 0 ? (
                 <View style={styles.emptyState}>
                   <View style={styles.emptyStateIcon}>
                     <Ionicons 
@@ -924,7 +848,7 @@ export default function HomeScreen() {
                 </View>
               ) : (
                 <FlatList
-                  data={debts.filter(debt => !debt.groupId)}
+                  data={sortedDebts}
                   keyExtractor={(item) => item.id || Math.random().toString()}
                   renderItem={renderDebtItem}
                   scrollEnabled={false}
@@ -1007,6 +931,13 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     fontFamily: 'Aeonik-Black',
   },
+  convertedText: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: -14,
+    marginBottom: 16,
+  },
   debugPeopleRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1057,15 +988,27 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
-  refreshButton: {
-    width: 32,
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
     height: 32,
     borderRadius: 16,
+    paddingHorizontal: 10,
     backgroundColor: 'rgba(74, 226, 144, 0.15)',
-    justifyContent: 'center',
-    alignItems: 'center',
     marginRight: 8,
   },
+  sortButtonActive: {
+    backgroundColor: Colors.light.tint,
+  },
+  sortButtonText: {
+    color: Colors.light.tint,
+    fontSize: 12,
+    fontFamily: 'Aeonik-Black',
+    marginLeft: 4,
+  },
+  sortButtonTextActive: {
+    color: '#000',
+  },
   filterButton: {
     width: 32,
     height: 32,
@@ -1098,6 +1041,22 @@ const styles = StyleSheet.create({
     opacity: 0.7,
     fontFamily: 'AeonikBlack-Regular',
   },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 16,
+  },
+  syncBannerText: {
+    flex: 1,
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 13,
+    marginLeft: 8,
+    fontFamily: 'AeonikBlack-Regular',
+  },
   errorContainer: {
     padding: 40,
     alignItems: 'center',
@@ -1460,6 +1419,42 @@ const styles = StyleSheet.create({
     fontFamily: 'Aeonik-Black',
     marginLeft: 4,
   },
+  dueBadge: {
+    backgroundColor: 'rgba(255, 176, 32, 0.15)',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginLeft: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  overdueBadge: {
+    backgroundColor: 'rgba(255, 90, 90, 0.15)',
+  },
+  dueBadgeText: {
+    color: '#FFB020',
+    fontSize: 10,
+    fontFamily: 'Aeonik-Black',
+    marginLeft: 4,
+  },
+  overdueBadgeText: {
+    color: '#FF5A5A',
+  },
+  pendingSyncBadge: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginLeft: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pendingSyncText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 10,
+    fontFamily: 'Aeonik-Black',
+    marginLeft: 4,
+  },
   recurringDetailsContainer: {
     marginTop: 8,
     padding: 8,
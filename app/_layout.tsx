@@ -9,6 +9,9 @@ import 'react-native-reanimated';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { DataProvider } from '@/contexts/DataContext';
+import eventEmitter from '@/utils/eventEmitter';
+import { startOfflineSync } from '@/utils/offlineSync';
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
@@ -33,61 +36,100 @@ export default function RootLayout() {
     }
   }, [loaded]);
 
+  // Sync changes made offline whenever the device comes back online
+  useEffect(() => startOfflineSync(), []);
+
+  // Log every app event while developing
+  useEffect(() => {
+    if (!__DEV__) return;
+    return eventEmitter.onAny((event, data) => console.log(`EVENT: ${event}`, data));
+  }, []);
+
   if (!loaded) {
     return null;
   }
 
   return (
     <AuthProvider>
-      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Stack>
-          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-          <Stack.Screen name="+not-found" />
-          <Stack.Screen 
-            name="add-debt" 
-            options={{ 
-              presentation: 'modal',
-              headerTitle: 'Add Debt',
-              headerTitleStyle: {
-                fontFamily: 'Aeonik-Black',
-              },
-              headerTintColor: Colors.light.tint,
-              headerStyle: {
-                backgroundColor: colorScheme === 'dark' ? Colors.dark.background : Colors.light.background,
-              }
-            }} 
-          />
-          <Stack.Screen 
-            name="profile-edit" 
-            options={{ 
-              presentation: 'modal',
-              headerShown: false,
-              animation: 'slide_from_right',
-            }} 
-          />
-          <Stack.Screen 
-            name="auth/login" 
-            options={{ 
-              headerTitle: 'Login',
-              headerTitleStyle: {
-                fontFamily: 'Aeonik-Black',
-              },
-              headerShown: false,
-            }} 
-          />
-          <Stack.Screen 
-            name="auth/signup" 
-            options={{ 
-              headerTitle: 'Sign Up',
-              headerTitleStyle: {
-                fontFamily: 'Aeonik-Black',
-              },
-              headerShown: false,
-            }} 
-          />
-        </Stack>
-        <StatusBar style="auto" />
-      </ThemeProvider>
+      <DataProvider>
+        <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+          <Stack>
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="+not-found" />
+            <Stack.Screen 
+              name="add-debt" 
+              options={{ 
+                presentation: 'modal',
+                headerTitle: 'Add Debt',
+                headerTitleStyle: {
+                  fontFamily: 'Aeonik-Black',
+                },
+                headerTintColor: Colors.light.tint,
+                headerStyle: {
+                  backgroundColor: colorScheme === 'dark' ? Colors.dark.background : Colors.light.background,
+                }
+              }} 
+            />
+            <Stack.Screen 
+              name="profile-edit" 
+              options={{ 
+                presentation: 'modal',
+                headerShown: false,
+                animation: 'slide_from_right',
+              }} 
+            />
+            <Stack.Screen 
+              name="currency-settings" 
+              options={{ 
+                headerShown: false,
+                animation: 'slide_from_right',
+              }} 
+            />
+            <Stack.Screen 
+              name="reminder-templates" 
+              options={{ 
+                headerShown: false,
+                animation: 'slide_from_right',
+              }} 
+            />
+            <Stack.Screen 
+              name="import-debts" 
+              options={{ 
+                headerShown: false,
+                animation: 'slide_from_right',
+              }} 
+            />
+            <Stack.Screen 
+              name="recurring-series" 
+              options={{ 
+                headerShown: false,
+                animation: 'slide_from_right',
+              }} 
+            />
+            <Stack.Screen 
+              name="auth/login" 
+              options={{ 
+                headerTitle: 'Login',
+                headerTitleStyle: {
+                  fontFamily: 'Aeonik-Black',
+                },
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="auth/signup" 
+              options={{ 
+                headerTitle: 'Sign Up',
+                headerTitleStyle: {
+                  fontFamily: 'Aeonik-Black',
+                },
+                headerShown: false,
+              }} 
+            />
+          </Stack>
+          <StatusBar style="auto" />
+        </ThemeProvider>
+      </DataProvider>
     </AuthProvider>
   );
 }
@@ -8,23 +8,32 @@ import { ActivityIndicator, Alert, KeyboardAvoidingView, Platform, Pressable, Sc
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import ContactsModal from '@/components/ContactsModal';
+import CurrencyPicker from '@/components/CurrencyPicker';
 import DebtModeSelector, { DebtMode } from '@/components/DebtModeSelector';
+import DueDatePicker from '@/components/DueDatePicker';
 import GroupDebtForm from '@/components/GroupDebtForm';
 import { GroupMember } from '@/components/GroupMemberItem';
 import RecurringOptionsComponent from '@/components/RecurringOptionsComponent';
+import SharedExpensesForm from '@/components/SharedExpensesForm';
 import { ThemedText } from '@/components/ThemedText';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/contexts/AuthContext';
-import { addDebtToGroup, createDebt, createDebtGroup, updateDebt } from '@/firebase/firestore';
-import { RecurringFrequency, RecurringOptions as RecurringOptionsType } from '@/firebase/models';
+import { CurrencyCode, RecurringFrequency, RecurringOptions as RecurringOptionsType } from '@/firebase/models';
+import { usesDayOfMonth, usesDayOfWeek } from '@/functions/recurrence';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { useCurrencySettings } from '@/hooks/useCurrencySettings';
+import { formatCurrency, getCurrencyInfo, isCurrencyCode } from '@/utils/currency';
+import { DEFAULT_GRACE_PERIOD_DAYS } from '@/utils/dueDates';
 import eventEmitter from '@/utils/eventEmitter';
+import { getQueuedDebt, getQueuedGroup } from '@/utils/offlineStore';
+import { getSyncStatus, queueCreateDebt, queueCreateDebtGroup, queueUpdateDebt } from '@/utils/offlineSync';
 
 export default function AddDebtScreen() {
   const router = useRouter();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const { currentUser } = useAuth();
+  const { homeCurrency } = useCurrencySettings();
   const params = useLocalSearchParams();
   
   // Check if we're in edit mode
@@ -42,12 +51,18 @@ export default function AddDebtScreen() {
     params.amount as string || 
     ''
   );
+  const [currency, setCurrency] = useState<CurrencyCode>(
+    isCurrencyCode(editDebt?.currency) ? editDebt.currency :
+    isCurrencyCode(params.currency) ? params.currency as CurrencyCode :
+    homeCurrency
+  );
   const [description, setDescription] = useState(
     editDebt?.description || 
     params.description as string || 
     ''
   );
   const [phoneNumber, setPhoneNumber] = useState(editDebt?.phoneNumber || '');
+  const [dueDate, setDueDate] = useState<Date | null>(editDebt?.dueDate ? new Date(editDebt.dueDate) : null);
   const [loading, setLoading] = useState(false);
   const [contactsModalVisible, setContactsModalVisible] = useState(false);
   
@@ -60,8 +75,12 @@ export default function AddDebtScreen() {
     frequency: (editDebt?.recurringFrequency as RecurringFrequency) || 'monthly',
     startDate: editDebt?.recurringStartDate ? new Date(editDebt.recurringStartDate) : new Date(),
     endDate: editDebt?.recurringEndDate ? new Date(editDebt.recurringEndDate) : null,
+    gracePeriodDays: DEFAULT_GRACE_PERIOD_DAYS,
   });
   
+  // New recurring debts get their due dates from the grace period instead
+  const showDueDate = isEditMode || !recurringOptions.isRecurring;
+  
   // Handle contact selection
   const handleSelectContact = (contact: Contacts.Contact) => {
     const fullName = `${contact.firstName || ''} ${contact.lastName || ''}`.trim();
@@ -105,20 +124,29 @@ export default function AddDebtScreen() {
       const debtData = {
         debtorName: name.trim(),
         amount: parseFloat(amount),
+        currency,
         description: description.trim(),
         phoneNumber: phoneNumber.trim(),
         isRecurring: recurringOptions.isRecurring,
       };
       
+      if (showDueDate) {
+        Object.assign(debtData, { dueDate: dueDate ? dueDate.toISOString() : null });
+      }
+      
       // Add recurring fields if it's a recurring debt
       if (recurringOptions.isRecurring) {
         Object.assign(debtData, {
           recurringFrequency: recurringOptions.frequency,
+          recurringInterval: recurringOptions.interval ?? null,
+          recurringIntervalUnit: recurringOptions.intervalUnit ?? null,
           recurringStartDate: recurringOptions.startDate.toISOString(),
           recurringEndDate: recurringOptions.endDate ? recurringOptions.endDate.toISOString() : null,
-          recurringDay: recurringOptions.frequency === 'weekly' || recurringOptions.frequency === 'biweekly'
+          recurringOccurrenceCount: recurringOptions.occurrenceCount ?? null,
+          recurringDay: usesDayOfWeek(recurringOptions)
             ? recurringOptions.dayOfWeek
-            : recurringOptions.dayOfMonth
+            : recurringOptions.dayOfMonth,
+          recurringGracePeriodDays: recurringOptions.gracePeriodDays ?? null
         });
       }
       
@@ -126,24 +154,23 @@ export default function AddDebtScreen() {
       
       let result;
       if (isEditMode && editDebt?.id) {
-        // Update existing debt
-        result = await updateDebt(currentUser.uid, editDebt.id, debtData);
-        console.log('Successfully updated debt:', result);
+        // Update existing debt (queued so it works offline)
+        result = await queueUpdateDebt(currentUser.uid, editDebt.id, debtData);
+        console.log('Queued debt update:', result);
       } else {
-        // Create new debt
-        result = await createDebt(currentUser.uid, debtData);
-        console.log('Successfully created debt:', result);
+        // Create new debt (queued so it works offline)
+        result = await queueCreateDebt(currentUser.uid, debtData);
+        console.log('Queued new debt:', result);
+        eventEmitter.emit('DEBT_ADDED', getQueuedDebt(result));
       }
       
-      // Emit an event that a debt was added/updated - this will trigger a refresh on the home screen
-      eventEmitter.emit('DEBT_ADDED', result);
-      
       const phoneNumberInfo = phoneNumber ? ` (Phone: ${phoneNumber})` : '';
       const recurringInfo = recurringOptions.isRecurring ? ` (${recurringOptions.frequency})` : '';
+      const syncInfo = getSyncStatus().isOnline ? '' : ' It will sync when you\'re back online.';
       
       Alert.alert(
         isEditMode ? 'Debt Updated' : 'Debt Added', 
-        `Successfully ${isEditMode ? 'updated' : 'added'}${recurringInfo} debt of $${amount} from ${name}${phoneNumberInfo}.`,
+        `Successfully ${isEditMode ? 'updated' : 'added'}${recurringInfo} debt of ${formatCurrency(parseFloat(amount), currency)} from ${name}${phoneNumberInfo}.${syncInfo}`,
         [{ 
           text: 'OK', 
           onPress: () => {
@@ -168,7 +195,9 @@ export default function AddDebtScreen() {
     groupName: string, 
     groupDescription: string, 
     members: Omit<GroupMember, 'id'>[],
-    recurringOptions: RecurringOptionsType
+    recurringOptions: RecurringOptionsType,
+    groupCurrency: CurrencyCode,
+    groupDueDate: Date | null
   ) => {
     if (!currentUser) {
       Alert.alert('Authentication Error', 'You must be logged in to create group debts.');
@@ -186,7 +215,9 @@ export default function AddDebtScreen() {
       // First create the group with recurring options if needed
       const groupData: any = {
         name: groupName,
-        description: groupDescription
+        description: groupDescription,
+        currency: groupCurrency,
+        dueDate: groupDueDate ? groupDueDate.toISOString() : null
       };
       
       // Add recurring options if enabled
@@ -194,47 +225,41 @@ export default function AddDebtScreen() {
         Object.assign(groupData, {
           isRecurring: true,
           frequency: recurringOptions.frequency,
+          interval: recurringOptions.interval ?? null,
+          intervalUnit: recurringOptions.intervalUnit ?? null,
           startDate: recurringOptions.startDate,
           endDate: recurringOptions.endDate,
-          dayOfMonth: recurringOptions.frequency === 'monthly' || 
-                     recurringOptions.frequency === 'quarterly' || 
-                     recurringOptions.frequency === 'yearly' 
-                     ? recurringOptions.dayOfMonth : null,
-          dayOfWeek: recurringOptions.frequency === 'weekly' || 
-                    recurringOptions.frequency === 'biweekly' 
-                    ? recurringOptions.dayOfWeek : null
+          occurrenceCount: recurringOptions.occurrenceCount ?? null,
+          dayOfMonth: usesDayOfMonth(recurringOptions) ? recurringOptions.dayOfMonth : null,
+          dayOfWeek: usesDayOfWeek(recurringOptions) ? recurringOptions.dayOfWeek : null,
+          gracePeriodDays: recurringOptions.gracePeriodDays ?? null
         });
       }
       
-      const newGroup = await createDebtGroup(currentUser.uid, groupData) as { id: string };
-      
-      console.log('Successfully created group:', newGroup);
-      
-      // Then add each member as a debt to the group
-      const promises = members.map(member => {
-        return addDebtToGroup(
-          currentUser.uid,
-          newGroup.id as string,
-          {
-            debtorName: member.name,
-            amount: parseFloat(member.amount) || 0,
-            description: member.description || '',
-            phoneNumber: member.phoneNumber || '',
-          }
-        );
-      });
-      
-      await Promise.all(promises);
+      // Create the group with every member's debt (queued so it works offline)
+      const result = await queueCreateDebtGroup(
+        currentUser.uid,
+        groupData,
+        members.map(member => ({
+          debtorName: member.name,
+          amount: parseFloat(member.amount) || 0,
+          currency: groupCurrency,
+          description: member.description || '',
+          phoneNumber: member.phoneNumber || '',
+          ...(groupData.dueDate ? { dueDate: groupData.dueDate } : {})
+        }))
+      );
       
-      // Emit event to update the home screen
-      eventEmitter.emit('DEBT_ADDED', newGroup);
+      console.log('Queued new group:', result);
+      eventEmitter.emit('DEBT_ADDED', getQueuedGroup(result));
       
       const recurringText = recurringOptions.isRecurring ? 
         ` (${recurringOptions.frequency})` : '';
+      const syncInfo = getSyncStatus().isOnline ? '' : ' It will sync when you\'re back online.';
       
       Alert.alert(
         'Group Created', 
-        `Successfully created${recurringText} "${groupName}" with ${members.length} debts.`,
+        `Successfully created${recurringText} "${groupName}" with ${members.length} debts.${syncInfo}`,
         [{ 
           text: 'OK', 
           onPress: () => {
@@ -254,6 +279,46 @@ export default function AddDebtScreen() {
     }
   };
   
+  // Handle creating a shared expense group, then open it so expenses can be added
+  const handleCreateExpenseGroup = async (
+    groupName: string,
+    groupDescription: string,
+    members: string[],
+    groupCurrency: CurrencyCode
+  ) => {
+    if (!currentUser) {
+      Alert.alert('Authentication Error', 'You must be logged in to create groups.');
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      
+      // Queued so it works offline; the group screen shows it straight away
+      const result = await queueCreateDebtGroup(currentUser.uid, {
+        name: groupName,
+        description: groupDescription,
+        currency: groupCurrency,
+        mode: 'sharedExpenses',
+        members
+      });
+      eventEmitter.emit('DEBT_ADDED', getQueuedGroup(result));
+      
+      router.replace({
+        pathname: '/group-detail',
+        params: { groupId: result.groupId }
+      });
+    } catch (error) {
+      console.error('Create expense group error:', error);
+      Alert.alert(
+        'Error Creating Group', 
+        'There was a problem creating your group. Please try again.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+  
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar style="light" />
@@ -357,9 +422,12 @@ export default function AddDebtScreen() {
               <View style={styles.labelContainer}>
                 <Ionicons name="cash-outline" size={18} color={Colors.light.tint} style={styles.labelIcon} />
                 <ThemedText style={styles.label}>How much?</ThemedText>
+                <View style={styles.currencyPickerContainer}>
+                  <CurrencyPicker value={currency} onChange={setCurrency} />
+                </View>
               </View>
               <View style={styles.amountContainer}>
-                <ThemedText style={styles.currencySymbol}>$</ThemedText>
+                <ThemedText style={styles.currencySymbol}>{getCurrencyInfo(currency).symbol}</ThemedText>
                 <TextInput
                   style={styles.amountInput}
                   placeholder="0.00"
@@ -391,6 +459,16 @@ export default function AddDebtScreen() {
               />
             </View>
             
+            {showDueDate && (
+              <>
+                <View style={styles.divider} />
+                
+                <View style={styles.formSection}>
+                  <DueDatePicker value={dueDate} onChange={setDueDate} />
+                </View>
+              </>
+            )}
+            
             <View style={styles.divider} />
             
             <View style={styles.formSection}>
@@ -400,12 +478,18 @@ export default function AddDebtScreen() {
               />
             </View>
           </LinearGradient>
-          ) : (
+          ) : debtMode === 'group' ? (
             // Group Debt Form
             <GroupDebtForm 
               onCreateGroup={handleCreateGroupDebt}
               isLoading={loading}
             />
+          ) : (
+            // Shared Expenses Form
+            <SharedExpensesForm
+              onCreateGroup={handleCreateExpenseGroup}
+              isLoading={loading}
+            />
           )}
           
           {/* Only show the Save button for single debt mode */}
@@ -587,6 +671,9 @@ const styles = StyleSheet.create({
     borderColor: 'rgba(255,255,255,0.1)',
     fontFamily: 'AeonikBlack-Regular',
   },
+  currencyPickerContainer: {
+    marginLeft: 'auto',
+  },
   amountContainer: {
     flexDirection: 'row',
     alignItems: 'center',
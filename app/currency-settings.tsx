@@ -0,0 +1,319 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, Pressable, ScrollView, Alert, TextInput, KeyboardAvoidingView, Platform } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+
+import CurrencyPicker from '@/components/CurrencyPicker';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { updateUserProfile } from '@/firebase/firestore';
+import { CurrencyCode } from '@/firebase/models';
+import { useCurrencySettings } from '@/hooks/useCurrencySettings';
+import { CURRENCIES, CURRENCY_CODES, ExchangeRates } from '@/utils/currency';
+import { resetExchangeRates, saveExchangeRates } from '@/utils/exchangeRates';
+
+export default function CurrencySettingsScreen() {
+  const router = useRouter();
+  const { currentUser, refreshUserProfile } = useAuth();
+  const { homeCurrency, rates } = useCurrencySettings();
+
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Keep the inputs in sync with the stored rate table
+  useEffect(() => {
+    const inputs: Record<string, string> = {};
+    CURRENCY_CODES.forEach(code => {
+      inputs[code] = rates[code].toString();
+    });
+    setRateInputs(inputs);
+  }, [rates]);
+
+  // Handle changing the home currency
+  const handleHomeCurrencyChange = async (currency: CurrencyCode) => {
+    if (!currentUser || currency === homeCurrency) return;
+
+    try {
+      await updateUserProfile(currentUser.uid, { homeCurrency: currency });
+      await refreshUserProfile();
+    } catch (err) {
+      console.error('Error updating home currency:', err);
+      Alert.alert('Error', 'Failed to update your home currency');
+    }
+  };
+
+  // Handle saving the edited rate table
+  const handleSaveRates = async () => {
+    const updatedRates = { ...rates } as ExchangeRates;
+
+    for (const code of CURRENCY_CODES) {
+      if (code === 'USD') continue;
+
+      const rate = parseFloat(rateInputs[code]);
+      if (isNaN(rate) || rate <= 0) {
+        Alert.alert('Invalid Rate', `Please enter a rate greater than zero for ${code}`);
+        return;
+      }
+      updatedRates[code] = rate;
+    }
+
+    setSaving(true);
+
+    try {
+      await saveExchangeRates(updatedRates);
+      Alert.alert('Success', 'Exchange rates saved');
+    } catch (err) {
+      console.error('Error saving exchange rates:', err);
+      Alert.alert('Error', 'Failed to save exchange rates');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Handle restoring the default rate table
+  const handleResetRates = () => {
+    Alert.alert(
+      'Reset Exchange Rates',
+      'Are you sure you want to restore the default exchange rates?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await resetExchangeRates();
+            } catch (err) {
+              console.error('Error resetting exchange rates:', err);
+              Alert.alert('Error', 'Failed to reset exchange rates');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="light" />
+
+      <LinearGradient
+        colors={['rgba(18,18,18,0.98)', 'rgba(28,28,28,0.95)']}
+        style={styles.backgroundGradient}
+      />
+
+      <Stack.Screen
+        options={{
+          headerShown: false
+        }}
+      />
+
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={24} color={Colors.light.tint} />
+        </Pressable>
+        <ThemedText type="subtitle" style={styles.headerTitle}>Currency</ThemedText>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={{ flex: 1 }}
+      >
+        <ScrollView
+          style={styles.scrollContainer}
+          contentContainerStyle={styles.contentContainer}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Home Currency */}
+          <LinearGradient
+            colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+            style={styles.card}
+          >
+            <View style={styles.homeCurrencyRow}>
+              <View style={styles.homeCurrencyInfo}>
+                <Text style={styles.cardTitle}>Home Currency</Text>
+                <Text style={styles.cardSubtitle}>Totals on your home screen are shown in this currency</Text>
+              </View>
+              <CurrencyPicker value={homeCurrency} onChange={handleHomeCurrencyChange} />
+            </View>
+          </LinearGradient>
+
+          {/* Exchange Rates */}
+          <LinearGradient
+            colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+            style={styles.card}
+          >
+            <Text style={styles.cardTitle}>Exchange Rates</Text>
+            <Text style={styles.cardSubtitle}>Stored on this device. Enter how much of each currency equals 1 USD.</Text>
+
+            {CURRENCY_CODES.filter(code => code !== 'USD').map(code => (
+              <View key={code} style={styles.rateRow}>
+                <View style={styles.rateLabelContainer}>
+                  <Text style={styles.rateCode}>{code}</Text>
+                  <Text style={styles.rateName}>{CURRENCIES[code].name}</Text>
+                </View>
+                <Text style={styles.rateEquals}>1 USD =</Text>
+                <TextInput
+                  style={styles.rateInput}
+                  value={rateInputs[code] || ''}
+                  onChangeText={(value) => setRateInputs(prev => ({ ...prev, [code]: value }))}
+                  keyboardType="decimal-pad"
+                  placeholder="0.00"
+                  placeholderTextColor="rgba(255,255,255,0.3)"
+                  selectionColor={Colors.light.tint}
+                />
+              </View>
+            ))}
+          </LinearGradient>
+
+          <Pressable
+            style={({pressed}) => [
+              styles.saveButton,
+              {opacity: pressed || saving ? 0.8 : 1}
+            ]}
+            onPress={handleSaveRates}
+            disabled={saving}
+          >
+            <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save Rates'}</Text>
+          </Pressable>
+
+          <Pressable style={styles.resetButton} onPress={handleResetRates}>
+            <Text style={styles.resetButtonText}>Restore Default Rates</Text>
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  backgroundGradient: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerTitle: {
+    fontSize: 18,
+    color: '#fff',
+    fontFamily: 'Aeonik-Black',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(74, 226, 144, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    borderRadius: 20,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    padding: 20,
+    marginBottom: 20,
+  },
+  cardTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+    marginBottom: 4,
+  },
+  cardSubtitle: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 12,
+  },
+  homeCurrencyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  homeCurrencyInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.05)',
+  },
+  rateLabelContainer: {
+    flex: 1,
+  },
+  rateCode: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+  },
+  rateName: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  rateEquals: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginRight: 8,
+  },
+  rateInput: {
+    width: 100,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'AeonikBlack-Regular',
+    textAlign: 'right',
+  },
+  saveButton: {
+    backgroundColor: Colors.light.tint,
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#000',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+  },
+  resetButton: {
+    marginTop: 16,
+    padding: 12,
+    alignItems: 'center',
+  },
+  resetButtonText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+});
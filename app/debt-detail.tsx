@@ -1,30 +1,69 @@
 import React, { useState, useEffect } from 'react';
-import { StyleSheet, View, Text, Pressable, ScrollView, Alert, Linking, Platform } from 'react-native';
+import { StyleSheet, View, Text, Pressable, ScrollView, Alert, Platform, Modal, TextInput, KeyboardAvoidingView, Image } from 'react-native';
 import { Stack, useRouter, useLocalSearchParams } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import * as Clipboard from 'expo-clipboard';
 
 import { ThemedText } from '@/components/ThemedText';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/contexts/AuthContext';
-import { getRecurringDebtById, markDebtAsPaid } from '@/firebase/firestore';
-import { Debt, RecurringDebt, RecurringFrequency } from '@/firebase/models';
+import { useDebts, useRecurringDebts } from '@/contexts/DataContext';
+import { confirmSharedDebtPayment, getSharedDebt, shareDebtWithUser, unshareDebt, updateDebtReminderSchedule } from '@/firebase/firestore';
+import { Debt, Receipt, ReminderSchedule, SharedDebt } from '@/firebase/models';
+import { getReceipt } from '@/firebase/repository';
 import eventEmitter from '@/utils/eventEmitter';
+import { formatAmount, formatCurrency, getCurrencyInfo } from '@/utils/currency';
+import { getPaidAmount, getRemainingBalance, isPartiallyPaid } from '@/utils/debtBalance';
+import { describeDueDate, getDaysUntilDue, isOverdue } from '@/utils/dueDates';
+import { DEFAULT_REMINDER_TEMPLATE_SETTINGS, REMINDER_TONES, ReminderTemplateSettings, ReminderTone, buildReminderMessage, getPaymentLink, openReminderMessage } from '@/utils/reminderMessages';
+import { fromMinorUnits, toMinorUnits } from '@/utils/money';
+import { getSyncStatus, queueMarkDebtAsPaid, queueRecordPayment } from '@/utils/offlineSync';
+import { allocateReceipt, getItemSharesMinor } from '@/utils/receiptAllocation';
+import { describeFrequency } from '@/utils/recurringSeries';
+import { loadReminderTemplates } from '@/utils/reminderTemplates';
+import { DEFAULT_REMINDER_SCHEDULE, FIRST_REMINDER_OPTIONS, REPEAT_REMINDER_OPTIONS, describeReminderSchedule, describeRepeat } from '@/utils/reminders';
 
-// Helper function to format recurring frequency in a user-friendly way
-const formatRecurringFrequency = (frequency: RecurringFrequency): string => {
-  switch (frequency) {
-    case 'daily': return 'Daily';
-    case 'weekly': return 'Weekly';
-    case 'biweekly': return 'Every 2 weeks';
-    case 'monthly': return 'Monthly';
-    case 'quarterly': return 'Every 3 months';
-    case 'yearly': return 'Yearly';
-    default: return 'Recurring';
-  }
+// Payment methods that can be selected when recording a payment
+const PAYMENT_METHOD_OPTIONS = [
+  { type: 'venmo', label: 'Venmo' },
+  { type: 'zelle', label: 'Zelle' },
+  { type: 'cashapp', label: 'Cash App' },
+  { type: 'paypal', label: 'PayPal' },
+  { type: 'applepay', label: 'Apple Pay' },
+  { type: 'cash', label: 'Cash' },
+  { type: 'other', label: 'Other' },
+];
+
+// Helper function to get a display label for a payment method type
+const formatPaymentMethod = (method?: string): string => {
+  const option = PAYMENT_METHOD_OPTIONS.find(opt => opt.type === method);
+  return option ? option.label : 'Payment';
+};
+
+// The debtor's items and charges on the receipt their debt was split from
+const getReceiptBreakdown = (receipt: Receipt, debtId?: string) => {
+  const person = receipt.people.find(receiptPerson => receiptPerson.debtId === debtId);
+  if (!person) return null;
+  
+  const items = receipt.items
+    .filter(item => item.split)
+    .map(item => ({
+      item,
+      share: fromMinorUnits(getItemSharesMinor(item, receipt.currency)[person.id] || 0, receipt.currency)
+    }))
+    .filter(line => line.share > 0);
+  
+  const { shares } = allocateReceipt({
+    items: receipt.items,
+    personIds: receipt.people.map(receiptPerson => receiptPerson.id),
+    charges: { tax: receipt.tax, tip: receipt.tip, extraFees: receipt.extraFees },
+    settings: receipt.allocationSettings,
+    currency: receipt.currency
+  });
+  
+  return { items, share: shares[person.id] };
 };
 
 export default function DebtDetailScreen() {
@@ -32,8 +71,45 @@ export default function DebtDetailScreen() {
   const params = useLocalSearchParams();
   const { currentUser, userProfile } = useAuth();
   
-  const [debt, setDebt] = useState<Debt | null>(null);
-  const [recurringInfo, setRecurringInfo] = useState<RecurringDebt | null>(null);
+  const [paramDebt, setParamDebt] = useState<Debt | null>(null);
+  const { debts } = useDebts();
+  const { recurringDebts } = useRecurringDebts();
+  
+  // The debt passed in from the list, kept up to date by the live listener
+  const debt = debts.find(liveDebt => liveDebt.id === paramDebt?.id) ?? paramDebt;
+  const recurringInfo = debt?.isRecurring && debt.recurringId
+    ? recurringDebts.find(recurringDebt => recurringDebt.id === debt.recurringId)
+    : undefined;
+  
+  // Record payment modal state
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('');
+  const [paymentNote, setPaymentNote] = useState('');
+  const [savingPayment, setSavingPayment] = useState(false);
+  
+  // Shared debt state (when the debtor is linked to a Paid account)
+  const [sharedDebt, setSharedDebt] = useState<SharedDebt | null>(null);
+  const [showShareModal, setShowShareModal] = useState(false);
+  const [shareUsername, setShareUsername] = useState('');
+  const [sharing, setSharing] = useState(false);
+  
+  // Reminder message state
+  const [showRemindModal, setShowRemindModal] = useState(false);
+  const [reminderTemplates, setReminderTemplates] = useState<ReminderTemplateSettings>(DEFAULT_REMINDER_TEMPLATE_SETTINGS);
+  const [reminderTone, setReminderTone] = useState<ReminderTone>('friendly');
+  
+  // Reminder schedule state
+  const [showReminderModal, setShowReminderModal] = useState(false);
+  const [reminderDraft, setReminderDraft] = useState<ReminderSchedule>(DEFAULT_REMINDER_SCHEDULE);
+  const [savingReminder, setSavingReminder] = useState(false);
+  
+  // The scanned receipt the debt was split from
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [showReceiptImage, setShowReceiptImage] = useState(false);
+  const receiptBreakdown = receipt ? getReceiptBreakdown(receipt, debt?.id) : null;
+  const receiptImageUrls = receipt?.pageImages?.map(image => image.url)
+    ?? (receipt?.imageUrl ? [receipt.imageUrl] : []);
   
   // Parse debt from params on mount - use empty dependency array to only run once
   useEffect(() => {
@@ -41,7 +117,7 @@ export default function DebtDetailScreen() {
       if (params.debt) {
         // Parse the debt object from JSON
         const debtObject = JSON.parse(params.debt as string) as Debt;
-        setDebt(debtObject);
+        setParamDebt(debtObject);
       }
     } catch (err) {
       console.error('Error parsing debt from params:', err);
@@ -49,110 +125,232 @@ export default function DebtDetailScreen() {
     }
   }, []); // Empty dependency array ensures this only runs once
   
-  // Fetch recurring info if needed
+  // Fetch the shared copy to see whether the debtor has marked it as sent
   useEffect(() => {
-    const fetchRecurringInfo = async () => {
-      if (debt?.isRecurring && debt?.recurringId && currentUser) {
-        try {
-          const data = await getRecurringDebtById(currentUser.uid, debt.recurringId);
-          if (data) {
-            setRecurringInfo(data as RecurringDebt);
-          }
-        } catch (err) {
-          console.error('Error fetching recurring info:', err);
-        }
+    const fetchSharedDebt = async () => {
+      if (!debt?.sharedDebtId) {
+        setSharedDebt(null);
+        return;
+      }
+      
+      try {
+        const data = await getSharedDebt(debt.sharedDebtId);
+        setSharedDebt(data as SharedDebt | null);
+      } catch (err) {
+        console.error('Error fetching shared debt:', err);
       }
     };
     
-    fetchRecurringInfo();
-  }, [debt, currentUser]);
+    fetchSharedDebt();
+  }, [debt?.sharedDebtId, debt?.isPaid]);
   
-  // Check if user has a valid payment link
-  const hasValidPaymentLink = () => {
-    if (!userProfile) return false;
+  // Fetch the receipt the debt was split from, again whenever its split is edited
+  useEffect(() => {
+    const fetchReceipt = async () => {
+      if (!debt?.receiptId || !currentUser) {
+        setReceipt(null);
+        return;
+      }
+      
+      try {
+        const data = await getReceipt(currentUser.uid, debt.receiptId);
+        setReceipt(data);
+      } catch (err) {
+        console.error('Error fetching receipt:', err);
+      }
+    };
     
-    // Check if username exists
-    if (!userProfile.username) return false;
+    fetchReceipt();
+  }, [debt?.receiptId, debt?.updatedAt, currentUser]);
+  
+  // Preview the reminder in the chosen tone before opening the messages app
+  const openRemindModal = async () => {
+    const templates = await loadReminderTemplates();
+    setReminderTemplates(templates);
+    setReminderTone(templates.defaultTone);
+    setShowRemindModal(true);
+  };
+  
+  // Build the reminder message for this debt
+  const getReminderMessage = (tone: ReminderTone) => {
+    if (!debt) return '';
+    return buildReminderMessage(debt, reminderTemplates, { tone, paymentLink: getPaymentLink(userProfile) });
+  };
+  
+  // Handle sending the reminder
+  const handleRemind = async () => {
+    if (!debt) return;
     
-    // Check if user has a profile setup with at least one of these fields
-    const hasProfileData = userProfile.profile && 
-      (userProfile.profile.name || 
-       userProfile.profile.location || 
-       userProfile.profileImageUrl || 
-       userProfile.profile.backgroundImageUrl ||
-       (userProfile.profile.paymentMethods && 
-        userProfile.profile.paymentMethods.some((method: any) => method.value)));
-        
-    return hasProfileData;
+    setShowRemindModal(false);
+    await openReminderMessage(getReminderMessage(reminderTone), debt.phoneNumber);
   };
   
-  // Handle the remind button press
-  const handleRemind = () => {
+  // Handle marking the debt as paid
+  const handleMarkPaid = async () => {
+    if (!debt || !currentUser || debt.isPaid) return;
+    
+    try {
+      // Queued so it works offline
+      await queueMarkDebtAsPaid(currentUser.uid, debt.id!);
+      eventEmitter.emit('DEBT_PAID', { debtId: debt.id!, isPaid: true });
+      
+      const syncInfo = getSyncStatus().isOnline ? '' : ' It will sync when you\'re back online.';
+      Alert.alert('Success', `Debt marked as paid.${syncInfo}`);
+    } catch (err) {
+      console.error('Error marking debt as paid:', err);
+      Alert.alert('Error', 'Failed to mark debt as paid');
+    }
+  };
+  
+  // Open the record payment modal prefilled with the remaining balance
+  const openPaymentModal = () => {
     if (!debt) return;
     
-    // Create base SMS message text
-    let message = `Hey, just a reminder that you owe me $${debt.amount.toFixed(2)}${debt.description ? ` for ${debt.description}` : ''}.`;
+    setPaymentAmount(formatAmount(getRemainingBalance(debt), debt.currency));
+    setPaymentMethod('');
+    setPaymentNote('');
+    setShowPaymentModal(true);
+  };
+  
+  // Handle recording a (partial) payment
+  const handleRecordPayment = async () => {
+    if (!debt || !currentUser || debt.isPaid) return;
+    
+    const amount = parseFloat(paymentAmount);
+    const remaining = getRemainingBalance(debt);
     
-    // Add payment link if available
-    if (userProfile?.username && hasValidPaymentLink()) {
-      message += `\n\nPay here: trypaid.io/${userProfile.username}`;
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Invalid Amount', 'Please enter an amount greater than zero');
+      return;
     }
     
-    // Encode the message for use in the URL
-    const encodedMessage = encodeURIComponent(message);
+    if (amount > remaining) {
+      Alert.alert('Invalid Amount', `The payment can't be more than the remaining ${formatCurrency(remaining, debt.currency)}`);
+      return;
+    }
     
-    // If we have a phone number, use it to fill the recipient and the message
-    if (debt.phoneNumber) {
-      const phoneNumber = debt.phoneNumber.replace(/\D/g, ''); // Remove non-numeric characters
-      
-      // Create the SMS URL for opening the messages app with number and message
-      const url = Platform.OS === 'ios' 
-        ? `sms:${phoneNumber}&body=${encodedMessage}`
-        : `sms:${phoneNumber}?body=${encodedMessage}`;
-      
-      Linking.openURL(url).catch(err => {
-        console.error('Error opening messages app:', err);
-      });
-    } else {
-      // If no phone number, just open the messages app with the message body
-      const url = Platform.OS === 'ios' 
-        ? `sms:&body=${encodedMessage}`
-        : `sms:?body=${encodedMessage}`;
-        
-      Linking.openURL(url).catch(err => {
-        console.error('Error opening messages app:', err);
-        
-        // Fallback to clipboard if linking fails
-        Clipboard.setString(message);
-        Alert.alert(
-          'Message Copied',
-          'The reminder message has been copied to your clipboard.'
-        );
+    setSavingPayment(true);
+    
+    try {
+      // Queued so it works offline
+      await queueRecordPayment(currentUser.uid, debt.id!, {
+        amount,
+        method: paymentMethod,
+        note: paymentNote.trim()
       });
+      setShowPaymentModal(false);
+      
+      if (toMinorUnits(amount, debt.currency) >= toMinorUnits(remaining, debt.currency)) {
+        eventEmitter.emit('DEBT_PAID', { debtId: debt.id!, isPaid: true });
+        Alert.alert('Success', 'Payment recorded. This debt is now fully paid!');
+      }
+    } catch (err) {
+      console.error('Error recording payment:', err);
+      Alert.alert('Error', 'Failed to record payment');
+    } finally {
+      setSavingPayment(false);
     }
   };
   
-  // Handle marking the debt as paid
-  const handleMarkPaid = async () => {
-    if (!debt || !currentUser || debt.isPaid) return;
+  // Link the debt to the debtor's Paid account so they can see it in their app
+  const handleShare = async () => {
+    if (!debt || !currentUser) return;
+    
+    const username = shareUsername.trim().replace(/^@/, '');
+    if (!username) {
+      Alert.alert('Missing Username', 'Please enter the Paid username of the person who owes you');
+      return;
+    }
+    
+    if (userProfile?.username && username.toLowerCase() === userProfile.username.toLowerCase()) {
+      Alert.alert('Invalid Username', "You can't share a debt with yourself");
+      return;
+    }
+    
+    setSharing(true);
     
     try {
-      await markDebtAsPaid(currentUser.uid, debt.id!);
+      const shared = await shareDebtWithUser(currentUser.uid, debt.id!, username);
       
-      // Update local state
-      setDebt({
-        ...debt,
-        isPaid: true,
-        paidAt: new Date().toISOString()
-      });
+      if (!shared) {
+        Alert.alert('User Not Found', `No Paid user has the username @${username}`);
+        return;
+      }
       
-      // Emit event to update home screen
-      eventEmitter.emit('DEBT_UPDATED', {});
+      setSharedDebt(shared as SharedDebt);
+      setShowShareModal(false);
+      setShareUsername('');
+    } catch (err) {
+      console.error('Error sharing debt:', err);
+      Alert.alert('Error', 'Failed to share debt');
+    } finally {
+      setSharing(false);
+    }
+  };
+  
+  // Remove the link to the debtor's Paid account
+  const handleUnshare = () => {
+    if (!debt || !currentUser) return;
+    
+    Alert.alert(
+      'Unlink Account',
+      `@${debt.debtorUsername} will no longer see this debt in their app.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unlink',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await unshareDebt(currentUser.uid, debt.id!);
+              setSharedDebt(null);
+            } catch (err) {
+              console.error('Error unsharing debt:', err);
+              Alert.alert('Error', 'Failed to unlink account');
+            }
+          }
+        }
+      ]
+    );
+  };
+  
+  // Start editing from the debt's current schedule
+  const openReminderModal = () => {
+    if (!debt) return;
+    setReminderDraft(debt.reminderSchedule ? { ...debt.reminderSchedule, enabled: true } : DEFAULT_REMINDER_SCHEDULE);
+    setShowReminderModal(true);
+  };
+  
+  // Save (or turn off) the automatic reminder schedule
+  const handleSaveReminders = async (schedule: ReminderSchedule | null) => {
+    if (!debt || !currentUser) return;
+    
+    setSavingReminder(true);
+    
+    try {
+      await updateDebtReminderSchedule(currentUser.uid, debt.id!, schedule);
+      setShowReminderModal(false);
+    } catch (err) {
+      console.error('Error saving reminders:', err);
+      Alert.alert('Error', 'Failed to save reminders');
+    } finally {
+      setSavingReminder(false);
+    }
+  };
+  
+  // Respond to the debtor marking the debt as sent
+  const handleConfirmSent = async (received: boolean) => {
+    if (!debt || !currentUser || !sharedDebt) return;
+    
+    try {
+      await confirmSharedDebtPayment(currentUser.uid, sharedDebt.id!, received);
       
-      Alert.alert('Success', 'Debt marked as paid');
+      if (!received) {
+        setSharedDebt({ ...sharedDebt, status: 'pending', sentAt: null });
+      }
     } catch (err) {
-      console.error('Error marking debt as paid:', err);
-      Alert.alert('Error', 'Failed to mark debt as paid');
+      console.error('Error confirming payment:', err);
+      Alert.alert('Error', 'Failed to update payment status');
     }
   };
   
@@ -214,17 +412,23 @@ export default function DebtDetailScreen() {
               <View style={styles.recurringBadge}>
                 <Ionicons name="refresh" size={14} color={Colors.light.tint} />
                 <Text style={styles.recurringText}>
-                  {recurringInfo?.frequency ? formatRecurringFrequency(recurringInfo.frequency) : 'Recurring'}
+                  {recurringInfo ? describeFrequency(recurringInfo) : 'Recurring'}
                 </Text>
               </View>
             )}
           </View>
           
-          {/* Amount */}
+          {/* Amount - shows the remaining balance once payments have been made */}
           <Text style={[styles.amount, debt.isPaid && styles.paidAmount]}>
-            ${debt.amount.toFixed(2)}
+            {formatCurrency(debt.isPaid ? debt.amount : getRemainingBalance(debt), debt.currency)}
           </Text>
           
+          {isPartiallyPaid(debt) && (
+            <Text style={styles.remainingText}>
+              remaining of {formatCurrency(debt.amount, debt.currency)} · {formatCurrency(getPaidAmount(debt), debt.currency)} paid
+            </Text>
+          )}
+          
           {/* Paid Status */}
           {debt.isPaid && (
             <View style={styles.paidStatusContainer}>
@@ -247,6 +451,78 @@ export default function DebtDetailScreen() {
             <Text style={styles.infoValue}>{new Date(debt.createdAt).toLocaleDateString()}</Text>
           </View>
           
+          {debt.dueDate && (
+            <View style={styles.infoSection}>
+              <Text style={styles.infoLabel}>Due</Text>
+              <Text style={[styles.infoValue, isOverdue(debt) && styles.overdueValue]}>
+                {new Date(debt.dueDate).toLocaleDateString()}
+                {!debt.isPaid && getDaysUntilDue(debt.dueDate) <= 30 ? ` (${describeDueDate(debt.dueDate)})` : ''}
+              </Text>
+            </View>
+          )}
+          
+          {/* Sent by the debtor, waiting for confirmation */}
+          {!debt.isPaid && sharedDebt?.status === 'sent' && (
+            <View style={styles.sentBanner}>
+              <View style={styles.sentBannerHeader}>
+                <Ionicons name="paper-plane-outline" size={18} color="#FFC107" />
+                <Text style={styles.sentBannerText}>
+                  @{sharedDebt.debtorUsername} says they sent the money
+                  {sharedDebt.sentAt ? ` on ${new Date(sharedDebt.sentAt).toLocaleDateString()}` : ''}
+                </Text>
+              </View>
+              <View style={styles.sentBannerButtons}>
+                <Pressable
+                  style={({pressed}) => [styles.sentBannerButton, styles.confirmButton, {opacity: pressed ? 0.8 : 1}]}
+                  onPress={() => handleConfirmSent(true)}
+                >
+                  <Text style={styles.confirmButtonText}>Confirm</Text>
+                </Pressable>
+                <Pressable
+                  style={({pressed}) => [styles.sentBannerButton, {opacity: pressed ? 0.8 : 1}]}
+                  onPress={() => handleConfirmSent(false)}
+                >
+                  <Text style={styles.sentBannerButtonText}>Not Received</Text>
+                </Pressable>
+              </View>
+            </View>
+          )}
+          
+          {/* Linked Paid account */}
+          {debt.sharedDebtId && debt.debtorUsername && (
+            <View style={styles.infoSection}>
+              <Text style={styles.infoLabel}>Paid Account</Text>
+              <View style={styles.linkedAccountRow}>
+                <Text style={styles.infoValue}>@{debt.debtorUsername}</Text>
+                <Pressable onPress={handleUnshare}>
+                  <Text style={styles.unlinkText}>Unlink</Text>
+                </Pressable>
+              </View>
+            </View>
+          )}
+          
+          {/* Automatic reminders */}
+          {!debt.isPaid && (
+            <View style={styles.infoSection}>
+              <Text style={styles.infoLabel}>Reminders</Text>
+              <View style={styles.linkedAccountRow}>
+                <View style={styles.reminderInfo}>
+                  <Text style={styles.infoValue}>{describeReminderSchedule(debt.reminderSchedule)}</Text>
+                  {debt.nextReminderAt && (
+                    <Text style={styles.reminderNextText}>
+                      Next: {new Date(debt.nextReminderAt).toLocaleDateString()}
+                    </Text>
+                  )}
+                </View>
+                <Pressable onPress={openReminderModal}>
+                  <Text style={styles.editReminderText}>
+                    {debt.reminderSchedule?.enabled ? 'Edit' : 'Set Up'}
+                  </Text>
+                </Pressable>
+              </View>
+            </View>
+          )}
+          
           {/* Phone */}
           {debt.phoneNumber && (
             <View style={styles.infoSection}>
@@ -255,6 +531,80 @@ export default function DebtDetailScreen() {
             </View>
           )}
           
+          {/* Payments */}
+          {debt.payments && debt.payments.length > 0 && (
+            <View style={styles.paymentsContainer}>
+              <Text style={styles.paymentsTitle}>Payments</Text>
+              
+              {debt.payments.map(payment => (
+                <View key={payment.id} style={styles.paymentRow}>
+                  <View style={styles.paymentInfo}>
+                    <Text style={styles.paymentMethodText}>
+                      {formatPaymentMethod(payment.method)}
+                      {payment.note ? ` · ${payment.note}` : ''}
+                    </Text>
+                    <Text style={styles.paymentDateText}>
+                      {new Date(payment.paidAt).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  <Text style={styles.paymentAmountText}>{formatCurrency(payment.amount, debt.currency)}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+          
+          {/* Receipt the debt was split from */}
+          {receipt && (
+            <View style={styles.paymentsContainer}>
+              <View style={styles.receiptHeader}>
+                <Text style={[styles.paymentsTitle, { marginBottom: 0 }]}>Receipt</Text>
+                <Pressable
+                  onPress={() => router.push({ pathname: '/receipt-splitter', params: { receiptId: receipt.id! } })}
+                >
+                  <Text style={styles.editReminderText}>Edit Split</Text>
+                </Pressable>
+              </View>
+              
+              <View style={styles.receiptInfoRow}>
+                {receipt.imageUrl && (
+                  <Pressable onPress={() => setShowReceiptImage(true)}>
+                    <Image source={{ uri: receipt.imageUrl }} style={styles.receiptThumbnail} />
+                  </Pressable>
+                )}
+                <View style={styles.paymentInfo}>
+                  <Text style={styles.paymentMethodText}>{receipt.store || receipt.description}</Text>
+                  <Text style={styles.paymentDateText}>
+                    {receipt.date ? `${receipt.date} · ` : ''}Total {formatCurrency(receipt.total, receipt.currency)}
+                    {receiptImageUrls.length > 1 ? ` · ${receiptImageUrls.length} photos` : ''}
+                  </Text>
+                </View>
+              </View>
+              
+              {receiptBreakdown?.items.map(({ item, share }) => (
+                <View key={item.id} style={styles.paymentRow}>
+                  <View style={styles.paymentInfo}>
+                    <Text style={styles.paymentMethodText}>{item.quantity}x {item.name}</Text>
+                    {item.splitBetween.length > 1 && (
+                      <Text style={styles.paymentDateText}>Split {item.splitBetween.length} ways</Text>
+                    )}
+                  </View>
+                  <Text style={styles.paymentAmountText}>{formatCurrency(share, receipt.currency)}</Text>
+                </View>
+              ))}
+              
+              {receiptBreakdown && ([
+                ['Tax', receiptBreakdown.share.tax],
+                ['Tip', receiptBreakdown.share.tip],
+                ['Extra Fees', receiptBreakdown.share.extraFees]
+              ] as const).filter(([, amount]) => amount > 0).map(([label, amount]) => (
+                <View key={label} style={styles.paymentRow}>
+                  <Text style={styles.paymentDateText}>{label}</Text>
+                  <Text style={styles.paymentAmountText}>{formatCurrency(amount, receipt.currency)}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+          
           {/* Recurring Details */}
           {debt.isRecurring && recurringInfo && (
             <View style={styles.recurringDetailsContainer}>
@@ -286,7 +636,7 @@ export default function DebtDetailScreen() {
               <View style={styles.recurringDetailRow}>
                 <Ionicons name="repeat" size={18} color={Colors.light.tint} />
                 <Text style={styles.recurringDetailText}>
-                  Frequency: {formatRecurringFrequency(recurringInfo.frequency)}
+                  Frequency: {describeFrequency(recurringInfo)}
                 </Text>
               </View>
               
@@ -311,7 +661,7 @@ export default function DebtDetailScreen() {
                 styles.remindButton,
                 {opacity: pressed ? 0.8 : 1}
               ]}
-              onPress={handleRemind}
+              onPress={openRemindModal}
             >
               <Ionicons name="chatbubble-outline" size={24} color={Colors.light.tint} />
               <Text style={styles.actionButtonText}>Remind</Text>
@@ -330,7 +680,335 @@ export default function DebtDetailScreen() {
             </Pressable>
           </View>
         )}
+        
+        {!debt.isPaid && (
+          <Pressable 
+            style={({pressed}) => [
+              styles.actionButton,
+              styles.recordPaymentButton,
+              {opacity: pressed ? 0.8 : 1}
+            ]}
+            onPress={openPaymentModal}
+          >
+            <Ionicons name="cash-outline" size={24} color={Colors.light.tint} />
+            <Text style={styles.actionButtonText}>Record Payment</Text>
+          </Pressable>
+        )}
+        
+        {!debt.isPaid && !debt.sharedDebtId && (
+          <Pressable 
+            style={({pressed}) => [
+              styles.actionButton,
+              styles.recordPaymentButton,
+              {opacity: pressed ? 0.8 : 1}
+            ]}
+            onPress={() => setShowShareModal(true)}
+          >
+            <Ionicons name="person-add-outline" size={24} color={Colors.light.tint} />
+            <Text style={styles.actionButtonText}>Link Paid Account</Text>
+          </Pressable>
+        )}
       </ScrollView>
+      
+      {/* Record Payment Modal */}
+      <Modal
+        visible={showPaymentModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => !savingPayment && setShowPaymentModal(false)}
+      >
+        <KeyboardAvoidingView 
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Record Payment</Text>
+              <Pressable 
+                onPress={() => setShowPaymentModal(false)}
+                disabled={savingPayment}
+              >
+                <Ionicons name="close" size={24} color="#fff" />
+              </Pressable>
+            </View>
+            
+            <Text style={styles.modalLabel}>
+              Amount (remaining {formatCurrency(getRemainingBalance(debt), debt.currency)})
+            </Text>
+            <View style={styles.amountInputContainer}>
+              <Text style={styles.currencySymbol}>{getCurrencyInfo(debt.currency).symbol}</Text>
+              <TextInput
+                style={styles.amountInput}
+                value={paymentAmount}
+                onChangeText={setPaymentAmount}
+                keyboardType="decimal-pad"
+                placeholder="0.00"
+                placeholderTextColor="rgba(255,255,255,0.3)"
+              />
+            </View>
+            
+            <Text style={styles.modalLabel}>Method</Text>
+            <View style={styles.methodOptions}>
+              {PAYMENT_METHOD_OPTIONS.map(option => (
+                <Pressable
+                  key={option.type}
+                  style={[
+                    styles.methodOption,
+                    paymentMethod === option.type && styles.methodOptionSelected
+                  ]}
+                  onPress={() => setPaymentMethod(paymentMethod === option.type ? '' : option.type)}
+                >
+                  <Text style={[
+                    styles.methodOptionText,
+                    paymentMethod === option.type && styles.methodOptionTextSelected
+                  ]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            
+            <Text style={styles.modalLabel}>Note</Text>
+            <TextInput
+              style={styles.noteInput}
+              value={paymentNote}
+              onChangeText={setPaymentNote}
+              placeholder="Optional"
+              placeholderTextColor="rgba(255,255,255,0.3)"
+            />
+            
+            <Pressable
+              style={({pressed}) => [
+                styles.savePaymentButton,
+                {opacity: pressed || savingPayment ? 0.8 : 1}
+              ]}
+              onPress={handleRecordPayment}
+              disabled={savingPayment}
+            >
+              <Text style={styles.savePaymentButtonText}>
+                {savingPayment ? 'Saving...' : 'Save Payment'}
+              </Text>
+            </Pressable>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+      
+      {/* Link Paid Account Modal */}
+      <Modal
+        visible={showShareModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => !sharing && setShowShareModal(false)}
+      >
+        <KeyboardAvoidingView 
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Link Paid Account</Text>
+              <Pressable 
+                onPress={() => setShowShareModal(false)}
+                disabled={sharing}
+              >
+                <Ionicons name="close" size={24} color="#fff" />
+              </Pressable>
+            </View>
+            
+            <Text style={styles.shareExplainer}>
+              If {debt.debtorName} uses Paid, they&apos;ll see this debt in their app and can mark it as sent for you to confirm.
+            </Text>
+            
+            <Text style={styles.modalLabel}>Username</Text>
+            <TextInput
+              style={styles.noteInput}
+              value={shareUsername}
+              onChangeText={setShareUsername}
+              placeholder="@username"
+              placeholderTextColor="rgba(255,255,255,0.3)"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            
+            <Pressable
+              style={({pressed}) => [
+                styles.savePaymentButton,
+                {opacity: pressed || sharing ? 0.8 : 1}
+              ]}
+              onPress={handleShare}
+              disabled={sharing}
+            >
+              <Text style={styles.savePaymentButtonText}>
+                {sharing ? 'Linking...' : 'Link Account'}
+              </Text>
+            </Pressable>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+      
+      {/* Send Reminder Modal */}
+      <Modal
+        visible={showRemindModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowRemindModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Send Reminder</Text>
+              <Pressable onPress={() => setShowRemindModal(false)}>
+                <Ionicons name="close" size={24} color="#fff" />
+              </Pressable>
+            </View>
+            
+            <Text style={styles.modalLabel}>Tone</Text>
+            <View style={styles.methodOptions}>
+              {REMINDER_TONES.map(option => (
+                <Pressable
+                  key={option.tone}
+                  style={[
+                    styles.methodOption,
+                    reminderTone === option.tone && styles.methodOptionSelected
+                  ]}
+                  onPress={() => setReminderTone(option.tone)}
+                >
+                  <Text style={[
+                    styles.methodOptionText,
+                    reminderTone === option.tone && styles.methodOptionTextSelected
+                  ]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            
+            <Text style={styles.modalLabel}>Message</Text>
+            <View style={styles.reminderPreview}>
+              <Text style={styles.reminderPreviewText}>{getReminderMessage(reminderTone)}</Text>
+            </View>
+            
+            <Pressable
+              style={({pressed}) => [
+                styles.savePaymentButton,
+                {opacity: pressed ? 0.8 : 1}
+              ]}
+              onPress={handleRemind}
+            >
+              <Text style={styles.savePaymentButtonText}>Open Messages</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+      
+      {/* Reminders Modal */}
+      <Modal
+        visible={showReminderModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => !savingReminder && setShowReminderModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Reminders</Text>
+              <Pressable 
+                onPress={() => setShowReminderModal(false)}
+                disabled={savingReminder}
+              >
+                <Ionicons name="close" size={24} color="#fff" />
+              </Pressable>
+            </View>
+            
+            <Text style={styles.shareExplainer}>
+              {debt.debtorUid
+                ? `@${debt.debtorUsername} will get a push notification until this debt is paid.`
+                : `You'll get a push notification to follow up with ${debt.debtorName} until this debt is paid.`}
+            </Text>
+            
+            <Text style={styles.modalLabel}>First reminder</Text>
+            <View style={styles.methodOptions}>
+              {FIRST_REMINDER_OPTIONS.map(days => (
+                <Pressable
+                  key={days}
+                  style={[
+                    styles.methodOption,
+                    reminderDraft.firstAfterDays === days && styles.methodOptionSelected
+                  ]}
+                  onPress={() => setReminderDraft({ ...reminderDraft, firstAfterDays: days })}
+                >
+                  <Text style={[
+                    styles.methodOptionText,
+                    reminderDraft.firstAfterDays === days && styles.methodOptionTextSelected
+                  ]}>
+                    {days === 1 ? '1 day' : `${days} days`}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            
+            <Text style={styles.modalLabel}>Then</Text>
+            <View style={styles.methodOptions}>
+              {REPEAT_REMINDER_OPTIONS.map(days => (
+                <Pressable
+                  key={days ?? 'once'}
+                  style={[
+                    styles.methodOption,
+                    reminderDraft.repeatEveryDays === days && styles.methodOptionSelected
+                  ]}
+                  onPress={() => setReminderDraft({ ...reminderDraft, repeatEveryDays: days })}
+                >
+                  <Text style={[
+                    styles.methodOptionText,
+                    reminderDraft.repeatEveryDays === days && styles.methodOptionTextSelected
+                  ]}>
+                    {days ? describeRepeat(days) : 'No repeat'}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            
+            <Pressable
+              style={({pressed}) => [
+                styles.savePaymentButton,
+                {opacity: pressed || savingReminder ? 0.8 : 1}
+              ]}
+              onPress={() => handleSaveReminders({ ...reminderDraft, enabled: true })}
+              disabled={savingReminder}
+            >
+              <Text style={styles.savePaymentButtonText}>
+                {savingReminder ? 'Saving...' : 'Save Reminders'}
+              </Text>
+            </Pressable>
+            
+            {debt.reminderSchedule?.enabled && (
+              <Pressable
+                style={styles.turnOffButton}
+                onPress={() => handleSaveReminders(null)}
+                disabled={savingReminder}
+              >
+                <Text style={styles.unlinkText}>Turn Off Reminders</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      </Modal>
+      
+      {/* Receipt Photo Modal */}
+      <Modal
+        visible={showReceiptImage}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowReceiptImage(false)}
+      >
+        <Pressable style={styles.modalOverlay} onPress={() => setShowReceiptImage(false)}>
+          <ScrollView style={styles.receiptImageScroll} contentContainerStyle={styles.receiptImageScrollContent}>
+            {receiptImageUrls.map(url => (
+              <Image key={url} source={{ uri: url }} style={styles.receiptFullImage} resizeMode="contain" />
+            ))}
+          </ScrollView>
+        </Pressable>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -423,6 +1101,13 @@ const styles = StyleSheet.create({
     textDecorationLine: 'line-through',
     opacity: 0.7,
   },
+  remainingText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 16,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: -14,
+    marginBottom: 20,
+  },
   paidStatusContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -451,6 +1136,50 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontFamily: 'AeonikBlack-Regular',
   },
+  overdueValue: {
+    color: '#FF5A5A',
+  },
+  paymentsContainer: {
+    marginTop: 8,
+    marginBottom: 16,
+    padding: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 16,
+  },
+  paymentsTitle: {
+    color: Colors.light.tint,
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+    marginBottom: 12,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.05)',
+  },
+  paymentInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  paymentMethodText: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  paymentDateText: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 13,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: 2,
+  },
+  paymentAmountText: {
+    color: Colors.light.tint,
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+  },
   recurringDetailsContainer: {
     marginTop: 16,
     padding: 16,
@@ -501,5 +1230,230 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontFamily: 'Aeonik-Black',
     marginLeft: 8,
+  },
+  recordPaymentButton: {
+    marginTop: 12,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 20,
+    fontFamily: 'Aeonik-Black',
+  },
+  modalLabel: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 8,
+  },
+  amountInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  currencySymbol: {
+    color: Colors.light.tint,
+    fontSize: 24,
+    fontFamily: 'Aeonik-Black',
+    marginRight: 4,
+  },
+  amountInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 24,
+    fontFamily: 'Aeonik-Black',
+    paddingVertical: 12,
+  },
+  methodOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  methodOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  methodOptionSelected: {
+    backgroundColor: 'rgba(74, 226, 144, 0.15)',
+    borderColor: Colors.light.tint,
+  },
+  methodOptionText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  methodOptionTextSelected: {
+    color: Colors.light.tint,
+  },
+  noteInput: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 20,
+  },
+  savePaymentButton: {
+    backgroundColor: Colors.light.tint,
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+  },
+  savePaymentButtonText: {
+    color: '#000',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+  },
+  linkedAccountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  unlinkText: {
+    color: '#FF5A5A',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  reminderPreview: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  reminderPreviewText: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    lineHeight: 20,
+  },
+  reminderInfo: {
+    flex: 1,
+    paddingRight: 12,
+  },
+  reminderNextText: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: 4,
+  },
+  editReminderText: {
+    color: Colors.light.tint,
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  turnOffButton: {
+    alignItems: 'center',
+    paddingTop: 16,
+  },
+  sentBanner: {
+    padding: 16,
+    marginBottom: 20,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 193, 7, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 193, 7, 0.3)',
+  },
+  sentBannerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sentBannerText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  sentBannerButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  sentBannerButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  sentBannerButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+  },
+  confirmButton: {
+    backgroundColor: Colors.light.tint,
+  },
+  confirmButtonText: {
+    color: '#000',
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+  },
+  shareExplainer: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 16,
+  },
+  receiptHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  receiptInfoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  receiptThumbnail: {
+    width: 48,
+    height: 64,
+    borderRadius: 8,
+    marginRight: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  receiptImageScroll: {
+    width: '100%',
+  },
+  receiptImageScrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  receiptFullImage: {
+    width: '100%',
+    height: 520,
+    marginBottom: 12,
   }
 }); 
\ No newline at end of file
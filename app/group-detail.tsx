@@ -1,18 +1,33 @@
 import { Ionicons } from '@expo/vector-icons';
-import * as Clipboard from 'expo-clipboard';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import React, { useEffect, useState } from 'react';
-import { ActivityIndicator, Alert, Linking, Platform, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+import AddExpenseModal from '@/components/AddExpenseModal';
 import { ThemedText } from '@/components/ThemedText';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/contexts/AuthContext';
-import { deleteDebtGroup, getDebtGroupWithDebts, markDebtAsPaid } from '@/firebase/firestore';
-import { Debt, DebtGroup } from '@/firebase/models';
+import { useGroups } from '@/contexts/DataContext';
+import { Debt, GroupExpense, GroupSettlement } from '@/firebase/models';
+import { formatCurrency } from '@/utils/currency';
+import { getRemainingBalance, isPartiallyPaid } from '@/utils/debtBalance';
 import eventEmitter from '@/utils/eventEmitter';
+import { GroupTransfer, SELF_MEMBER, computeNetBalances, simplifyDebts } from '@/utils/groupBalances';
+import {
+  queueAddDebtsToGroup,
+  queueAddGroupExpense,
+  queueAddGroupSettlement,
+  queueDeleteDebtGroup,
+  queueMarkDebtAsPaid,
+  queueRemoveGroupExpense,
+  queueRemoveGroupSettlement,
+} from '@/utils/offlineSync';
+import { describeFrequency } from '@/utils/recurringSeries';
+import { buildReminderMessage, getPaymentLink, openReminderMessage } from '@/utils/reminderMessages';
+import { loadReminderTemplates } from '@/utils/reminderTemplates';
 
 // Add a formatter function near the top of the component
 const formatDate = (dateString: string) => {
@@ -44,113 +59,149 @@ const getOrdinalSuffix = (day: number) => {
 export default function GroupDetailScreen() {
   const router = useRouter();
   const { groupId } = useLocalSearchParams();
-  const { currentUser } = useAuth();
+  const { currentUser, userProfile } = useAuth();
   
-  const [loading, setLoading] = useState(true);
-  const [group, setGroup] = useState<(DebtGroup & { debts: Debt[] }) | null>(null);
-  const [error, setError] = useState('');
+  const { groups, loading: groupsLoading } = useGroups();
+  const group = groups.find(g => g.id === groupId) ?? null;
+  const [showExpenseModal, setShowExpenseModal] = useState(false);
   
-  useEffect(() => {
-    if (!currentUser || !groupId) return;
-    
-    const fetchGroupDetail = async () => {
-      try {
-        setLoading(true);
-        const groupDetail = await getDebtGroupWithDebts(currentUser.uid, groupId as string);
-        setGroup(groupDetail as (DebtGroup & { debts: Debt[] }));
-      } catch (err) {
-        console.error('Error fetching group details:', err);
-        setError('Failed to load group details');
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    fetchGroupDetail();
-  }, [currentUser, groupId]);
+  // Keep the spinner until the group first appears, then report if it's gone
+  const loading = groupsLoading && !group;
+  const error = !loading && !group ? 'This group could not be found' : '';
   
   const handleTogglePaid = async (debtId: string, isPaid: boolean) => {
     if (!currentUser || !groupId) return;
     
     try {
-      await markDebtAsPaid(currentUser.uid, debtId, !isPaid);
-      
-      // Update the local state
-      setGroup(prev => {
-        if (!prev) return null;
-        
-        const updatedDebts = prev.debts.map(debt => 
-          debt.id === debtId ? { ...debt, isPaid: !isPaid } : debt
-        );
-        
-        // Recalculate paid amount
-        const paidAmount = updatedDebts.reduce((sum, debt) => 
-          debt.isPaid ? sum + debt.amount : sum, 0
-        );
-        
-        // Check if all debts are paid
-        const isCompleted = updatedDebts.every(debt => debt.isPaid);
-        
-        return {
-          ...prev,
-          debts: updatedDebts,
-          paidAmount,
-          isCompleted
-        };
-      });
-      
-      // Emit event to update home screen
-      eventEmitter.emit('DEBT_UPDATED', {});
+      await queueMarkDebtAsPaid(currentUser.uid, debtId, !isPaid);
+      eventEmitter.emit('DEBT_PAID', { debtId, isPaid: !isPaid });
     } catch (err) {
       console.error('Error updating debt payment status:', err);
       Alert.alert('Error', 'Failed to update payment status');
     }
   };
   
-  // Handle sending a reminder message for a debt
-  const handleRemind = (debt: Debt) => {
-    if (!group) return;
-    
-    // Create base SMS message text
-    let message = `Hey, just a reminder that you owe me $${debt.amount.toFixed(2)}${debt.description ? ` for ${debt.description}` : ''}.`;
+  // Handle adding an expense to a shared expense group
+  const handleAddExpense = async (expense: Omit<GroupExpense, 'id' | 'createdAt'>) => {
+    if (!currentUser || !groupId) return;
     
-    // Add group context
-    message += `\n(Part of ${group.name} group)`;
+    try {
+      await queueAddGroupExpense(currentUser.uid, groupId as string, expense);
+      eventEmitter.emit('GROUP_UPDATED', { groupId: groupId as string });
+      setShowExpenseModal(false);
+    } catch (err) {
+      console.error('Error adding expense:', err);
+      Alert.alert('Error', 'Failed to add expense');
+    }
+  };
+  
+  // Handle removing an expense from a shared expense group
+  const handleDeleteExpense = (expense: GroupExpense) => {
+    if (!currentUser || !groupId) return;
     
-    // Encode the message for use in the URL
-    const encodedMessage = encodeURIComponent(message);
+    Alert.alert(
+      'Delete Expense',
+      `Are you sure you want to delete ${expense.description || 'this expense'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await queueRemoveGroupExpense(currentUser.uid, groupId as string, expense.id);
+              eventEmitter.emit('GROUP_UPDATED', { groupId: groupId as string });
+            } catch (err) {
+              console.error('Error deleting expense:', err);
+              Alert.alert('Error', 'Failed to delete expense');
+            }
+          }
+        }
+      ]
+    );
+  };
+  
+  // Turn a suggested transfer to me into a debt in this group
+  const handleCreateDebtFromTransfer = async (transfer: GroupTransfer) => {
+    if (!currentUser || !groupId || !group) return;
     
-    // If we have a phone number, use it to fill the recipient and the message
-    if (debt.phoneNumber) {
-      const phoneNumber = debt.phoneNumber.replace(/\D/g, ''); // Remove non-numeric characters
-      
-      // Create the SMS URL for opening the messages app with number and message
-      const url = Platform.OS === 'ios' 
-        ? `sms:${phoneNumber}&body=${encodedMessage}`
-        : `sms:${phoneNumber}?body=${encodedMessage}`;
-      
-      Linking.openURL(url).catch(err => {
-        console.error('Error opening messages app:', err);
-      });
-    } else {
-      // If no phone number, just open the messages app with the message body
-      const url = Platform.OS === 'ios' 
-        ? `sms:&body=${encodedMessage}`
-        : `sms:?body=${encodedMessage}`;
-        
-      Linking.openURL(url).catch(err => {
-        console.error('Error opening messages app:', err);
-        
-        // Fallback to clipboard if linking fails
-        Clipboard.setString(message);
-        Alert.alert(
-          'Message Copied',
-          'The reminder message has been copied to your clipboard.'
-        );
-      });
+    try {
+      await queueAddDebtsToGroup(currentUser.uid, groupId as string, [{
+        debtorName: transfer.from,
+        amount: transfer.amount,
+        currency: group.currency || 'USD',
+        description: `${group.name} settle-up`
+      }]);
+    } catch (err) {
+      console.error('Error creating debt from transfer:', err);
+      Alert.alert('Error', 'Failed to create debt');
     }
   };
   
+  // Record a suggested transfer between members as paid, e.g. when two friends settled up in cash
+  const handleRecordSettlement = (transfer: GroupTransfer) => {
+    if (!currentUser || !groupId || !group) return;
+    
+    Alert.alert(
+      'Record Settlement',
+      `Mark that ${transfer.from} paid ${transfer.to} ${formatCurrency(transfer.amount, group.currency)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Record',
+          onPress: async () => {
+            try {
+              await queueAddGroupSettlement(currentUser.uid, groupId as string, transfer);
+              eventEmitter.emit('GROUP_UPDATED', { groupId: groupId as string });
+            } catch (err) {
+              console.error('Error recording settlement:', err);
+              Alert.alert('Error', 'Failed to record settlement');
+            }
+          }
+        }
+      ]
+    );
+  };
+  
+  // Handle removing a recorded settlement, e.g. one recorded by mistake
+  const handleDeleteSettlement = (settlement: GroupSettlement) => {
+    if (!currentUser || !groupId) return;
+    
+    Alert.alert(
+      'Delete Settlement',
+      `Are you sure you want to delete the payment from ${settlement.from} to ${settlement.to}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await queueRemoveGroupSettlement(currentUser.uid, groupId as string, settlement.id);
+              eventEmitter.emit('GROUP_UPDATED', { groupId: groupId as string });
+            } catch (err) {
+              console.error('Error deleting settlement:', err);
+              Alert.alert('Error', 'Failed to delete settlement');
+            }
+          }
+        }
+      ]
+    );
+  };
+  
+  // Handle sending a reminder message for a debt
+  const handleRemind = async (debt: Debt) => {
+    if (!group) return;
+    
+    const templates = await loadReminderTemplates();
+    const message = buildReminderMessage(debt, templates, {
+      paymentLink: getPaymentLink(userProfile),
+      groupName: group.name,
+      currency: group.currency
+    });
+    await openReminderMessage(message, debt.phoneNumber);
+  };
+  
   const handleDeleteGroup = async () => {
     if (!currentUser || !groupId) return;
     
@@ -163,8 +214,7 @@ export default function GroupDetailScreen() {
           text: 'Keep Debts', 
           onPress: async () => {
             try {
-              await deleteDebtGroup(currentUser.uid, groupId as string, true);
-              eventEmitter.emit('DEBT_UPDATED', {});
+              await queueDeleteDebtGroup(currentUser.uid, groupId as string, true);
               router.back();
             } catch (err) {
               console.error('Error deleting group:', err);
@@ -177,8 +227,7 @@ export default function GroupDetailScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteDebtGroup(currentUser.uid, groupId as string, false);
-              eventEmitter.emit('DEBT_UPDATED', {});
+              await queueDeleteDebtGroup(currentUser.uid, groupId as string, false);
               router.back();
             } catch (err) {
               console.error('Error deleting group and debts:', err);
@@ -190,6 +239,25 @@ export default function GroupDetailScreen() {
     );
   };
   
+  // Net balances and suggested transfers for shared expense groups.
+  // Debts already created from transfers, and recorded settlements, count as settled so they aren't suggested again.
+  const isSharedExpenses = group?.mode === 'sharedExpenses';
+  const members = group?.members || [];
+  const expenses = group?.expenses || [];
+  const recordedSettlements = group?.settlements || [];
+  const settlements: GroupTransfer[] = [
+    ...(group?.debts || []).map(debt => ({
+      from: debt.debtorName,
+      to: SELF_MEMBER,
+      amount: debt.amount
+    })),
+    ...recordedSettlements
+  ];
+  const balances = isSharedExpenses ? computeNetBalances(members, expenses, [], group?.currency) : {};
+  const transfers = isSharedExpenses
+    ? simplifyDebts(computeNetBalances(members, expenses, settlements, group?.currency), group?.currency)
+    : [];
+  
   // Calculate completion percentage
   const completionPercentage = group && group.totalAmount > 0 
     ? Math.min(100, Math.round((group.paidAmount / group.totalAmount) * 100))
@@ -273,12 +341,12 @@ export default function GroupDetailScreen() {
             <View style={styles.amountContainer}>
               <View>
                 <Text style={styles.amountLabel}>Total</Text>
-                <Text style={styles.amount}>${group.totalAmount.toFixed(2)}</Text>
+                <Text style={styles.amount}>{formatCurrency(group.totalAmount, group.currency)}</Text>
               </View>
               
               <View>
                 <Text style={styles.amountLabel}>Paid</Text>
-                <Text style={styles.paidAmount}>${group.paidAmount.toFixed(2)}</Text>
+                <Text style={styles.paidAmount}>{formatCurrency(group.paidAmount, group.currency)}</Text>
               </View>
             </View>
             
@@ -311,12 +379,7 @@ export default function GroupDetailScreen() {
                 <View style={styles.recurringInfoRow}>
                   <Text style={styles.recurringInfoLabel}>Frequency:</Text>
                   <Text style={styles.recurringInfoValue}>
-                    {group.frequency === 'daily' ? 'Daily' :
-                     group.frequency === 'weekly' ? 'Weekly' :
-                     group.frequency === 'biweekly' ? 'Every 2 Weeks' :
-                     group.frequency === 'monthly' ? 'Monthly' :
-                     group.frequency === 'quarterly' ? 'Quarterly' :
-                     group.frequency === 'yearly' ? 'Yearly' : 'Unknown'}
+                    {group.frequency ? describeFrequency({ ...group, frequency: group.frequency }) : 'Unknown'}
                   </Text>
                 </View>
                 
@@ -344,10 +407,141 @@ export default function GroupDetailScreen() {
             </LinearGradient>
           )}
           
+          {/* Shared Expenses */}
+          {isSharedExpenses && (
+            <>
+              <View style={styles.debtsContainer}>
+                <View style={[styles.debtsSectionHeader, styles.expensesHeader]}>
+                  <View style={styles.expensesTitleRow}>
+                    <Text style={styles.debtsTitle}>Expenses</Text>
+                    <Text style={styles.debtsCount}>({expenses.length})</Text>
+                  </View>
+                  <Pressable
+                    style={({pressed}) => [styles.addExpenseButton, {opacity: pressed ? 0.8 : 1}]}
+                    onPress={() => setShowExpenseModal(true)}
+                  >
+                    <Ionicons name="add" size={16} color="#000" />
+                    <Text style={styles.addExpenseButtonText}>Add</Text>
+                  </Pressable>
+                </View>
+                
+                {expenses.length > 0 ? (
+                  expenses.map(expense => (
+                    <View key={expense.id} style={styles.expenseRow}>
+                      <View style={styles.debtorInfo}>
+                        <Text style={styles.debtorName}>{expense.description || 'Expense'}</Text>
+                        <Text style={styles.debtDate}>
+                          {expense.paidBy} paid · split {expense.splitBetween.length > 0 && expense.splitBetween.length < members.length
+                            ? `between ${expense.splitBetween.join(', ')}`
+                            : 'with everyone'}
+                        </Text>
+                      </View>
+                      <Text style={styles.expenseAmount}>{formatCurrency(expense.amount, group.currency)}</Text>
+                      <Pressable style={styles.expenseDeleteButton} onPress={() => handleDeleteExpense(expense)}>
+                        <Ionicons name="trash-outline" size={16} color="#FF5A5A" />
+                      </Pressable>
+                    </View>
+                  ))
+                ) : (
+                  <Text style={styles.noDebtsText}>No expenses yet. Add who paid for what.</Text>
+                )}
+              </View>
+              
+              {expenses.length > 0 && (
+                <View style={styles.debtsContainer}>
+                  <View style={styles.debtsSectionHeader}>
+                    <Text style={styles.debtsTitle}>Balances</Text>
+                  </View>
+                  
+                  {members.map(member => (
+                    <View key={member} style={styles.balanceRow}>
+                      <Text style={styles.balanceName}>{member}</Text>
+                      <Text style={[
+                        styles.balanceAmount,
+                        (balances[member] || 0) < 0 && styles.negativeBalance
+                      ]}>
+                        {(balances[member] || 0) > 0
+                          ? `gets back ${formatCurrency(balances[member], group.currency)}`
+                          : (balances[member] || 0) < 0
+                            ? `owes ${formatCurrency(-balances[member], group.currency)}`
+                            : 'settled'}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+              
+              {transfers.length > 0 && (
+                <View style={styles.debtsContainer}>
+                  <View style={styles.debtsSectionHeader}>
+                    <Text style={styles.debtsTitle}>Settle Up</Text>
+                    <Text style={styles.debtsCount}>({transfers.length})</Text>
+                  </View>
+                  
+                  {transfers.map(transfer => (
+                    <View key={`${transfer.from}-${transfer.to}`} style={styles.transferRow}>
+                      <View style={styles.debtorInfo}>
+                        <Text style={styles.debtorName}>
+                          {transfer.from} → {transfer.to}
+                        </Text>
+                        <Text style={styles.debtDate}>
+                          {formatCurrency(transfer.amount, group.currency)}
+                        </Text>
+                      </View>
+                      
+                      {/* Money owed to me becomes a debt; anything else is just recorded once it's paid */}
+                      {transfer.to === SELF_MEMBER ? (
+                        <Pressable
+                          style={({pressed}) => [styles.actionButton, styles.markPaidButton, {opacity: pressed ? 0.8 : 1}]}
+                          onPress={() => handleCreateDebtFromTransfer(transfer)}
+                        >
+                          <Ionicons name="add-circle-outline" size={16} color={Colors.light.tint} />
+                          <Text style={styles.actionButtonText}>Create Debt</Text>
+                        </Pressable>
+                      ) : (
+                        <Pressable
+                          style={({pressed}) => [styles.actionButton, styles.markPaidButton, {opacity: pressed ? 0.8 : 1}]}
+                          onPress={() => handleRecordSettlement(transfer)}
+                        >
+                          <Ionicons name="checkmark-circle-outline" size={16} color={Colors.light.tint} />
+                          <Text style={styles.actionButtonText}>Mark Paid</Text>
+                        </Pressable>
+                      )}
+                    </View>
+                  ))}
+                </View>
+              )}
+              
+              {recordedSettlements.length > 0 && (
+                <View style={styles.debtsContainer}>
+                  <View style={styles.debtsSectionHeader}>
+                    <Text style={styles.debtsTitle}>Settlements</Text>
+                    <Text style={styles.debtsCount}>({recordedSettlements.length})</Text>
+                  </View>
+                  
+                  {recordedSettlements.map(settlement => (
+                    <View key={settlement.id} style={styles.expenseRow}>
+                      <View style={styles.debtorInfo}>
+                        <Text style={styles.debtorName}>
+                          {settlement.from} → {settlement.to}
+                        </Text>
+                        <Text style={styles.debtDate}>Paid {formatDate(settlement.settledAt)}</Text>
+                      </View>
+                      <Text style={styles.expenseAmount}>{formatCurrency(settlement.amount, group.currency)}</Text>
+                      <Pressable style={styles.expenseDeleteButton} onPress={() => handleDeleteSettlement(settlement)}>
+                        <Ionicons name="trash-outline" size={16} color="#FF5A5A" />
+                      </Pressable>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+          
           {/* Debts List */}
           <View style={styles.debtsContainer}>
             <View style={styles.debtsSectionHeader}>
-              <Text style={styles.debtsTitle}>Debts in This Group</Text>
+              <Text style={styles.debtsTitle}>{isSharedExpenses ? 'Settle-Up Debts' : 'Debts in This Group'}</Text>
               <Text style={styles.debtsCount}>({group.debts.length})</Text>
             </View>
             
@@ -366,12 +560,17 @@ export default function GroupDetailScreen() {
                           : `Added on ${new Date(debt.createdAt).toLocaleDateString()}`}
                       </Text>
                     </View>
-                    <Text style={[
-                      styles.debtAmount,
-                      debt.isPaid && styles.paidDebtAmount
-                    ]}>
-                      ${debt.amount.toFixed(2)}
-                    </Text>
+                    <View style={styles.debtAmountContainer}>
+                      <Text style={[
+                        styles.debtAmount,
+                        debt.isPaid && styles.paidDebtAmount
+                      ]}>
+                        {formatCurrency(debt.isPaid ? debt.amount : getRemainingBalance(debt), debt.currency || group.currency)}
+                      </Text>
+                      {isPartiallyPaid(debt) && (
+                        <Text style={styles.debtOriginalAmount}>of {formatCurrency(debt.amount, debt.currency || group.currency)}</Text>
+                      )}
+                    </View>
                   </View>
                   
                   {!debt.isPaid && (
@@ -409,6 +608,17 @@ export default function GroupDetailScreen() {
           </View>
         </ScrollView>
       ) : null}
+      
+      {/* Add Expense Modal */}
+      {isSharedExpenses && group && (
+        <AddExpenseModal
+          visible={showExpenseModal}
+          members={members}
+          currency={group.currency}
+          onClose={() => setShowExpenseModal(false)}
+          onSave={handleAddExpense}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -645,11 +855,20 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontFamily: 'AeonikBlack-Regular',
   },
+  debtAmountContainer: {
+    alignItems: 'flex-end',
+  },
   debtAmount: {
     color: Colors.light.tint,
     fontSize: 18,
     fontFamily: 'Aeonik-Black',
   },
+  debtOriginalAmount: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: 2,
+  },
   paidDebtAmount: {
     color: Colors.light.tint,
     textDecorationLine: 'line-through',
@@ -681,6 +900,72 @@ const styles = StyleSheet.create({
     fontFamily: 'Aeonik-Black',
     marginLeft: 6,
   },
+  expensesHeader: {
+    justifyContent: 'space-between',
+  },
+  expensesTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addExpenseButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: Colors.light.tint,
+  },
+  addExpenseButtonText: {
+    color: '#000',
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+    marginLeft: 2,
+  },
+  expenseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.05)',
+  },
+  expenseAmount: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+  },
+  expenseDeleteButton: {
+    marginLeft: 12,
+    padding: 4,
+  },
+  balanceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  balanceName: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  balanceAmount: {
+    color: Colors.light.tint,
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+  },
+  negativeBalance: {
+    color: '#FF5A5A',
+  },
+  transferRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.05)',
+  },
   noDebtsText: {
     fontSize: 14,
     color: 'rgba(255,255,255,0.5)',
@@ -0,0 +1,617 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, View, Text, Pressable, ScrollView, Alert, TextInput, KeyboardAvoidingView, Platform, ActivityIndicator } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDebts } from '@/contexts/DataContext';
+import { addDebtsToGroup, createDebt, createDebtGroup } from '@/firebase/firestore';
+import { useCurrencySettings } from '@/hooks/useCurrencySettings';
+import { formatCurrency } from '@/utils/currency';
+import {
+  IMPORT_FIELDS,
+  IMPORT_PRESETS,
+  ImportColumnMapping,
+  ImportField,
+  ImportPreset,
+  ImportRow,
+  buildSplitwiseRows,
+  buildSpreadsheetRows,
+  detectColumnMapping,
+  getSplitwiseMembers,
+  groupImportRows,
+  isImportable,
+  isSplitwiseExport,
+  markDuplicates,
+  parseCsv
+} from '@/utils/debtImport';
+
+// Only the first rows are previewed to keep large files responsive
+const PREVIEW_LIMIT = 100;
+
+export default function ImportDebtsScreen() {
+  const router = useRouter();
+  const { currentUser } = useAuth();
+  const { homeCurrency } = useCurrencySettings();
+  const { debts: existingDebts } = useDebts(); // Checked for duplicates
+
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][]>([]);
+  const [preset, setPreset] = useState<ImportPreset>('spreadsheet');
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [splitwiseMember, setSplitwiseMember] = useState('');
+  const [groupName, setGroupName] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const headers = useMemo(() => table[0] || [], [table]);
+  const splitwiseMembers = useMemo(() => getSplitwiseMembers(headers), [headers]);
+
+  const rows = useMemo(() => {
+    if (table.length === 0) return [];
+
+    const importRows = preset === 'splitwise'
+      ? buildSplitwiseRows(table, splitwiseMember, homeCurrency)
+      : buildSpreadsheetRows(table, mapping, homeCurrency);
+
+    return markDuplicates(importRows, existingDebts);
+  }, [table, preset, mapping, splitwiseMember, homeCurrency, existingDebts]);
+
+  const importableCount = rows.filter(isImportable).length;
+  const duplicateCount = rows.filter(row => row.isDuplicate).length;
+  const errorCount = rows.filter(row => row.errors.length > 0).length;
+
+  // Handle picking and reading a CSV file
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+        copyToCacheDirectory: true
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const file = result.assets[0];
+      const parsed = parseCsv(await FileSystem.readAsStringAsync(file.uri));
+
+      if (parsed.length < 2) {
+        Alert.alert('Empty File', 'This file doesn\'t have any rows to import.');
+        return;
+      }
+
+      const isSplitwise = isSplitwiseExport(parsed[0]);
+
+      setFileName(file.name);
+      setTable(parsed);
+      setPreset(isSplitwise ? 'splitwise' : 'spreadsheet');
+      setMapping(detectColumnMapping(parsed[0]));
+      setSplitwiseMember(isSplitwise ? getSplitwiseMembers(parsed[0])[0] : '');
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      Alert.alert('Error', 'Failed to read the file. Please make sure it\'s a CSV file.');
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, column: number | undefined) => {
+    const nextMapping = { ...mapping };
+    if (column === undefined) {
+      delete nextMapping[field];
+    } else {
+      nextMapping[field] = column;
+    }
+    setMapping(nextMapping);
+  };
+
+  // Handle creating the debts and groups
+  const handleImport = async () => {
+    if (!currentUser || importableCount === 0) return;
+
+    setImporting(true);
+
+    const { debts, groups } = groupImportRows(rows, groupName);
+    let importedCount = 0;
+    let failedCount = 0;
+
+    // What was already paid is saved with the debt, which marks it as paid when it covers the whole amount
+    const toDebtData = (row: ImportRow) => ({
+      debtorName: row.debtorName,
+      amount: row.amount,
+      currency: row.currency,
+      description: row.description,
+      phoneNumber: row.phoneNumber,
+      ...(row.createdAt ? { createdAt: row.createdAt } : {}),
+      ...(row.dueDate ? { dueDate: row.dueDate } : {}),
+      ...(row.paidAmount > 0 ? {
+        payments: [{
+          amount: row.paidAmount,
+          method: 'other',
+          note: 'Imported',
+          ...(row.paidAt ? { paidAt: row.paidAt } : {})
+        }]
+      } : {})
+    });
+
+    try {
+      for (const row of debts) {
+        try {
+          await createDebt(currentUser.uid, toDebtData(row));
+          importedCount++;
+        } catch (err) {
+          console.error(`Error importing row ${row.rowNumber}:`, err);
+          failedCount++;
+        }
+      }
+
+      for (const group of groups) {
+        try {
+          const newGroup = await createDebtGroup(currentUser.uid, {
+            name: group.name,
+            currency: group.currency
+          }) as { id: string };
+
+          await addDebtsToGroup(currentUser.uid, newGroup.id, group.rows.map(toDebtData));
+          importedCount += group.rows.length;
+        } catch (err) {
+          console.error(`Error importing group ${group.name}:`, err);
+          failedCount += group.rows.length;
+        }
+      }
+
+      Alert.alert(
+        'Import Complete',
+        failedCount > 0
+          ? `Imported ${importedCount} of ${importedCount + failedCount} debts. Some debts couldn't be saved, please try importing the file again.`
+          : `Imported ${importedCount} ${importedCount === 1 ? 'debt' : 'debts'}.`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderPreviewRow = (row: ImportRow, index: number) => (
+    <View key={`${row.rowNumber}-${index}`} style={styles.previewRow}>
+      <View style={styles.previewRowHeader}>
+        <Text style={styles.previewName} numberOfLines={1}>
+          {row.debtorName || 'No name'}
+        </Text>
+        <Text style={[styles.previewAmount, !isImportable(row) && styles.previewAmountSkipped]}>
+          {isNaN(row.amount) ? '—' : formatCurrency(row.amount, row.currency)}
+        </Text>
+      </View>
+      <Text style={styles.previewDetails} numberOfLines={1}>
+        {[
+          `Row ${row.rowNumber}`,
+          row.description,
+          row.createdAt ? new Date(row.createdAt).toLocaleDateString() : '',
+          row.groupName || groupName.trim(),
+          row.paidAmount > 0 && !isNaN(row.amount)
+            ? row.paidAmount >= row.amount ? 'Paid' : `${formatCurrency(row.paidAmount, row.currency)} paid`
+            : ''
+        ].filter(Boolean).join(' · ')}
+      </Text>
+      {row.errors.map(error => (
+        <Text key={error} style={styles.previewError}>{error}</Text>
+      ))}
+      {row.isDuplicate && (
+        <Text style={styles.previewDuplicate}>Already added, will be skipped</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="light" />
+
+      <LinearGradient
+        colors={['rgba(18,18,18,0.98)', 'rgba(28,28,28,0.95)']}
+        style={styles.backgroundGradient}
+      />
+
+      <Stack.Screen
+        options={{
+          headerShown: false
+        }}
+      />
+
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={24} color={Colors.light.tint} />
+        </Pressable>
+        <ThemedText type="subtitle" style={styles.headerTitle}>Import Debts</ThemedText>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={{ flex: 1 }}
+      >
+        <ScrollView
+          style={styles.scrollContainer}
+          contentContainerStyle={styles.contentContainer}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* File */}
+          <LinearGradient
+            colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+            style={styles.card}
+          >
+            <Text style={styles.cardTitle}>CSV File</Text>
+            <Text style={styles.cardSubtitle}>
+              Import debts from a spreadsheet, a Splitwise export, or a Paid export.
+            </Text>
+            <Pressable
+              style={({pressed}) => [styles.pickFileButton, {opacity: pressed ? 0.8 : 1}]}
+              onPress={handlePickFile}
+            >
+              <Ionicons name="document-text-outline" size={20} color={Colors.light.tint} />
+              <Text style={styles.pickFileText} numberOfLines={1}>
+                {fileName || 'Choose CSV File'}
+              </Text>
+            </Pressable>
+          </LinearGradient>
+
+          {table.length > 0 && (
+            <>
+              {/* Format */}
+              <LinearGradient
+                colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+                style={styles.card}
+              >
+                <Text style={styles.cardTitle}>Format</Text>
+                <View style={styles.optionRow}>
+                  {IMPORT_PRESETS.map(option => (
+                    <Pressable
+                      key={option.preset}
+                      style={[styles.option, preset === option.preset && styles.optionSelected]}
+                      onPress={() => setPreset(option.preset)}
+                    >
+                      <Text style={[styles.optionText, preset === option.preset && styles.optionTextSelected]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <Text style={styles.cardSubtitle}>
+                  {IMPORT_PRESETS.find(option => option.preset === preset)?.description}
+                </Text>
+              </LinearGradient>
+
+              {/* Columns */}
+              {preset === 'spreadsheet' ? (
+                <LinearGradient
+                  colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+                  style={styles.card}
+                >
+                  <Text style={styles.cardTitle}>Columns</Text>
+                  {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <View key={field} style={styles.mappingField}>
+                      <Text style={styles.mappingLabel}>
+                        {label}{required ? '' : ' (Optional)'}
+                      </Text>
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                        {!required && (
+                          <Pressable
+                            style={[styles.option, styles.mappingOption, mapping[field] === undefined && styles.optionSelected]}
+                            onPress={() => handleMappingChange(field, undefined)}
+                          >
+                            <Text style={[styles.optionText, mapping[field] === undefined && styles.optionTextSelected]}>None</Text>
+                          </Pressable>
+                        )}
+                        {headers.map((header, column) => (
+                          <Pressable
+                            key={`${header}-${column}`}
+                            style={[styles.option, styles.mappingOption, mapping[field] === column && styles.optionSelected]}
+                            onPress={() => handleMappingChange(field, column)}
+                          >
+                            <Text style={[styles.optionText, mapping[field] === column && styles.optionTextSelected]}>
+                              {header.trim() || `Column ${column + 1}`}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </ScrollView>
+                    </View>
+                  ))}
+                </LinearGradient>
+              ) : (
+                <LinearGradient
+                  colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+                  style={styles.card}
+                >
+                  <Text style={styles.cardTitle}>Which one is you?</Text>
+                  {splitwiseMembers.length === 0 ? (
+                    <Text style={styles.cardSubtitle}>
+                      This file doesn&apos;t look like a Splitwise export. Try the Spreadsheet format instead.
+                    </Text>
+                  ) : (
+                    <View style={styles.optionRow}>
+                      {splitwiseMembers.map(member => (
+                        <Pressable
+                          key={member}
+                          style={[styles.option, splitwiseMember === member && styles.optionSelected]}
+                          onPress={() => setSplitwiseMember(member)}
+                        >
+                          <Text style={[styles.optionText, splitwiseMember === member && styles.optionTextSelected]}>
+                            {member}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  )}
+                </LinearGradient>
+              )}
+
+              {/* Group */}
+              <LinearGradient
+                colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+                style={styles.card}
+              >
+                <Text style={styles.cardTitle}>Group (Optional)</Text>
+                <Text style={styles.cardSubtitle}>
+                  Add the imported debts to a new group instead of importing them as individual debts.
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Group name (e.g., Beach Trip)"
+                  placeholderTextColor="rgba(255,255,255,0.4)"
+                  value={groupName}
+                  onChangeText={setGroupName}
+                  selectionColor={Colors.light.tint}
+                />
+              </LinearGradient>
+
+              {/* Preview */}
+              <LinearGradient
+                colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+                style={styles.card}
+              >
+                <Text style={styles.cardTitle}>Preview</Text>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryReady}>{importableCount} ready</Text>
+                  {duplicateCount > 0 && (
+                    <Text style={styles.summaryDuplicate}>{duplicateCount} already added</Text>
+                  )}
+                  {errorCount > 0 && (
+                    <Text style={styles.summaryError}>{errorCount} with errors</Text>
+                  )}
+                </View>
+
+                {rows.length === 0 ? (
+                  <Text style={styles.cardSubtitle}>No debts found in this file.</Text>
+                ) : (
+                  rows.slice(0, PREVIEW_LIMIT).map(renderPreviewRow)
+                )}
+
+                {rows.length > PREVIEW_LIMIT && (
+                  <Text style={styles.cardSubtitle}>and {rows.length - PREVIEW_LIMIT} more</Text>
+                )}
+              </LinearGradient>
+
+              <Pressable
+                style={({pressed}) => [
+                  styles.importButton,
+                  {opacity: pressed || importing || importableCount === 0 ? 0.8 : 1}
+                ]}
+                onPress={handleImport}
+                disabled={importing || importableCount === 0}
+              >
+                {importing ? (
+                  <ActivityIndicator color="#000" />
+                ) : (
+                  <Text style={styles.importButtonText}>
+                    Import {importableCount} {importableCount === 1 ? 'Debt' : 'Debts'}
+                  </Text>
+                )}
+              </Pressable>
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  backgroundGradient: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerTitle: {
+    fontSize: 18,
+    color: '#fff',
+    fontFamily: 'Aeonik-Black',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(74, 226, 144, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    borderRadius: 20,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    padding: 20,
+    marginBottom: 20,
+  },
+  cardTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+    marginBottom: 12,
+  },
+  cardSubtitle: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 12,
+  },
+  pickFileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'rgba(74, 226, 144, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(74, 226, 144, 0.3)',
+  },
+  pickFileText: {
+    flex: 1,
+    color: Colors.light.tint,
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  optionSelected: {
+    backgroundColor: 'rgba(74, 226, 144, 0.15)',
+    borderColor: Colors.light.tint,
+  },
+  optionText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  optionTextSelected: {
+    color: Colors.light.tint,
+  },
+  mappingField: {
+    marginBottom: 16,
+  },
+  mappingLabel: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+    marginBottom: 8,
+  },
+  mappingOption: {
+    marginRight: 8,
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 12,
+    padding: 16,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'AeonikBlack-Regular',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 12,
+  },
+  summaryReady: {
+    color: Colors.light.tint,
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+  },
+  summaryDuplicate: {
+    color: '#FFB020',
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+  },
+  summaryError: {
+    color: '#FF5A5A',
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+  },
+  previewRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.05)',
+  },
+  previewRowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  previewName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+    marginRight: 12,
+  },
+  previewAmount: {
+    color: Colors.light.tint,
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+  },
+  previewAmountSkipped: {
+    color: 'rgba(255,255,255,0.4)',
+  },
+  previewDetails: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: 4,
+  },
+  previewError: {
+    color: '#FF5A5A',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: 4,
+  },
+  previewDuplicate: {
+    color: '#FFB020',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: 4,
+  },
+  importButton: {
+    backgroundColor: Colors.light.tint,
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+  },
+  importButtonText: {
+    color: '#000',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+  },
+});
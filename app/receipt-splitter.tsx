@@ -21,11 +21,52 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import ContactsModal from '@/components/ContactsModal';
+import CurrencyPicker from '@/components/CurrencyPicker';
+import SplitRulesEditor from '@/components/SplitRulesEditor';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/contexts/AuthContext';
-import { addDebtToGroup, createDebt, createDebtGroup } from '@/firebase/firestore';
+import {
+  addDebtsToGroup,
+  createDebt,
+  createDebtGroup,
+  createReceipt,
+  deleteDebt,
+  deleteDebtGroup,
+  deleteReceipt,
+  updateReceipt,
+  updateReceiptSplit
+} from '@/firebase/firestore';
+import { CurrencyCode, Debt, DebtGroup, Receipt, ReceiptPerson } from '@/firebase/models';
+import { getReceipt } from '@/firebase/repository';
+import { uploadReceiptImage } from '@/firebase/storage';
+import { useCurrencySettings } from '@/hooks/useCurrencySettings';
+import { formatAmount, getCurrencyInfo } from '@/utils/currency';
+import { loadAllocationSettings, saveAllocationSettings } from '@/utils/allocationSettings';
+import { fromMinorUnits } from '@/utils/money';
+import {
+  AllocationSettings,
+  ChargeStrategy,
+  DEFAULT_ALLOCATION_SETTINGS,
+  PersonShare,
+  allocateReceipt,
+  getItemSharesMinor
+} from '@/utils/receiptAllocation';
 import eventEmitter from '@/utils/eventEmitter';
-import { ReceiptItem as GroqReceiptItem, processReceiptImage } from '../services/groqService';
+import {
+  ReceiptData,
+  ReceiptImage,
+  ReceiptItem as OcrReceiptItem,
+  ReceiptMerge,
+  ReceiptMergeChoices,
+  mergeReceiptPages,
+  processReceiptImage,
+  processReceiptImages,
+  processReceiptText,
+  resolveMergedReceipt
+} from '../services/receiptOcr';
+
+// Most photos one receipt can be taken in
+const MAX_RECEIPT_PHOTOS = 5;
 
 interface Person {
   id: string;
@@ -33,6 +74,13 @@ interface Person {
   phoneNumber?: string; // Added phone number field
 }
 
+// A photo of the receipt, what was read from it, and where it was uploaded once it has been
+interface ReceiptPhoto {
+  uri: string | null;            // Local URI (null for the photos of a saved receipt)
+  data: ReceiptData | null;      // What OCR read from the photo
+  uploaded: ReceiptImage | null;
+}
+
 interface ReceiptItem {
   id: string;
   name: string;
@@ -43,15 +91,33 @@ interface ReceiptItem {
   splitBetween: string[]; // Array of person IDs for split items
 }
 
+// Describe how a charge is split, for explainer text and debt descriptions
+const describeChargeStrategy = (strategy: ChargeStrategy): string => {
+  switch (strategy.method) {
+    case 'equal': return 'split equally';
+    case 'fixed': return 'fixed per person';
+    case 'proportional':
+    default: return 'split by spend';
+  }
+};
+
 export default function ReceiptSplitterScreen() {
   const { currentUser } = useAuth();
+  const { homeCurrency } = useCurrencySettings();
   const router = useRouter();
   const params = useLocalSearchParams();
   const imageUri = params.imageUri as string;
+  // Set when reopening a saved receipt to edit its split
+  const receiptId = params.receiptId as string | undefined;
   
   const [loading, setLoading] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
+  const [loadingReceipt, setLoadingReceipt] = useState(!!receiptId);
+  const [savedReceipt, setSavedReceipt] = useState<Receipt | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [ocrWarnings, setOcrWarnings] = useState<string[]>([]);
+  const [showTextEntry, setShowTextEntry] = useState(false);
+  const [receiptText, setReceiptText] = useState('');
   const [receiptItems, setReceiptItems] = useState<ReceiptItem[]>([]);
   
   const [subtotal, setSubtotal] = useState(0);
@@ -66,8 +132,21 @@ export default function ReceiptSplitterScreen() {
   const [tipInput, setTipInput] = useState('');
   const [extraFeesInput, setExtraFeesInput] = useState('');
   
+  const [currency, setCurrency] = useState<CurrencyCode>(homeCurrency);
+  const currencySymbol = getCurrencyInfo(currency).symbol;
+  
   const [description, setDescription] = useState('Receipt Split');
   const [storeName, setStoreName] = useState('');
+  const [receiptDate, setReceiptDate] = useState<string | null>(null);
+  
+  // Photos of the receipt, top first (a long receipt can take several)
+  const [photos, setPhotos] = useState<ReceiptPhoto[]>(
+    imageUri ? [{ uri: imageUri, data: null, uploaded: null }] : []
+  );
+  
+  // A long receipt's photos combined, waiting for the user to resolve lines they disagree on
+  const [pendingMerge, setPendingMerge] = useState<ReceiptMerge | null>(null);
+  const [mergeChoices, setMergeChoices] = useState<ReceiptMergeChoices>({});
   
   // People state for assignments
   const [people, setPeople] = useState<Person[]>([
@@ -84,111 +163,115 @@ export default function ReceiptSplitterScreen() {
   
   // Calculate totals per person
   const [personTotals, setPersonTotals] = useState<{[key: string]: number}>({});
+  const [personShares, setPersonShares] = useState<{[key: string]: PersonShare}>({});
+  const [allocatedCharges, setAllocatedCharges] = useState({ tax: 0, tip: 0, extraFees: 0 });
   
-  // Calculate the totals based on the receipt items and assignments
+  // How tax, tip and extra fees are split
+  const [allocationSettings, setAllocationSettings] = useState<AllocationSettings>(DEFAULT_ALLOCATION_SETTINGS);
+  const [showSplitRules, setShowSplitRules] = useState(false);
+  
+  // Load the user's default split rules (a reopened receipt keeps its own)
   useEffect(() => {
-    const selectedItems = receiptItems.filter(item => item.split);
-    const calculatedSubtotal = selectedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    setSubtotal(calculatedSubtotal);
-    
-    // Calculate total based on what's available
-    let calculatedTotal = calculatedSubtotal;
-    
-    // Add tax if available
-    if (tax !== null) {
-      calculatedTotal += tax;
+    if (!receiptId) {
+      loadAllocationSettings().then(setAllocationSettings);
     }
+  }, [receiptId]);
+  
+  // Restore a saved receipt and its split so it can be edited
+  useEffect(() => {
+    if (!receiptId || !currentUser) return;
     
-    // Add tip if available
-    if (tip !== null) {
-      calculatedTotal += tip;
-    }
+    const loadReceipt = async () => {
+      try {
+        const receipt = await getReceipt(currentUser.uid, receiptId);
+        if (!receipt) {
+          setError('This receipt could not be found');
+          return;
+        }
+        
+        setSavedReceipt(receipt);
+        setStoreName(receipt.store);
+        setReceiptDate(receipt.date);
+        setDescription(receipt.description);
+        setCurrency(receipt.currency);
+        setReceiptItems(receipt.items);
+        setPeople(receipt.people.map(({ id, name, phoneNumber }) => ({ id, name, phoneNumber })));
+        setAllocationSettings(receipt.allocationSettings);
+        
+        setSubtotal(receipt.subtotal);
+        setSubtotalInput(receipt.subtotal.toString());
+        setTax(receipt.tax);
+        setTaxInput(receipt.tax ? receipt.tax.toString() : '');
+        setTip(receipt.tip);
+        setTipInput(receipt.tip ? receipt.tip.toString() : '');
+        setExtraFees(receipt.extraFees);
+        setExtraFeesInput(receipt.extraFees ? receipt.extraFees.toString() : '');
+        
+        const savedImages = receipt.pageImages
+          || (receipt.imagePath && receipt.imageUrl ? [{ path: receipt.imagePath, url: receipt.imageUrl }] : []);
+        setPhotos(savedImages.map(image => ({ uri: null, data: null, uploaded: image })));
+      } catch (err) {
+        console.error('Error loading receipt:', err);
+        setError('Failed to load the receipt');
+      } finally {
+        setLoadingReceipt(false);
+      }
+    };
     
-    // Add extra fees if available
-    if (extraFees !== null) {
-      calculatedTotal += extraFees;
-    }
+    loadReceipt();
+  }, [receiptId, currentUser]);
+  
+  // Calculate the totals based on the receipt items and assignments
+  useEffect(() => {
+    const result = allocateReceipt({
+      items: receiptItems,
+      personIds: people.map(person => person.id),
+      charges: { tax, tip, extraFees },
+      settings: allocationSettings,
+      currency
+    });
+    const shares = result.shares;
     
-    setTotal(calculatedTotal);
+    setSubtotal(result.subtotal);
+    setAllocatedCharges(result.charges);
+    setTotal(result.total);
     
-    // Calculate totals per person
     const personAmounts: {[key: string]: number} = {};
-    
-    // Initialize with 0 for all people
-    people.forEach(person => {
-      personAmounts[person.id] = 0;
-    });
-    
-    // Sum up items assigned to each person, handling both single assignee and split items
-    selectedItems.forEach(item => {
-      if (item.splitBetween && item.splitBetween.length > 0) {
-        // Item is split between multiple people
-        const splitAmount = (item.price * item.quantity) / item.splitBetween.length;
-        item.splitBetween.forEach(personId => {
-          personAmounts[personId] = (personAmounts[personId] || 0) + splitAmount;
-        });
-      } else if (item.assignedTo) {
-        // Item is assigned to a single person (old-style assignment)
-        personAmounts[item.assignedTo] = (personAmounts[item.assignedTo] || 0) + 
-          (item.price * item.quantity);
-      }
+    Object.keys(shares).forEach(personId => {
+      personAmounts[personId] = shares[personId].total;
     });
     
-    // Count people with assigned items (including 'You')
-    const peopleWithItems = people.filter(p => personAmounts[p.id] > 0).length;
-    
-    // Add portion of tax proportionally based on items
-    if (calculatedSubtotal > 0) {
-      // Calculate total percentage of subtotal for each person
-      const personPercentages: {[key: string]: number} = {};
-      
-      people.forEach(person => {
-        personPercentages[person.id] = personAmounts[person.id] / calculatedSubtotal;
-      });
-      
-      // Add tax and extra fees proportionally based on items
-      people.forEach(person => {
-        const percentage = personPercentages[person.id];
-        
-        if (tax !== null) {
-          personAmounts[person.id] += tax * percentage;
-        }
-        
-        if (extraFees !== null) {
-          personAmounts[person.id] += extraFees * percentage;
-        }
-      });
-      
-      // Add tip equally among ALL people who have items assigned (including 'You')
-      if (tip !== null && tip > 0 && peopleWithItems > 0) {
-        const equalTipShare = tip / peopleWithItems;
-        
-        people.forEach(person => {
-          // Add equal tip to anyone who has items assigned
-          if (personAmounts[person.id] > 0) {
-            personAmounts[person.id] += equalTipShare;
-          }
-        });
-      }
-    }
-    
+    setPersonShares(shares);
     setPersonTotals(personAmounts);
-  }, [receiptItems, tax, tip, extraFees, people]);
+  }, [receiptItems, tax, tip, extraFees, people, currency, allocationSettings]);
   
-  // Process the receipt image using Groq API when image is available
+  // Process the receipt image with the OCR provider when image is available
   useEffect(() => {
     if (imageUri) {
-      analyzeReceiptImage(imageUri);
+      analyzeReceipt({ imageUri });
     }
   }, [imageUri]);
 
-  // Function to analyze receipt using Groq API
-  const analyzeReceiptImage = async (uri: string) => {
+  // Function to analyze a receipt photo with the OCR provider, receipt text with the local parser,
+  // or the combined photos of a long receipt once its conflicts are resolved
+  const analyzeReceipt = async (
+    source: { imageUri: string } | { text: string } | { merge: ReceiptMerge; choices: ReceiptMergeChoices }
+  ) => {
     try {
       setAnalyzing(true);
       setError(null);
+      setOcrWarnings([]);
       
-      const result = await processReceiptImage(uri);
+      let result;
+      if ('imageUri' in source) {
+        result = await processReceiptImage(source.imageUri);
+        setPhotos([{ uri: source.imageUri, data: result.data || null, uploaded: result.image || null }]);
+      } else if ('text' in source) {
+        result = await processReceiptText(source.text);
+      } else {
+        result = resolveMergedReceipt(source.merge, source.choices);
+        setPendingMerge(null);
+      }
       
       if (!result.success || !result.data) {
         setError('Failed to analyze receipt: ' + (result.error || 'Unknown error'));
@@ -196,15 +279,17 @@ export default function ReceiptSplitterScreen() {
       }
       
       const data = result.data;
+      setOcrWarnings(result.warnings || []);
       
       // Set store name and date if available
       setStoreName(data.store || 'Unknown Store');
+      setReceiptDate(data.date);
       
       // Update description with store name
       setDescription(`${data.store || 'Unknown Store'}`);
       
       // Convert items to our format
-      const formattedItems = data.items.map((item: GroqReceiptItem, index: number) => ({
+      const formattedItems = data.items.map((item: OcrReceiptItem, index: number) => ({
         id: index.toString(),
         name: item.name,
         price: item.price,
@@ -247,6 +332,46 @@ export default function ReceiptSplitterScreen() {
     }
   };
   
+  // Read more photos of a long receipt in order, then combine them with the photos already read
+  const addReceiptPhotos = async (imageUris: string[]) => {
+    try {
+      setAnalyzing(true);
+      setError(null);
+      
+      const result = await processReceiptImages(imageUris);
+      if (!result.success || !result.pages) {
+        setError('Failed to analyze receipt: ' + (result.error || 'Unknown error'));
+        return;
+      }
+      
+      const allPhotos = [
+        ...photos,
+        ...result.pages.map(page => ({ uri: page.imageUri, data: page.data, uploaded: page.image || null }))
+      ];
+      setPhotos(allPhotos);
+      
+      const merge = mergeReceiptPages(allPhotos.flatMap(photo => photo.data ? [photo.data] : []));
+      if (merge.conflicts.length > 0) {
+        // Let the user resolve the conflicts before anything is split
+        setMergeChoices({});
+        setPendingMerge(merge);
+      } else {
+        await analyzeReceipt({ merge, choices: {} });
+      }
+    } catch (err: any) {
+      console.error('Error adding receipt photos:', err);
+      setError('Failed to analyze receipt: ' + err.message);
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+  
+  // Function to analyze receipt text entered by the user (works offline)
+  const analyzeReceiptText = () => {
+    setShowTextEntry(false);
+    analyzeReceipt({ text: receiptText });
+  };
+  
   // Toggle item selection for splitting
   const toggleItemSplit = (id: string) => {
     setReceiptItems(receiptItems.map(item => 
@@ -273,13 +398,102 @@ export default function ReceiptSplitterScreen() {
     ));
   };
   
-  // Format a number safely, handling null values
+  // Remember the current split rules as the default for future receipts
+  const handleSaveSplitRules = async () => {
+    // Only "You" exists on every receipt, so other exemptions aren't remembered
+    const keepYou = (strategy: ChargeStrategy): ChargeStrategy => ({
+      ...strategy,
+      exemptPersonIds: strategy.exemptPersonIds.filter(id => id === '1')
+    });
+    
+    try {
+      await saveAllocationSettings({
+        ...allocationSettings,
+        tax: keepYou(allocationSettings.tax),
+        tip: keepYou(allocationSettings.tip),
+        extraFees: keepYou(allocationSettings.extraFees)
+      });
+      Alert.alert('Default Saved', 'These split rules will be used for your future receipts.');
+    } catch (err) {
+      console.error('Error saving split rules:', err);
+      Alert.alert('Error', 'Failed to save your default split rules');
+    }
+  };
+  
+  // Format a number safely in the receipt's currency, handling null values
   const safeFormat = (value: number | null): string => {
-    if (value === null) return '0.00';
-    return value.toFixed(2);
+    return formatAmount(value === null ? 0 : value, currency);
+  };
+  
+  // Upload the receipt's photos to keep with the receipt, unless the OCR provider already did
+  const saveReceiptPhotos = async (userId: string): Promise<ReceiptImage[]> => {
+    const uploaded = await Promise.all(photos.map(async photo => {
+      if (photo.uploaded || !photo.uri) return photo.uploaded;
+      
+      try {
+        return await uploadReceiptImage(userId, photo.uri) as ReceiptImage;
+      } catch (err) {
+        // The split is still saved, just without this photo
+        console.error('Error uploading receipt photo:', err);
+        return null;
+      }
+    }));
+    
+    setPhotos(photos.map((photo, index) => ({ ...photo, uploaded: uploaded[index] })));
+    return uploaded.filter((image): image is ReceiptImage => image !== null);
+  };
+  
+  // The people on the receipt and the debts created for them, as stored on the receipt
+  const toReceiptPeople = (debtIds: {[personId: string]: string}): ReceiptPerson[] => {
+    return people.map(person => ({
+      id: person.id,
+      name: person.name,
+      ...(person.phoneNumber ? { phoneNumber: person.phoneNumber } : {}),
+      ...(debtIds[person.id] ? { debtId: debtIds[person.id] } : {})
+    }));
   };
   
-  // Handle creating debts from the receipt for each person
+  // Record the debts created from a receipt on it, so its split can be reopened later
+  const linkReceiptDebts = async (
+    userId: string,
+    newReceiptId: string,
+    debtIds: {[personId: string]: string},
+    groupId: string | null
+  ) => {
+    try {
+      await updateReceipt(userId, newReceiptId, {
+        people: toReceiptPeople(debtIds),
+        debtIds: Object.values(debtIds),
+        groupId
+      });
+    } catch (err) {
+      // The debts were already created, so this doesn't fail the split
+      console.error('Error linking debts to receipt:', err);
+    }
+  };
+  
+  // Delete what was saved of a new receipt's split when it fails part way, so the receipt
+  // (and its group) aren't left behind without their debts
+  const discardNewSplit = async (
+    userId: string,
+    newReceiptId: string,
+    groupId: string | null,
+    debtIds: {[personId: string]: string}
+  ) => {
+    try {
+      for (const debtId of Object.values(debtIds)) {
+        await deleteDebt(userId, debtId);
+      }
+      if (groupId) {
+        await deleteDebtGroup(userId, groupId, false);
+      }
+      await deleteReceipt(userId, newReceiptId);
+    } catch (err) {
+      console.error('Error cleaning up failed receipt split:', err);
+    }
+  };
+  
+  // Handle creating debts from the receipt for each person (or updating them for a reopened receipt)
   const handleCreateDebt = async () => {
     if (!currentUser) {
       setError('You must be logged in to create a debt');
@@ -297,6 +511,32 @@ export default function ReceiptSplitterScreen() {
       return;
     }
     
+    // On a reopened receipt, people who no longer owe anything have their debts deleted
+    const removedPeople = (savedReceipt?.people || []).filter(person =>
+      person.debtId && !peopleWithItems.some(remaining => remaining.id === person.id)
+    );
+    
+    if (removedPeople.length > 0) {
+      Alert.alert(
+        'Delete Debts',
+        `${removedPeople.map(person => person.name).join(', ')} no longer owe anything on this receipt. Their debts will be deleted.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: () => saveSplit(currentUser.uid, peopleWithItems, removedPeople)
+          }
+        ]
+      );
+      return;
+    }
+    
+    saveSplit(currentUser.uid, peopleWithItems, removedPeople);
+  };
+  
+  // Save the receipt and the debts split from it
+  const saveSplit = async (userId: string, peopleWithItems: Person[], removedPeople: ReceiptPerson[]) => {
     try {
       setLoading(true);
       
@@ -313,13 +553,13 @@ export default function ReceiptSplitterScreen() {
         
         // Generate descriptions with indication of split items
         const itemsDescription = personItems.map(item => {
-          let itemText = `${item.quantity}x ${item.name} ($${safeFormat(item.price)} each)`;
+          let itemText = `${item.quantity}x ${item.name} (${currencySymbol}${safeFormat(item.price)} each)`;
           
           // Add split indicator if this is a shared item
           if (item.splitBetween && item.splitBetween.length > 1) {
             const totalPeople = item.splitBetween.length;
-            const splitAmount = (item.price * item.quantity) / totalPeople;
-            itemText += ` [Split ${totalPeople} ways, your share: $${safeFormat(splitAmount)}]`;
+            const splitAmount = fromMinorUnits(getItemSharesMinor(item, currency)[person.id] || 0, currency);
+            itemText += ` [Split ${totalPeople} ways, your share: ${currencySymbol}${safeFormat(splitAmount)}]`;
           }
           
           return itemText;
@@ -327,132 +567,158 @@ export default function ReceiptSplitterScreen() {
         
         let personDescription = `${description}\n\nItems: ${itemsDescription}`;
         
-        // Calculate the proportion of total for this person
-        const personAmount = personTotals[person.id];
-        
-        // Count ALL people with items (including "You")
-        const peopleWithItemsCount = people.filter(p => 
-          personTotals[p.id] > 0
-        ).length;
+        // This person's share, already allocated in whole minor units
+        const share = personShares[person.id];
         
-        // Calculate subtotal for calculating proportional shares
-        const subtotalForCalculation = Math.max(subtotal, 0.01); // Avoid division by zero
-        
-        // Add proportional tax
-        if (tax !== null && tax > 0) {
-          // Calculate this person's proportion of the subtotal
-          const itemsTotal = personItems.reduce((sum, item) => {
-            if (item.splitBetween && item.splitBetween.length > 1) {
-              return sum + ((item.price * item.quantity) / item.splitBetween.length);
-            } else {
-              return sum + (item.price * item.quantity);
-            }
-          }, 0);
-          
-          const proportion = itemsTotal / subtotalForCalculation;
-          const personTax = tax * proportion;
-          personDescription += `\nTax: $${safeFormat(personTax)}`;
+        // Add tax, tip and extra fees, explaining how each was split
+        if (share.tax > 0) {
+          personDescription += `\nTax: ${currencySymbol}${safeFormat(share.tax)} (${describeChargeStrategy(allocationSettings.tax)})`;
         }
         
-        // Add equal tip (explain it's split equally)
-        if (tip !== null && tip > 0 && peopleWithItemsCount > 0) {
-          const equalTipShare = tip / peopleWithItemsCount;
-          personDescription += `\nTip: $${safeFormat(equalTipShare)} (split equally)`;
+        if (share.tip > 0) {
+          personDescription += `\nTip: ${currencySymbol}${safeFormat(share.tip)} (${describeChargeStrategy(allocationSettings.tip)})`;
         }
         
-        // Add proportional extra fees
-        if (extraFees !== null && extraFees > 0) {
-          // Calculate this person's proportion of the subtotal
-          const itemsTotal = personItems.reduce((sum, item) => {
-            if (item.splitBetween && item.splitBetween.length > 1) {
-              return sum + ((item.price * item.quantity) / item.splitBetween.length);
-            } else {
-              return sum + (item.price * item.quantity);
-            }
-          }, 0);
-          
-          const proportion = itemsTotal / subtotalForCalculation;
-          const personExtraFees = extraFees * proportion;
-          personDescription += `\nExtra Fees: $${safeFormat(personExtraFees)}`;
+        if (share.extraFees > 0) {
+          personDescription += `\nExtra Fees: ${currencySymbol}${safeFormat(share.extraFees)} (${describeChargeStrategy(allocationSettings.extraFees)})`;
         }
         
         return {
+          personId: person.id,
           debtorName: person.name,
-          amount: parseFloat(safeFormat(personAmount)),
+          amount: share.total,
           description: personDescription,
           phoneNumber: person.phoneNumber || ''
         };
       });
       
-      // Create a group debt if there are 2 or more people
-      if (peopleWithItems.length > 1) {
+      const images = await saveReceiptPhotos(userId);
+      const receiptFields = {
+        store: storeName,
+        date: receiptDate,
+        description,
+        currency,
+        imagePath: images[0]?.path ?? null,
+        imageUrl: images[0]?.url ?? null,
+        ...(images.length > 1 ? { pageImages: images } : {}),
+        items: receiptItems,
+        tax,
+        tip,
+        extraFees,
+        subtotal,
+        total,
+        allocationSettings
+      };
+      
+      // Update the debts of a reopened receipt in place, together with the receipt
+      if (savedReceipt) {
         try {
-          // Create a new debt group
+          const { newDebts } = await updateReceiptSplit(userId, savedReceipt.id as string, {
+            receiptData: receiptFields,
+            people: toReceiptPeople({}),
+            debts: debtData.map(debt => ({
+              ...debt,
+              debtId: savedReceipt.people.find(person => person.id === debt.personId)?.debtId,
+              currency
+            })),
+            removedDebtIds: removedPeople.map(person => person.debtId as string),
+            groupId: savedReceipt.groupId ?? null
+          }) as { newDebts: Debt[] };
+          
+          if (savedReceipt.groupId) {
+            eventEmitter.emit('GROUP_UPDATED', { groupId: savedReceipt.groupId });
+          } else {
+            newDebts.forEach(newDebt => eventEmitter.emit('DEBT_ADDED', newDebt));
+          }
+          
+          Alert.alert(
+            'Split Updated',
+            `Updated the debts from ${storeName || description}.`,
+            [{ text: 'OK', onPress: () => router.back() }]
+          );
+        } catch (error) {
+          console.error('Error updating receipt split:', error);
+          setError('Failed to update the debts from this receipt');
+        }
+        return;
+      }
+      
+      // Save the receipt first so the debts can reference it
+      const receipt = await createReceipt(userId, {
+        ...receiptFields,
+        people: toReceiptPeople({})
+      }) as Receipt;
+      const newReceiptId = receipt.id as string;
+      const debtIds: {[personId: string]: string} = {};
+      const isGroup = peopleWithItems.length > 1;
+      let newGroup: DebtGroup | null = null;
+      const newDebts: Debt[] = [];
+      
+      try {
+        if (isGroup) {
+          // Create a group debt if there are 2 or more people
           const groupName = `${description} (${peopleWithItems.length} people)`;
           const groupDescription = `Receipt split from ${storeName || 'Unknown Store'} on ${new Date().toLocaleDateString()}`;
           
-          const newGroup = await createDebtGroup(currentUser.uid, {
+          newGroup = await createDebtGroup(userId, {
             name: groupName,
-            description: groupDescription
-          }) as { id: string };
+            description: groupDescription,
+            currency,
+            receiptId: newReceiptId
+          }) as DebtGroup;
           
           console.log('Successfully created group:', newGroup);
           
-          // Add each person's debt to the group
-          const promises = debtData.map(debt => {
-            return addDebtToGroup(
-              currentUser.uid,
-              newGroup.id as string,
-              {
-                debtorName: debt.debtorName,
-                amount: debt.amount,
-                description: debt.description,
-                phoneNumber: debt.phoneNumber
-              }
-            );
+          // Add everyone's debts to the group together
+          const groupDebts = await addDebtsToGroup(
+            userId,
+            newGroup.id as string,
+            debtData.map(debt => ({
+              debtorName: debt.debtorName,
+              amount: debt.amount,
+              currency,
+              description: debt.description,
+              phoneNumber: debt.phoneNumber,
+              receiptId: newReceiptId
+            }))
+          ) as Debt[];
+          debtData.forEach((debt, index) => {
+            debtIds[debt.personId] = groupDebts[index].id as string;
           });
-          
-          await Promise.all(promises);
-          
-          // Emit event to update the home screen
-          eventEmitter.emit('DEBT_ADDED', newGroup);
-          
-          // Show success message
-          Alert.alert(
-            'Group Debt Created',
-            `Successfully created a group debt with ${peopleWithItems.length} people for ${storeName || description}.`,
-            [{ text: 'OK', onPress: () => router.back() }]
-          );
-        } catch (error) {
-          console.error('Error creating group debt:', error);
-          setError('Failed to create group debt from receipt');
-        }
-      } else {
-        // Create individual debt (original behavior for single person)
-        const createdDebts = [];
-        for (const debt of debtData) {
-          try {
-            // Call your createDebt function here to save to database
-            const newDebt = await createDebt(currentUser.uid, {
+        } else {
+          // Create individual debt (original behavior for single person)
+          for (const debt of debtData) {
+            const newDebt = await createDebt(userId, {
               debtorName: debt.debtorName,
               amount: debt.amount,
+              currency,
               description: debt.description,
-              phoneNumber: debt.phoneNumber
-            });
-            
-            // Add to created debts
-            createdDebts.push(newDebt);
-          } catch (error) {
-            console.error('Error creating debt:', error);
+              phoneNumber: debt.phoneNumber,
+              receiptId: newReceiptId
+            }) as Debt;
+            debtIds[debt.personId] = newDebt.id as string;
+            newDebts.push(newDebt);
           }
         }
-        
-        // Emit event for each created debt
-        createdDebts.forEach(debt => {
-          eventEmitter.emit('DEBT_ADDED', debt);
-        });
-        
-        // Show success message after all debts are created
+      } catch (error) {
+        console.error(isGroup ? 'Error creating group debt:' : 'Error creating debt:', error);
+        await discardNewSplit(userId, newReceiptId, newGroup?.id ?? null, debtIds);
+        setError(isGroup ? 'Failed to create group debt from receipt' : 'Failed to create debt from receipt');
+        return;
+      }
+      
+      await linkReceiptDebts(userId, newReceiptId, debtIds, newGroup?.id ?? null);
+      
+      // Show success message
+      if (newGroup) {
+        eventEmitter.emit('DEBT_ADDED', newGroup);
+        Alert.alert(
+          'Group Debt Created',
+          `Successfully created a group debt with ${peopleWithItems.length} people for ${storeName || description}.`,
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+      } else {
+        newDebts.forEach(newDebt => eventEmitter.emit('DEBT_ADDED', newDebt));
         Alert.alert(
           'Debt Created',
           `Successfully created debt for ${peopleWithItems[0].name}.`,
@@ -467,15 +733,15 @@ export default function ReceiptSplitterScreen() {
     }
   };
 
-  // Handle retaking or choosing a new photo
-  const handleNewPhoto = async () => {
+  // Take a photo with the camera, returning its URI (or null if none was taken)
+  const takePhoto = async (): Promise<string | null> => {
     try {
       // Request camera permission
       const { status } = await ImagePicker.requestCameraPermissionsAsync();
       
       if (status !== 'granted') {
         Alert.alert('Permission required', 'Camera permission is required to take photos. Please enable it in your device settings.');
-        return;
+        return null;
       }
       
       // Launch camera
@@ -486,18 +752,77 @@ export default function ReceiptSplitterScreen() {
         aspect: [4, 3]
       });
       
-      if (!result.canceled && result.assets.length > 0) {
-        // Process the new image
-        analyzeReceiptImage(result.assets[0].uri);
-      }
+      return !result.canceled && result.assets.length > 0 ? result.assets[0].uri : null;
     } catch (error) {
       console.error('Camera error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       Alert.alert('Camera Error', `There was a problem accessing the camera: ${errorMessage}. Please try again.`);
       setError('Failed to take a new photo: ' + errorMessage);
+      return null;
+    }
+  };
+  
+  // Handle retaking or choosing a new photo
+  const handleNewPhoto = async () => {
+    const uri = await takePhoto();
+    if (uri) {
+      // Process the new image
+      analyzeReceipt({ imageUri: uri });
+    }
+  };
+  
+  // Choose photos of the rest of a long receipt from the library, in the order they were picked
+  const choosePagePhotos = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      
+      if (status !== 'granted') {
+        Alert.alert('Permission required', 'Photo library permission is required to add photos. Please enable it in your device settings.');
+        return;
+      }
+      
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.8,
+        allowsMultipleSelection: true,
+        orderedSelection: true,
+        selectionLimit: MAX_RECEIPT_PHOTOS - photos.length
+      });
+      
+      if (!result.canceled && result.assets.length > 0) {
+        addReceiptPhotos(result.assets.map(asset => asset.uri));
+      }
+    } catch (error) {
+      console.error('Image picker error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Upload Error', `There was a problem choosing photos: ${errorMessage}. Please try again.`);
     }
   };
   
+  // Handle adding another photo of a receipt too long for one shot
+  const handleAddPage = () => {
+    if (photos.length >= MAX_RECEIPT_PHOTOS) {
+      Alert.alert('Too Many Photos', `A receipt can be split from up to ${MAX_RECEIPT_PHOTOS} photos.`);
+      return;
+    }
+    
+    Alert.alert(
+      'Add Photo',
+      'Photograph the next part of the receipt, overlapping the last photo by a line or two.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Take Photo',
+          onPress: async () => {
+            const uri = await takePhoto();
+            if (uri) addReceiptPhotos([uri]);
+          }
+        },
+        { text: 'Choose Photos', onPress: choosePagePhotos }
+      ]
+    );
+  };
+  
   // Add a new person to split with
   const addPerson = () => {
     if (!newPersonName.trim()) {
@@ -804,7 +1129,7 @@ export default function ReceiptSplitterScreen() {
         >
           <Ionicons name="chevron-back" size={24} color={Colors.light.tint} />
         </Pressable>
-        <Text style={styles.headerTitle}>Receipt Splitter</Text>
+        <Text style={styles.headerTitle}>{receiptId ? 'Edit Receipt Split' : 'Receipt Splitter'}</Text>
         <View style={{width: 24}} />
       </View>
       
@@ -812,12 +1137,36 @@ export default function ReceiptSplitterScreen() {
         {error && (
           <View style={styles.errorContainer}>
             <Text style={styles.errorText}>{error}</Text>
+            <Pressable onPress={() => setShowTextEntry(true)}>
+              <Text style={styles.errorActionText}>Enter the receipt text instead</Text>
+            </Pressable>
+          </View>
+        )}
+        
+        {/* Amounts read from the receipt that don't add up */}
+        {ocrWarnings.length > 0 && (
+          <View style={styles.warningContainer}>
+            <View style={styles.warningHeader}>
+              <Ionicons name="warning-outline" size={18} color="#f59e0b" />
+              <Text style={styles.warningTitle}>Check the receipt</Text>
+            </View>
+            {ocrWarnings.map(warning => (
+              <Text key={warning} style={styles.warningText}>{warning}</Text>
+            ))}
+            <Text style={styles.warningHint}>
+              Some amounts may have been misread. Compare the items and totals below with the receipt.
+            </Text>
           </View>
         )}
         
         {/* Receipt Image */}
         <View style={styles.imageContainer}>
-          {analyzing ? (
+          {loadingReceipt ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={Colors.light.tint} />
+              <Text style={styles.loadingText}>Loading receipt...</Text>
+            </View>
+          ) : analyzing ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color={Colors.light.tint} />
               <Text style={styles.loadingText}>Analyzing receipt...</Text>
@@ -825,13 +1174,38 @@ export default function ReceiptSplitterScreen() {
                 This may take a moment as we extract the items and prices.
               </Text>
             </View>
-          ) : imageUri ? (
+          ) : photos.length > 0 ? (
             <>
-              <Image
-                source={{ uri: imageUri }}
-                style={styles.receiptImage}
-                resizeMode="contain"
-              />
+              {photos.length === 1 ? (
+                <Image
+                  source={{ uri: photos[0].uri || photos[0].uploaded?.url }}
+                  style={styles.receiptImage}
+                  resizeMode="contain"
+                />
+              ) : (
+                <ScrollView horizontal style={styles.receiptPages} showsHorizontalScrollIndicator={false}>
+                  {photos.map((photo, index) => (
+                    <View key={photo.uri || photo.uploaded?.path || index} style={styles.receiptPage}>
+                      <Image
+                        source={{ uri: photo.uri || photo.uploaded?.url }}
+                        style={styles.receiptImage}
+                        resizeMode="contain"
+                      />
+                      <Text style={styles.receiptPageLabel}>Photo {index + 1}</Text>
+                    </View>
+                  ))}
+                </ScrollView>
+              )}
+              {/* More photos can only be combined with photos that were read on this device */}
+              {photos.every(photo => photo.data) && (
+                <Pressable 
+                  style={[styles.newPhotoButton, styles.addPageButton]}
+                  onPress={handleAddPage}
+                >
+                  <Ionicons name="add" size={16} color="#FFF" />
+                  <Text style={styles.newPhotoText}>Add Photo</Text>
+                </Pressable>
+              )}
               <Pressable 
                 style={styles.newPhotoButton}
                 onPress={handleNewPhoto}
@@ -851,6 +1225,13 @@ export default function ReceiptSplitterScreen() {
                 <Ionicons name="camera" size={16} color="#000" />
                 <Text style={styles.takePhotoText}>Take Photo</Text>
               </Pressable>
+              <Pressable 
+                style={styles.enterTextButton}
+                onPress={() => setShowTextEntry(true)}
+              >
+                <Ionicons name="document-text-outline" size={16} color={Colors.light.tint} />
+                <Text style={styles.enterTextText}>Enter Text</Text>
+              </Pressable>
             </View>
           )}
         </View>
@@ -871,7 +1252,7 @@ export default function ReceiptSplitterScreen() {
               <View key={person.id} style={styles.personItem}>
                 <View style={styles.personInfo}>
                   <Text style={styles.personName}>{person.name}</Text>
-                  <Text style={styles.personTotal}>${safeFormat(personTotals[person.id] || 0)}</Text>
+                  <Text style={styles.personTotal}>{currencySymbol}{safeFormat(personTotals[person.id] || 0)}</Text>
                 </View>
                 
                 {person.id !== '1' && ( // Don't allow removing "You"
@@ -946,12 +1327,12 @@ export default function ReceiptSplitterScreen() {
                 <View style={styles.itemDetails}>
                   <View style={styles.itemNameRow}>
                     <Text style={styles.itemName}>{item.name}</Text>
-                    <Text style={styles.itemTotal}>${safeFormat(item.price * item.quantity)}</Text>
+                    <Text style={styles.itemTotal}>{currencySymbol}{safeFormat(item.price * item.quantity)}</Text>
                   </View>
                   <View style={styles.itemControls}>
                     <View style={styles.priceContainer}>
                       <View style={styles.priceEditContainer}>
-                        <Text style={styles.currencySymbol}>$</Text>
+                        <Text style={styles.currencySymbol}>{currencySymbol}</Text>
                         <TextInput
                           style={styles.itemPriceInput}
                           value={item.price.toString()}
@@ -1004,6 +1385,13 @@ export default function ReceiptSplitterScreen() {
         <View style={styles.sectionContainer}>
           <Text style={styles.sectionTitle}>Totals</Text>
           
+          <View style={styles.totalRow}>
+            <View style={styles.totalLabelContainer}>
+              <Text style={styles.totalLabel}>Currency:</Text>
+            </View>
+            <CurrencyPicker value={currency} onChange={setCurrency} />
+          </View>
+          
           <View style={styles.totalRow}>
             <View style={styles.totalLabelContainer}>
               <Text style={styles.totalLabel}>Subtotal:</Text>
@@ -1039,7 +1427,7 @@ export default function ReceiptSplitterScreen() {
               <Text style={styles.totalLabel}>Tip:</Text>
               <Pressable 
                 style={styles.helpButton} 
-                onPress={() => Alert.alert('Equal Tip Split', 'The tip amount is split equally among all people (except You) regardless of how much they spent.')}
+                onPress={() => Alert.alert('Tip Split', 'Choose how the tip is split under Split Rules: equally, by how much each person spent, or a fixed amount per person. You can also exempt people or use a percentage of the subtotal.')}
               >
                 <Ionicons name="information-circle-outline" size={16} color="rgba(255,255,255,0.5)" />
               </Pressable>
@@ -1054,7 +1442,11 @@ export default function ReceiptSplitterScreen() {
               selectTextOnFocus={true}
             />
           </View>
-          <Text style={[styles.tipExplainerText, {marginBottom: 8}]}>Tip is split equally between everyone with items</Text>
+          <Text style={[styles.tipExplainerText, {marginBottom: 8}]}>
+            {allocationSettings.tipPercentage !== null && allocationSettings.tip.method !== 'fixed'
+              ? `Tip is ${allocationSettings.tipPercentage}% of the subtotal (${currencySymbol}${safeFormat(allocatedCharges.tip)}), ${describeChargeStrategy(allocationSettings.tip)}`
+              : `Tip is ${describeChargeStrategy(allocationSettings.tip)} between everyone with items`}
+          </Text>
           
           <View style={styles.totalRow}>
             <View style={styles.totalLabelContainer}>
@@ -1081,12 +1473,35 @@ export default function ReceiptSplitterScreen() {
             <View style={styles.totalLabelContainer}>
               <Text style={styles.totalLabelFinal}>Total:</Text>
             </View>
-            <Text style={styles.totalValueFinal}>${safeFormat(total)}</Text>
+            <Text style={styles.totalValueFinal}>{currencySymbol}{safeFormat(total)}</Text>
           </View>
+          
+          {/* Split Rules */}
+          <Pressable 
+            style={styles.splitRulesHeader}
+            onPress={() => setShowSplitRules(!showSplitRules)}
+          >
+            <Text style={styles.splitRulesTitle}>Split Rules</Text>
+            <Ionicons
+              name={showSplitRules ? 'chevron-up' : 'chevron-down'}
+              size={18}
+              color="rgba(255,255,255,0.7)"
+            />
+          </Pressable>
+          
+          {showSplitRules && (
+            <SplitRulesEditor
+              settings={allocationSettings}
+              people={people}
+              currency={currency}
+              onChange={setAllocationSettings}
+              onSaveDefault={handleSaveSplitRules}
+            />
+          )}
         </View>
         
         <Text style={styles.tipText}>
-          Tip: Tap any value to edit it directly. All values will be split proportionally.
+          Tip: Tap any value to edit it directly. Use Split Rules to change how tax, tip and fees are shared.
         </Text>
         
         <View style={{ height: 10 }} />
@@ -1114,7 +1529,7 @@ export default function ReceiptSplitterScreen() {
             {opacity: (pressed || loading || analyzing) ? 0.8 : 1}
           ]}
           onPress={handleCreateDebt}
-          disabled={loading || analyzing || receiptItems.length === 0}
+          disabled={loading || analyzing || loadingReceipt || receiptItems.length === 0}
         >
           <LinearGradient
             colors={[Colors.light.tint, '#3DCD84', '#2EBB77']}
@@ -1127,7 +1542,7 @@ export default function ReceiptSplitterScreen() {
             ) : (
               <View style={styles.buttonContent}>
                 <Ionicons name="cash-outline" size={18} color="#000" style={styles.buttonIcon} />
-                <Text style={styles.buttonText}>Create Debts</Text>
+                <Text style={styles.buttonText}>{savedReceipt ? 'Update Debts' : 'Create Debts'}</Text>
               </View>
             )}
           </LinearGradient>
@@ -1219,6 +1634,104 @@ export default function ReceiptSplitterScreen() {
             </View>
           </View>
         </Modal>
+        
+        {/* Lines the photos of a long receipt disagree on, resolved before splitting */}
+        <Modal
+          visible={!!pendingMerge}
+          transparent={true}
+          animationType="fade"
+          onRequestClose={() => pendingMerge && analyzeReceipt({ merge: pendingMerge, choices: mergeChoices })}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>Combine Photos</Text>
+              <Text style={styles.mergeExplainer}>
+                Some lines could be read either way. Check them against the receipt before splitting.
+              </Text>
+              
+              <ScrollView style={styles.modalScroll}>
+                {pendingMerge?.conflicts.map(conflict => (
+                  <View key={conflict.id}>
+                    <Text style={styles.mergeConflictTitle}>{conflict.title}</Text>
+                    {conflict.options.map((option, index) => {
+                      const selected = (mergeChoices[conflict.id] ?? 0) === index;
+                      return (
+                        <Pressable
+                          key={option.label}
+                          style={[styles.modalOption, selected && styles.modalOptionSelected]}
+                          onPress={() => setMergeChoices({ ...mergeChoices, [conflict.id]: index })}
+                        >
+                          <View style={styles.modalOptionContent}>
+                            <Ionicons
+                              name={selected ? 'radio-button-on' : 'radio-button-off'}
+                              size={18}
+                              color={Colors.light.tint}
+                              style={styles.mergeOptionIcon}
+                            />
+                            <View style={styles.mergeOptionText}>
+                              <Text style={styles.modalOptionText}>{option.label}</Text>
+                              <Text style={styles.mergeOptionDetail}>{option.detail}</Text>
+                            </View>
+                          </View>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                ))}
+              </ScrollView>
+              
+              <Pressable 
+                style={styles.modalActionButton}
+                onPress={() => pendingMerge && analyzeReceipt({ merge: pendingMerge, choices: mergeChoices })}
+              >
+                <Text style={styles.modalActionButtonText}>Combine</Text>
+              </Pressable>
+            </View>
+          </View>
+        </Modal>
+        
+        {/* Receipt text entry, read by the local parser */}
+        <Modal
+          visible={showTextEntry}
+          transparent={true}
+          animationType="fade"
+          onRequestClose={() => setShowTextEntry(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>Receipt Text</Text>
+              
+              <TextInput
+                style={styles.receiptTextInput}
+                value={receiptText}
+                onChangeText={setReceiptText}
+                placeholder={'Paste or type the receipt, one line per row\ne.g. Caesar Salad 11.50'}
+                placeholderTextColor="rgba(255,255,255,0.4)"
+                multiline
+                textAlignVertical="top"
+                autoCorrect={false}
+              />
+              
+              <Pressable 
+                style={[
+                  styles.modalActionButton,
+                  !receiptText.trim() && styles.modalButtonDisabled
+                ]}
+                onPress={analyzeReceiptText}
+                disabled={!receiptText.trim()}
+              >
+                <Text style={styles.modalActionButtonText}>Read Receipt</Text>
+              </Pressable>
+              
+              <Pressable 
+                style={styles.modalCloseButton}
+                onPress={() => setShowTextEntry(false)}
+              >
+                <Text style={styles.modalCloseText}>Cancel</Text>
+              </Pressable>
+            </View>
+          </View>
+        </Modal>
       </ScrollView>
     </SafeAreaView>
   );
@@ -1254,6 +1767,42 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: 'AeonikBlack-Regular',
   },
+  warningContainer: {
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  warningHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  warningTitle: {
+    color: '#f59e0b',
+    fontSize: 15,
+    fontFamily: 'Aeonik-Black',
+    marginLeft: 6,
+  },
+  warningText: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 4,
+  },
+  warningHint: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: 4,
+  },
+  errorActionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+    marginTop: 8,
+    textDecorationLine: 'underline',
+  },
   imageContainer: {
     width: '100%',
     height: 250,
@@ -1288,6 +1837,32 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     fontFamily: 'AeonikBlack-Regular',
   },
+  addPageButton: {
+    right: undefined,
+    left: 12,
+  },
+  receiptPages: {
+    width: '100%',
+    height: '100%',
+  },
+  receiptPage: {
+    width: 180,
+    height: '100%',
+    marginRight: 8,
+  },
+  receiptPageLabel: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    color: '#fff',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
   noImageContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -1314,6 +1889,20 @@ const styles = StyleSheet.create({
     marginLeft: 6,
     fontFamily: 'Aeonik-Black',
   },
+  enterTextButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  enterTextText: {
+    color: Colors.light.tint,
+    fontSize: 14,
+    marginLeft: 6,
+    fontFamily: 'Aeonik-Black',
+  },
   storeInfoContainer: {
     backgroundColor: 'rgba(35,35,35,0.98)',
     padding: 16,
@@ -1739,6 +2328,43 @@ const styles = StyleSheet.create({
   modalScroll: {
     maxHeight: 300,
   },
+  mergeExplainer: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  mergeConflictTitle: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  mergeOptionIcon: {
+    marginRight: 12,
+  },
+  mergeOptionText: {
+    flex: 1,
+  },
+  mergeOptionDetail: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 13,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: 2,
+  },
+  receiptTextInput: {
+    height: 220,
+    margin: 16,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
   modalOption: {
     paddingVertical: 14,
     paddingHorizontal: 20,
@@ -1821,6 +2447,20 @@ const styles = StyleSheet.create({
     marginTop: 12,
     marginBottom: 20,
   },
+  splitRulesHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 16,
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.1)',
+  },
+  splitRulesTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+  },
   tipExplainerText: {
     color: 'rgba(255,255,255,0.4)',
     fontSize: 12,
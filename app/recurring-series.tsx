@@ -0,0 +1,468 @@
+import React, { useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+
+import RecurringScheduleModal, { RecurringScheduleChanges } from '@/components/RecurringScheduleModal';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { useData } from '@/contexts/DataContext';
+import { setRecurringActive, skipRecurringOccurrence, updateRecurringSchedule } from '@/firebase/firestore';
+import { formatCurrency } from '@/utils/currency';
+import {
+  RecurringSeries,
+  describeSchedule,
+  getRecurringInstances,
+  getRecurringSeries,
+  getUpcomingCharges
+} from '@/utils/recurringSeries';
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+};
+
+export default function RecurringSeriesScreen() {
+  const router = useRouter();
+  const { currentUser } = useAuth();
+  const { debts, groups, recurringDebts, loading } = useData();
+
+  const [editingSeries, setEditingSeries] = useState<RecurringSeries | null>(null);
+  const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null);
+  const [busySeriesId, setBusySeriesId] = useState<string | null>(null);
+
+  // Series that have ended can't be changed any more, so they're left out
+  const series = useMemo(
+    () => getRecurringSeries(recurringDebts, groups).filter(item => item.status !== 'ended'),
+    [recurringDebts, groups]
+  );
+
+  // Run a change to a series, showing its spinner until the change is saved
+  const runSeriesAction = async (item: RecurringSeries, action: () => Promise<void>, failureMessage: string) => {
+    setBusySeriesId(item.id);
+
+    try {
+      await action();
+    } catch (err) {
+      console.error(failureMessage, err);
+      Alert.alert('Error', err instanceof Error && err.message ? err.message : failureMessage);
+    } finally {
+      setBusySeriesId(null);
+    }
+  };
+
+  const handleToggleActive = (item: RecurringSeries) => {
+    if (!currentUser) return;
+
+    const isPausing = item.status === 'active';
+    runSeriesAction(
+      item,
+      () => setRecurringActive(currentUser.uid, item.type, item.id, !isPausing),
+      isPausing ? 'Failed to pause this series' : 'Failed to resume this series'
+    );
+  };
+
+  const handleSkip = (item: RecurringSeries, occurrenceDate: string) => {
+    if (!currentUser) return;
+
+    Alert.alert(
+      'Skip Charge',
+      `Skip the charge on ${formatDate(occurrenceDate)}? No ${item.type === 'debt' ? 'debt' : 'group'} will be created for it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Skip',
+          style: 'destructive',
+          onPress: () => runSeriesAction(
+            item,
+            () => skipRecurringOccurrence(currentUser.uid, item.type, item.id, occurrenceDate),
+            'Failed to skip this charge'
+          )
+        }
+      ]
+    );
+  };
+
+  const handleSaveSchedule = async (changes: RecurringScheduleChanges) => {
+    if (!currentUser || !editingSeries) return;
+
+    try {
+      await updateRecurringSchedule(currentUser.uid, editingSeries.type, editingSeries.id, changes);
+      setEditingSeries(null);
+    } catch (err) {
+      console.error('Error updating recurring schedule:', err);
+      Alert.alert('Error', 'Failed to update this series');
+    }
+  };
+
+  const openInstance = (item: RecurringSeries, instanceId: string) => {
+    if (item.type === 'group') {
+      router.push({ pathname: '/group-detail', params: { groupId: instanceId } });
+      return;
+    }
+
+    const debt = debts.find(existing => existing.id === instanceId);
+    if (debt) {
+      router.push({ pathname: '/debt-detail', params: { debt: JSON.stringify(debt) } });
+    }
+  };
+
+  const renderSeries = (item: RecurringSeries) => {
+    const upcoming = getUpcomingCharges(item);
+    const isBusy = busySeriesId === item.id;
+    const isHistoryExpanded = expandedHistoryId === item.id;
+
+    return (
+      <LinearGradient
+        key={`${item.type}-${item.id}`}
+        colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+        style={styles.card}
+      >
+        <View style={styles.cardHeader}>
+          <View style={styles.cardTitleContainer}>
+            <Ionicons
+              name={item.type === 'debt' ? 'person-outline' : 'people-outline'}
+              size={18}
+              color={Colors.light.tint}
+            />
+            <Text style={styles.cardTitle} numberOfLines={1}>{item.name}</Text>
+          </View>
+          <Text style={styles.cardAmount}>{formatCurrency(item.amount, item.currency)}</Text>
+        </View>
+
+        <View style={styles.scheduleRow}>
+          <Text style={styles.scheduleText}>{describeSchedule(item)}</Text>
+          {item.status === 'paused' && (
+            <View style={styles.pausedBadge}>
+              <Text style={styles.pausedBadgeText}>Paused</Text>
+            </View>
+          )}
+        </View>
+        {item.endDate && (
+          <Text style={styles.subtleText}>Ends {formatDate(item.endDate)}</Text>
+        )}
+
+        {/* Upcoming charges */}
+        {upcoming.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Upcoming charges</Text>
+            {upcoming.map(date => (
+              <View key={date} style={styles.occurrenceRow}>
+                <Text style={styles.occurrenceText}>{formatDate(date)}</Text>
+                <Pressable onPress={() => handleSkip(item, date)} disabled={isBusy}>
+                  <Text style={styles.skipText}>Skip</Text>
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Actions */}
+        <View style={styles.actions}>
+          <Pressable
+            style={({pressed}) => [styles.actionButton, {opacity: pressed || isBusy ? 0.8 : 1}]}
+            onPress={() => setEditingSeries(item)}
+            disabled={isBusy}
+          >
+            <Ionicons name="create-outline" size={18} color={Colors.light.tint} />
+            <Text style={styles.actionText}>Edit</Text>
+          </Pressable>
+          <Pressable
+            style={({pressed}) => [styles.actionButton, {opacity: pressed || isBusy ? 0.8 : 1}]}
+            onPress={() => handleToggleActive(item)}
+            disabled={isBusy}
+          >
+            {isBusy ? (
+              <ActivityIndicator size="small" color={Colors.light.tint} />
+            ) : (
+              <Ionicons
+                name={item.status === 'active' ? 'pause-outline' : 'play-outline'}
+                size={18}
+                color={Colors.light.tint}
+              />
+            )}
+            <Text style={styles.actionText}>{item.status === 'active' ? 'Pause' : 'Resume'}</Text>
+          </Pressable>
+          <Pressable
+            style={({pressed}) => [styles.actionButton, {opacity: pressed ? 0.8 : 1}]}
+            onPress={() => setExpandedHistoryId(isHistoryExpanded ? null : item.id)}
+          >
+            <Ionicons name="time-outline" size={18} color={Colors.light.tint} />
+            <Text style={styles.actionText}>History ({item.instanceIds.length})</Text>
+          </Pressable>
+        </View>
+
+        {/* Instances created so far */}
+        {isHistoryExpanded && (
+          <View style={styles.section}>
+            {item.instanceIds.length === 0 ? (
+              <Text style={styles.subtleText}>Nothing has been created yet</Text>
+            ) : (
+              getRecurringInstances(item, debts, groups).map(instance => (
+                <Pressable
+                  key={instance.id}
+                  style={styles.occurrenceRow}
+                  onPress={() => instance.createdAt && openInstance(item, instance.id)}
+                  disabled={!instance.createdAt}
+                >
+                  <Text style={styles.occurrenceText}>
+                    {instance.createdAt ? formatDate(instance.createdAt) : 'Deleted'}
+                  </Text>
+                  {instance.createdAt && (
+                    <View style={[styles.statusBadge, instance.isPaid && styles.statusBadgePaid]}>
+                      <Text style={[styles.statusBadgeText, instance.isPaid && styles.statusBadgeTextPaid]}>
+                        {instance.isPaid ? 'Paid' : 'Unpaid'}
+                      </Text>
+                    </View>
+                  )}
+                </Pressable>
+              ))
+            )}
+          </View>
+        )}
+      </LinearGradient>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="light" />
+
+      <LinearGradient
+        colors={['rgba(18,18,18,0.98)', 'rgba(28,28,28,0.95)']}
+        style={styles.backgroundGradient}
+      />
+
+      <Stack.Screen
+        options={{
+          headerShown: false
+        }}
+      />
+
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={24} color={Colors.light.tint} />
+        </Pressable>
+        <ThemedText type="subtitle" style={styles.headerTitle}>Recurring Debts</ThemedText>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.light.tint} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollContainer}
+          contentContainerStyle={styles.contentContainer}
+          showsVerticalScrollIndicator={false}
+        >
+          {series.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="repeat" size={48} color="rgba(255,255,255,0.3)" />
+              <Text style={styles.emptyText}>No recurring debts yet</Text>
+              <Text style={styles.subtleText}>Turn on &quot;Make this a recurring debt&quot; when adding a debt or group</Text>
+            </View>
+          ) : (
+            series.map(renderSeries)
+          )}
+        </ScrollView>
+      )}
+
+      <RecurringScheduleModal
+        visible={!!editingSeries}
+        series={editingSeries}
+        onClose={() => setEditingSeries(null)}
+        onSave={handleSaveSchedule}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  backgroundGradient: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerTitle: {
+    fontSize: 18,
+    color: '#fff',
+    fontFamily: 'Aeonik-Black',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(74, 226, 144, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    borderRadius: 20,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    padding: 20,
+    marginBottom: 20,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    flex: 1,
+    marginRight: 12,
+  },
+  cardTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+    flexShrink: 1,
+  },
+  cardAmount: {
+    color: Colors.light.tint,
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  scheduleText: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  pausedBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 193, 7, 0.15)',
+  },
+  pausedBadgeText: {
+    color: '#FFC107',
+    fontSize: 12,
+    fontFamily: 'Aeonik-Black',
+  },
+  subtleText: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: 4,
+    textAlign: 'left',
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 4,
+  },
+  occurrenceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.05)',
+  },
+  occurrenceText: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  skipText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  statusBadgePaid: {
+    backgroundColor: 'rgba(74, 226, 144, 0.15)',
+  },
+  statusBadgeText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 12,
+    fontFamily: 'Aeonik-Black',
+  },
+  statusBadgeTextPaid: {
+    color: Colors.light.tint,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(74, 226, 144, 0.1)',
+  },
+  actionText: {
+    color: Colors.light.tint,
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 8,
+  },
+  emptyText: {
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,386 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, Pressable, ScrollView, Alert, TextInput, KeyboardAvoidingView, Platform } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_REMINDER_TEMPLATE_SETTINGS,
+  REMINDER_TONES,
+  REMINDER_VARIABLES,
+  ReminderTemplateSettings,
+  ReminderTone,
+  getPaymentLink,
+  renderReminderTemplate
+} from '@/utils/reminderMessages';
+import { loadReminderTemplates, resetReminderTemplates, saveReminderTemplates } from '@/utils/reminderTemplates';
+
+export default function ReminderTemplatesScreen() {
+  const router = useRouter();
+  const { userProfile } = useAuth();
+
+  const [settings, setSettings] = useState<ReminderTemplateSettings>(DEFAULT_REMINDER_TEMPLATE_SETTINGS);
+  const [selectedTone, setSelectedTone] = useState<ReminderTone>('friendly');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadReminderTemplates().then(loaded => {
+      setSettings(loaded);
+      setSelectedTone(loaded.defaultTone);
+    });
+  }, []);
+
+  // Sample values so the preview reads like a real reminder
+  const previewVariables = {
+    name: 'Alex',
+    amount: '$24.50',
+    description: 'Dinner',
+    dueDate: new Date().toLocaleDateString(),
+    link: getPaymentLink(userProfile) || 'trypaid.io/username',
+    items: 'Items: 1x Pad Thai ($18.00 each)\nTip: $3.60 (proportional)',
+    group: '',
+  };
+
+  const handleTemplateChange = (template: string) => {
+    setSettings({
+      ...settings,
+      templates: { ...settings.templates, [selectedTone]: template }
+    });
+  };
+
+  // Handle saving the edited templates
+  const handleSave = async () => {
+    const emptyTone = REMINDER_TONES.find(option => !settings.templates[option.tone].trim());
+    if (emptyTone) {
+      Alert.alert('Empty Template', `Please enter a message for the ${emptyTone.label} reminder`);
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await saveReminderTemplates(settings);
+      Alert.alert('Success', 'Reminder templates saved');
+    } catch (err) {
+      console.error('Error saving reminder templates:', err);
+      Alert.alert('Error', 'Failed to save reminder templates');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Handle restoring the default templates
+  const handleReset = () => {
+    Alert.alert(
+      'Reset Templates',
+      'Are you sure you want to restore the default reminder messages?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await resetReminderTemplates();
+              setSettings(DEFAULT_REMINDER_TEMPLATE_SETTINGS);
+              setSelectedTone(DEFAULT_REMINDER_TEMPLATE_SETTINGS.defaultTone);
+            } catch (err) {
+              console.error('Error resetting reminder templates:', err);
+              Alert.alert('Error', 'Failed to reset reminder templates');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="light" />
+
+      <LinearGradient
+        colors={['rgba(18,18,18,0.98)', 'rgba(28,28,28,0.95)']}
+        style={styles.backgroundGradient}
+      />
+
+      <Stack.Screen
+        options={{
+          headerShown: false
+        }}
+      />
+
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={24} color={Colors.light.tint} />
+        </Pressable>
+        <ThemedText type="subtitle" style={styles.headerTitle}>Reminder Messages</ThemedText>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={{ flex: 1 }}
+      >
+        <ScrollView
+          style={styles.scrollContainer}
+          contentContainerStyle={styles.contentContainer}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Template Editor */}
+          <LinearGradient
+            colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+            style={styles.card}
+          >
+            <Text style={styles.cardTitle}>Tone</Text>
+            <View style={styles.toneOptions}>
+              {REMINDER_TONES.map(option => (
+                <Pressable
+                  key={option.tone}
+                  style={[styles.toneOption, selectedTone === option.tone && styles.toneOptionSelected]}
+                  onPress={() => setSelectedTone(option.tone)}
+                >
+                  <Text style={[styles.toneOptionText, selectedTone === option.tone && styles.toneOptionTextSelected]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.templateInput}
+              value={settings.templates[selectedTone]}
+              onChangeText={handleTemplateChange}
+              multiline
+              textAlignVertical="top"
+              placeholderTextColor="rgba(255,255,255,0.3)"
+              selectionColor={Colors.light.tint}
+            />
+
+            <Pressable
+              style={styles.defaultToneRow}
+              onPress={() => setSettings({ ...settings, defaultTone: selectedTone })}
+            >
+              <Ionicons
+                name={settings.defaultTone === selectedTone ? 'checkbox' : 'square-outline'}
+                size={20}
+                color={Colors.light.tint}
+              />
+              <Text style={styles.defaultToneText}>Use this tone by default</Text>
+            </Pressable>
+          </LinearGradient>
+
+          {/* Preview */}
+          <LinearGradient
+            colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+            style={styles.card}
+          >
+            <Text style={styles.cardTitle}>Preview</Text>
+            <View style={styles.previewBubble}>
+              <Text style={styles.previewText}>
+                {renderReminderTemplate(settings.templates[selectedTone], previewVariables)}
+              </Text>
+            </View>
+          </LinearGradient>
+
+          {/* Variables */}
+          <LinearGradient
+            colors={['rgba(35,35,35,0.98)', 'rgba(25,25,25,0.95)']}
+            style={styles.card}
+          >
+            <Text style={styles.cardTitle}>Variables</Text>
+            <Text style={styles.cardSubtitle}>
+              Wrap optional text in [brackets] and it&apos;s left out when a variable inside has no value, e.g. [ for {'{description}'}].
+            </Text>
+
+            {REMINDER_VARIABLES.map(variable => (
+              <View key={variable.key} style={styles.variableRow}>
+                <Text style={styles.variableKey}>{`{${variable.key}}`}</Text>
+                <Text style={styles.variableDescription}>{variable.description}</Text>
+              </View>
+            ))}
+          </LinearGradient>
+
+          <Pressable
+            style={({pressed}) => [
+              styles.saveButton,
+              {opacity: pressed || saving ? 0.8 : 1}
+            ]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save Templates'}</Text>
+          </Pressable>
+
+          <Pressable style={styles.resetButton} onPress={handleReset}>
+            <Text style={styles.resetButtonText}>Restore Default Messages</Text>
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121212',
+  },
+  backgroundGradient: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerTitle: {
+    fontSize: 18,
+    color: '#fff',
+    fontFamily: 'Aeonik-Black',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(74, 226, 144, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    borderRadius: 20,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    padding: 20,
+    marginBottom: 20,
+  },
+  cardTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+    marginBottom: 12,
+  },
+  cardSubtitle: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 12,
+  },
+  toneOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  toneOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  toneOptionSelected: {
+    backgroundColor: 'rgba(74, 226, 144, 0.15)',
+    borderColor: Colors.light.tint,
+  },
+  toneOptionText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  toneOptionTextSelected: {
+    color: Colors.light.tint,
+  },
+  templateInput: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 12,
+    padding: 16,
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'AeonikBlack-Regular',
+    minHeight: 140,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  defaultToneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+  },
+  defaultToneText: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  previewBubble: {
+    backgroundColor: 'rgba(59, 130, 246, 0.2)',
+    borderRadius: 16,
+    padding: 16,
+  },
+  previewText: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'AeonikBlack-Regular',
+    lineHeight: 21,
+  },
+  variableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.05)',
+  },
+  variableKey: {
+    width: 120,
+    color: Colors.light.tint,
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+  },
+  variableDescription: {
+    flex: 1,
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  saveButton: {
+    backgroundColor: Colors.light.tint,
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#000',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+  },
+  resetButton: {
+    marginTop: 16,
+    padding: 12,
+    alignItems: 'center',
+  },
+  resetButtonText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+});
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { CurrencyCode, GroupExpense } from '@/firebase/models';
+import { getCurrencyInfo } from '@/utils/currency';
+import { SELF_MEMBER } from '@/utils/groupBalances';
+
+interface AddExpenseModalProps {
+  visible: boolean;
+  members: string[];
+  currency?: CurrencyCode;
+  onClose: () => void;
+  onSave: (expense: Omit<GroupExpense, 'id' | 'createdAt'>) => Promise<void>;
+}
+
+/**
+ * Modal for adding an expense to a shared expense group
+ */
+export default function AddExpenseModal({ visible, members, currency, onClose, onSave }: AddExpenseModalProps) {
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [paidBy, setPaidBy] = useState(SELF_MEMBER);
+  const [splitBetween, setSplitBetween] = useState<string[]>(members);
+  const [saving, setSaving] = useState(false);
+
+  // Start each new expense split between everyone
+  useEffect(() => {
+    if (visible) {
+      setDescription('');
+      setAmount('');
+      setPaidBy(members.includes(SELF_MEMBER) ? SELF_MEMBER : members[0]);
+      setSplitBetween(members);
+    }
+  }, [visible, members]);
+
+  const toggleSplitMember = (member: string) => {
+    setSplitBetween(prev =>
+      prev.includes(member) ? prev.filter(name => name !== member) : [...prev, member]
+    );
+  };
+
+  const handleSave = async () => {
+    const numericAmount = parseFloat(amount);
+
+    if (isNaN(numericAmount) || numericAmount <= 0) {
+      Alert.alert('Invalid Amount', 'Please enter an amount greater than zero');
+      return;
+    }
+
+    if (splitBetween.length === 0) {
+      Alert.alert('No One Selected', 'Please choose at least one person to split this expense with');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      // Keep the group's member order so the split is deterministic
+      await onSave({
+        description: description.trim(),
+        amount: numericAmount,
+        paidBy,
+        splitBetween: members.filter(member => splitBetween.includes(member))
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={() => !saving && onClose()}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.modalOverlay}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Add Expense</Text>
+            <Pressable onPress={onClose} disabled={saving}>
+              <Ionicons name="close" size={24} color="#fff" />
+            </Pressable>
+          </View>
+
+          <Text style={styles.modalLabel}>Amount</Text>
+          <View style={styles.amountInputContainer}>
+            <Text style={styles.currencySymbol}>{getCurrencyInfo(currency).symbol}</Text>
+            <TextInput
+              style={styles.amountInput}
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="decimal-pad"
+              placeholder="0.00"
+              placeholderTextColor="rgba(255,255,255,0.3)"
+            />
+          </View>
+
+          <Text style={styles.modalLabel}>Description</Text>
+          <TextInput
+            style={styles.textInput}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="e.g., Dinner, Gas, Airbnb"
+            placeholderTextColor="rgba(255,255,255,0.3)"
+          />
+
+          <Text style={styles.modalLabel}>Paid by</Text>
+          <View style={styles.options}>
+            {members.map(member => (
+              <Pressable
+                key={member}
+                style={[styles.option, paidBy === member && styles.optionSelected]}
+                onPress={() => setPaidBy(member)}
+              >
+                <Text style={[styles.optionText, paidBy === member && styles.optionTextSelected]}>
+                  {member}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text style={styles.modalLabel}>Split between</Text>
+          <View style={styles.options}>
+            {members.map(member => (
+              <Pressable
+                key={member}
+                style={[styles.option, splitBetween.includes(member) && styles.optionSelected]}
+                onPress={() => toggleSplitMember(member)}
+              >
+                <Text style={[styles.optionText, splitBetween.includes(member) && styles.optionTextSelected]}>
+                  {member}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Pressable
+            style={({pressed}) => [
+              styles.saveButton,
+              {opacity: pressed || saving ? 0.8 : 1}
+            ]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            <Text style={styles.saveButtonText}>
+              {saving ? 'Saving...' : 'Save Expense'}
+            </Text>
+          </Pressable>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 20,
+    fontFamily: 'Aeonik-Black',
+  },
+  modalLabel: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 8,
+  },
+  amountInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  currencySymbol: {
+    color: Colors.light.tint,
+    fontSize: 24,
+    fontFamily: 'Aeonik-Black',
+    marginRight: 4,
+  },
+  amountInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 24,
+    fontFamily: 'Aeonik-Black',
+    paddingVertical: 12,
+  },
+  textInput: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 16,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  optionSelected: {
+    backgroundColor: 'rgba(74, 226, 144, 0.15)',
+    borderColor: Colors.light.tint,
+  },
+  optionText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  optionTextSelected: {
+    color: Colors.light.tint,
+  },
+  saveButton: {
+    backgroundColor: Colors.light.tint,
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  saveButtonText: {
+    color: '#000',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+  },
+});
@@ -11,6 +11,8 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Contacts from 'expo-contacts';
 import { Colors } from '@/constants/Colors';
 import { GroupMember } from './GroupMemberItem';
+import { CurrencyCode } from '@/firebase/models';
+import { getCurrencyInfo } from '@/utils/currency';
 import ContactsModal from './ContactsModal';
 
 interface AddGroupMemberProps {
@@ -20,6 +22,7 @@ interface AddGroupMemberProps {
   onUpdate?: (updatedMember: Omit<GroupMember, 'id'>) => void;
   isEditing?: boolean;
   memberToEdit?: GroupMember;
+  currency?: CurrencyCode;
 }
 
 /**
@@ -31,7 +34,8 @@ export default function AddGroupMember({
   onAddMultiple,
   onUpdate,
   isEditing = false,
-  memberToEdit
+  memberToEdit,
+  currency
 }: AddGroupMemberProps) {
   const [name, setName] = useState('');
   const [amount, setAmount] = useState('');
@@ -177,7 +181,7 @@ export default function AddGroupMember({
         <View style={styles.formGroup}>
           <Text style={styles.label}>Amount</Text>
           <View style={styles.amountContainer}>
-            <Text style={styles.currencySymbol}>$</Text>
+            <Text style={styles.currencySymbol}>{getCurrencyInfo(currency).symbol}</Text>
             <TextInput
               style={styles.amountInput}
               placeholder="0.00"
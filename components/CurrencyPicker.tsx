@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  Pressable,
+  Modal,
+  ScrollView
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { CurrencyCode } from '@/firebase/models';
+import { CURRENCY_CODES, CURRENCIES, getCurrencyInfo } from '@/utils/currency';
+
+interface CurrencyPickerProps {
+  value?: CurrencyCode;
+  onChange: (currency: CurrencyCode) => void;
+  disabled?: boolean;
+}
+
+/**
+ * A compact button showing the selected currency that opens a list of supported currencies
+ */
+export default function CurrencyPicker({ value, onChange, disabled = false }: CurrencyPickerProps) {
+  const [visible, setVisible] = useState(false);
+  const selected = getCurrencyInfo(value);
+
+  const handleSelect = (currency: CurrencyCode) => {
+    onChange(currency);
+    setVisible(false);
+  };
+
+  return (
+    <>
+      <Pressable
+        style={({ pressed }) => [
+          styles.button,
+          { opacity: pressed || disabled ? 0.7 : 1 }
+        ]}
+        onPress={() => setVisible(true)}
+        disabled={disabled}
+      >
+        <Text style={styles.buttonText}>{selected.code}</Text>
+        {!disabled && <Ionicons name="chevron-down" size={14} color={Colors.light.tint} />}
+      </Pressable>
+
+      <Modal
+        visible={visible}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setVisible(false)}
+      >
+        <Pressable style={styles.modalOverlay} onPress={() => setVisible(false)}>
+          <View style={styles.modalContainer}>
+            <Text style={styles.modalTitle}>Select Currency</Text>
+
+            <ScrollView style={styles.list}>
+              {CURRENCY_CODES.map(code => (
+                <Pressable
+                  key={code}
+                  style={({ pressed }) => [
+                    styles.option,
+                    code === selected.code && styles.selectedOption,
+                    pressed && styles.optionPressed
+                  ]}
+                  onPress={() => handleSelect(code)}
+                >
+                  <Text style={styles.optionSymbol}>{CURRENCIES[code].symbol.trim()}</Text>
+                  <View style={styles.optionInfo}>
+                    <Text style={styles.optionCode}>{code}</Text>
+                    <Text style={styles.optionName}>{CURRENCIES[code].name}</Text>
+                  </View>
+                  {code === selected.code && (
+                    <Ionicons name="checkmark" size={20} color={Colors.light.tint} />
+                  )}
+                </Pressable>
+              ))}
+            </ScrollView>
+          </View>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(74, 226, 144, 0.1)',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    gap: 4,
+  },
+  buttonText: {
+    color: Colors.light.tint,
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxHeight: '70%',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 20,
+    fontFamily: 'Aeonik-Black',
+    marginBottom: 16,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+  },
+  selectedOption: {
+    backgroundColor: 'rgba(74, 226, 144, 0.1)',
+  },
+  optionPressed: {
+    opacity: 0.8,
+  },
+  optionSymbol: {
+    width: 44,
+    color: Colors.light.tint,
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionCode: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+  },
+  optionName: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 13,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+});
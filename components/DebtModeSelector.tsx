@@ -8,7 +8,7 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Colors } from '@/constants/Colors';
 
-export type DebtMode = 'single' | 'group';
+export type DebtMode = 'single' | 'group' | 'expenses';
 
 interface DebtModeSelectorProps {
   selectedMode: DebtMode;
@@ -57,12 +57,32 @@ export default function DebtModeSelector({ selectedMode, onSelectMode }: DebtMod
             Group Debt
           </Text>
         </Pressable>
+        
+        <Pressable
+          style={({ pressed }) => [
+            styles.option,
+            selectedMode === 'expenses' && styles.selectedOption,
+            pressed && styles.optionPressed
+          ]}
+          onPress={() => onSelectMode('expenses')}
+        >
+          <Text 
+            style={[
+              styles.optionText, 
+              selectedMode === 'expenses' && styles.selectedOptionText
+            ]}
+          >
+            Split Expenses
+          </Text>
+        </Pressable>
       </View>
       
       <Text style={styles.helpText}>
         {selectedMode === 'single' 
           ? 'Track a debt owed by a single person'
-          : 'Create multiple related debts in one go'
+          : selectedMode === 'group'
+            ? 'Create multiple related debts in one go'
+            : 'Track who paid for what and settle up at the end'
         }
       </Text>
     </View>
@@ -83,7 +103,7 @@ const styles = StyleSheet.create({
   option: {
     flex: 1,
     paddingVertical: 12,
-    paddingHorizontal: 16,
+    paddingHorizontal: 8,
     borderRadius: 12,
     alignItems: 'center',
     justifyContent: 'center',
@@ -98,6 +118,7 @@ const styles = StyleSheet.create({
     color: 'rgba(255,255,255,0.7)',
     fontSize: 15,
     fontFamily: 'Aeonik-Black',
+    textAlign: 'center',
   },
   selectedOptionText: {
     color: '#000',
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Pressable, Text, Platform, Modal } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+
+import { ThemedText } from './ThemedText';
+import { Colors } from '@/constants/Colors';
+
+interface DueDatePickerProps {
+  value: Date | null;
+  onChange: (dueDate: Date | null) => void;
+  label?: string;
+}
+
+/**
+ * Row for picking an optional due date, with a button to clear it
+ */
+const DueDatePicker: React.FC<DueDatePickerProps> = ({ value, onChange, label = 'Due date' }) => {
+  const [showPicker, setShowPicker] = useState(false);
+
+  // Temporary state for the iOS date picker
+  const [tempDate, setTempDate] = useState<Date>(value || new Date());
+
+  // Function to handle date change
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowPicker(false);
+      if (selectedDate) onChange(selectedDate);
+    } else if (selectedDate) {
+      // For iOS, store in temporary state
+      setTempDate(selectedDate);
+    }
+  };
+
+  // Function to open the picker and initialize temp state
+  const openPicker = () => {
+    setTempDate(value || new Date());
+    setShowPicker(true);
+  };
+
+  // Function to confirm iOS date selection
+  const confirmDate = () => {
+    onChange(tempDate);
+    setShowPicker(false);
+  };
+
+  // Format date for display
+  const formatDate = (date: Date | null) => {
+    if (!date) return 'None';
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  return (
+    <View>
+      <Pressable style={styles.pickerButton} onPress={openPicker}>
+        <View style={styles.labelContainer}>
+          <Ionicons name="alarm-outline" size={18} color={Colors.light.tint} style={styles.labelIcon} />
+          <ThemedText style={styles.label}>
+            {label} <ThemedText style={styles.optional}>(Optional)</ThemedText>
+          </ThemedText>
+        </View>
+        <View style={styles.pickerValueContainer}>
+          <ThemedText style={styles.pickerValue}>{formatDate(value)}</ThemedText>
+          {value ? (
+            <Pressable onPress={() => onChange(null)} hitSlop={8}>
+              <Ionicons name="close-circle" size={18} color="rgba(255,255,255,0.5)" />
+            </Pressable>
+          ) : (
+            <Ionicons name="calendar-outline" size={16} color="#fff" />
+          )}
+        </View>
+      </Pressable>
+
+      {showPicker && Platform.OS === 'ios' && (
+        <Modal
+          visible={true}
+          transparent={true}
+          animationType="slide"
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.modalTitle}>Select Due Date</Text>
+                <Pressable
+                  style={styles.closeButton}
+                  onPress={() => setShowPicker(false)}
+                >
+                  <Ionicons name="close" size={24} color="#fff" />
+                </Pressable>
+              </View>
+
+              <View style={{ height: 200 }}>
+                <DateTimePicker
+                  value={tempDate}
+                  mode="date"
+                  display="spinner"
+                  onChange={handleDateChange}
+                  style={{ height: 200 }}
+                  textColor="#fff"
+                />
+              </View>
+
+              <Pressable
+                style={styles.confirmButton}
+                onPress={confirmDate}
+              >
+                <Text style={styles.confirmButtonText}>Confirm</Text>
+              </Pressable>
+            </View>
+          </View>
+        </Modal>
+      )}
+
+      {/* Android date picker */}
+      {showPicker && Platform.OS === 'android' && (
+        <DateTimePicker
+          value={value || new Date()}
+          mode="date"
+          display="default"
+          onChange={handleDateChange}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  pickerButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  labelContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  labelIcon: {
+    marginRight: 10,
+  },
+  label: {
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+    color: '#fff',
+  },
+  optional: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.5)',
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  pickerValueContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pickerValue: {
+    fontSize: 14,
+    color: '#fff',
+    marginRight: 8,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#232323',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '60%',
+    marginBottom: 0,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    color: Colors.light.tint,
+    fontFamily: 'Aeonik-Black',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  confirmButton: {
+    backgroundColor: Colors.light.tint,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+  },
+});
+
+export default DueDatePicker;
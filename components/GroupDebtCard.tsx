@@ -1,14 +1,16 @@
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/contexts/AuthContext';
 import { Debt, DebtGroup } from '@/firebase/models';
+import { formatCurrency } from '@/utils/currency';
+import { getRemainingBalance, isPartiallyPaid } from '@/utils/debtBalance';
+import { describeDueDate, isGroupOverdue, isOverdue } from '@/utils/dueDates';
+import { buildReminderMessage, getPaymentLink, openReminderMessage } from '@/utils/reminderMessages';
+import { loadReminderTemplates } from '@/utils/reminderTemplates';
 import { Ionicons } from '@expo/vector-icons';
-import * as Clipboard from 'expo-clipboard';
 import { useRouter } from 'expo-router';
-import React, { useCallback, useState } from 'react';
+import React, { useState } from 'react';
 import {
-    Alert,
     LayoutAnimation,
-    Linking,
     Platform,
     Pressable,
     StyleSheet,
@@ -28,44 +30,24 @@ interface GroupDebtCardProps {
   group: DebtGroup & { debts?: Debt[] };
   onMarkPaid: (debtId: string, isPaid: boolean) => Promise<void>;
   onDelete: (groupId: string) => Promise<void>;
+  isPendingSync?: boolean; // Whether the group or its debts have changes waiting to sync
 }
 
 /**
  * Card component for displaying a debt group on the home screen
  */
-export default function GroupDebtCard({ group, onMarkPaid, onDelete }: GroupDebtCardProps) {
+export default function GroupDebtCard({ group, onMarkPaid, onDelete, isPendingSync }: GroupDebtCardProps) {
   const [expanded, setExpanded] = useState(false);
   const router = useRouter();
   const { userProfile } = useAuth();
   
-  // Check if user has a valid payment link
-  const hasValidPaymentLink = useCallback(() => {
-    if (!userProfile) return false;
-    
-    // Check if username exists
-    if (!userProfile.username) return false;
-    
-    // Check if user has a profile setup with at least one of these fields
-    const hasProfileData = userProfile.profile && 
-      (userProfile.profile.name || 
-       userProfile.profile.location || 
-       userProfile.profileImageUrl || 
-       userProfile.profile.backgroundImageUrl ||
-       (userProfile.profile.paymentMethods && 
-        userProfile.profile.paymentMethods.some((method: any) => method.value)));
-        
-    return hasProfileData;
-  }, [userProfile]);
-  
   // Calculate completion percentage
   const completionPercentage = group.totalAmount > 0 
     ? Math.min(100, Math.round((group.paidAmount / group.totalAmount) * 100))
     : 0;
   
-  // Format currency amounts
-  const formatCurrency = (amount: number) => {
-    return amount.toFixed(2);
-  };
+  // Amount still outstanding across the group
+  const remainingAmount = Math.max(0, group.totalAmount - (group.paidAmount || 0));
   
   // Handle toggling expanded state
   const toggleExpanded = () => {
@@ -87,50 +69,14 @@ export default function GroupDebtCard({ group, onMarkPaid, onDelete }: GroupDebt
   };
   
   // Handle sending a reminder message
-  const handleRemind = (debt: Debt) => {
-    // Create base SMS message text
-    let message = `Hey, just a reminder that you owe me $${debt.amount.toFixed(2)}${debt.description ? ` for ${debt.description}` : ''}.`;
-    
-    // Add group context
-    message += `\n(Part of ${group.name} group)`;
-    
-    // Add payment link if available
-    if (userProfile?.username && hasValidPaymentLink()) {
-      message += `\n\nPay here: trypaid.io/${userProfile.username}`;
-    }
-    
-    // Encode the message for use in the URL
-    const encodedMessage = encodeURIComponent(message);
-    
-    // If we have a phone number, use it to fill the recipient and the message
-    if (debt.phoneNumber) {
-      const phoneNumber = debt.phoneNumber.replace(/\D/g, ''); // Remove non-numeric characters
-      
-      // Create the SMS URL for opening the messages app with number and message
-      const url = Platform.OS === 'ios' 
-        ? `sms:${phoneNumber}&body=${encodedMessage}`
-        : `sms:${phoneNumber}?body=${encodedMessage}`;
-      
-      Linking.openURL(url).catch(err => {
-        console.error('Error opening messages app:', err);
-      });
-    } else {
-      // If no phone number, just open the messages app with the message body
-      const url = Platform.OS === 'ios' 
-        ? `sms:&body=${encodedMessage}`
-        : `sms:?body=${encodedMessage}`;
-        
-      Linking.openURL(url).catch(err => {
-        console.error('Error opening messages app:', err);
-        
-        // Fallback to clipboard if linking fails
-        Clipboard.setString(message);
-        Alert.alert(
-          'Message Copied',
-          'The reminder message has been copied to your clipboard.'
-        );
-      });
-    }
+  const handleRemind = async (debt: Debt) => {
+    const templates = await loadReminderTemplates();
+    const message = buildReminderMessage(debt, templates, {
+      paymentLink: getPaymentLink(userProfile),
+      groupName: group.name,
+      currency: group.currency
+    });
+    await openReminderMessage(message, debt.phoneNumber);
   };
   
   // Handle deleting the group
@@ -164,10 +110,24 @@ export default function GroupDebtCard({ group, onMarkPaid, onDelete }: GroupDebt
               <Text style={styles.recurringText}>Recurring</Text>
             </View>
           )}
+          {isGroupOverdue(group) && (
+            <View style={styles.overdueBadge}>
+              <Ionicons name="alarm-outline" size={10} color="#FF5A5A" />
+              <Text style={styles.overdueText}>Overdue</Text>
+            </View>
+          )}
+          {isPendingSync && (
+            <View style={styles.pendingSyncBadge}>
+              <Ionicons name="cloud-upload-outline" size={10} color="rgba(255,255,255,0.7)" />
+              <Text style={styles.pendingSyncText}>Pending sync</Text>
+            </View>
+          )}
         </View>
         
         <View style={styles.amountSection}>
-          <Text style={styles.amount}>${formatCurrency(group.totalAmount)}</Text>
+          <Text style={styles.amount}>
+            {formatCurrency(group.isCompleted ? group.totalAmount : remainingAmount, group.currency)}
+          </Text>
           <Ionicons
             name={expanded ? "chevron-up" : "chevron-down"}
             size={20}
@@ -210,18 +170,25 @@ export default function GroupDebtCard({ group, onMarkPaid, onDelete }: GroupDebt
                       {debt.description ? (
                         <Text style={styles.debtDescription}>{debt.description}</Text>
                       ) : null}
-                      <Text style={styles.debtDate}>
+                      <Text style={[styles.debtDate, isOverdue(debt) && styles.overdueDate]}>
                         {debt.isPaid 
                           ? `Paid on ${new Date(debt.paidAt!).toLocaleDateString()}` 
-                          : `Added on ${new Date(debt.createdAt).toLocaleDateString()}`}
+                          : debt.dueDate
+                            ? describeDueDate(debt.dueDate)
+                            : `Added on ${new Date(debt.createdAt).toLocaleDateString()}`}
+                      </Text>
+                    </View>
+                    <View style={styles.debtAmountContainer}>
+                      <Text style={[
+                        styles.debtAmount,
+                        debt.isPaid && styles.paidDebtAmount
+                      ]}>
+                        {formatCurrency(debt.isPaid ? debt.amount : getRemainingBalance(debt), debt.currency || group.currency)}
                       </Text>
+                      {isPartiallyPaid(debt) && (
+                        <Text style={styles.debtOriginalAmount}>of {formatCurrency(debt.amount, debt.currency || group.currency)}</Text>
+                      )}
                     </View>
-                    <Text style={[
-                      styles.debtAmount,
-                      debt.isPaid && styles.paidDebtAmount
-                    ]}>
-                      ${debt.amount.toFixed(2)}
-                    </Text>
                   </View>
                   
                   {!debt.isPaid && (
@@ -420,12 +387,25 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontFamily: 'AeonikBlack-Regular',
   },
+  overdueDate: {
+    color: '#FF5A5A',
+  },
+  debtAmountContainer: {
+    alignItems: 'flex-end',
+    alignSelf: 'flex-start',
+  },
   debtAmount: {
     color: Colors.light.tint,
     fontSize: 18,
     fontFamily: 'Aeonik-Black',
     alignSelf: 'flex-start',
   },
+  debtOriginalAmount: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    marginTop: 2,
+  },
   paidDebtAmount: {
     color: Colors.light.tint,
     textDecorationLine: 'line-through',
@@ -508,5 +488,35 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontFamily: 'Aeonik-Black',
     marginLeft: 4,
+  },
+  overdueBadge: {
+    backgroundColor: 'rgba(255, 90, 90, 0.15)',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginLeft: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  overdueText: {
+    color: '#FF5A5A',
+    fontSize: 10,
+    fontFamily: 'Aeonik-Black',
+    marginLeft: 4,
+  },
+  pendingSyncBadge: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginLeft: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pendingSyncText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 10,
+    fontFamily: 'Aeonik-Black',
+    marginLeft: 4,
   }
 }); 
\ No newline at end of file
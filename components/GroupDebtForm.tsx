@@ -17,14 +17,22 @@ import GroupMemberItem, { GroupMember } from './GroupMemberItem';
 import GroupDebtSummary from './GroupDebtSummary';
 import ContactsModal from './ContactsModal';
 import RecurringOptionsComponent from './RecurringOptionsComponent';
-import { RecurringOptions } from '@/firebase/models';
+import CurrencyPicker from './CurrencyPicker';
+import DueDatePicker from './DueDatePicker';
+import { CurrencyCode, RecurringOptions } from '@/firebase/models';
+import { useCurrencySettings } from '@/hooks/useCurrencySettings';
+import { formatAmount, formatCurrency, getCurrencyInfo } from '@/utils/currency';
+import { DEFAULT_GRACE_PERIOD_DAYS } from '@/utils/dueDates';
+import { fromMinorUnits, splitAmountEvenly, toMinorUnits } from '@/utils/money';
 
 interface GroupDebtFormProps {
   onCreateGroup: (
     groupName: string, 
     groupDescription: string, 
     members: Omit<GroupMember, 'id'>[],
-    recurringOptions: RecurringOptions
+    recurringOptions: RecurringOptions,
+    currency: CurrencyCode,
+    dueDate: Date | null
   ) => Promise<void>;
   isLoading: boolean;
 }
@@ -33,6 +41,8 @@ interface GroupDebtFormProps {
  * Form component for creating group debts
  */
 export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFormProps) {
+  const { homeCurrency } = useCurrencySettings();
+  const [currency, setCurrency] = useState<CurrencyCode>(homeCurrency);
   const [groupName, setGroupName] = useState('');
   const [groupDescription, setGroupDescription] = useState('');
   const [members, setMembers] = useState<GroupMember[]>([]);
@@ -40,12 +50,13 @@ export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFor
   const [editingMemberId, setEditingMemberId] = useState<string | null>(null);
   const [contactsModalVisible, setContactsModalVisible] = useState(false);
   const [sharedAmount, setSharedAmount] = useState('');
+  const [dueDate, setDueDate] = useState<Date | null>(null);
   const [recurringOptions, setRecurringOptions] = useState<RecurringOptions>({
     isRecurring: false,
     frequency: 'monthly',
     startDate: new Date(),
     endDate: null,
-    dayOfMonth: 1
+    gracePeriodDays: DEFAULT_GRACE_PERIOD_DAYS
   });
   
   // Handle adding a new member
@@ -114,8 +125,9 @@ export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFor
     ));
   };
   
-  // Apply the same amount to all members
-  const applySharedAmountToAll = () => {
+  // Apply the shared amount to all members, either as each person's amount
+  // or as a total split evenly (any leftover cents go to the first members)
+  const applySharedAmountToAll = (mode: 'each' | 'split' = 'each') => {
     if (!sharedAmount.trim() || isNaN(parseFloat(sharedAmount))) {
       Alert.alert('Invalid Amount', 'Please enter a valid amount');
       return;
@@ -126,13 +138,28 @@ export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFor
       return;
     }
     
+    // Round the entered amount to whole minor units of the group's currency
+    const amount = fromMinorUnits(toMinorUnits(parseFloat(sharedAmount), currency), currency);
+    
+    if (mode === 'split') {
+      const shares = splitAmountEvenly(amount, members.length, currency);
+      
+      setMembers(members.map((member, index) => ({
+        ...member,
+        amount: formatAmount(shares[index], currency)
+      })));
+      
+      Alert.alert('Amount Split', `${formatCurrency(amount, currency)} has been split between ${members.length} members`);
+      return;
+    }
+    
     // Update all members with the same amount
     setMembers(members.map(member => ({
       ...member,
-      amount: sharedAmount.trim()
+      amount: formatAmount(amount, currency)
     })));
     
-    Alert.alert('Amount Applied', `$${sharedAmount} has been applied to all ${members.length} members`);
+    Alert.alert('Amount Applied', `${formatCurrency(amount, currency)} has been applied to all ${members.length} members`);
   };
   
   // Handle multiple contacts selection
@@ -198,18 +225,22 @@ export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFor
       // Convert members to the format expected by the onCreateGroup function
       const memberData = members.map(({ id, ...rest }) => rest);
       
-      await onCreateGroup(groupName, groupDescription, memberData, recurringOptions);
+      // Recurring groups get their due dates from the grace period instead
+      const groupDueDate = recurringOptions.isRecurring ? null : dueDate;
+      
+      await onCreateGroup(groupName, groupDescription, memberData, recurringOptions, currency, groupDueDate);
       
       // Reset form after successful submission
       setGroupName('');
       setGroupDescription('');
       setMembers([]);
+      setDueDate(null);
       setRecurringOptions({
         isRecurring: false,
         frequency: 'monthly',
         startDate: new Date(),
         endDate: null,
-        dayOfMonth: 1
+        gracePeriodDays: DEFAULT_GRACE_PERIOD_DAYS
       });
     } catch (error) {
       console.error('Error creating group debt:', error);
@@ -249,6 +280,18 @@ export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFor
             />
           </View>
           
+          {/* Currency shared by every debt in the group */}
+          <View style={[styles.formGroup, styles.currencyRow]}>
+            <Text style={styles.label}>Currency</Text>
+            <CurrencyPicker value={currency} onChange={setCurrency} />
+          </View>
+          
+          {!recurringOptions.isRecurring && (
+            <View style={styles.formGroup}>
+              <DueDatePicker value={dueDate} onChange={setDueDate} />
+            </View>
+          )}
+          
           {/* Add Recurring Options */}
           <View style={styles.formGroup}>
             <RecurringOptionsComponent
@@ -266,7 +309,7 @@ export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFor
               </View>
               <View style={styles.sharedAmountContainer}>
                 <View style={styles.sharedAmountInput}>
-                  <Text style={styles.currencySymbol}>$</Text>
+                  <Text style={styles.currencySymbol}>{getCurrencyInfo(currency).symbol}</Text>
                   <TextInput
                     style={styles.amountInput}
                     placeholder="0.00"
@@ -282,10 +325,20 @@ export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFor
                     styles.applyButton,
                     pressed && {opacity: 0.8}
                   ]}
-                  onPress={applySharedAmountToAll}
+                  onPress={() => applySharedAmountToAll('each')}
                 >
                   <Text style={styles.applyButtonText}>Apply to All</Text>
                 </Pressable>
+                <Pressable
+                  style={({pressed}) => [
+                    styles.applyButton,
+                    styles.splitButton,
+                    pressed && {opacity: 0.8}
+                  ]}
+                  onPress={() => applySharedAmountToAll('split')}
+                >
+                  <Text style={[styles.applyButtonText, styles.splitButtonText]}>Split Total</Text>
+                </Pressable>
               </View>
             </View>
           )}
@@ -307,6 +360,7 @@ export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFor
                   onAmountChange={handleAmountChange}
                   onEdit={handleEditMember}
                   onRemove={handleRemoveMember}
+                  currency={currency}
                 />
               ))}
               {members.length > 50 && (
@@ -353,6 +407,7 @@ export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFor
           <GroupDebtSummary
             members={members}
             groupName={groupName}
+            currency={currency}
           />
         )}
         
@@ -393,6 +448,7 @@ export default function GroupDebtForm({ onCreateGroup, isLoading }: GroupDebtFor
               }}
               onAddMultiple={handleAddMultipleMembers}
               onUpdate={handleUpdateMember}
+              currency={currency}
               isEditing={!!editingMemberId}
               memberToEdit={members.find(m => m.id === editingMemberId)}
             />
@@ -564,6 +620,11 @@ const styles = StyleSheet.create({
     fontFamily: 'AeonikBlack-Regular',
     marginTop: 8,
   },
+  currencyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   labelContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -614,4 +675,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: 'Aeonik-Black',
   },
+  splitButton: {
+    backgroundColor: 'rgba(74, 226, 144, 0.15)',
+    minWidth: 90,
+  },
+  splitButtonText: {
+    color: Colors.light.tint,
+  },
 }); 
\ No newline at end of file
@@ -7,16 +7,19 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
 import { GroupMember } from './GroupMemberItem';
+import { CurrencyCode } from '@/firebase/models';
+import { formatCurrency } from '@/utils/currency';
 
 interface GroupDebtSummaryProps {
   members: GroupMember[];
   groupName: string;
+  currency?: CurrencyCode;
 }
 
 /**
  * Component for displaying a summary of group debts
  */
-export default function GroupDebtSummary({ members, groupName }: GroupDebtSummaryProps) {
+export default function GroupDebtSummary({ members, groupName, currency }: GroupDebtSummaryProps) {
   // Calculate total amount from all members
   const totalAmount = members.reduce((sum, member) => {
     const amount = parseFloat(member.amount) || 0;
@@ -43,7 +46,7 @@ export default function GroupDebtSummary({ members, groupName }: GroupDebtSummar
         
         <View style={styles.infoRow}>
           <Text style={styles.label}>Total Amount:</Text>
-          <Text style={styles.value}>${totalAmount.toFixed(2)}</Text>
+          <Text style={styles.value}>{formatCurrency(totalAmount, currency)}</Text>
         </View>
         
         {members.length > 0 && (
@@ -52,7 +55,7 @@ export default function GroupDebtSummary({ members, groupName }: GroupDebtSummar
             {members.map(member => (
               <View key={member.id} style={styles.memberRow}>
                 <Text style={styles.memberName} numberOfLines={1}>{member.name}</Text>
-                <Text style={styles.memberAmount}>${parseFloat(member.amount || '0').toFixed(2)}</Text>
+                <Text style={styles.memberAmount}>{formatCurrency(parseFloat(member.amount || '0'), currency)}</Text>
               </View>
             ))}
           </View>
@@ -8,6 +8,8 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
+import { CurrencyCode } from '@/firebase/models';
+import { getCurrencyInfo } from '@/utils/currency';
 
 export interface GroupMember {
   id: string;
@@ -23,6 +25,7 @@ interface GroupMemberItemProps {
   onEdit: (id: string) => void;
   onRemove: (id: string) => void;
   showCurrency?: boolean;
+  currency?: CurrencyCode;
 }
 
 /**
@@ -33,7 +36,8 @@ export default function GroupMemberItem({
   onAmountChange,
   onEdit,
   onRemove,
-  showCurrency = true
+  showCurrency = true,
+  currency
 }: GroupMemberItemProps) {
   return (
     <View style={styles.container}>
@@ -51,7 +55,7 @@ export default function GroupMemberItem({
       
       <View style={styles.amountSection}>
         <View style={styles.amountContainer}>
-          {showCurrency && <Text style={styles.currencySymbol}>$</Text>}
+          {showCurrency && <Text style={styles.currencySymbol}>{getCurrencyInfo(currency).symbol}</Text>}
           <TextInput
             style={styles.amountInput}
             value={member.amount}
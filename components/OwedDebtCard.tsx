@@ -0,0 +1,195 @@
+import { Colors } from '@/constants/Colors';
+import { SharedDebt } from '@/firebase/models';
+import { formatCurrency } from '@/utils/currency';
+import { fromMinorUnits, toMinorUnits } from '@/utils/money';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import {
+    Linking,
+    Pressable,
+    StyleSheet,
+    Text,
+    View
+} from 'react-native';
+
+interface OwedDebtCardProps {
+  sharedDebt: SharedDebt;
+  onMarkSent: (sharedDebtId: string) => void;
+}
+
+// Helper function to describe where the payment handshake is at
+const getStatusText = (sharedDebt: SharedDebt): string => {
+  if (sharedDebt.isPaid || sharedDebt.status === 'confirmed') {
+    return sharedDebt.confirmedAt
+      ? `Confirmed on ${new Date(sharedDebt.confirmedAt).toLocaleDateString()}`
+      : 'Confirmed';
+  }
+
+  if (sharedDebt.status === 'sent') {
+    return 'Sent · waiting for confirmation';
+  }
+
+  return `Added on ${new Date(sharedDebt.createdAt).toLocaleDateString()}`;
+};
+
+/**
+ * Card component for a debt another Paid user has shared with the current user
+ */
+export default function OwedDebtCard({ sharedDebt, onMarkSent }: OwedDebtCardProps) {
+  const remainingMinor = toMinorUnits(sharedDebt.amount, sharedDebt.currency) -
+    toMinorUnits(sharedDebt.paidAmount || 0, sharedDebt.currency);
+  const remaining = Math.max(0, fromMinorUnits(remainingMinor, sharedDebt.currency));
+  const isSettled = sharedDebt.isPaid || sharedDebt.status === 'confirmed';
+
+  // Open the creditor's payment page
+  const handlePay = () => {
+    Linking.openURL(`https://trypaid.io/${sharedDebt.creditorUsername}`).catch(err => {
+      console.error('Error opening payment page:', err);
+    });
+  };
+
+  return (
+    <View style={[styles.card, isSettled && styles.settledCard]}>
+      <View style={styles.info}>
+        <Text style={styles.creditorName}>
+          {sharedDebt.creditorName || `@${sharedDebt.creditorUsername}`}
+        </Text>
+        {sharedDebt.creditorName ? (
+          <Text style={styles.username}>@{sharedDebt.creditorUsername}</Text>
+        ) : null}
+        <Text style={[styles.amount, isSettled && styles.settledAmount]}>
+          {formatCurrency(isSettled ? sharedDebt.amount : remaining, sharedDebt.currency)}
+        </Text>
+        {sharedDebt.description ? (
+          <Text style={styles.description}>{sharedDebt.description}</Text>
+        ) : null}
+        <View style={styles.statusRow}>
+          {sharedDebt.status === 'sent' && !isSettled && (
+            <Ionicons name="time-outline" size={12} color="#FFC107" />
+          )}
+          {isSettled && (
+            <Ionicons name="checkmark-circle" size={12} color={Colors.light.tint} />
+          )}
+          <Text style={styles.statusText}>{getStatusText(sharedDebt)}</Text>
+        </View>
+      </View>
+
+      {!isSettled && (
+        <View style={styles.buttonsContainer}>
+          {sharedDebt.creditorUsername ? (
+            <Pressable
+              style={({pressed}) => [
+                styles.actionButton,
+                styles.payButton,
+                {opacity: pressed ? 0.8 : 1}
+              ]}
+              onPress={handlePay}
+            >
+              <Ionicons name="wallet-outline" size={16} color={Colors.light.tint} />
+              <Text style={styles.actionButtonText}>Pay</Text>
+            </Pressable>
+          ) : null}
+
+          {sharedDebt.status === 'pending' && (
+            <Pressable
+              style={({pressed}) => [
+                styles.actionButton,
+                styles.sentButton,
+                {opacity: pressed ? 0.8 : 1}
+              ]}
+              onPress={() => onMarkSent(sharedDebt.id!)}
+            >
+              <Ionicons name="paper-plane-outline" size={16} color={Colors.light.tint} />
+              <Text style={styles.actionButtonText}>Mark Sent</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(50,50,50,0.5)',
+    borderRadius: 12,
+    marginBottom: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  settledCard: {
+    opacity: 0.6,
+    backgroundColor: 'rgba(40,40,40,0.5)',
+  },
+  info: {
+    flex: 1,
+    paddingRight: 12,
+  },
+  creditorName: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+    marginBottom: 2,
+  },
+  username: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 4,
+  },
+  amount: {
+    color: '#FF5A5A',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+    marginBottom: 8,
+  },
+  settledAmount: {
+    color: 'rgba(255,255,255,0.7)',
+  },
+  description: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    marginBottom: 8,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  statusText: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  buttonsContainer: {
+    flexDirection: 'column',
+    justifyContent: 'center',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+    borderRadius: 8,
+    minWidth: 100,
+    justifyContent: 'center',
+  },
+  payButton: {
+    backgroundColor: 'rgba(59, 130, 246, 0.15)',
+  },
+  sentButton: {
+    backgroundColor: 'rgba(74, 226, 144, 0.15)',
+  },
+  actionButtonText: {
+    color: Colors.light.tint,
+    fontSize: 12,
+    fontFamily: 'Aeonik-Black',
+    marginLeft: 4,
+  },
+});
@@ -1,11 +1,23 @@
-import React, { useState } from 'react';
-import { View, StyleSheet, Pressable, Text, Platform, ScrollView, Modal } from 'react-native';
+import React, { useMemo, useState } from 'react';
+import { View, StyleSheet, Pressable, Text, TextInput, Platform, ScrollView, Modal } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 
 import { ThemedText } from './ThemedText';
 import { Colors } from '@/constants/Colors';
-import { RecurringFrequency, RecurringOptions } from '@/firebase/models';
+import { RecurrenceUnit, RecurringFrequency, RecurringOptions } from '@/firebase/models';
+import {
+  LAST_DAY_OF_MONTH,
+  getDeviceTimeZone,
+  getOccurrencesAfter,
+  usesDayOfMonth,
+  usesDayOfWeek
+} from '@/functions/recurrence';
+import { GRACE_PERIOD_OPTIONS, describeGracePeriod } from '@/utils/dueDates';
+import { RECURRENCE_UNITS, describeFrequency } from '@/utils/recurringSeries';
+
+// Largest interval offered for custom frequencies
+const MAX_INTERVAL = 99;
 
 interface RecurringOptionsComponentProps {
   options: RecurringOptions;
@@ -26,19 +38,52 @@ const RecurringOptionsComponent: React.FC<RecurringOptionsComponentProps> = ({
   
   // Function to handle frequency change
   const handleFrequencyChange = (frequency: RecurringFrequency) => {
-    let updatedOptions = { ...options, frequency };
+    const isCustom = frequency === 'custom';
     
-    // Set appropriate default day values based on frequency
-    if (frequency === 'monthly' || frequency === 'quarterly' || frequency === 'yearly') {
-      // Default to 1st of month
-      updatedOptions.dayOfMonth = 1;
-    } else if (frequency === 'weekly' || frequency === 'biweekly') {
-      // Default to monday
-      updatedOptions.dayOfWeek = 1; // Monday
+    // Days left unset follow the start date
+    onChange({
+      ...options,
+      frequency,
+      interval: isCustom ? options.interval ?? 2 : undefined,
+      intervalUnit: isCustom ? options.intervalUnit ?? 'week' : undefined,
+      dayOfMonth: undefined,
+      dayOfWeek: undefined
+    });
+    setShowFrequencyPicker(false);
+  };
+  
+  // Function to step the interval of a custom frequency up or down
+  const handleIntervalChange = (change: number) => {
+    const interval = Math.min(MAX_INTERVAL, Math.max(1, (options.interval ?? 1) + change));
+    onChange({ ...options, interval });
+  };
+  
+  // Function to handle the unit of a custom frequency changing
+  const handleIntervalUnitChange = (intervalUnit: RecurrenceUnit) => {
+    onChange({ ...options, intervalUnit, dayOfMonth: undefined, dayOfWeek: undefined });
+  };
+  
+  // Function to handle the number of charges changing (empty for no limit)
+  const handleOccurrenceCountChange = (text: string) => {
+    const count = parseInt(text.replace(/[^0-9]/g, ''), 10);
+    onChange({ ...options, occurrenceCount: count > 0 ? count : null });
+  };
+  
+  // Change the start date, moving the chosen days along with it
+  const applyStartDate = (startDate: Date) => {
+    // Ensure end date is after start date
+    let newEndDate = options.endDate;
+    if (options.endDate && startDate > options.endDate) {
+      newEndDate = null;
     }
     
-    onChange(updatedOptions);
-    setShowFrequencyPicker(false);
+    onChange({
+      ...options,
+      startDate,
+      endDate: newEndDate,
+      dayOfMonth: undefined,
+      dayOfWeek: undefined
+    });
   };
   
   // Function to handle start date change
@@ -47,18 +92,7 @@ const RecurringOptionsComponent: React.FC<RecurringOptionsComponentProps> = ({
     
     if (Platform.OS === 'android') {
       setShowStartDatePicker(false);
-      
-      // Ensure end date is after start date
-      let newEndDate = options.endDate;
-      if (options.endDate && selectedDate > options.endDate) {
-        newEndDate = null;
-      }
-      
-      onChange({
-        ...options,
-        startDate: selectedDate,
-        endDate: newEndDate
-      });
+      applyStartDate(selectedDate);
     } else {
       // For iOS, store in temporary state
       setTempStartDate(selectedDate);
@@ -87,18 +121,7 @@ const RecurringOptionsComponent: React.FC<RecurringOptionsComponentProps> = ({
   
   // Function to confirm iOS date selection
   const confirmStartDate = () => {
-    // Ensure end date is after start date
-    let newEndDate = options.endDate;
-    if (options.endDate && tempStartDate > options.endDate) {
-      newEndDate = null;
-    }
-    
-    onChange({
-      ...options,
-      startDate: tempStartDate,
-      endDate: newEndDate
-    });
-    
+    applyStartDate(tempStartDate);
     setShowStartDatePicker(false);
   };
   
@@ -156,11 +179,33 @@ const RecurringOptionsComponent: React.FC<RecurringOptionsComponentProps> = ({
   };
   
   // Determine if we should show day of month selector
-  const showDayOfMonth = false;
+  const showDayOfMonth = options.isRecurring && usesDayOfMonth(options);
   
   // Determine if we should show day of week selector
-  const showDayOfWeek = options.isRecurring && 
-    (options.frequency === 'weekly' || options.frequency === 'biweekly');
+  const showDayOfWeek = options.isRecurring && usesDayOfWeek(options);
+  
+  // Days fall on the start date's day unless another one is picked
+  const selectedDayOfMonth = options.dayOfMonth ?? options.startDate.getDate();
+  const selectedDayOfWeek = options.dayOfWeek ?? options.startDate.getDay();
+  
+  // The first charge is created on the start date and counts towards the number of charges, followed by the next few occurrences
+  const upcomingCharges = useMemo(() => {
+    if (!options.isRecurring) return [];
+    
+    const following = getOccurrencesAfter({
+      frequency: options.frequency,
+      interval: options.interval,
+      intervalUnit: options.intervalUnit,
+      startDate: options.startDate.toISOString(),
+      endDate: options.endDate ? options.endDate.toISOString() : null,
+      occurrenceCount: options.occurrenceCount,
+      dayOfMonth: showDayOfMonth ? options.dayOfMonth : null,
+      dayOfWeek: showDayOfWeek ? options.dayOfWeek : null,
+      timeZone: getDeviceTimeZone()
+    }, options.startDate, 3);
+    
+    return [options.startDate, ...following.map(date => new Date(date))];
+  }, [options, showDayOfMonth, showDayOfWeek]);
   
   return (
     <View style={styles.container}>
@@ -195,12 +240,56 @@ const RecurringOptionsComponent: React.FC<RecurringOptionsComponentProps> = ({
             <ThemedText style={styles.pickerLabel}>Frequency</ThemedText>
             <View style={styles.pickerValueContainer}>
               <ThemedText style={styles.pickerValue}>
-                {options.frequency.charAt(0).toUpperCase() + options.frequency.slice(1)}
+                {describeFrequency(options)}
               </ThemedText>
               <Ionicons name="chevron-down" size={16} color="#fff" />
             </View>
           </Pressable>
           
+          {/* Interval for custom frequencies, e.g. every 4 weeks */}
+          {options.frequency === 'custom' && (
+            <View style={styles.daySelector}>
+              <ThemedText style={styles.daySelectorLabel}>
+                Repeat every
+              </ThemedText>
+              <View style={styles.intervalRow}>
+                <Pressable
+                  style={styles.stepperButton}
+                  onPress={() => handleIntervalChange(-1)}
+                >
+                  <Ionicons name="remove" size={18} color="#fff" />
+                </Pressable>
+                <Text style={styles.intervalValue}>{options.interval ?? 1}</Text>
+                <Pressable
+                  style={styles.stepperButton}
+                  onPress={() => handleIntervalChange(1)}
+                >
+                  <Ionicons name="add" size={18} color="#fff" />
+                </Pressable>
+                {RECURRENCE_UNITS.map(unit => {
+                  const isSelected = (options.intervalUnit ?? 'month') === unit;
+                  return (
+                    <Pressable
+                      key={unit}
+                      style={[
+                        styles.weekdayButton,
+                        isSelected && styles.dayButtonActive
+                      ]}
+                      onPress={() => handleIntervalUnitChange(unit)}
+                    >
+                      <Text style={[
+                        styles.dayText,
+                        isSelected && styles.dayTextActive
+                      ]}>
+                        {(options.interval ?? 1) === 1 ? unit : `${unit}s`}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+          
           {/* Start Date Picker */}
           <Pressable
             style={styles.pickerButton}
@@ -229,6 +318,53 @@ const RecurringOptionsComponent: React.FC<RecurringOptionsComponentProps> = ({
             </View>
           </Pressable>
           
+          {/* Number of charges, e.g. 12 installments */}
+          <View style={styles.pickerButton}>
+            <ThemedText style={styles.pickerLabel}>Number of charges (optional)</ThemedText>
+            <TextInput
+              style={styles.countInput}
+              value={options.occurrenceCount ? String(options.occurrenceCount) : ''}
+              onChangeText={handleOccurrenceCountChange}
+              keyboardType="number-pad"
+              placeholder="No limit"
+              placeholderTextColor="rgba(255,255,255,0.4)"
+              maxLength={3}
+            />
+          </View>
+          
+          {/* Grace period before each charge is due */}
+          <View style={styles.daySelector}>
+            <ThemedText style={styles.daySelectorLabel}>
+              Each charge is due after
+            </ThemedText>
+            <ScrollView 
+              horizontal 
+              showsHorizontalScrollIndicator={false}
+              style={styles.daysScrollView}
+            >
+              {GRACE_PERIOD_OPTIONS.map(days => {
+                const isSelected = (options.gracePeriodDays ?? null) === days;
+                return (
+                  <Pressable
+                    key={days ?? 'none'}
+                    style={[
+                      styles.weekdayButton,
+                      isSelected && styles.dayButtonActive
+                    ]}
+                    onPress={() => onChange({ ...options, gracePeriodDays: days })}
+                  >
+                    <Text style={[
+                      styles.dayText,
+                      isSelected && styles.dayTextActive
+                    ]}>
+                      {describeGracePeriod(days)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+          </View>
+          
           {/* Day of Month Selector for monthly/quarterly/yearly */}
           {showDayOfMonth && (
             <View style={styles.daySelector}>
@@ -240,20 +376,20 @@ const RecurringOptionsComponent: React.FC<RecurringOptionsComponentProps> = ({
                 showsHorizontalScrollIndicator={false}
                 style={styles.daysScrollView}
               >
-                {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+                {Array.from({ length: LAST_DAY_OF_MONTH }, (_, i) => i + 1).map(day => (
                   <Pressable
                     key={day}
                     style={[
-                      styles.dayButton,
-                      options.dayOfMonth === day && styles.dayButtonActive
+                      day === LAST_DAY_OF_MONTH ? styles.weekdayButton : styles.dayButton,
+                      selectedDayOfMonth === day && styles.dayButtonActive
                     ]}
                     onPress={() => handleDayOfMonthChange(day)}
                   >
                     <Text style={[
                       styles.dayText,
-                      options.dayOfMonth === day && styles.dayTextActive
+                      selectedDayOfMonth === day && styles.dayTextActive
                     ]}>
-                      {day}
+                      {day === LAST_DAY_OF_MONTH ? 'Last' : day}
                     </Text>
                   </Pressable>
                 ))}
@@ -277,13 +413,13 @@ const RecurringOptionsComponent: React.FC<RecurringOptionsComponentProps> = ({
                     key={day}
                     style={[
                       styles.weekdayButton,
-                      options.dayOfWeek === day && styles.dayButtonActive
+                      selectedDayOfWeek === day && styles.dayButtonActive
                     ]}
                     onPress={() => handleDayOfWeekChange(day)}
                   >
                     <Text style={[
                       styles.dayText,
-                      options.dayOfWeek === day && styles.dayTextActive
+                      selectedDayOfWeek === day && styles.dayTextActive
                     ]}>
                       {getDayOfWeekName(day).substr(0, 3)}
                     </Text>
@@ -292,6 +428,18 @@ const RecurringOptionsComponent: React.FC<RecurringOptionsComponentProps> = ({
               </ScrollView>
             </View>
           )}
+          
+          {/* Preview of the next few charges */}
+          {upcomingCharges.length > 0 && (
+            <View style={styles.previewContainer}>
+              <ThemedText style={styles.daySelectorLabel}>
+                Upcoming charges
+              </ThemedText>
+              <ThemedText style={styles.previewText}>
+                {upcomingCharges.map(date => formatDate(date)).join(' · ')}
+              </ThemedText>
+            </View>
+          )}
         </View>
       )}
       
@@ -315,7 +463,7 @@ const RecurringOptionsComponent: React.FC<RecurringOptionsComponentProps> = ({
             </View>
             
             <ScrollView style={styles.modalScrollView}>
-              {['daily', 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly'].map((freq) => (
+              {['daily', 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly', 'custom'].map((freq) => (
                 <Pressable
                   key={freq}
                   style={styles.frequencyOption}
@@ -557,6 +705,44 @@ const styles = StyleSheet.create({
     color: '#000',
     fontFamily: 'Aeonik-Black',
   },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    rowGap: 8,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  intervalValue: {
+    minWidth: 32,
+    textAlign: 'center',
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+    marginRight: 8,
+  },
+  countInput: {
+    minWidth: 80,
+    textAlign: 'right',
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    paddingVertical: 0,
+  },
+  previewContainer: {
+    marginTop: 16,
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#fff',
+    fontFamily: 'AeonikBlack-Regular',
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0,0,0,0.7)',
@@ -0,0 +1,451 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+
+import { Colors } from '@/constants/Colors';
+import { RecurrenceUnit, RecurringFrequency } from '@/firebase/models';
+import { LAST_DAY_OF_MONTH, usesDayOfMonth, usesDayOfWeek } from '@/functions/recurrence';
+import { getCurrencyInfo } from '@/utils/currency';
+import { RECURRENCE_UNITS, RecurringSeries } from '@/utils/recurringSeries';
+
+export interface RecurringScheduleChanges {
+  amount?: number;
+  frequency: RecurringFrequency;
+  interval: number | null;
+  intervalUnit: RecurrenceUnit | null;
+  dayOfMonth: number | null;
+  dayOfWeek: number | null;
+  endDate: string | null;
+  occurrenceCount: number | null;
+}
+
+interface RecurringScheduleModalProps {
+  visible: boolean;
+  series: RecurringSeries | null;
+  onClose: () => void;
+  onSave: (changes: RecurringScheduleChanges) => Promise<void>;
+}
+
+const FREQUENCIES: RecurringFrequency[] = ['daily', 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly', 'custom'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Modal for changing the amount and schedule of a recurring series.
+ * Changes only apply to instances created from now on.
+ */
+export default function RecurringScheduleModal({ visible, series, onClose, onSave }: RecurringScheduleModalProps) {
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<RecurringFrequency>('monthly');
+  const [intervalText, setIntervalText] = useState('');
+  const [intervalUnit, setIntervalUnit] = useState<RecurrenceUnit>('month');
+  const [dayOfMonth, setDayOfMonth] = useState<number | null>(null);
+  const [dayOfWeek, setDayOfWeek] = useState<number | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [occurrenceCount, setOccurrenceCount] = useState('');
+  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the series' current values each time the modal opens
+  useEffect(() => {
+    if (visible && series) {
+      setAmount(String(series.amount));
+      setFrequency(series.frequency);
+      setIntervalText(String(series.interval ?? 2));
+      setIntervalUnit(series.intervalUnit ?? 'week');
+      setDayOfMonth(series.dayOfMonth);
+      setDayOfWeek(series.dayOfWeek);
+      setEndDate(series.endDate ? new Date(series.endDate) : null);
+      setOccurrenceCount(series.occurrenceCount ? String(series.occurrenceCount) : '');
+      setShowEndDatePicker(false);
+    }
+  }, [visible, series]);
+
+  if (!series) return null;
+
+  const startDate = new Date(series.startDate);
+  const isCustom = frequency === 'custom';
+  const numericInterval = parseInt(intervalText, 10);
+  const schedule = { frequency, interval: numericInterval || 1, intervalUnit };
+  const showDayOfMonth = usesDayOfMonth(schedule);
+  const showDayOfWeek = usesDayOfWeek(schedule);
+
+  // Days left unset follow the start date
+  const selectedDayOfMonth = dayOfMonth ?? startDate.getDate();
+  const selectedDayOfWeek = dayOfWeek ?? startDate.getDay();
+
+  const handleEndDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowEndDatePicker(false);
+    }
+    if (selectedDate) {
+      setEndDate(selectedDate);
+    }
+  };
+
+  const handleSave = async () => {
+    const numericAmount = parseFloat(amount);
+
+    if (series.type === 'debt' && (isNaN(numericAmount) || numericAmount <= 0)) {
+      Alert.alert('Invalid Amount', 'Please enter an amount greater than zero');
+      return;
+    }
+
+    if (isCustom && !(numericInterval >= 1)) {
+      Alert.alert('Invalid Interval', 'Please enter an interval of at least 1');
+      return;
+    }
+
+    const numericCount = occurrenceCount ? parseInt(occurrenceCount, 10) : null;
+    if (numericCount !== null && !(numericCount >= 1)) {
+      Alert.alert('Invalid Number of Charges', 'Please enter at least 1 charge, or leave it empty for no limit');
+      return;
+    }
+
+    if (endDate && endDate < new Date()) {
+      Alert.alert('Invalid End Date', 'Please choose an end date in the future');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await onSave({
+        ...(series.type === 'debt' ? { amount: numericAmount } : {}),
+        frequency,
+        interval: isCustom ? numericInterval : null,
+        intervalUnit: isCustom ? intervalUnit : null,
+        dayOfMonth: showDayOfMonth ? dayOfMonth : null,
+        dayOfWeek: showDayOfWeek ? dayOfWeek : null,
+        endDate: endDate ? endDate.toISOString() : null,
+        occurrenceCount: numericCount
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={() => !saving && onClose()}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.modalOverlay}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Edit Series</Text>
+            <Pressable onPress={onClose} disabled={saving}>
+              <Ionicons name="close" size={24} color="#fff" />
+            </Pressable>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {series.type === 'debt' && (
+              <>
+                <Text style={styles.modalLabel}>Amount</Text>
+                <View style={styles.amountInputContainer}>
+                  <Text style={styles.currencySymbol}>{getCurrencyInfo(series.currency).symbol}</Text>
+                  <TextInput
+                    style={styles.amountInput}
+                    value={amount}
+                    onChangeText={setAmount}
+                    keyboardType="decimal-pad"
+                    placeholder="0.00"
+                    placeholderTextColor="rgba(255,255,255,0.3)"
+                  />
+                </View>
+              </>
+            )}
+
+            <Text style={styles.modalLabel}>Frequency</Text>
+            <View style={styles.options}>
+              {FREQUENCIES.map(option => (
+                <Pressable
+                  key={option}
+                  style={[styles.option, frequency === option && styles.optionSelected]}
+                  onPress={() => {
+                    setFrequency(option);
+                    setDayOfMonth(null);
+                    setDayOfWeek(null);
+                  }}
+                >
+                  <Text style={[styles.optionText, frequency === option && styles.optionTextSelected]}>
+                    {capitalize(option)}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            {isCustom && (
+              <>
+                <Text style={styles.modalLabel}>Repeat every</Text>
+                <View style={styles.options}>
+                  <TextInput
+                    style={[styles.option, styles.numberInput]}
+                    value={intervalText}
+                    onChangeText={text => setIntervalText(text.replace(/[^0-9]/g, ''))}
+                    keyboardType="number-pad"
+                    maxLength={2}
+                  />
+                  {RECURRENCE_UNITS.map(unit => (
+                    <Pressable
+                      key={unit}
+                      style={[styles.option, intervalUnit === unit && styles.optionSelected]}
+                      onPress={() => {
+                        setIntervalUnit(unit);
+                        setDayOfMonth(null);
+                        setDayOfWeek(null);
+                      }}
+                    >
+                      <Text style={[styles.optionText, intervalUnit === unit && styles.optionTextSelected]}>
+                        {capitalize(numericInterval === 1 ? unit : `${unit}s`)}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </>
+            )}
+
+            {showDayOfMonth && (
+              <>
+                <Text style={styles.modalLabel}>Day of month</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.daysScrollView}>
+                  {Array.from({ length: LAST_DAY_OF_MONTH }, (_, i) => i + 1).map(day => (
+                    <Pressable
+                      key={day}
+                      style={[styles.option, styles.dayOption, selectedDayOfMonth === day && styles.optionSelected]}
+                      onPress={() => setDayOfMonth(day)}
+                    >
+                      <Text style={[styles.optionText, selectedDayOfMonth === day && styles.optionTextSelected]}>
+                        {day === LAST_DAY_OF_MONTH ? 'Last' : day}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </ScrollView>
+              </>
+            )}
+
+            {showDayOfWeek && (
+              <>
+                <Text style={styles.modalLabel}>Day of week</Text>
+                <View style={styles.options}>
+                  {WEEKDAYS.map((name, day) => (
+                    <Pressable
+                      key={name}
+                      style={[styles.option, selectedDayOfWeek === day && styles.optionSelected]}
+                      onPress={() => setDayOfWeek(day)}
+                    >
+                      <Text style={[styles.optionText, selectedDayOfWeek === day && styles.optionTextSelected]}>
+                        {name}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.modalLabel}>End date</Text>
+            <View style={styles.options}>
+              <Pressable
+                style={[styles.option, !endDate && styles.optionSelected]}
+                onPress={() => {
+                  setEndDate(null);
+                  setShowEndDatePicker(false);
+                }}
+              >
+                <Text style={[styles.optionText, !endDate && styles.optionTextSelected]}>No end date</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.option, !!endDate && styles.optionSelected]}
+                onPress={() => {
+                  if (!endDate) setEndDate(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000));
+                  setShowEndDatePicker(true);
+                }}
+              >
+                <Text style={[styles.optionText, !!endDate && styles.optionTextSelected]}>
+                  {endDate ? endDate.toLocaleDateString() : 'Choose date'}
+                </Text>
+              </Pressable>
+            </View>
+
+            {showEndDatePicker && endDate && (
+              <DateTimePicker
+                value={endDate}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                minimumDate={new Date()}
+                onChange={handleEndDateChange}
+                textColor="#fff"
+              />
+            )}
+
+            <Text style={styles.modalLabel}>Number of charges</Text>
+            <View style={styles.options}>
+              <TextInput
+                style={[styles.option, styles.numberInput]}
+                value={occurrenceCount}
+                onChangeText={text => setOccurrenceCount(text.replace(/[^0-9]/g, ''))}
+                keyboardType="number-pad"
+                placeholder="No limit"
+                placeholderTextColor="rgba(255,255,255,0.3)"
+                maxLength={3}
+              />
+            </View>
+
+            <Text style={styles.note}>
+              Changes apply to future charges only. Charges that were already created keep their amount and date.
+            </Text>
+
+            <Pressable
+              style={({pressed}) => [
+                styles.saveButton,
+                {opacity: pressed || saving ? 0.8 : 1}
+              ]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>
+                {saving ? 'Saving...' : 'Save Changes'}
+              </Text>
+            </Pressable>
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxHeight: '85%',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    color: '#fff',
+    fontSize: 20,
+    fontFamily: 'Aeonik-Black',
+  },
+  modalLabel: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 8,
+  },
+  amountInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  currencySymbol: {
+    color: Colors.light.tint,
+    fontSize: 24,
+    fontFamily: 'Aeonik-Black',
+    marginRight: 4,
+  },
+  amountInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 24,
+    fontFamily: 'Aeonik-Black',
+    paddingVertical: 12,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  dayOption: {
+    minWidth: 40,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  numberInput: {
+    minWidth: 72,
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    textAlign: 'center',
+  },
+  optionSelected: {
+    backgroundColor: 'rgba(74, 226, 144, 0.15)',
+    borderColor: Colors.light.tint,
+  },
+  optionText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  optionTextSelected: {
+    color: Colors.light.tint,
+  },
+  daysScrollView: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  note: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 13,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 16,
+  },
+  saveButton: {
+    backgroundColor: Colors.light.tint,
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  saveButtonText: {
+    color: '#000',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+  },
+});
@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import CurrencyPicker from './CurrencyPicker';
+import { CurrencyCode } from '@/firebase/models';
+import { useCurrencySettings } from '@/hooks/useCurrencySettings';
+import { SELF_MEMBER } from '@/utils/groupBalances';
+
+interface SharedExpensesFormProps {
+  onCreateGroup: (
+    groupName: string,
+    groupDescription: string,
+    members: string[],
+    currency: CurrencyCode
+  ) => Promise<void>;
+  isLoading: boolean;
+}
+
+/**
+ * Form component for creating a shared expense group, where any member can pay
+ */
+export default function SharedExpensesForm({ onCreateGroup, isLoading }: SharedExpensesFormProps) {
+  const { homeCurrency } = useCurrencySettings();
+  const [currency, setCurrency] = useState<CurrencyCode>(homeCurrency);
+  const [groupName, setGroupName] = useState('');
+  const [groupDescription, setGroupDescription] = useState('');
+  const [memberName, setMemberName] = useState('');
+  const [members, setMembers] = useState<string[]>([]);
+
+  // Handle adding a member by name
+  const handleAddMember = () => {
+    const name = memberName.trim();
+    if (!name) return;
+
+    const isDuplicate = [SELF_MEMBER, ...members].some(member => member.toLowerCase() === name.toLowerCase());
+    if (isDuplicate) {
+      Alert.alert('Duplicate Name', `${name} is already in this group.`);
+      return;
+    }
+
+    setMembers([...members, name]);
+    setMemberName('');
+  };
+
+  // Handle removing a member
+  const handleRemoveMember = (name: string) => {
+    setMembers(members.filter(member => member !== name));
+  };
+
+  // Handle form submission
+  const handleSubmit = () => {
+    if (!groupName.trim()) {
+      Alert.alert('Missing Group Name', 'Please enter a name for this group.');
+      return;
+    }
+
+    if (members.length === 0) {
+      Alert.alert('No Members', 'Please add at least one other person to the group.');
+      return;
+    }
+
+    onCreateGroup(groupName.trim(), groupDescription.trim(), [SELF_MEMBER, ...members], currency);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        {/* Group Details */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Group Details</Text>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Group Name</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Enter group name (e.g., Ski Trip)"
+              placeholderTextColor="rgba(255,255,255,0.4)"
+              value={groupName}
+              onChangeText={setGroupName}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Description (Optional)</Text>
+            <TextInput
+              style={styles.textArea}
+              placeholder="Enter description"
+              placeholderTextColor="rgba(255,255,255,0.4)"
+              value={groupDescription}
+              onChangeText={setGroupDescription}
+              multiline
+              numberOfLines={3}
+              textAlignVertical="top"
+            />
+          </View>
+
+          {/* Currency shared by every expense in the group */}
+          <View style={[styles.formGroup, styles.currencyRow]}>
+            <Text style={styles.label}>Currency</Text>
+            <CurrencyPicker value={currency} onChange={setCurrency} />
+          </View>
+        </View>
+
+        {/* Group Members */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Group Members</Text>
+            <Text style={styles.memberCount}>({members.length + 1})</Text>
+          </View>
+
+          <View style={styles.addMemberRow}>
+            <TextInput
+              style={[styles.input, styles.memberInput]}
+              placeholder="Add a name"
+              placeholderTextColor="rgba(255,255,255,0.4)"
+              value={memberName}
+              onChangeText={setMemberName}
+              onSubmitEditing={handleAddMember}
+              returnKeyType="done"
+            />
+            <Pressable
+              style={({pressed}) => [styles.addMemberButton, pressed && {opacity: 0.8}]}
+              onPress={handleAddMember}
+            >
+              <Ionicons name="add" size={22} color="#000" />
+            </Pressable>
+          </View>
+
+          <View style={styles.memberChips}>
+            <View style={[styles.memberChip, styles.selfChip]}>
+              <Text style={styles.memberChipText}>{SELF_MEMBER}</Text>
+            </View>
+            {members.map(member => (
+              <View key={member} style={styles.memberChip}>
+                <Text style={styles.memberChipText}>{member}</Text>
+                <Pressable onPress={() => handleRemoveMember(member)} hitSlop={8}>
+                  <Ionicons name="close" size={14} color="rgba(255,255,255,0.6)" />
+                </Pressable>
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.helpText}>
+            Add expenses from the group screen once it&apos;s created. Anyone can be the payer.
+          </Text>
+        </View>
+
+        {/* Create Button */}
+        <Pressable
+          style={({pressed}) => [
+            styles.createButton,
+            (pressed || isLoading) && {opacity: 0.8},
+            members.length === 0 && styles.createButtonDisabled
+          ]}
+          onPress={handleSubmit}
+          disabled={members.length === 0 || isLoading}
+        >
+          {isLoading ? (
+            <Text style={styles.createButtonText}>Creating...</Text>
+          ) : (
+            <>
+              <Ionicons name="people" size={18} color="#000" style={styles.createButtonIcon} />
+              <Text style={styles.createButtonText}>Create Expense Group</Text>
+            </>
+          )}
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  section: {
+    marginBottom: 24,
+    backgroundColor: 'rgba(35,35,35,0.95)',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Aeonik-Black',
+  },
+  memberCount: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 16,
+    fontFamily: 'AeonikBlack-Regular',
+    marginLeft: 8,
+  },
+  formGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 12,
+    padding: 16,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'AeonikBlack-Regular',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  textArea: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 12,
+    padding: 16,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'AeonikBlack-Regular',
+    minHeight: 100,
+    textAlignVertical: 'top',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  currencyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  addMemberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  memberInput: {
+    flex: 1,
+  },
+  addMemberButton: {
+    width: 52,
+    height: 52,
+    borderRadius: 12,
+    backgroundColor: Colors.light.tint,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  memberChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  memberChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  selfChip: {
+    backgroundColor: 'rgba(74, 226, 144, 0.15)',
+    borderColor: 'rgba(74, 226, 144, 0.3)',
+  },
+  memberChipText: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  helpText: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+    fontStyle: 'italic',
+  },
+  createButton: {
+    backgroundColor: Colors.light.tint,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  createButtonDisabled: {
+    backgroundColor: 'rgba(74, 226, 144, 0.3)',
+  },
+  createButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+  },
+  createButtonIcon: {
+    marginRight: 8,
+  },
+});
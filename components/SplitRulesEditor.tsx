@@ -0,0 +1,324 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  Pressable
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { CurrencyCode } from '@/firebase/models';
+import { getCurrencyInfo } from '@/utils/currency';
+import {
+  AllocationMethod,
+  AllocationSettings,
+  CHARGE_TYPES,
+  ChargeType
+} from '@/utils/receiptAllocation';
+
+interface SplitRulesEditorProps {
+  settings: AllocationSettings;
+  people: { id: string; name: string }[];
+  currency: CurrencyCode;
+  onChange: (settings: AllocationSettings) => void;
+  onSaveDefault: () => void;
+}
+
+const CHARGE_LABELS: Record<ChargeType, string> = {
+  tax: 'Tax',
+  tip: 'Tip',
+  extraFees: 'Extra Fees',
+};
+
+const METHOD_OPTIONS: { method: AllocationMethod; label: string }[] = [
+  { method: 'proportional', label: 'By Spend' },
+  { method: 'equal', label: 'Equally' },
+  { method: 'fixed', label: 'Fixed' },
+];
+
+/**
+ * Editor for how tax, tip and extra fees are split between people on a receipt
+ */
+export default function SplitRulesEditor({
+  settings,
+  people,
+  currency,
+  onChange,
+  onSaveDefault
+}: SplitRulesEditorProps) {
+  // Raw input values for better editing experience
+  const [fixedInputs, setFixedInputs] = useState<Record<ChargeType, string>>({ tax: '', tip: '', extraFees: '' });
+  const [tipPercentageInput, setTipPercentageInput] = useState('');
+
+  // Keep the inputs in sync when settings are loaded, without clobbering partial input like "1."
+  useEffect(() => {
+    const syncInput = (input: string, value: number | null | undefined) => {
+      const parsed = parseFloat(input);
+      if ((isNaN(parsed) ? 0 : parsed) === (value || 0)) return input;
+      return value ? value.toString() : '';
+    };
+    
+    setFixedInputs(prev => ({
+      tax: syncInput(prev.tax, settings.tax.fixedAmount),
+      tip: syncInput(prev.tip, settings.tip.fixedAmount),
+      extraFees: syncInput(prev.extraFees, settings.extraFees.fixedAmount),
+    }));
+    setTipPercentageInput(prev => syncInput(prev, settings.tipPercentage));
+  }, [settings]);
+
+  const updateMethod = (type: ChargeType, method: AllocationMethod) => {
+    onChange({ ...settings, [type]: { ...settings[type], method } });
+  };
+
+  const updateFixedAmount = (type: ChargeType, value: string) => {
+    setFixedInputs(prev => ({ ...prev, [type]: value }));
+    const amount = parseFloat(value);
+    onChange({ ...settings, [type]: { ...settings[type], fixedAmount: isNaN(amount) ? 0 : amount } });
+  };
+
+  const toggleExempt = (type: ChargeType, personId: string) => {
+    const exempt = settings[type].exemptPersonIds;
+    const exemptPersonIds = exempt.includes(personId)
+      ? exempt.filter(id => id !== personId)
+      : [...exempt, personId];
+    onChange({ ...settings, [type]: { ...settings[type], exemptPersonIds } });
+  };
+
+  const toggleTipPercentage = () => {
+    onChange({ ...settings, tipPercentage: settings.tipPercentage === null ? 18 : null });
+  };
+
+  const updateTipPercentage = (value: string) => {
+    setTipPercentageInput(value);
+    const percentage = parseFloat(value);
+    onChange({ ...settings, tipPercentage: isNaN(percentage) ? 0 : percentage });
+  };
+
+  return (
+    <View style={styles.container}>
+      {CHARGE_TYPES.map(type => (
+        <View key={type} style={styles.chargeSection}>
+          <Text style={styles.chargeLabel}>{CHARGE_LABELS[type]}</Text>
+
+          {/* Method selector */}
+          <View style={styles.selector}>
+            {METHOD_OPTIONS.map(option => (
+              <Pressable
+                key={option.method}
+                style={[
+                  styles.option,
+                  settings[type].method === option.method && styles.selectedOption
+                ]}
+                onPress={() => updateMethod(type, option.method)}
+              >
+                <Text style={[
+                  styles.optionText,
+                  settings[type].method === option.method && styles.selectedOptionText
+                ]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {/* Fixed per-person amount */}
+          {settings[type].method === 'fixed' && (
+            <View style={styles.inputRow}>
+              <Text style={styles.inputLabel}>Per person</Text>
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputAffix}>{getCurrencyInfo(currency).symbol}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={fixedInputs[type]}
+                  onChangeText={(value) => updateFixedAmount(type, value)}
+                  keyboardType="decimal-pad"
+                  placeholder="0.00"
+                  placeholderTextColor="rgba(255,255,255,0.4)"
+                />
+              </View>
+            </View>
+          )}
+
+          {/* Percentage tip */}
+          {type === 'tip' && settings.tip.method !== 'fixed' && (
+            <View style={styles.inputRow}>
+              <Pressable style={styles.checkboxRow} onPress={toggleTipPercentage}>
+                <Ionicons
+                  name={settings.tipPercentage !== null ? 'checkbox' : 'square-outline'}
+                  size={18}
+                  color={Colors.light.tint}
+                />
+                <Text style={styles.inputLabel}>Percentage of subtotal</Text>
+              </Pressable>
+              {settings.tipPercentage !== null && (
+                <View style={styles.inputContainer}>
+                  <TextInput
+                    style={styles.input}
+                    value={tipPercentageInput}
+                    onChangeText={updateTipPercentage}
+                    keyboardType="decimal-pad"
+                    placeholder="18"
+                    placeholderTextColor="rgba(255,255,255,0.4)"
+                  />
+                  <Text style={styles.inputAffix}>%</Text>
+                </View>
+              )}
+            </View>
+          )}
+
+          {/* Exempt people */}
+          {people.length > 0 && (
+            <View style={styles.exemptContainer}>
+              <Text style={styles.exemptLabel}>Exempt:</Text>
+              {people.map(person => {
+                const isExempt = settings[type].exemptPersonIds.includes(person.id);
+                return (
+                  <Pressable
+                    key={person.id}
+                    style={[styles.exemptChip, isExempt && styles.exemptChipSelected]}
+                    onPress={() => toggleExempt(type, person.id)}
+                  >
+                    <Text style={[styles.exemptChipText, isExempt && styles.exemptChipTextSelected]}>
+                      {person.name}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+        </View>
+      ))}
+
+      <Pressable
+        style={({pressed}) => [styles.saveDefaultButton, pressed && {opacity: 0.8}]}
+        onPress={onSaveDefault}
+      >
+        <Ionicons name="bookmark-outline" size={16} color={Colors.light.tint} />
+        <Text style={styles.saveDefaultText}>Save as My Default</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  chargeSection: {
+    marginBottom: 16,
+  },
+  chargeLabel: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Aeonik-Black',
+    marginBottom: 8,
+  },
+  selector: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(30,30,30,0.8)',
+    borderRadius: 12,
+    padding: 4,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+    borderRadius: 10,
+  },
+  selectedOption: {
+    backgroundColor: 'rgba(74, 226, 144, 0.15)',
+  },
+  optionText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  selectedOptionText: {
+    color: Colors.light.tint,
+    fontFamily: 'Aeonik-Black',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  inputLabel: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+  },
+  inputAffix: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  input: {
+    width: 70,
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'AeonikBlack-Regular',
+    paddingVertical: 6,
+    paddingHorizontal: 4,
+    textAlign: 'right',
+  },
+  exemptContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  exemptLabel: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  exemptChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  exemptChipSelected: {
+    backgroundColor: 'rgba(255, 91, 91, 0.15)',
+    borderColor: 'rgba(255, 91, 91, 0.5)',
+  },
+  exemptChipText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 12,
+    fontFamily: 'AeonikBlack-Regular',
+  },
+  exemptChipTextSelected: {
+    color: '#FF5B5B',
+  },
+  saveDefaultButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(74, 226, 144, 0.1)',
+  },
+  saveDefaultText: {
+    color: Colors.light.tint,
+    fontSize: 14,
+    fontFamily: 'Aeonik-Black',
+  },
+});
@@ -3,6 +3,7 @@
 // like using environment variables and not committed to version control
 
 export default {
-  // Groq API Key - Replace with your actual key
-  GROQ_API_KEY: "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"
+  // Which provider reads receipt photos: "groq" (the scanReceipt Cloud Function),
+  // "local" (pasted text only, works offline) or "mock" (sample receipts, for developing without network)
+  RECEIPT_OCR_PROVIDER: process.env.EXPO_PUBLIC_RECEIPT_OCR_PROVIDER || "groq"
 }; 
\ No newline at end of file
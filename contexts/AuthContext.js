@@ -1,4 +1,4 @@
-import React, { createContext, useState, useEffect, useContext, useCallback, useMemo } from 'react';
+import React, { createContext, useState, useEffect, useContext, useCallback, useMemo, useRef } from 'react';
 import { 
   createUserWithEmailAndPassword,
   signInWithEmailAndPassword,
@@ -12,6 +12,10 @@ import { auth } from '../firebase/config';
 import { doc, getDoc, deleteDoc, query, where, getDocs, collection } from 'firebase/firestore';
 import { db } from '../firebase/config';
 import { deleteUserStorageFiles } from '../firebase/storage';
+import { registerPushToken, unregisterPushToken } from '../firebase/firestore';
+import { getUser } from '../firebase/repository';
+import { registerForPushNotifications } from '../utils/pushNotifications';
+import eventEmitter from '../utils/eventEmitter';
 
 // Create the authentication context
 const AuthContext = createContext();
@@ -27,6 +31,7 @@ export const AuthProvider = ({ children }) => {
   const [userProfile, setUserProfile] = useState(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false); // Track profile refreshing
+  const pushTokenRef = useRef(null); // Push token registered for the signed in user
 
   // Sign up function
   const signup = useCallback((email, password) => {
@@ -39,9 +44,19 @@ export const AuthProvider = ({ children }) => {
   }, []);
 
   // Logout function
-  const logout = useCallback(() => {
+  const logout = useCallback(async () => {
+    // Stop sending this user's reminders to this device
+    if (currentUser && pushTokenRef.current) {
+      try {
+        await unregisterPushToken(currentUser.uid, pushTokenRef.current);
+      } catch (error) {
+        console.error('Error removing push token on logout:', error);
+      }
+      pushTokenRef.current = null;
+    }
+    
     return signOut(auth);
-  }, []);
+  }, [currentUser]);
 
   // Function to delete user account entirely
   const deleteAccount = useCallback(async (password) => {
@@ -92,10 +107,26 @@ export const AuthProvider = ({ children }) => {
         await deleteDoc(doc(db, 'users', currentUser.uid, 'recurringDebts', recurringDoc.id));
       }
       
-      // 4. Delete the main user document
+      // 4. Delete all scanned receipts
+      const receiptsCollectionRef = collection(db, 'users', currentUser.uid, 'receipts');
+      const receiptsSnapshot = await getDocs(receiptsCollectionRef);
+      
+      for (const receiptDoc of receiptsSnapshot.docs) {
+        await deleteDoc(doc(db, 'users', currentUser.uid, 'receipts', receiptDoc.id));
+      }
+      
+      // 5. Delete debts shared with other users
+      const sharedDebtsQuery = query(collection(db, 'sharedDebts'), where('creditorUid', '==', currentUser.uid));
+      const sharedDebtsSnapshot = await getDocs(sharedDebtsQuery);
+      
+      for (const sharedDoc of sharedDebtsSnapshot.docs) {
+        await deleteDoc(doc(db, 'sharedDebts', sharedDoc.id));
+      }
+      
+      // 6. Delete the main user document
       await deleteDoc(userDocRef);
       
-      // 5. Delete username entry if exists
+      // 7. Delete username entry if exists
       if (username) {
         const usernameDocRef = doc(db, 'usernames', username.toLowerCase());
         const usernameSnap = await getDoc(usernameDocRef);
@@ -125,15 +156,11 @@ export const AuthProvider = ({ children }) => {
     
     try {
       setRefreshing(true);
-      const userDocRef = doc(db, 'users', userId);
-      const userDocSnap = await getDoc(userDocRef);
+      const userData = await getUser(userId);
       
-      if (userDocSnap.exists()) {
-        const userData = {
-          id: userDocSnap.id,
-          ...userDocSnap.data()
-        };
+      if (userData) {
         setUserProfile(userData);
+        eventEmitter.emit('PROFILE_UPDATED', userData);
         return userData;
       } else {
         setUserProfile(null);
@@ -180,6 +207,25 @@ export const AuthProvider = ({ children }) => {
     };
   }, [fetchUserProfile]);
 
+  // Register this device for debt reminder push notifications once signed in
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    const registerDevice = async () => {
+      try {
+        const token = await registerForPushNotifications();
+        if (token) {
+          await registerPushToken(currentUser.uid, token);
+          pushTokenRef.current = token;
+        }
+      } catch (error) {
+        console.error('Error registering for push notifications:', error);
+      }
+    };
+    
+    registerDevice();
+  }, [currentUser]);
+
   // Memoize the context value to prevent unnecessary re-renders
   const value = useMemo(() => ({
     currentUser,
@@ -0,0 +1,188 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { RepositoryError } from '@/firebase/errors';
+import { subscribeToDebtsOwedByUser } from '@/firebase/firestore';
+import { Debt, DebtGroup, RecurringDebt, SharedDebt } from '@/firebase/models';
+import { subscribeToDebtGroups, subscribeToDebts, subscribeToRecurringDebts } from '@/firebase/repository';
+import eventEmitter from '@/utils/eventEmitter';
+import { applyQueuedWrites, GroupWithDebts, loadOfflineData, QueuedWrite, saveOfflineData } from '@/utils/offlineStore';
+import { getPendingWrites } from '@/utils/offlineSync';
+
+interface DataContextValue {
+  debts: Debt[];                  // All of the user's debts, including debts in groups
+  groups: GroupWithDebts[];       // Debt groups with their debts
+  recurringDebts: RecurringDebt[];
+  owedDebts: SharedDebt[];        // Debts other Paid users shared with the user
+  loading: boolean;               // True until there's saved or live data to show
+  error: string | null;
+}
+
+const DataContext = createContext<DataContextValue>({
+  debts: [],
+  groups: [],
+  recurringDebts: [],
+  owedDebts: [],
+  loading: true,
+  error: null,
+});
+
+/**
+ * Keeps the signed in user's debts, groups and recurring debts up to date with Firestore listeners.
+ * Until the first snapshot arrives the saved offline copy is shown, and writes that haven't synced
+ * yet are always applied on top so they show straight away.
+ */
+export const DataProvider = ({ children }: { children: React.ReactNode }) => {
+  const { currentUser } = useAuth();
+  const userId: string | undefined = currentUser?.uid;
+
+  const [serverDebts, setServerDebts] = useState<Debt[]>([]);
+  const [serverGroups, setServerGroups] = useState<DebtGroup[]>([]);
+  const [recurringDebts, setRecurringDebts] = useState<RecurringDebt[]>([]);
+  const [owedDebts, setOwedDebts] = useState<SharedDebt[]>([]);
+  const [pendingWrites, setPendingWrites] = useState<QueuedWrite[]>([]);
+  const [hasData, setHasData] = useState(false);
+  const [isLive, setIsLive] = useState({ debts: false, groups: false });
+  const [error, setError] = useState<string | null>(null);
+  const hasDataRef = useRef(false);
+
+  useEffect(() => {
+    setServerDebts([]);
+    setServerGroups([]);
+    setRecurringDebts([]);
+    setOwedDebts([]);
+    setHasData(false);
+    setIsLive({ debts: false, groups: false });
+    setError(null);
+    hasDataRef.current = false;
+
+    if (!userId) return;
+
+    let isActive = true;
+
+    const markHasData = () => {
+      hasDataRef.current = true;
+      setHasData(true);
+      setError(null);
+    };
+
+    // Show the saved copy until the listeners catch up
+    loadOfflineData(userId).then(savedData => {
+      if (!isActive || !savedData || hasDataRef.current) return;
+      setServerDebts(savedData.debts);
+      setServerGroups(savedData.groups);
+      markHasData();
+    });
+
+    const handleError = (err: RepositoryError) => {
+      // Keep showing what we have; only surface errors when there's nothing to show
+      if (hasDataRef.current) return;
+      setError(err.code === 'permission-denied'
+        ? 'Permission denied. Please check your Firestore security rules.'
+        : 'Failed to load data. Please try again later.');
+    };
+
+    const unsubscribers = [
+      subscribeToDebts(userId, (debts) => {
+        setServerDebts(debts);
+        setIsLive(prev => ({ ...prev, debts: true }));
+        markHasData();
+      }, handleError),
+      subscribeToDebtGroups(userId, (groups) => {
+        setServerGroups(groups);
+        setIsLive(prev => ({ ...prev, groups: true }));
+      }, handleError),
+      subscribeToRecurringDebts(userId, setRecurringDebts),
+      subscribeToDebtsOwedByUser(userId, setOwedDebts),
+    ];
+
+    return () => {
+      isActive = false;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [userId]);
+
+  // Track writes that haven't synced yet
+  useEffect(() => {
+    if (!userId) {
+      setPendingWrites([]);
+      return;
+    }
+
+    const refreshPendingWrites = () => {
+      getPendingWrites(userId).then(setPendingWrites);
+    };
+
+    refreshPendingWrites();
+    return eventEmitter.on('SYNC_STATUS_CHANGED', refreshPendingWrites);
+  }, [userId]);
+
+  const serverGroupsWithDebts = useMemo(() => serverGroups.map(group => ({
+    ...group,
+    debts: serverDebts.filter(debt => debt.groupId === group.id),
+  })), [serverGroups, serverDebts]);
+
+  // Save live data for the next time the app starts offline
+  useEffect(() => {
+    if (userId && isLive.debts && isLive.groups) {
+      saveOfflineData(userId, { debts: serverDebts, groups: serverGroupsWithDebts });
+    }
+  }, [userId, isLive, serverDebts, serverGroupsWithDebts]);
+
+  const localData = useMemo(
+    () => applyQueuedWrites({ debts: serverDebts, groups: serverGroupsWithDebts }, pendingWrites),
+    [serverDebts, serverGroupsWithDebts, pendingWrites]
+  );
+
+  const value = useMemo(() => ({
+    debts: localData.debts,
+    groups: localData.groups,
+    recurringDebts,
+    owedDebts,
+    loading: !!userId && !hasData && !error,
+    error,
+  }), [localData, recurringDebts, owedDebts, userId, hasData, error]);
+
+  return <DataContext.Provider value={value}>{children}</DataContext.Provider>;
+};
+
+/**
+ * Access all of the signed in user's live data
+ */
+export const useData = () => {
+  return useContext(DataContext);
+};
+
+/**
+ * Live list of the user's debts, newest first, including debts in groups
+ */
+export const useDebts = () => {
+  const { debts, loading, error } = useData();
+  return { debts, loading, error };
+};
+
+/**
+ * Live list of the user's debt groups, newest first, each with its debts
+ */
+export const useGroups = () => {
+  const { groups, loading, error } = useData();
+  return { groups, loading, error };
+};
+
+/**
+ * Live list of the user's recurring debt templates, newest first
+ */
+export const useRecurringDebts = () => {
+  const { recurringDebts, loading, error } = useData();
+  return { recurringDebts, loading, error };
+};
+
+/**
+ * Live list of the debts other Paid users shared with the user, newest first
+ */
+export const useOwedDebts = () => {
+  const { owedDebts, loading, error } = useData();
+  return { owedDebts, loading, error };
+};
+
+export default DataContext;
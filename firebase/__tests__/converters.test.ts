@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+
+import { debtGroupConverter } from '@/firebase/converters';
+import { ValidationError } from '@/firebase/errors';
+
+// Just enough of a snapshot for fromFirestore
+const snapshot = (id: string, data: Record<string, unknown>) => ({
+  id,
+  ref: { path: `users/user-1/debtGroups/${id}` },
+  data: () => data,
+}) as unknown as QueryDocumentSnapshot;
+
+const group = (overrides: Record<string, unknown> = {}) => ({
+  name: 'Beach trip',
+  createdAt: '2026-03-01T10:00:00.000Z',
+  updatedAt: '2026-03-02T10:00:00.000Z',
+  isCompleted: false,
+  totalAmount: 30,
+  paidAmount: 0,
+  debtIds: ['debt-1'],
+  userId: 'user-1',
+  ...overrides,
+});
+
+describe('debtGroupConverter', () => {
+  it('reads a group with its ID', () => {
+    expect(debtGroupConverter.fromFirestore(snapshot('group-1', group()))).toEqual({ id: 'group-1', ...group() });
+  });
+
+  it('reads legacy groups that counted their debts in debtIds', () => {
+    const legacy = debtGroupConverter.fromFirestore(snapshot('group-1', group({ debtIds: 3, endDate: null })));
+
+    expect(legacy).toEqual({ id: 'group-1', ...group({ debtIds: [] }) });
+  });
+
+  it('still rejects debtIds of any other shape', () => {
+    expect(() => debtGroupConverter.fromFirestore(snapshot('group-1', group({ debtIds: 'debt-1' }))))
+      .toThrow(ValidationError);
+  });
+});
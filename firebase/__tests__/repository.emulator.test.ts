@@ -0,0 +1,319 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Converters and schemas against the Firestore emulator: what's written through
+ * firestore.js reads back the same through the repository, and invalid data is
+ * rejected before it reaches Firestore.
+ * Run from the project root with: npm run test:emulator
+ * Skipped when FIRESTORE_EMULATOR_HOST isn't set.
+ */
+
+import type { Firestore } from 'firebase/firestore';
+
+const PROJECT_ID = 'demo-paid';
+const USER_ID = 'repository-test-user';
+
+// Talk to the emulator as the test user, so the security rules let the writes through
+jest.mock('@/firebase/config', () => {
+  const { initializeApp } = jest.requireActual('firebase/app');
+  const { connectFirestoreEmulator, getFirestore } = jest.requireActual('firebase/firestore');
+
+  const app = initializeApp({ projectId: 'demo-paid' }, 'repository-test');
+  const db = getFirestore(app);
+  const [host, port] = (process.env.FIRESTORE_EMULATOR_HOST || '').split(':');
+  connectFirestoreEmulator(db, host, Number(port), { mockUserToken: { user_id: 'repository-test-user' } });
+
+  return { app, db };
+});
+
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('repository (Firestore emulator)', () => {
+  let db: Firestore;
+  let firestore: typeof import('firebase/firestore');
+  let repository: typeof import('@/firebase/repository');
+  let writes: typeof import('@/firebase/firestore');
+  let ValidationError: typeof import('@/firebase/errors').ValidationError;
+
+  beforeAll(() => {
+    db = require('@/firebase/config').db;
+    firestore = require('firebase/firestore');
+    repository = require('@/firebase/repository');
+    writes = require('@/firebase/firestore');
+    ValidationError = require('@/firebase/errors').ValidationError;
+
+    // The write helpers log every step
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await firestore.terminate(db);
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    await fetch(
+      `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+      { method: 'DELETE' }
+    );
+  });
+
+  // Write a document without a converter, the way an old app version or a bug might
+  const writeRaw = (path: string[], data: object) => {
+    return firestore.setDoc(firestore.doc(db, 'users', USER_ID, ...path), data);
+  };
+
+  const allocationSettings = {
+    tax: { method: 'proportional', exemptPersonIds: [] },
+    tip: { method: 'proportional', exemptPersonIds: [] },
+    extraFees: { method: 'equal', exemptPersonIds: [] },
+    tipPercentage: null,
+  };
+
+  const countDebts = async () => {
+    const snapshot = await firestore.getDocs(firestore.collection(db, 'users', USER_ID, 'debts'));
+    return snapshot.size;
+  };
+
+  describe('converter round-trips', () => {
+    it('reads back a debt as it was created', async () => {
+      const created = await writes.createDebt(USER_ID, {
+        debtorName: 'Sam',
+        amount: 42.5,
+        currency: 'EUR',
+        description: 'Concert tickets',
+        phoneNumber: '+15551234567',
+        dueDate: '2026-04-01T00:00:00.000Z',
+      }) as { id: string };
+
+      const debt = await repository.getDebt(USER_ID, created.id);
+
+      expect(debt).toEqual(created);
+    });
+
+    it('keeps payment IDs and drops null fields the model leaves out', async () => {
+      await writeRaw(['debts', 'paid-debt'], {
+        debtorName: 'Alex',
+        amount: 30,
+        createdAt: '2026-03-01T10:00:00.000Z',
+        updatedAt: '2026-03-02T10:00:00.000Z',
+        isPaid: false,
+        paidAt: null,
+        userId: USER_ID,
+        payments: [{ id: 'payment-1', amount: 10, paidAt: '2026-03-02T10:00:00.000Z', method: 'cash' }],
+        paidAmount: 10,
+      });
+
+      const debt = await repository.getDebt(USER_ID, 'paid-debt');
+
+      expect(debt).not.toHaveProperty('paidAt');
+      expect(debt?.payments).toEqual([{ id: 'payment-1', amount: 10, paidAt: '2026-03-02T10:00:00.000Z', method: 'cash' }]);
+      expect(debt?.id).toBe('paid-debt');
+    });
+
+    it('reads back a debt group and a debt added to it', async () => {
+      const group = await writes.createDebtGroup(USER_ID, { name: 'Beach trip', currency: 'USD' }) as { id: string };
+      const [added] = await writes.addDebtsToGroup(USER_ID, group.id, [{ debtorName: 'Jo', amount: 12.34, currency: 'USD' }]) as { id: string }[];
+
+      const storedGroup = await repository.getDebtGroup(USER_ID, group.id);
+      const storedDebt = await repository.getDebt(USER_ID, added.id);
+
+      expect(storedGroup).toMatchObject({ ...group, totalAmount: 12.34, debtIds: [added.id], updatedAt: expect.any(String) });
+      expect(storedDebt).toEqual(added);
+    });
+
+    it('reads back a receipt with its line items and people', async () => {
+      const created = await writes.createReceipt(USER_ID, {
+        store: 'Corner Cafe',
+        date: '2026-03-05',
+        description: 'Lunch',
+        currency: 'USD',
+        imagePath: null,
+        imageUrl: null,
+        items: [
+          { id: 'item-1', name: 'Sandwich', price: 9.5, quantity: 1, split: false, assignedTo: 'person-1', splitBetween: [] },
+          { id: 'item-2', name: 'Fries', price: 4, quantity: 2, split: true, assignedTo: null, splitBetween: ['person-1', 'person-2'] },
+        ],
+        people: [{ id: 'person-1', name: 'Sam' }, { id: 'person-2', name: 'Jo', phoneNumber: '+15557654321' }],
+        tax: 1.2,
+        tip: null,
+        extraFees: null,
+        subtotal: 17.5,
+        total: 18.7,
+        allocationSettings,
+      }) as { id: string };
+
+      const receipt = await repository.getReceipt(USER_ID, created.id);
+
+      expect(receipt).toEqual(created);
+    });
+  });
+
+  describe('payments made before a debt was added', () => {
+    it('saves them with the debt in the same write', async () => {
+      const partlyPaid = await writes.createDebt(USER_ID, {
+        debtorName: 'Sam',
+        amount: 20,
+        payments: [{ amount: 5, method: 'other', note: 'Imported', paidAt: '2026-02-01T00:00:00.000Z' }],
+      }) as { id: string };
+      const paidOff = await writes.createDebt(USER_ID, {
+        debtorName: 'Jo',
+        amount: 20,
+        payments: [{ amount: 20, method: 'other', paidAt: '2026-02-01T00:00:00.000Z' }],
+      }) as { id: string };
+
+      expect(await repository.getDebt(USER_ID, partlyPaid.id)).toMatchObject({ paidAmount: 5, isPaid: false });
+      expect(await repository.getDebt(USER_ID, paidOff.id)).toMatchObject({
+        paidAmount: 20,
+        isPaid: true,
+        paidAt: '2026-02-01T00:00:00.000Z',
+      });
+    });
+
+    it('rejects payments that add up to more than the debt without writing it', async () => {
+      await expect(writes.createDebt(USER_ID, {
+        debtorName: 'Sam',
+        amount: 10,
+        payments: [{ amount: 15 }],
+      })).rejects.toThrow();
+
+      expect(await countDebts()).toBe(0);
+    });
+  });
+
+  describe('updateDebtAmount', () => {
+    it('works out from the payment ledger whether the debt is still paid', async () => {
+      const created = await writes.createDebt(USER_ID, { debtorName: 'Sam', amount: 10 }) as { id: string };
+      await writes.recordDebtPayment(USER_ID, created.id, { amount: 10, method: 'cash' });
+
+      await writes.updateDebtAmount(USER_ID, created.id, { amount: 15 });
+      const raised = await repository.getDebt(USER_ID, created.id);
+      expect(raised).toMatchObject({ amount: 15, paidAmount: 10, isPaid: false });
+      expect(raised).not.toHaveProperty('paidAt');
+
+      await writes.updateDebtAmount(USER_ID, created.id, { amount: 8 });
+      const lowered = await repository.getDebt(USER_ID, created.id);
+      expect(lowered).toMatchObject({ amount: 8, paidAmount: 10, isPaid: true, paidAt: expect.any(String) });
+    });
+  });
+
+  describe('updateReceiptSplit', () => {
+    it('saves the receipt and its debts together, leaving out debts that were already deleted', async () => {
+      const receipt = await writes.createReceipt(USER_ID, {
+        store: 'Corner Cafe',
+        date: '2026-03-05',
+        description: 'Lunch',
+        currency: 'USD',
+        items: [],
+        people: [],
+        tax: null,
+        tip: null,
+        extraFees: null,
+        subtotal: 30,
+        total: 30,
+        allocationSettings,
+      }) as { id: string };
+      const kept = await writes.createDebt(USER_ID, { debtorName: 'Sam', amount: 10, receiptId: receipt.id }) as { id: string };
+      const gone = await writes.createDebt(USER_ID, { debtorName: 'Jo', amount: 10, receiptId: receipt.id }) as { id: string };
+      const removed = await writes.createDebt(USER_ID, { debtorName: 'Alex', amount: 10, receiptId: receipt.id }) as { id: string };
+      await writes.deleteDebt(USER_ID, gone.id);
+
+      const { debtIds } = await writes.updateReceiptSplit(USER_ID, receipt.id, {
+        receiptData: { subtotal: 36, total: 36 },
+        people: [{ id: 'person-1', name: 'Sam' }, { id: 'person-2', name: 'Jo' }, { id: 'person-3', name: 'Kim' }],
+        debts: [
+          { personId: 'person-1', debtId: kept.id, debtorName: 'Sam', amount: 12, currency: 'USD' },
+          { personId: 'person-2', debtId: gone.id, debtorName: 'Jo', amount: 12, currency: 'USD' },
+          { personId: 'person-3', debtorName: 'Kim', amount: 12, currency: 'USD' },
+        ],
+        removedDebtIds: [removed.id],
+      }) as { debtIds: Record<string, string> };
+
+      const stored = await repository.getReceipt(USER_ID, receipt.id);
+      expect(Object.keys(debtIds)).toEqual(['person-1', 'person-3']);
+      expect(stored).toMatchObject({ total: 36, debtIds: [kept.id, debtIds['person-3']] });
+      expect(stored?.people.map(person => person.debtId)).toEqual([kept.id, undefined, debtIds['person-3']]);
+      expect(await repository.getDebt(USER_ID, kept.id)).toMatchObject({ amount: 12 });
+      expect(await repository.getDebt(USER_ID, debtIds['person-3'])).toMatchObject({ debtorName: 'Kim', receiptId: receipt.id });
+      expect(await repository.getDebt(USER_ID, removed.id)).toBeNull();
+      expect(await countDebts()).toBe(2);
+    });
+  });
+
+  describe('schema rejection', () => {
+    it('rejects a new debt with an invalid field without writing it', async () => {
+      await expect(writes.createDebt(USER_ID, {
+        debtorName: 'Sam',
+        amount: 10,
+        dueDate: 'next tuesday',
+      })).rejects.toBeInstanceOf(ValidationError);
+
+      expect(await countDebts()).toBe(0);
+    });
+
+    it('rejects an update with a field of the wrong type and leaves the debt as it was', async () => {
+      const created = await writes.createDebt(USER_ID, { debtorName: 'Sam', amount: 10 }) as { id: string };
+
+      const error = await writes.updateDebt(USER_ID, created.id, { amount: 'ten' }).catch(err => err);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.issues).toEqual([{ path: 'amount', message: expect.any(String) }]);
+      expect((await repository.getDebt(USER_ID, created.id))?.amount).toBe(10);
+    });
+
+    it('rejects a payment with an unknown source', async () => {
+      const created = await writes.createDebt(USER_ID, { debtorName: 'Sam', amount: 10 }) as { id: string };
+
+      await expect(writes.updateDebt(USER_ID, created.id, {
+        payments: [{ id: 'payment-1', amount: 5, paidAt: '2026-03-02T10:00:00.000Z', source: 'import' }],
+      })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('rejects a receipt line item without an ID', async () => {
+      await expect(writes.createReceipt(USER_ID, {
+        store: '',
+        date: null,
+        description: 'Lunch',
+        currency: 'USD',
+        items: [{ name: 'Sandwich', price: 9.5, quantity: 1, split: false, assignedTo: null, splitBetween: [] }],
+        people: [],
+        tax: null,
+        tip: null,
+        extraFees: null,
+        subtotal: 9.5,
+        total: 9.5,
+        allocationSettings,
+      })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('throws a ValidationError when reading an invalid stored document', async () => {
+      await writeRaw(['debts', 'broken'], { debtorName: 'Sam', amount: '10', userId: USER_ID });
+
+      const error = await repository.getDebt(USER_ID, 'broken').catch(err => err);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.path).toBe(`users/${USER_ID}/debts/broken`);
+      expect(error.issues.map((issue: { path: string }) => issue.path)).toEqual(
+        expect.arrayContaining(['amount', 'createdAt', 'updatedAt', 'isPaid'])
+      );
+    });
+
+    it('skips invalid documents in listeners and still delivers the valid ones', async () => {
+      const created = await writes.createDebt(USER_ID, { debtorName: 'Sam', amount: 10 }) as { id: string };
+      await writeRaw(['debts', 'broken'], { debtorName: 'Alex', amount: 'lots', createdAt: '2026-03-01T10:00:00.000Z' });
+
+      const debts = await new Promise<{ id?: string }[]>((resolve, reject) => {
+        const unsubscribe = repository.subscribeToDebts(USER_ID, (received) => {
+          unsubscribe();
+          resolve(received);
+        }, reject);
+      });
+
+      expect(debts.map(debt => debt.id)).toEqual([created.id]);
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { initializeApp } from 'firebase/app';
 import { initializeAuth, getReactNativePersistence } from 'firebase/auth';
 import { getFirestore } from 'firebase/firestore';
 import { getStorage } from 'firebase/storage';
+import { getFunctions } from 'firebase/functions';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Your web app's Firebase configuration
@@ -29,4 +30,7 @@ const db = getFirestore(app);
 // Initialize Storage
 const storage = getStorage(app);
 
-export { app, auth, db, storage }; 
\ No newline at end of file
+// Initialize Cloud Functions
+const functions = getFunctions(app);
+
+export { app, auth, db, functions, storage }; 
\ No newline at end of file
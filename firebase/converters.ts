@@ -0,0 +1,73 @@
+import {
+  DocumentData,
+  FirestoreDataConverter,
+  PartialWithFieldValue,
+  QueryDocumentSnapshot,
+  SetOptions,
+  SnapshotOptions,
+} from 'firebase/firestore';
+
+import { ValidationError } from '@/firebase/errors';
+import type { Debt, DebtGroup, Receipt, RecurringDebt, User } from '@/firebase/models';
+import {
+  debtGroupSchema,
+  debtSchema,
+  dropNullFields,
+  receiptSchema,
+  recurringDebtSchema,
+  Schema,
+  userSchema,
+  validateFields,
+} from '@/firebase/schemas';
+
+/**
+ * Fixes fields that older app versions stored in another shape, before a document is validated
+ */
+type LegacyFieldRepair = (fields: Record<string, unknown>) => Record<string, unknown>;
+
+// Older versions counted a group's debts in debtIds (with increment) instead of listing them.
+// The group's debts are still found by their groupId, and the next change to one of them lists them again.
+const repairDebtGroupFields: LegacyFieldRepair = (fields) => {
+  return typeof fields.debtIds === 'number' ? { ...fields, debtIds: [] } : fields;
+};
+
+/**
+ * Create a converter that validates documents against a schema when they're read and written.
+ * The document ID is added to the model on read and left out of the stored fields on write.
+ * @param {Schema} schema - Schema of the model
+ * @param {LegacyFieldRepair} [repairLegacyFields] - Fixes legacy fields of a document before it's validated on read
+ * @returns {FirestoreDataConverter} Converter to pass to withConverter
+ */
+const createConverter = <T extends { id?: string }>(
+  schema: Schema<T>,
+  repairLegacyFields: LegacyFieldRepair = fields => fields
+): FirestoreDataConverter<T> => ({
+  toFirestore(model: PartialWithFieldValue<T>, options?: SetOptions): DocumentData {
+    const { id, ...fields } = model as DocumentData;
+
+    // Merges only write some of the fields, so only those are checked
+    const issues = validateFields(schema, fields, { partial: !!options });
+    if (issues.length > 0) {
+      throw new ValidationError(id ? String(id) : '(new document)', issues);
+    }
+
+    return fields;
+  },
+
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): T {
+    const fields = repairLegacyFields(dropNullFields(schema, snapshot.data(options)));
+
+    const issues = validateFields(schema, fields);
+    if (issues.length > 0) {
+      throw new ValidationError(snapshot.ref.path, issues);
+    }
+
+    return { id: snapshot.id, ...fields } as T;
+  },
+});
+
+export const debtConverter = createConverter<Debt>(debtSchema);
+export const debtGroupConverter = createConverter<DebtGroup>(debtGroupSchema, repairDebtGroupFields);
+export const recurringDebtConverter = createConverter<RecurringDebt>(recurringDebtSchema);
+export const receiptConverter = createConverter<Receipt>(receiptSchema);
+export const userConverter = createConverter<User>(userSchema);
@@ -0,0 +1,71 @@
+/**
+ * Typed errors thrown by the Firestore repository layer
+ */
+
+/**
+ * A single problem found while validating a document
+ */
+export interface ValidationIssue {
+  path: string;              // Field that failed, e.g. "payments[0].amount"
+  message: string;           // What was expected
+}
+
+/**
+ * Base class for errors from reading or writing Firestore
+ */
+export class RepositoryError extends Error {
+  code: string;              // Firestore error code (e.g., 'permission-denied') or 'unknown'
+  cause?: unknown;           // The original error
+
+  constructor(message: string, code = 'unknown', cause?: unknown) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The document doesn't exist
+ */
+export class NotFoundError extends RepositoryError {
+  path: string;              // Path of the missing document
+
+  constructor(path: string, cause?: unknown) {
+    super(`No document at ${path}`, 'not-found', cause);
+    this.name = 'NotFoundError';
+    this.path = path;
+  }
+}
+
+/**
+ * A document read from or about to be written to Firestore doesn't match its model
+ */
+export class ValidationError extends RepositoryError {
+  path: string;              // Path of the document (or collection, for new documents)
+  issues: ValidationIssue[];
+
+  constructor(path: string, issues: ValidationIssue[]) {
+    const details = issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    super(`Invalid document at ${path} (${details})`, 'invalid-argument');
+    this.name = 'ValidationError';
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Wrap an error from the Firestore SDK in a RepositoryError, keeping errors that are already typed
+ * @param {unknown} error - The error that was thrown
+ * @param {string} path - Path of the document or collection being accessed
+ * @returns {RepositoryError} The typed error
+ */
+export const toRepositoryError = (error: unknown, path: string): RepositoryError => {
+  if (error instanceof RepositoryError) return error;
+
+  const code = typeof (error as any)?.code === 'string' ? (error as any).code : 'unknown';
+  if (code === 'not-found') return new NotFoundError(path, error);
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new RepositoryError(`Error accessing ${path}: ${message}`, code, error);
+};
@@ -1,5 +1,71 @@
-import { collection, getDocs, doc, getDoc, query, where, orderBy, limit, addDoc, updateDoc, deleteDoc, Timestamp, setDoc, writeBatch, increment, runTransaction, arrayUnion } from 'firebase/firestore';
+import { collection, getDocs, doc, getDoc, query, where, orderBy, limit, addDoc, updateDoc, deleteDoc, Timestamp, setDoc, onSnapshot, runTransaction, arrayUnion, arrayRemove } from 'firebase/firestore';
 import { db } from './config';
+import { debtConverter, debtGroupConverter, receiptConverter, recurringDebtConverter } from './converters';
+import { debtGroupSchema, debtSchema, receiptSchema, recurringDebtSchema, validateFields } from './schemas';
+import { ValidationError } from './errors';
+import { getPaidAmount, getRemainingBalance, sumPayments } from '../utils/debtBalance';
+import { getCurrencyInfo } from '../utils/currency';
+import { fromMinorUnits, toMinorUnits } from '../utils/money';
+import { getDueDateFromGracePeriod } from '../utils/dueDates';
+import { getNextReminderDate } from '../utils/reminders';
+import { getDeviceTimeZone, getNextOccurrence, usesDayOfMonth, usesDayOfWeek } from '../functions/recurrence';
+
+// Where each kind of recurring series keeps its template, and the schema the template follows
+const RECURRING_TEMPLATES = {
+  debt: { collectionName: 'recurringDebts', schema: recurringDebtSchema },
+  group: { collectionName: 'debtGroups', schema: debtGroupSchema }
+};
+
+const toNumberOrNull = (value) => value === null || value === undefined || value === '' ? null : Number(value);
+
+/**
+ * Build the recurrence fields stored on a recurring template (see functions/recurrence.js).
+ * Days that don't apply to the frequency are cleared, and intervals are only kept for custom frequencies.
+ * @param {Object} recurrence - frequency, interval, intervalUnit, startDate, endDate, occurrenceCount, dayOfMonth and dayOfWeek
+ * @returns {Object} The recurrence fields
+ */
+const buildRecurrenceFields = ({
+  frequency = 'monthly',
+  interval = null,
+  intervalUnit = null,
+  startDate,
+  endDate = null,
+  occurrenceCount = null,
+  dayOfMonth = null,
+  dayOfWeek = null
+}) => {
+  const isCustom = frequency === 'custom';
+  const fields = {
+    frequency,
+    interval: isCustom ? Math.max(1, Math.floor(Number(interval) || 1)) : null,
+    intervalUnit: isCustom ? (intervalUnit || 'month') : null,
+    startDate,
+    endDate,
+    occurrenceCount: toNumberOrNull(occurrenceCount)
+  };
+  
+  if (fields.occurrenceCount !== null && !(Number.isInteger(fields.occurrenceCount) && fields.occurrenceCount >= 1)) {
+    throw new Error('Invalid number of occurrences: must be a whole number of at least 1');
+  }
+  
+  return {
+    ...fields,
+    dayOfMonth: usesDayOfMonth(fields) ? toNumberOrNull(dayOfMonth) : null,
+    dayOfWeek: usesDayOfWeek(fields) ? toNumberOrNull(dayOfWeek) : null
+  };
+};
+
+/**
+ * Map a query snapshot to an array of documents with their IDs
+ * @param {Object} querySnapshot - Firestore query snapshot
+ * @returns {Array} - Array of documents
+ */
+const snapshotToArray = (querySnapshot) => {
+  return querySnapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  }));
+};
 
 /**
  * Fetch all documents from a collection
@@ -50,33 +116,101 @@ export const fetchDocument = async (collectionName, documentId) => {
   }
 };
 
+/**
+ * Generate the ID of a new debt without writing anything, so it can be created later (e.g., offline)
+ * @param {string} userId - ID of the user who is owed money
+ * @returns {string} - Debt ID
+ */
+export const generateDebtId = (userId) => {
+  return doc(collection(db, 'users', userId, 'debts')).id;
+};
+
+/**
+ * Build the payment fields of a new debt that was already (partly) paid, e.g. an imported one,
+ * so the debt and its payments are written together
+ * @param {Object} debtData - The new debt, with its amount and currency
+ * @param {Array<Object>} payments - Amount, paidAt, method and note of each payment
+ * @returns {Object} - payments, paidAmount and isPaid, and paidAt once the payments cover the debt
+ */
+const getInitialPaymentFields = (debtData, payments) => {
+  const recorded = payments.map(({ id = null, amount, paidAt, method = '', note = '' }) => {
+    const numericAmount = Number(amount);
+    if (isNaN(numericAmount) || numericAmount <= 0) {
+      throw new Error('Invalid payment amount: must be a positive number');
+    }
+    return {
+      id: id ? String(id) : generatePaymentId(),
+      amount: numericAmount,
+      paidAt: paidAt ? new Date(paidAt).toISOString() : new Date().toISOString(),
+      method: String(method || ''),
+      note: String(note || '')
+    };
+  });
+  
+  const paidAmount = sumPayments(recorded, debtData.currency);
+  if (toMinorUnits(paidAmount, debtData.currency) > toMinorUnits(debtData.amount, debtData.currency)) {
+    throw new Error(`Payments of ${paidAmount} exceed the amount of ${debtData.amount}`);
+  }
+  const isPaid = toMinorUnits(paidAmount, debtData.currency) >= toMinorUnits(debtData.amount, debtData.currency);
+  
+  return {
+    payments: recorded,
+    paidAmount,
+    isPaid,
+    // Paid off by the latest payment
+    ...(isPaid ? { paidAt: recorded.map(payment => payment.paidAt).sort().pop() } : {})
+  };
+};
+
 /**
  * Create a new debt for a user
  * @param {string} userId - ID of the user who is owed money
  * @param {Object} debtData - Debt information
+ * @param {string} [debtData.id] - Optional ID from generateDebtId (creating the same ID twice overwrites it)
  * @param {string} debtData.debtorName - Name of person who owes money
  * @param {number} debtData.amount - Amount owed
+ * @param {string} [debtData.currency] - ISO 4217 currency code (defaults to USD)
  * @param {string} [debtData.description] - Optional description
  * @param {string} [debtData.phoneNumber] - Optional phone number for reminders
+ * @param {string|null} [debtData.dueDate] - Optional ISO date when the debt is due
+ * @param {string} [debtData.createdAt] - Optional ISO date the debt was created (e.g., when importing; defaults to now)
  * @param {string} [debtData.groupId] - Optional group ID
+ * @param {string} [debtData.receiptId] - Optional ID of the scanned receipt the debt was split from
  * @param {boolean} [debtData.isRecurring] - Whether this is a recurring debt
  * @param {string} [debtData.recurringFrequency] - Frequency of the recurring debt
+ * @param {number} [debtData.recurringInterval] - Number of units between instances (custom frequency only)
+ * @param {string} [debtData.recurringIntervalUnit] - day, week, month or year (custom frequency only)
  * @param {string} [debtData.recurringStartDate] - ISO date when the recurring debt starts
  * @param {string} [debtData.recurringEndDate] - ISO date when the recurring debt ends (optional)
+ * @param {number} [debtData.recurringOccurrenceCount] - Number of instances before the recurring debt ends (optional)
  * @param {number} [debtData.recurringDay] - Day of month/week for the recurring debt
+ * @param {number} [debtData.recurringGracePeriodDays] - Days after each recurring instance until it's due
+ * @param {Object} [debtData.reminderSchedule] - Optional automatic reminder schedule
+ * @param {Array<Object>} [debtData.payments] - Payments already made (amount, paidAt, method and note), e.g. when importing
  * @returns {Promise<Object>} - Created debt with ID
  */
 export const createDebt = async (userId, { 
+  id = null,
   debtorName, 
   amount, 
+  currency = 'USD',
   description = '', 
   phoneNumber = '', 
+  dueDate = null,
+  createdAt = null,
   groupId = null,
+  receiptId = null,
   isRecurring = false,
   recurringFrequency = 'monthly',
+  recurringInterval = null,
+  recurringIntervalUnit = null,
   recurringStartDate = new Date().toISOString(),
   recurringEndDate = null,
-  recurringDay = null
+  recurringOccurrenceCount = null,
+  recurringDay = null,
+  recurringGracePeriodDays = null,
+  reminderSchedule = null,
+  payments = []
 }) => {
   try {
     if (!userId) {
@@ -84,7 +218,8 @@ export const createDebt = async (userId, {
     }
     
     console.log(`Creating debt for user ${userId}`);
-    const userDebtsRef = collection(db, 'users', userId, 'debts');
+    // The converter validates the debt before it's written
+    const userDebtsRef = collection(db, 'users', userId, 'debts').withConverter(debtConverter);
     const now = new Date().toISOString();
     
     // Ensure proper data types
@@ -96,36 +231,64 @@ export const createDebt = async (userId, {
     const debtData = {
       debtorName: String(debtorName),
       amount: numericAmount,
+      currency: getCurrencyInfo(currency).code,
       description: String(description || ''),
       phoneNumber: String(phoneNumber || ''),
-      createdAt: now,
+      createdAt: createdAt ? new Date(createdAt).toISOString() : now,
       updatedAt: now,
       isPaid: false,
       userId: String(userId),
       isRecurring: Boolean(isRecurring)
     };
     
+    // Record payments made before the debt was added along with it
+    if (payments.length > 0) {
+      Object.assign(debtData, getInitialPaymentFields(debtData, payments));
+    }
+    
     // Add groupId if present
     if (groupId) {
       debtData.groupId = String(groupId);
     }
     
+    // Add receiptId if the debt was split from a receipt
+    if (receiptId) {
+      debtData.receiptId = String(receiptId);
+    }
+    
+    // Add the due date; the first recurring instance is due a grace period after it starts
+    const debtDueDate = dueDate || (isRecurring ? getDueDateFromGracePeriod(recurringStartDate, recurringGracePeriodDays) : null);
+    if (debtDueDate) {
+      debtData.dueDate = String(debtDueDate);
+    }
+    
+    // Add the reminder schedule and when its first reminder is due
+    if (reminderSchedule) {
+      debtData.reminderSchedule = reminderSchedule;
+      debtData.reminderCount = 0;
+      debtData.nextReminderAt = getNextReminderDate(debtData);
+    }
+    
     // If this is a recurring debt, create a recurring template first
     if (isRecurring) {
       try {
         const recurringDebt = await createRecurringDebt(userId, {
           debtorName,
           amount,
+          currency,
           description,
           phoneNumber,
           groupId,
           frequency: recurringFrequency,
+          interval: recurringInterval,
+          intervalUnit: recurringIntervalUnit,
           startDate: recurringStartDate,
           endDate: recurringEndDate,
-          dayOfMonth: recurringFrequency === 'monthly' || recurringFrequency === 'quarterly' || recurringFrequency === 'yearly' 
-            ? recurringDay : null,
-          dayOfWeek: recurringFrequency === 'weekly' || recurringFrequency === 'biweekly' 
-            ? recurringDay : null
+          occurrenceCount: recurringOccurrenceCount,
+          gracePeriodDays: recurringGracePeriodDays,
+          // Only the day that fits the frequency is kept
+          dayOfMonth: recurringDay,
+          dayOfWeek: recurringDay
         });
         
         // Link this debt to the recurring template
@@ -138,7 +301,26 @@ export const createDebt = async (userId, {
     }
     
     console.log('Debt data being saved:', debtData);
-    const docRef = await addDoc(userDebtsRef, debtData);
+    const docRef = id ? doc(userDebtsRef, String(id)) : doc(userDebtsRef);
+    
+    if (groupId) {
+      // Write the debt and its group's new totals together
+      const queriedDebtIds = await queryGroupDebtIds(userId, groupId);
+      await runTransaction(db, async (transaction) => {
+        const { groupRef, group, debts } = await readGroupInTransaction(transaction, userId, groupId, queriedDebtIds);
+        if (!group) {
+          throw new Error(`Debt group ${groupId} not found`);
+        }
+        
+        transaction.set(docRef, debtData);
+        transaction.update(groupRef, {
+          ...calculateGroupTotals([...debts, { id: docRef.id, ...debtData }], group.currency),
+          updatedAt: now
+        });
+      });
+    } else {
+      await setDoc(docRef, debtData);
+    }
     console.log(`Debt created with ID: ${docRef.id}`);
     
     // If this is a recurring debt, update the recurring template with this debt ID
@@ -154,25 +336,6 @@ export const createDebt = async (userId, {
       }
     }
     
-    // If part of a group, update the group's totals
-    if (groupId) {
-      try {
-        // Update the group document to add this debt ID and update totals
-        const groupRef = doc(db, 'users', userId, 'debtGroups', groupId);
-        await updateDoc(groupRef, {
-          updatedAt: now,
-          totalAmount: increment(numericAmount),
-          debtIds: increment(1) // Simplified approach
-        });
-        
-        // Get all debt IDs for the group and set them correctly
-        await updateGroupTotals(userId, groupId);
-      } catch (groupError) {
-        console.error('Error updating debt group after creating debt:', groupError);
-        // Continue with debt creation even if group update fails
-      }
-    }
-    
     return {
       id: docRef.id,
       ...debtData,
@@ -192,14 +355,19 @@ export const createDebt = async (userId, {
 export const createRecurringDebt = async (userId, {
   debtorName,
   amount,
+  currency = 'USD',
   description = '',
   phoneNumber = '',
   groupId = null,
   frequency = 'monthly',
+  interval = null,
+  intervalUnit = null,
   startDate = new Date().toISOString(),
   endDate = null,
+  occurrenceCount = null,
   dayOfMonth = null,
-  dayOfWeek = null
+  dayOfWeek = null,
+  gracePeriodDays = null
 }) => {
   try {
     if (!userId) {
@@ -207,7 +375,7 @@ export const createRecurringDebt = async (userId, {
     }
     
     console.log(`Creating recurring debt template for user ${userId}`);
-    const recurringDebtsRef = collection(db, 'users', userId, 'recurringDebts');
+    const recurringDebtsRef = collection(db, 'users', userId, 'recurringDebts').withConverter(recurringDebtConverter);
     const now = new Date().toISOString();
     
     // Ensure proper data types
@@ -216,51 +384,27 @@ export const createRecurringDebt = async (userId, {
       throw new Error('Invalid amount: must be a number');
     }
     
-    // Parse the start date
-    const startDateObj = new Date(startDate);
-    
-    // Calculate next generation date based on start date and frequency
-    // Use the start date as the reference point instead of today's date
-    const nextGeneration = new Date(startDateObj);
-    
-    // Calculate next generation based on frequency
-    switch (frequency) {
-      case 'daily':
-        nextGeneration.setDate(nextGeneration.getDate() + 1);
-        break;
-      case 'weekly':
-        nextGeneration.setDate(nextGeneration.getDate() + 7);
-        break;
-      case 'biweekly':
-        nextGeneration.setDate(nextGeneration.getDate() + 14);
-        break;
-      case 'monthly':
-        nextGeneration.setMonth(nextGeneration.getMonth() + 1);
-        break;
-      case 'quarterly':
-        nextGeneration.setMonth(nextGeneration.getMonth() + 3);
-        break;
-      case 'yearly':
-        nextGeneration.setFullYear(nextGeneration.getFullYear() + 1);
-        break;
-    }
+    // The first instance is created straight away (and counts towards occurrenceCount), so the template starts from the next occurrence
+    const recurrence = {
+      ...buildRecurrenceFields({ frequency, interval, intervalUnit, startDate, endDate, occurrenceCount, dayOfMonth, dayOfWeek }),
+      timeZone: getDeviceTimeZone()
+    };
+    const nextGenerationDate = getNextOccurrence(recurrence, startDate);
     
     const recurringData = {
       userId: String(userId),
       debtorName: String(debtorName),
       amount: numericAmount,
+      currency: getCurrencyInfo(currency).code,
       description: String(description || ''),
       phoneNumber: String(phoneNumber || ''),
-      frequency,
-      startDate,
-      endDate,
-      dayOfMonth: dayOfMonth ? Number(dayOfMonth) : null,
-      dayOfWeek: dayOfWeek ? Number(dayOfWeek) : null,
+      ...recurrence,
+      gracePeriodDays: gracePeriodDays === null || gracePeriodDays === undefined ? null : Number(gracePeriodDays),
       createdAt: now,
       updatedAt: now,
       lastGeneratedDate: now,
-      nextGenerationDate: nextGeneration.toISOString(),
-      isActive: true,
+      nextGenerationDate: nextGenerationDate || startDate,
+      isActive: !!nextGenerationDate,
       generatedDebtIds: []
     };
     
@@ -331,6 +475,9 @@ export const fetchUserDebts = async (userId) => {
 
 /**
  * Mark a debt as paid
+ * When marking as paid, any remaining balance is recorded as a final payment
+ * so the payment ledger always adds up to the debt amount. Marking a debt as
+ * unpaid again removes the payment that settled it.
  * @param {string} userId - ID of the user who is owed money
  * @param {string} debtId - ID of the debt to mark as paid
  * @param {boolean} isPaid - Whether the debt is paid
@@ -341,29 +488,59 @@ export const markDebtAsPaid = async (userId, debtId, isPaid = true) => {
     const debtRef = doc(db, 'users', userId, 'debts', debtId);
     const now = new Date().toISOString();
     
-    // Get the debt data to check for groupId
     const debtSnap = await getDoc(debtRef);
     if (!debtSnap.exists()) {
       throw new Error(`Debt ${debtId} not found`);
     }
     
     const debtData = debtSnap.data();
-    const { groupId } = debtData;
     
-    // Update the debt
-    await updateDoc(debtRef, {
+    const updateData = {
       isPaid: isPaid,
       paidAt: isPaid ? now : null,
       updatedAt: now,
-    });
+    };
     
-    // If the debt is part of a group, update the group totals
-    if (groupId) {
+    // Settle the remaining balance with a final payment
+    if (isPaid && !debtData.isPaid) {
+      const remaining = getRemainingBalance(debtData);
+      if (remaining > 0) {
+        const payments = [
+          ...(debtData.payments || []),
+          {
+            id: generatePaymentId(),
+            amount: remaining,
+            paidAt: now,
+            method: 'other',
+            note: 'Marked as paid',
+            source: 'markPaid'
+          }
+        ];
+        updateData.payments = payments;
+        updateData.paidAmount = sumPayments(payments, debtData.currency);
+      }
+    } else if (!isPaid && debtData.isPaid) {
+      // Undo the settling payment so the debt has a balance again, keeping payments
+      // the user recorded themselves
+      const payments = (debtData.payments || []).filter(payment => payment.source !== 'markPaid');
+      updateData.payments = payments;
+      updateData.paidAmount = sumPayments(payments, debtData.currency);
+    }
+    
+    // Stop reminders once paid, and pick them back up if it's unpaid again
+    if (debtData.reminderSchedule) {
+      updateData.nextReminderAt = getNextReminderDate({ ...debtData, isPaid });
+    }
+    
+    // Update the debt (onDebtWrite updates its group's totals)
+    await updateDoc(debtRef, updateData);
+    
+    // Keep the debtor's shared copy in sync
+    if (debtData.sharedDebtId) {
       try {
-        await updateGroupTotals(userId, groupId);
-      } catch (groupError) {
-        console.error('Error updating debt group after marking debt as paid:', groupError);
-        // Continue with debt update even if group update fails
+        await syncSharedDebt(userId, debtId);
+      } catch (sharedError) {
+        console.error('Error syncing shared debt after marking debt as paid:', sharedError);
       }
     }
   } catch (error) {
@@ -372,6 +549,124 @@ export const markDebtAsPaid = async (userId, debtId, isPaid = true) => {
   }
 };
 
+/**
+ * Generate a unique ID for a payment ledger entry
+ * @returns {string} - Payment ID
+ */
+export function generatePaymentId() {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Record a (partial) payment towards a debt
+ * The debt is automatically marked as paid once its remaining balance reaches zero.
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the debt being paid
+ * @param {Object} paymentData - Payment information
+ * @param {string} [paymentData.id] - Optional ID from generatePaymentId (a payment already on the debt isn't recorded twice)
+ * @param {number} paymentData.amount - Amount paid
+ * @param {string} [paymentData.method] - Optional payment method type (e.g., 'venmo', 'cash')
+ * @param {string} [paymentData.note] - Optional note
+ * @param {string} [paymentData.paidAt] - ISO date of the payment (defaults to now)
+ * @returns {Promise<Object>} - Updated debt with ID
+ */
+export const recordDebtPayment = async (userId, debtId, { 
+  id = null,
+  amount, 
+  method = '', 
+  note = '', 
+  paidAt = new Date().toISOString() 
+}) => {
+  try {
+    if (!userId || !debtId) {
+      throw new Error('userId and debtId are required');
+    }
+    
+    const numericAmount = Number(amount);
+    if (isNaN(numericAmount) || numericAmount <= 0) {
+      throw new Error('Invalid amount: must be a positive number');
+    }
+    
+    const debtRef = doc(db, 'users', userId, 'debts', debtId);
+    const now = new Date().toISOString();
+    
+    // Use a transaction so concurrent payments don't overwrite each other
+    const updatedDebt = await runTransaction(db, async (transaction) => {
+      const debtSnap = await transaction.get(debtRef);
+      
+      if (!debtSnap.exists()) {
+        throw new Error(`Debt ${debtId} not found`);
+      }
+      
+      const debtData = debtSnap.data();
+      
+      // Recording the same payment again (e.g., an offline write being retried) changes nothing
+      if (id && (debtData.payments || []).some(payment => payment.id === id)) {
+        return { id: debtId, ...debtData };
+      }
+      
+      if (debtData.isPaid) {
+        throw new Error(`Debt ${debtId} is already paid`);
+      }
+      
+      const remaining = getRemainingBalance(debtData);
+      if (toMinorUnits(numericAmount, debtData.currency) > toMinorUnits(remaining, debtData.currency)) {
+        throw new Error(`Payment of ${numericAmount} exceeds remaining balance of ${remaining}`);
+      }
+      
+      const payments = [
+        ...(debtData.payments || []),
+        {
+          id: id ? String(id) : generatePaymentId(),
+          amount: numericAmount,
+          paidAt: String(paidAt),
+          method: String(method || ''),
+          note: String(note || '')
+        }
+      ];
+      
+      const paidAmount = sumPayments(payments, debtData.currency);
+      const isPaid = toMinorUnits(paidAmount, debtData.currency) >= toMinorUnits(debtData.amount, debtData.currency);
+      
+      const updateData = {
+        payments,
+        paidAmount,
+        isPaid,
+        paidAt: isPaid ? now : null,
+        updatedAt: now
+      };
+      
+      // No more reminders once the debt is paid off
+      if (isPaid && debtData.reminderSchedule) {
+        updateData.nextReminderAt = null;
+      }
+      
+      transaction.update(debtRef, updateData);
+      
+      return {
+        id: debtId,
+        ...debtData,
+        ...updateData
+      };
+    });
+    
+    // Keep the debtor's shared copy in sync
+    if (updatedDebt.sharedDebtId) {
+      try {
+        await syncSharedDebt(userId, debtId);
+      } catch (sharedError) {
+        console.error('Error syncing shared debt after recording payment:', sharedError);
+      }
+    }
+    
+    console.log(`Payment of ${numericAmount} recorded for debt ${debtId}`);
+    return updatedDebt;
+  } catch (error) {
+    console.error('Error recording debt payment:', error);
+    throw error;
+  }
+};
+
 /**
  * Update a debt's information
  * @param {string} userId - ID of the user who is owed money
@@ -382,18 +677,147 @@ export const markDebtAsPaid = async (userId, debtId, isPaid = true) => {
 export const updateDebt = async (userId, debtId, updateData) => {
   try {
     const debtRef = doc(db, 'users', userId, 'debts', debtId);
+    
+    // Updates don't go through the converter, so check the changed fields here
+    const issues = validateFields(debtSchema, updateData, { partial: true });
+    if (issues.length > 0) {
+      throw new ValidationError(debtRef.path, issues);
+    }
     const now = new Date().toISOString();
     
     await updateDoc(debtRef, {
       ...updateData,
       updatedAt: now,
     });
+    
+    // Keep the debtor's shared copy in sync
+    try {
+      await syncSharedDebt(userId, debtId);
+    } catch (sharedError) {
+      console.error('Error syncing shared debt after updating debt:', sharedError);
+    }
   } catch (error) {
     console.error('Error updating debt:', error);
     throw error;
   }
 };
 
+/**
+ * Work out the fields to write when a debt's amount may have changed: whether its payments
+ * still cover it, when it was paid, and its next reminder. A debt marked as paid before
+ * payments were recorded stays paid.
+ * @param {Object} debtData - The stored debt
+ * @param {Object} updateData - Data to update, including the new amount
+ * @param {string} now - ISO string timestamp of the update
+ * @returns {Object} - updateData with the recalculated fields and updatedAt
+ */
+const getAmountChanges = (debtData, updateData, now) => {
+  const debt = { ...debtData, ...updateData };
+  const changes = { ...updateData, updatedAt: now };
+  
+  if (!debtData.isPaid || (debtData.payments || []).length > 0) {
+    const paidAmount = sumPayments(debt.payments, debt.currency);
+    const isPaid = toMinorUnits(paidAmount, debt.currency) >= toMinorUnits(debt.amount, debt.currency);
+    
+    Object.assign(changes, { paidAmount, isPaid });
+    if (isPaid !== !!debtData.isPaid) {
+      changes.paidAt = isPaid ? now : null;
+    }
+    
+    // Stop reminders once paid, and pick them back up if it's unpaid again
+    if (debtData.reminderSchedule) {
+      changes.nextReminderAt = getNextReminderDate({ ...debt, isPaid });
+    }
+  }
+  
+  return changes;
+};
+
+/**
+ * Update a debt whose amount may have changed, working out from its payment ledger whether
+ * it's still paid. A debt marked as paid before payments were recorded stays paid.
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the debt to update
+ * @param {Object} updateData - Data to update, including the new amount
+ * @returns {Promise<Object>} - Updated debt with ID
+ */
+export const updateDebtAmount = async (userId, debtId, updateData) => {
+  try {
+    const debtRef = doc(db, 'users', userId, 'debts', debtId);
+    
+    // Updates don't go through the converter, so check the changed fields here
+    const issues = validateFields(debtSchema, updateData, { partial: true });
+    if (issues.length > 0) {
+      throw new ValidationError(debtRef.path, issues);
+    }
+    const now = new Date().toISOString();
+    
+    // Use a transaction so a payment recorded at the same time is counted
+    const updatedDebt = await runTransaction(db, async (transaction) => {
+      const debtSnap = await transaction.get(debtRef);
+      if (!debtSnap.exists()) {
+        throw new Error(`Debt ${debtId} not found`);
+      }
+      
+      const debtData = debtSnap.data();
+      const changes = getAmountChanges(debtData, updateData, now);
+      transaction.update(debtRef, changes);
+      
+      return {
+        id: debtId,
+        ...debtData,
+        ...changes
+      };
+    });
+    
+    // Keep the debtor's shared copy in sync
+    if (updatedDebt.sharedDebtId) {
+      try {
+        await syncSharedDebt(userId, debtId);
+      } catch (sharedError) {
+        console.error('Error syncing shared debt after updating debt amount:', sharedError);
+      }
+    }
+    
+    return updatedDebt;
+  } catch (error) {
+    console.error('Error updating debt amount:', error);
+    throw error;
+  }
+};
+
+/**
+ * Set (or turn off) the automatic reminder schedule of a debt
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the debt
+ * @param {Object|null} reminderSchedule - Reminder schedule, or null to turn reminders off
+ * @returns {Promise<Object>} - The reminder fields that were saved
+ */
+export const updateDebtReminderSchedule = async (userId, debtId, reminderSchedule) => {
+  try {
+    const debtRef = doc(db, 'users', userId, 'debts', debtId);
+    const debtSnap = await getDoc(debtRef);
+    if (!debtSnap.exists()) {
+      throw new Error(`Debt ${debtId} not found`);
+    }
+    
+    const debtData = debtSnap.data();
+    const schedule = reminderSchedule || { ...(debtData.reminderSchedule || {}), enabled: false };
+    
+    const reminderData = {
+      reminderSchedule: schedule,
+      nextReminderAt: getNextReminderDate({ ...debtData, reminderSchedule: schedule }),
+      updatedAt: new Date().toISOString()
+    };
+    
+    await updateDoc(debtRef, reminderData);
+    return reminderData;
+  } catch (error) {
+    console.error('Error updating debt reminder schedule:', error);
+    throw error;
+  }
+};
+
 /**
  * Delete a debt
  * @param {string} userId - ID of the user who is owed money
@@ -404,25 +828,23 @@ export const deleteDebt = async (userId, debtId) => {
   try {
     const debtRef = doc(db, 'users', userId, 'debts', debtId);
     
-    // Get the debt data to check for groupId
+    // Get the debt data to check for a shared copy
     const debtSnap = await getDoc(debtRef);
     if (!debtSnap.exists()) {
       throw new Error(`Debt ${debtId} not found`);
     }
     
     const debtData = debtSnap.data();
-    const { groupId } = debtData;
     
-    // Delete the debt
+    // Delete the debt (onDebtWrite updates its group's totals)
     await deleteDoc(debtRef);
     
-    // If the debt is part of a group, update the group totals
-    if (groupId) {
+    // Remove the debtor's shared copy
+    if (debtData.sharedDebtId) {
       try {
-        await updateGroupTotals(userId, groupId);
-      } catch (groupError) {
-        console.error('Error updating debt group after deleting debt:', groupError);
-        // Continue with debt deletion even if group update fails
+        await deleteDoc(doc(db, 'sharedDebts', debtData.sharedDebtId));
+      } catch (sharedError) {
+        console.error('Error deleting shared debt after deleting debt:', sharedError);
       }
     }
   } catch (error) {
@@ -546,29 +968,94 @@ export const updatePaymentMethods = async (userId, paymentMethods) => {
   }
 };
 
+/**
+ * Save a device's Expo push token so reminders can be sent to it
+ * @param {string} userId - ID of the user
+ * @param {string} token - Expo push token of the device
+ * @returns {Promise<void>}
+ */
+export const registerPushToken = async (userId, token) => {
+  try {
+    await setDoc(doc(db, 'users', userId), {
+      expoPushTokens: arrayUnion(token),
+      updatedAt: new Date().toISOString()
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error registering push token:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a device's Expo push token (e.g., when signing out)
+ * @param {string} userId - ID of the user
+ * @param {string} token - Expo push token of the device
+ * @returns {Promise<void>}
+ */
+export const unregisterPushToken = async (userId, token) => {
+  try {
+    await updateDoc(doc(db, 'users', userId), {
+      expoPushTokens: arrayRemove(token),
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error unregistering push token:', error);
+    throw error;
+  }
+};
+
+/**
+ * Generate the ID of a new debt group without writing anything, so it can be created later (e.g., offline)
+ * @param {string} userId - ID of the user who is owed money
+ * @returns {string} - Debt group ID
+ */
+export const generateDebtGroupId = (userId) => {
+  return doc(collection(db, 'users', userId, 'debtGroups')).id;
+};
+
 /**
  * Create a new debt group for a user
  * @param {string} userId - ID of the user who is owed money
  * @param {Object} groupData - Group information
+ * @param {string} [groupData.id] - Optional ID from generateDebtGroupId (creating the same ID twice overwrites it)
  * @param {string} groupData.name - Name of the debt group
  * @param {string} [groupData.description] - Optional description
+ * @param {string} [groupData.currency] - ISO 4217 currency code shared by the group's debts (defaults to USD)
+ * @param {string} [groupData.mode] - 'owedToMe' or 'sharedExpenses' (defaults to owedToMe)
+ * @param {string[]} [groupData.members] - Member names for a shared expense group
+ * @param {string} [groupData.receiptId] - Optional ID of the scanned receipt the group was split from
+ * @param {string|null} [groupData.dueDate] - Optional ISO date when the group's debts are due
  * @param {boolean} [groupData.isRecurring] - Whether the group is recurring
  * @param {string} [groupData.frequency] - Frequency of recurring (daily, weekly, etc.)
+ * @param {number} [groupData.interval] - Number of units between instances (custom frequency only)
+ * @param {string} [groupData.intervalUnit] - day, week, month or year (custom frequency only)
  * @param {Date|string} [groupData.startDate] - Start date of recurring
  * @param {Date|string|null} [groupData.endDate] - End date of recurring (optional)
- * @param {number} [groupData.dayOfMonth] - Day of month for monthly/quarterly/yearly frequencies
- * @param {number} [groupData.dayOfWeek] - Day of week for weekly/biweekly frequencies
+ * @param {number|null} [groupData.occurrenceCount] - Number of instances before the group stops recurring (optional)
+ * @param {number} [groupData.dayOfMonth] - Day of month for frequencies counted in months
+ * @param {number} [groupData.dayOfWeek] - Day of week for frequencies counted in weeks
+ * @param {number|null} [groupData.gracePeriodDays] - Days after each recurring instance until it's due
  * @returns {Promise<Object>} - Created debt group with ID
  */
 export const createDebtGroup = async (userId, { 
+  id = null,
   name, 
   description = '',
+  currency = 'USD',
+  mode = 'owedToMe',
+  members = [],
+  receiptId = null,
+  dueDate = null,
   isRecurring = false,
   frequency = 'monthly',
+  interval = null,
+  intervalUnit = null,
   startDate = new Date().toISOString(),
   endDate = null,
+  occurrenceCount = null,
   dayOfMonth = null,
-  dayOfWeek = null
+  dayOfWeek = null,
+  gracePeriodDays = null
 }) => {
   try {
     if (!userId) {
@@ -576,7 +1063,7 @@ export const createDebtGroup = async (userId, {
     }
     
     console.log(`Creating debt group for user ${userId}`);
-    const userGroupsRef = collection(db, 'users', userId, 'debtGroups');
+    const userGroupsRef = collection(db, 'users', userId, 'debtGroups').withConverter(debtGroupConverter);
     const now = new Date().toISOString();
     
     const groupData = {
@@ -587,32 +1074,68 @@ export const createDebtGroup = async (userId, {
       isCompleted: false,
       totalAmount: 0,
       paidAmount: 0,
+      currency: getCurrencyInfo(currency).code,
       debtIds: [],
-      userId: String(userId)
+      userId: String(userId),
+      mode: mode === 'sharedExpenses' ? 'sharedExpenses' : 'owedToMe'
     };
     
+    if (receiptId) {
+      groupData.receiptId = String(receiptId);
+    }
+    
+    // Add the due date; a recurring group's first instance is due a grace period after it starts
+    const groupDueDate = dueDate || (isRecurring ? getDueDateFromGracePeriod(startDate, gracePeriodDays) : null);
+    if (groupDueDate) {
+      groupData.dueDate = String(groupDueDate);
+    }
+    
+    // Shared expense groups track who is in the group and who paid for what
+    if (groupData.mode === 'sharedExpenses') {
+      Object.assign(groupData, {
+        members: members.map(member => String(member)),
+        expenses: [],
+        settlements: []
+      });
+    }
+    
     // Add recurring fields if applicable
     if (isRecurring) {
       // Make sure dates are ISO strings
       const startDateIso = typeof startDate === 'string' ? startDate : startDate.toISOString();
       const endDateIso = endDate ? (typeof endDate === 'string' ? endDate : endDate.toISOString()) : null;
       
+      const recurrence = {
+        ...buildRecurrenceFields({
+          frequency,
+          interval,
+          intervalUnit,
+          startDate: startDateIso,
+          endDate: endDateIso,
+          occurrenceCount,
+          dayOfMonth,
+          dayOfWeek
+        }),
+        timeZone: getDeviceTimeZone()
+      };
+      
+      // The group itself is the first instance, so the template starts from the next occurrence
+      const nextGenerationDate = getNextOccurrence(recurrence, startDateIso);
+      
       Object.assign(groupData, {
         isRecurring: true,
-        frequency,
-        startDate: startDateIso,
-        endDate: endDateIso,
-        dayOfMonth: frequency === 'monthly' || frequency === 'quarterly' || frequency === 'yearly' ? (dayOfMonth || 1) : null,
-        dayOfWeek: frequency === 'weekly' || frequency === 'biweekly' ? (dayOfWeek || 1) : null,
+        ...recurrence,
+        gracePeriodDays: gracePeriodDays === null || gracePeriodDays === undefined ? null : Number(gracePeriodDays),
         lastGeneratedDate: now,
-        nextGenerationDate: calculateNextGenerationDate(startDateIso, frequency),
-        isActive: true,
+        nextGenerationDate: nextGenerationDate || startDateIso,
+        isActive: !!nextGenerationDate,
         generatedGroupIds: []
       });
     }
     
     console.log('Group data being saved:', groupData);
-    const docRef = await addDoc(userGroupsRef, groupData);
+    const docRef = id ? doc(userGroupsRef, String(id)) : doc(userGroupsRef);
+    await setDoc(docRef, groupData);
     console.log(`Debt group created with ID: ${docRef.id}`);
     
     return {
@@ -626,164 +1149,382 @@ export const createDebtGroup = async (userId, {
 };
 
 /**
- * Calculate the next generation date for recurring items
- * @param {string} currentDate - Current date in ISO format
- * @param {string} frequency - Frequency (daily, weekly, etc.)
- * @returns {string} - Next generation date in ISO format
- */
-function calculateNextGenerationDate(currentDate, frequency) {
-  // Use the provided date as the reference point
-  const date = new Date(currentDate);
-  
-  switch (frequency) {
-    case 'daily':
-      date.setDate(date.getDate() + 1);
-      break;
-    case 'weekly':
-      date.setDate(date.getDate() + 7);
-      break;
-    case 'biweekly':
-      date.setDate(date.getDate() + 14);
-      break;
-    case 'monthly':
-      date.setMonth(date.getMonth() + 1);
-      break;
-    case 'quarterly':
-      date.setMonth(date.getMonth() + 3);
-      break;
-    case 'yearly':
-      date.setFullYear(date.getFullYear() + 1);
-      break;
-    default:
-      date.setMonth(date.getMonth() + 1); // Default to monthly
-  }
-  
-  return date.toISOString();
-}
-
-/**
- * Add a debt to a debt group
- * @param {string} userId - ID of the user who is owed money
+ * Add an expense to a shared expense group
+ * @param {string} userId - ID of the user who owns the group
  * @param {string} groupId - ID of the debt group
- * @param {Object} debtData - Debt information
- * @returns {Promise<Object>} - Created debt with ID
+ * @param {Object} expenseData - Expense information
+ * @param {string} [expenseData.id] - Expense ID, when it was generated up front (e.g. for an offline write)
+ * @param {string} expenseData.description - What the expense was for
+ * @param {number} expenseData.amount - Amount paid
+ * @param {string} expenseData.paidBy - Name of the member who paid
+ * @param {string[]} [expenseData.splitBetween] - Names of the members sharing the expense (everyone when empty)
+ * @param {string} [expenseData.createdAt] - ISO string timestamp when the expense was added (defaults to now)
+ * @returns {Promise<Object>} - Created expense
  */
-export const addDebtToGroup = async (userId, groupId, debtData) => {
+export const addGroupExpense = async (userId, groupId, { 
+  id = null,
+  description, 
+  amount, 
+  paidBy, 
+  splitBetween = [],
+  createdAt = null
+}) => {
   try {
     if (!userId || !groupId) {
       throw new Error('userId and groupId are required');
     }
     
-    // Start a batch operation to ensure atomicity
-    const batch = writeBatch(db);
-    const now = new Date().toISOString();
+    const numericAmount = Number(amount);
+    if (isNaN(numericAmount) || numericAmount <= 0) {
+      throw new Error('Invalid amount: must be a positive number');
+    }
     
-    // Create the debt with groupId
-    const userDebtsRef = collection(db, 'users', userId, 'debts');
-    const debtWithGroup = {
-      ...debtData,
-      createdAt: now,
-      updatedAt: now,
-      isPaid: false,
-      userId: String(userId),
-      groupId: String(groupId)
+    const now = new Date().toISOString();
+    const expense = {
+      id: id ? String(id) : generatePaymentId(),
+      description: String(description || ''),
+      amount: numericAmount,
+      paidBy: String(paidBy),
+      splitBetween: splitBetween.map(member => String(member)),
+      createdAt: createdAt ? String(createdAt) : now
     };
     
-    // Ensure proper data types
-    const numericAmount = Number(debtWithGroup.amount);
-    if (isNaN(numericAmount)) {
-      throw new Error('Invalid amount: must be a number');
-    }
-    debtWithGroup.amount = numericAmount;
-    
-    // Add debt to Firestore
-    const debtRef = doc(collection(db, 'users', userId, 'debts'));
-    batch.set(debtRef, debtWithGroup);
-    
-    // Update the debt group
+    // Adding the same expense again (e.g., an offline write being retried) changes nothing
     const groupRef = doc(db, 'users', userId, 'debtGroups', groupId);
-    batch.update(groupRef, {
-      updatedAt: now,
-      totalAmount: increment(numericAmount),
-      debtIds: increment(1) // Firestore array union would be better but using increment for simplicity
+    await updateDoc(groupRef, {
+      expenses: arrayUnion(expense),
+      updatedAt: now
     });
     
-    // Commit the batch
-    await batch.commit();
+    return expense;
+  } catch (error) {
+    console.error('Error adding group expense:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove an expense from a shared expense group
+ * @param {string} userId - ID of the user who owns the group
+ * @param {string} groupId - ID of the debt group
+ * @param {string} expenseId - ID of the expense to remove
+ * @returns {Promise<void>}
+ */
+export const removeGroupExpense = async (userId, groupId, expenseId) => {
+  try {
+    const groupRef = doc(db, 'users', userId, 'debtGroups', groupId);
     
-    // Get the updated group data
-    const groupSnap = await getDoc(groupRef);
-    const groupData = groupSnap.data();
+    await runTransaction(db, async (transaction) => {
+      const groupSnap = await transaction.get(groupRef);
+      if (!groupSnap.exists()) {
+        throw new Error(`Debt group ${groupId} not found`);
+      }
+      
+      const expenses = (groupSnap.data().expenses || []).filter(expense => expense.id !== expenseId);
+      transaction.update(groupRef, {
+        expenses,
+        updatedAt: new Date().toISOString()
+      });
+    });
+  } catch (error) {
+    console.error('Error removing group expense:', error);
+    throw error;
+  }
+};
+
+/**
+ * Record a payment between two members of a shared expense group, e.g. a settle-up
+ * transfer that happened outside the app
+ * @param {string} userId - ID of the user who owns the group
+ * @param {string} groupId - ID of the debt group
+ * @param {Object} settlementData - Settlement information
+ * @param {string} [settlementData.id] - Settlement ID, when it was generated up front (e.g. for an offline write)
+ * @param {string} settlementData.from - Name of the member who paid
+ * @param {string} settlementData.to - Name of the member who got paid
+ * @param {number} settlementData.amount - Amount paid
+ * @param {string} [settlementData.settledAt] - ISO string timestamp when the settlement was recorded (defaults to now)
+ * @returns {Promise<Object>} - Created settlement
+ */
+export const addGroupSettlement = async (userId, groupId, { id = null, from, to, amount, settledAt = null }) => {
+  try {
+    if (!userId || !groupId) {
+      throw new Error('userId and groupId are required');
+    }
     
-    // Ensure we have the correct debtIds array by getting it directly
-    const debtsQuery = query(userDebtsRef, where('groupId', '==', groupId));
-    const debtsSnap = await getDocs(debtsQuery);
-    const debtIds = debtsSnap.docs.map(doc => doc.id);
+    const numericAmount = Number(amount);
+    if (isNaN(numericAmount) || numericAmount <= 0) {
+      throw new Error('Invalid amount: must be a positive number');
+    }
+    
+    const now = new Date().toISOString();
+    const settlement = {
+      id: id ? String(id) : generatePaymentId(),
+      from: String(from),
+      to: String(to),
+      amount: numericAmount,
+      settledAt: settledAt ? String(settledAt) : now
+    };
     
-    // Update the group with the correct debtIds
+    // Recording the same settlement again changes nothing, like addGroupExpense
+    const groupRef = doc(db, 'users', userId, 'debtGroups', groupId);
     await updateDoc(groupRef, {
-      debtIds: debtIds
+      settlements: arrayUnion(settlement),
+      updatedAt: now
     });
     
-    return {
-      id: debtRef.id,
-      ...debtWithGroup,
-    };
+    return settlement;
   } catch (error) {
-    console.error('Error adding debt to group:', error);
+    console.error('Error adding group settlement:', error);
     throw error;
   }
 };
 
 /**
- * Update a debt group's totals based on its debts
- * @param {string} userId - ID of the user who is owed money
- * @param {string} groupId - ID of the debt group to update
+ * Remove a recorded settlement from a shared expense group
+ * @param {string} userId - ID of the user who owns the group
+ * @param {string} groupId - ID of the debt group
+ * @param {string} settlementId - ID of the settlement to remove
  * @returns {Promise<void>}
  */
-export const updateGroupTotals = async (userId, groupId) => {
+export const removeGroupSettlement = async (userId, groupId, settlementId) => {
+  try {
+    const groupRef = doc(db, 'users', userId, 'debtGroups', groupId);
+    
+    await runTransaction(db, async (transaction) => {
+      const groupSnap = await transaction.get(groupRef);
+      if (!groupSnap.exists()) {
+        throw new Error(`Debt group ${groupId} not found`);
+      }
+      
+      const settlements = (groupSnap.data().settlements || []).filter(settlement => settlement.id !== settlementId);
+      transaction.update(groupRef, {
+        settlements,
+        updatedAt: new Date().toISOString()
+      });
+    });
+  } catch (error) {
+    console.error('Error removing group settlement:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the IDs of the debts that point at a group.
+ * Queries can't run inside a transaction, so this runs first and every debt is read again in the transaction.
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} groupId - ID of the debt group
+ * @returns {Promise<Array<string>>} - IDs of the debts
+ */
+const queryGroupDebtIds = async (userId, groupId) => {
+  const debtsQuery = query(collection(db, 'users', userId, 'debts'), where('groupId', '==', groupId));
+  const debtsSnap = await getDocs(debtsQuery);
+  return debtsSnap.docs.map(debtDoc => debtDoc.id);
+};
+
+/**
+ * Read a group and its debts in a transaction.
+ * The group's debts are the ones it lists plus any found by queryGroupDebtIds, in case debtIds is out of date.
+ * @param {Object} transaction - Firestore transaction
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} groupId - ID of the debt group
+ * @param {Array<string>} queriedDebtIds - IDs from queryGroupDebtIds
+ * @returns {Promise<Object>} - The group's ref, its data (null if it doesn't exist) and its debts
+ */
+const readGroupInTransaction = async (transaction, userId, groupId, queriedDebtIds) => {
+  const groupRef = doc(db, 'users', userId, 'debtGroups', groupId);
+  const groupSnap = await transaction.get(groupRef);
+  const group = groupSnap.exists() ? groupSnap.data() : null;
+  
+  const listedDebtIds = Array.isArray(group?.debtIds) ? group.debtIds : [];
+  const debtIds = [...new Set([...listedDebtIds, ...queriedDebtIds])];
+  const debtSnaps = await Promise.all(
+    debtIds.map(debtId => transaction.get(doc(db, 'users', userId, 'debts', debtId)))
+  );
+  
+  // Skip debts that were deleted or moved out of the group since
+  const debts = debtSnaps
+    .filter(debtSnap => debtSnap.exists() && debtSnap.data().groupId === groupId)
+    .map(debtSnap => ({ id: debtSnap.id, ...debtSnap.data() }));
+  
+  return { groupRef, group, debts };
+};
+
+/**
+ * Calculate a group's totals from its debts
+ * @param {Array} debts - The group's debts, with their IDs
+ * @param {string} currency - The group's currency
+ * @returns {Object} - totalAmount, paidAmount, isCompleted and debtIds for the group document
+ */
+const calculateGroupTotals = (debts, currency) => {
+  // Sum in integer minor units to avoid floating point drift
+  let totalMinor = 0;
+  let paidMinor = 0;
+  
+  debts.forEach(debt => {
+    totalMinor += toMinorUnits(debt.amount, currency);
+    
+    // Count partial payments towards the paid amount
+    paidMinor += toMinorUnits(getPaidAmount(debt), currency);
+  });
+  
+  return {
+    totalAmount: fromMinorUnits(totalMinor, currency),
+    paidAmount: fromMinorUnits(paidMinor, currency),
+    isCompleted: debts.every(debt => debt.isPaid),
+    debtIds: debts.map(debt => debt.id)
+  };
+};
+
+// Whether a group document's stored totals differ from the calculated ones
+const groupTotalsChanged = (group, totals) => {
+  const storedDebtIds = Array.isArray(group.debtIds) ? [...group.debtIds].sort() : [];
+  
+  return group.totalAmount !== totals.totalAmount ||
+    group.paidAmount !== totals.paidAmount ||
+    group.isCompleted !== totals.isCompleted ||
+    storedDebtIds.join(',') !== [...totals.debtIds].sort().join(',');
+};
+
+/**
+ * Add a debt to a debt group
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} groupId - ID of the debt group
+ * @param {Object} debtData - Debt information
+ * @returns {Promise<Object>} - Created debt with ID
+ */
+export const addDebtToGroup = async (userId, groupId, debtData) => {
+  const [debt] = await addDebtsToGroup(userId, groupId, [debtData]);
+  return debt;
+};
+
+/**
+ * Add several debts to a debt group at once.
+ * The debts and the group's totals are written in one transaction, so adding a
+ * whole group's debts doesn't leave transactions on the same group contending.
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} groupId - ID of the debt group
+ * @param {Array<Object>} debtsData - Information for each debt, optionally with an ID from generateDebtId
+ *   and payments already made (see createDebt)
+ * @returns {Promise<Array<Object>>} - Created debts with IDs, in the same order
+ */
+export const addDebtsToGroup = async (userId, groupId, debtsData) => {
   try {
     if (!userId || !groupId) {
       throw new Error('userId and groupId are required');
     }
     
-    // Get all debts in the group
-    const userDebtsRef = collection(db, 'users', userId, 'debts');
-    const debtsQuery = query(userDebtsRef, where('groupId', '==', groupId));
-    const debtsSnap = await getDocs(debtsQuery);
-    
-    let totalAmount = 0;
-    let paidAmount = 0;
-    let allPaid = true;
-    const debtIds = [];
+    const now = new Date().toISOString();
     
-    debtsSnap.forEach(doc => {
-      const debt = doc.data();
-      debtIds.push(doc.id);
-      totalAmount += debt.amount;
+    const newDebts = debtsData.map(({ id = null, payments = [], ...debtData }) => {
+      // Create the debt with groupId
+      const debtWithGroup = {
+        ...debtData,
+        createdAt: debtData.createdAt ? new Date(debtData.createdAt).toISOString() : now,
+        updatedAt: now,
+        isPaid: false,
+        userId: String(userId),
+        groupId: String(groupId)
+      };
+      
+      // Ensure proper data types
+      const numericAmount = Number(debtWithGroup.amount);
+      if (isNaN(numericAmount)) {
+        throw new Error('Invalid amount: must be a number');
+      }
+      debtWithGroup.amount = numericAmount;
+      
+      // Record payments made before the debt was added along with it, like createDebt
+      if (payments.length > 0) {
+        Object.assign(debtWithGroup, getInitialPaymentFields(debtWithGroup, payments));
+      }
       
-      if (debt.isPaid) {
-        paidAmount += debt.amount;
-      } else {
-        allPaid = false;
+      const userDebtsRef = collection(db, 'users', userId, 'debts').withConverter(debtConverter);
+      return {
+        debtRef: id ? doc(userDebtsRef, String(id)) : doc(userDebtsRef),
+        data: debtWithGroup
+      };
+    });
+    
+    const queriedDebtIds = await queryGroupDebtIds(userId, groupId);
+    
+    // Add the debts and update the group's totals together
+    await runTransaction(db, async (transaction) => {
+      const { groupRef, group, debts } = await readGroupInTransaction(transaction, userId, groupId, queriedDebtIds);
+      if (!group) {
+        throw new Error(`Debt group ${groupId} not found`);
       }
+      
+      newDebts.forEach(({ debtRef, data }) => transaction.set(debtRef, data));
+      transaction.update(groupRef, {
+        ...calculateGroupTotals([...debts, ...newDebts.map(({ debtRef, data }) => ({ id: debtRef.id, ...data }))], group.currency),
+        updatedAt: now
+      });
     });
     
-    // Update the group document
-    const groupRef = doc(db, 'users', userId, 'debtGroups', groupId);
-    const now = new Date().toISOString();
+    return newDebts.map(({ debtRef, data }) => ({
+      id: debtRef.id,
+      ...data,
+    }));
+  } catch (error) {
+    console.error('Error adding debts to group:', error);
+    throw error;
+  }
+};
+
+/**
+ * Recalculate a debt group's totals from its debts
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} groupId - ID of the debt group to update
+ * @returns {Promise<boolean>} - Whether the stored totals were out of date
+ */
+const recalculateGroupTotals = async (userId, groupId) => {
+  const queriedDebtIds = await queryGroupDebtIds(userId, groupId);
+  
+  return runTransaction(db, async (transaction) => {
+    const { groupRef, group, debts } = await readGroupInTransaction(transaction, userId, groupId, queriedDebtIds);
+    if (!group) {
+      throw new Error(`Debt group ${groupId} not found`);
+    }
     
-    await updateDoc(groupRef, {
-      updatedAt: now,
-      totalAmount: totalAmount,
-      paidAmount: paidAmount,
-      isCompleted: allPaid,
-      debtIds: debtIds
+    const totals = calculateGroupTotals(debts, group.currency);
+    if (!groupTotalsChanged(group, totals)) {
+      return false;
+    }
+    
+    transaction.update(groupRef, {
+      ...totals,
+      updatedAt: new Date().toISOString()
     });
+    return true;
+  });
+};
+
+/**
+ * Recalculate the totals of all of a user's debt groups from their debts,
+ * e.g. to fix groups left inconsistent by older versions of the app
+ * @param {string} userId - ID of the user who is owed money
+ * @returns {Promise<number>} - Number of groups whose totals were repaired
+ */
+export const repairGroupTotals = async (userId) => {
+  try {
+    if (!userId) {
+      throw new Error('userId is required');
+    }
+    
+    const groupsSnap = await getDocs(collection(db, 'users', userId, 'debtGroups'));
+    
+    // One group at a time to keep each transaction small
+    let repairedCount = 0;
+    for (const groupDoc of groupsSnap.docs) {
+      if (await recalculateGroupTotals(userId, groupDoc.id)) {
+        repairedCount++;
+      }
+    }
     
-    console.log(`Debt group ${groupId} totals updated`);
+    console.log(`Repaired totals of ${repairedCount} of ${groupsSnap.size} debt groups`);
+    return repairedCount;
   } catch (error) {
-    console.error('Error updating debt group totals:', error);
+    console.error('Error repairing debt group totals:', error);
     throw error;
   }
 };
@@ -801,50 +1542,28 @@ export const removeDebtFromGroup = async (userId, groupId, debtId) => {
       throw new Error('userId, groupId, and debtId are required');
     }
     
-    // Get the debt to determine its amount
-    const debtRef = doc(db, 'users', userId, 'debts', debtId);
-    const debtSnap = await getDoc(debtRef);
-    
-    if (!debtSnap.exists()) {
-      throw new Error(`Debt ${debtId} not found`);
-    }
-    
-    const debt = debtSnap.data();
-    const amount = debt.amount;
-    const isPaid = debt.isPaid;
+    const queriedDebtIds = await queryGroupDebtIds(userId, groupId);
     
-    // Use a transaction to ensure consistency
+    // Move the debt out and update the group's totals together
     await runTransaction(db, async (transaction) => {
-      // Remove the groupId from the debt
-      transaction.update(debtRef, { 
-        groupId: null,
-        updatedAt: new Date().toISOString()
-      });
-      
-      // Update the group
-      const groupRef = doc(db, 'users', userId, 'debtGroups', groupId);
-      const groupSnap = await transaction.get(groupRef);
-      
-      if (!groupSnap.exists()) {
+      const { groupRef, group, debts } = await readGroupInTransaction(transaction, userId, groupId, queriedDebtIds);
+      if (!group) {
         throw new Error(`Debt group ${groupId} not found`);
       }
+      if (!debts.some(debt => debt.id === debtId)) {
+        throw new Error(`Debt ${debtId} not found in group ${groupId}`);
+      }
       
-      const groupData = groupSnap.data();
-      let newTotalAmount = groupData.totalAmount - amount;
-      let newPaidAmount = isPaid ? groupData.paidAmount - amount : groupData.paidAmount;
-      const newDebtIds = groupData.debtIds.filter(id => id !== debtId);
-      
-      // Ensure we don't have negative amounts
-      newTotalAmount = Math.max(0, newTotalAmount);
-      newPaidAmount = Math.max(0, newPaidAmount);
+      const now = new Date().toISOString();
+      const remainingDebts = debts.filter(debt => debt.id !== debtId);
       
-      // Update the group totals
+      transaction.update(doc(db, 'users', userId, 'debts', debtId), {
+        groupId: null,
+        updatedAt: now
+      });
       transaction.update(groupRef, {
-        totalAmount: newTotalAmount,
-        paidAmount: newPaidAmount,
-        debtIds: newDebtIds,
-        isCompleted: newDebtIds.length > 0 ? newPaidAmount >= newTotalAmount : true,
-        updatedAt: new Date().toISOString()
+        ...calculateGroupTotals(remainingDebts, group.currency),
+        updatedAt: now
       });
     });
     
@@ -868,37 +1587,31 @@ export const deleteDebtGroup = async (userId, groupId, keepDebts = true) => {
       throw new Error('userId and groupId are required');
     }
     
-    // Get all debts in the group
-    const userDebtsRef = collection(db, 'users', userId, 'debts');
-    const debtsQuery = query(userDebtsRef, where('groupId', '==', groupId));
-    const debtsSnap = await getDocs(debtsQuery);
-    
-    // Batch operation to ensure atomicity
-    const batch = writeBatch(db);
+    const queriedDebtIds = await queryGroupDebtIds(userId, groupId);
     
-    // Process all debts in the group
-    debtsSnap.forEach(debtDoc => {
-      const debtRef = doc(db, 'users', userId, 'debts', debtDoc.id);
+    // Delete the group and update or delete its debts together
+    await runTransaction(db, async (transaction) => {
+      const { groupRef, debts } = await readGroupInTransaction(transaction, userId, groupId, queriedDebtIds);
+      const now = new Date().toISOString();
       
-      if (keepDebts) {
-        // Just remove groupId reference
-        batch.update(debtRef, { 
-          groupId: null,
-          updatedAt: new Date().toISOString()
-        });
-      } else {
-        // Delete the debt entirely
-        batch.delete(debtRef);
-      }
+      debts.forEach(debt => {
+        const debtRef = doc(db, 'users', userId, 'debts', debt.id);
+        
+        if (keepDebts) {
+          // Just remove groupId reference
+          transaction.update(debtRef, { 
+            groupId: null,
+            updatedAt: now
+          });
+        } else {
+          // Delete the debt entirely
+          transaction.delete(debtRef);
+        }
+      });
+      
+      transaction.delete(groupRef);
     });
     
-    // Delete the group
-    const groupRef = doc(db, 'users', userId, 'debtGroups', groupId);
-    batch.delete(groupRef);
-    
-    // Commit the batch
-    await batch.commit();
-    
     console.log(`Debt group ${groupId} deleted, debts ${keepDebts ? 'kept' : 'deleted'}`);
   } catch (error) {
     console.error('Error deleting debt group:', error);
@@ -986,52 +1699,486 @@ export const getDebtGroupWithDebts = async (userId, groupId) => {
 };
 
 /**
- * Cancel a recurring debt series
- * @param {string} userId - ID of the user who is owed money
- * @param {string} recurringId - ID of the recurring debt to cancel
- * @returns {Promise<void>}
+ * Save a scanned receipt and how it was split
+ * @param {string} userId - ID of the user who scanned the receipt
+ * @param {Object} receiptData - Receipt information (see Receipt in models.ts)
+ * @returns {Promise<Object>} - Saved receipt with ID
  */
-export const cancelRecurringDebt = async (userId, recurringId) => {
+export const createReceipt = async (userId, receiptData) => {
   try {
-    if (!userId || !recurringId) {
-      throw new Error('userId and recurringId are required');
+    if (!userId) {
+      throw new Error('userId is required');
     }
     
-    console.log(`Canceling recurring debt ${recurringId} for user ${userId}`);
-    const recurringRef = doc(db, 'users', userId, 'recurringDebts', recurringId);
+    // The converter validates the receipt before it's written
+    const receiptsRef = collection(db, 'users', userId, 'receipts').withConverter(receiptConverter);
     const now = new Date().toISOString();
     
-    // Mark the recurring debt as inactive
-    await updateDoc(recurringRef, {
-      isActive: false,
+    const receipt = {
+      ...receiptData,
+      debtIds: receiptData.debtIds || [],
+      userId: String(userId),
+      createdAt: now,
       updatedAt: now
-    });
+    };
     
-    console.log(`Recurring debt ${recurringId} marked as inactive`);
+    const docRef = await addDoc(receiptsRef, receipt);
+    
+    return {
+      id: docRef.id,
+      ...receipt,
+    };
   } catch (error) {
-    console.error('Error canceling recurring debt:', error);
+    console.error('Error creating receipt:', error);
     throw error;
   }
 };
 
 /**
- * Get all recurring debts for a user
- * @param {string} userId - ID of the user
- * @returns {Promise<Array>} - Array of recurring debt documents
+ * Update a saved receipt, e.g. after its split is edited
+ * @param {string} userId - ID of the user who scanned the receipt
+ * @param {string} receiptId - ID of the receipt
+ * @param {Object} updateData - Data to update
+ * @returns {Promise<void>}
  */
-export const fetchRecurringDebts = async (userId) => {
+export const updateReceipt = async (userId, receiptId, updateData) => {
   try {
-    if (!userId) {
-      console.warn('fetchRecurringDebts called without a userId');
-      return [];
+    const receiptRef = doc(db, 'users', userId, 'receipts', receiptId);
+    
+    // Updates don't go through the converter, so check the changed fields here
+    const issues = validateFields(receiptSchema, updateData, { partial: true });
+    if (issues.length > 0) {
+      throw new ValidationError(receiptRef.path, issues);
     }
     
-    console.log(`Fetching recurring debts for user: ${userId}`);
+    await updateDoc(receiptRef, {
+      ...updateData,
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error updating receipt:', error);
+    throw error;
+  }
+};
+
+/**
+ * Save an edited receipt split in one transaction, so the receipt and its debts always agree:
+ * the debts of people still on the receipt are updated (see updateDebtAmount), new people get
+ * debts (in the receipt's group, if it still exists) and the debts of people who no longer owe
+ * anything are deleted. A debt that was already deleted counts as removed, so its person is
+ * left without one.
+ * @param {string} userId - ID of the user who scanned the receipt
+ * @param {string} receiptId - ID of the receipt
+ * @param {Object} split - The edited split
+ * @param {Object} split.receiptData - Receipt fields to update, apart from people and debtIds
+ * @param {Array<Object>} split.people - Everyone on the receipt, without their debt IDs
+ * @param {Array<Object>} split.debts - The debt of each person who owes something: personId, the debt's ID
+ *   if they already have one, and debtorName, amount, currency, description and phoneNumber
+ * @param {Array<string>} split.removedDebtIds - IDs of the debts to delete
+ * @param {string|null} [split.groupId] - ID of the receipt's group
+ * @returns {Promise<Object>} - debtIds by person ID, and the debts that were created
+ */
+export const updateReceiptSplit = async (userId, receiptId, { receiptData, people, debts, removedDebtIds, groupId = null }) => {
+  try {
+    if (!userId || !receiptId) {
+      throw new Error('userId and receiptId are required');
+    }
     
-    // Get all recurring debts for the user
-    const recurringDebtsRef = collection(db, 'users', userId, 'recurringDebts');
-    const q = query(recurringDebtsRef, orderBy('createdAt', 'desc'));
-    const querySnapshot = await getDocs(q);
+    const receiptRef = doc(db, 'users', userId, 'receipts', receiptId);
+    const userDebtsRef = collection(db, 'users', userId, 'debts').withConverter(debtConverter);
+    const now = new Date().toISOString();
+    
+    // Updates don't go through the converter, so check the changed fields here
+    const receiptIssues = validateFields(receiptSchema, { ...receiptData, people }, { partial: true });
+    if (receiptIssues.length > 0) {
+      throw new ValidationError(receiptRef.path, receiptIssues);
+    }
+    debts.forEach(({ personId, debtId, ...debtData }) => {
+      const issues = validateFields(debtSchema, debtData, { partial: true });
+      if (issues.length > 0) {
+        throw new ValidationError(debtId ? doc(userDebtsRef, debtId).path : '(new debt)', issues);
+      }
+    });
+    
+    const queriedDebtIds = groupId ? await queryGroupDebtIds(userId, groupId) : [];
+    
+    const result = await runTransaction(db, async (transaction) => {
+      // Every read comes before the writes
+      const readDebt = async (debtId) => {
+        const debtSnap = await transaction.get(doc(db, 'users', userId, 'debts', debtId));
+        return debtSnap.exists() ? { id: debtId, ...debtSnap.data() } : null;
+      };
+      const existingDebts = await Promise.all(debts.map(({ debtId }) => debtId ? readDebt(debtId) : null));
+      const removedDebts = (await Promise.all(removedDebtIds.map(readDebt))).filter(Boolean);
+      const { groupRef, group, debts: groupDebts } = groupId
+        ? await readGroupInTransaction(transaction, userId, groupId, queriedDebtIds)
+        : { groupRef: null, group: null, debts: [] };
+      
+      const debtIds = {};
+      const updatedDebts = {};
+      const newDebts = [];
+      
+      debts.forEach(({ personId, debtId, ...debtData }, index) => {
+        const existing = existingDebts[index];
+        
+        if (existing) {
+          // Payments already recorded may now cover more, or less, of the debt
+          const changes = getAmountChanges(existing, debtData, now);
+          transaction.update(doc(db, 'users', userId, 'debts', existing.id), changes);
+          updatedDebts[existing.id] = { ...existing, ...changes };
+          debtIds[personId] = existing.id;
+        } else if (!debtId) {
+          const debtRef = doc(userDebtsRef);
+          const newDebt = {
+            ...debtData,
+            currency: getCurrencyInfo(debtData.currency).code,
+            createdAt: now,
+            updatedAt: now,
+            isPaid: false,
+            userId: String(userId),
+            receiptId: String(receiptId),
+            ...(group ? { groupId: String(groupId) } : {})
+          };
+          transaction.set(debtRef, newDebt);
+          newDebts.push({ id: debtRef.id, ...newDebt });
+          debtIds[personId] = debtRef.id;
+        }
+      });
+      
+      removedDebts.forEach(debt => transaction.delete(doc(db, 'users', userId, 'debts', debt.id)));
+      
+      if (group) {
+        const removedIds = removedDebts.map(debt => debt.id);
+        const remainingDebts = groupDebts
+          .filter(debt => !removedIds.includes(debt.id))
+          .map(debt => updatedDebts[debt.id] || debt);
+        transaction.update(groupRef, {
+          ...calculateGroupTotals([...remainingDebts, ...newDebts], group.currency),
+          updatedAt: now
+        });
+      }
+      
+      transaction.update(receiptRef, {
+        ...receiptData,
+        people: people.map(person => debtIds[person.id] ? { ...person, debtId: debtIds[person.id] } : person),
+        debtIds: Object.values(debtIds),
+        updatedAt: now
+      });
+      
+      return {
+        debtIds,
+        newDebts,
+        sharedDebtIds: Object.values(updatedDebts).filter(debt => debt.sharedDebtId).map(debt => debt.id),
+        removedSharedDebtIds: removedDebts.map(debt => debt.sharedDebtId).filter(Boolean)
+      };
+    });
+    
+    // Keep the debtors' shared copies in sync
+    for (const debtId of result.sharedDebtIds) {
+      try {
+        await syncSharedDebt(userId, debtId);
+      } catch (sharedError) {
+        console.error('Error syncing shared debt after updating receipt split:', sharedError);
+      }
+    }
+    for (const sharedDebtId of result.removedSharedDebtIds) {
+      try {
+        await deleteDoc(doc(db, 'sharedDebts', sharedDebtId));
+      } catch (sharedError) {
+        console.error('Error deleting shared debt after updating receipt split:', sharedError);
+      }
+    }
+    
+    return { debtIds: result.debtIds, newDebts: result.newDebts };
+  } catch (error) {
+    console.error('Error updating receipt split:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a saved receipt (the debts split from it are left alone)
+ * @param {string} userId - ID of the user who scanned the receipt
+ * @param {string} receiptId - ID of the receipt
+ * @returns {Promise<void>}
+ */
+export const deleteReceipt = async (userId, receiptId) => {
+  try {
+    await deleteDoc(doc(db, 'users', userId, 'receipts', receiptId));
+  } catch (error) {
+    console.error('Error deleting receipt:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel a recurring debt series
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} recurringId - ID of the recurring debt to cancel
+ * @returns {Promise<void>}
+ */
+export const cancelRecurringDebt = async (userId, recurringId) => {
+  try {
+    if (!userId || !recurringId) {
+      throw new Error('userId and recurringId are required');
+    }
+    
+    console.log(`Canceling recurring debt ${recurringId} for user ${userId}`);
+    const recurringRef = doc(db, 'users', userId, 'recurringDebts', recurringId);
+    const now = new Date().toISOString();
+    
+    // Mark the recurring debt as inactive
+    await updateDoc(recurringRef, {
+      isActive: false,
+      updatedAt: now
+    });
+    
+    console.log(`Recurring debt ${recurringId} marked as inactive`);
+  } catch (error) {
+    console.error('Error canceling recurring debt:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get a recurring series' template and check changes to it against its schema
+ * @param {string} userId - ID of the user
+ * @param {string} type - 'debt' for a recurring debt, 'group' for a recurring group
+ * @param {string} templateId - ID of the recurring debt template or recurring group
+ * @param {Object} updateData - Fields that will be written to the template
+ * @returns {Object} Reference to the template
+ */
+const getRecurringTemplateRef = (userId, type, templateId, updateData) => {
+  const template = RECURRING_TEMPLATES[type];
+  if (!template) {
+    throw new Error(`Unknown recurring series type: ${type}`);
+  }
+  
+  const templateRef = doc(db, 'users', userId, template.collectionName, templateId);
+  
+  const issues = validateFields(template.schema, updateData, { partial: true });
+  if (issues.length > 0) {
+    throw new ValidationError(templateRef.path, issues);
+  }
+  
+  return templateRef;
+};
+
+/**
+ * Read a recurring series' template inside a transaction
+ * @param {Object} transaction - Firestore transaction
+ * @param {Object} templateRef - Reference to the template
+ * @returns {Promise<Object>} The template's fields
+ */
+const readRecurringTemplate = async (transaction, templateRef) => {
+  const templateSnap = await transaction.get(templateRef);
+  if (!templateSnap.exists()) {
+    throw new Error(`Recurring series ${templateRef.id} not found`);
+  }
+  return templateSnap.data();
+};
+
+// The recurrence fields of a template (see functions/recurrence.js)
+const getRecurrenceRule = (template) => ({
+  frequency: template.frequency,
+  interval: template.interval ?? null,
+  intervalUnit: template.intervalUnit ?? null,
+  startDate: template.startDate,
+  endDate: template.endDate ?? null,
+  occurrenceCount: template.occurrenceCount ?? null,
+  dayOfMonth: template.dayOfMonth ?? null,
+  dayOfWeek: template.dayOfWeek ?? null,
+  timeZone: template.timeZone ?? null,
+  skippedDates: template.skippedDates || []
+});
+
+/**
+ * Change the schedule (and for recurring debts, the amount) of a recurring series.
+ * Instances that were already created keep their amount and date; only future
+ * occurrences follow the new schedule.
+ * @param {string} userId - ID of the user
+ * @param {string} type - 'debt' for a recurring debt, 'group' for a recurring group
+ * @param {string} templateId - ID of the recurring debt template or recurring group
+ * @param {Object} changes - The fields to change
+ * @param {number} [changes.amount] - New amount of each instance (recurring debts only)
+ * @param {string} [changes.frequency] - New frequency
+ * @param {number|null} [changes.interval] - New number of units between instances (custom frequency only)
+ * @param {string|null} [changes.intervalUnit] - New unit of the interval (custom frequency only)
+ * @param {number|null} [changes.occurrenceCount] - New number of instances in the whole series, null for no limit
+ * @param {number|null} [changes.dayOfMonth] - New day of month (31 for the last day), null for the start date's day
+ * @param {number|null} [changes.dayOfWeek] - New day of week (0-6), null for the start date's weekday
+ * @param {string|null} [changes.endDate] - New end date in ISO format, null for no end date
+ * @returns {Promise<Object>} - The fields that were saved
+ */
+export const updateRecurringSchedule = async (userId, type, templateId, changes) => {
+  try {
+    if (!userId || !templateId) {
+      throw new Error('userId and templateId are required');
+    }
+    if (changes.amount !== undefined && type !== 'debt') {
+      throw new Error('Only recurring debts have an amount; change the debts in the group instead');
+    }
+    
+    const now = new Date().toISOString();
+    const updateData = { updatedAt: now };
+    
+    if (changes.amount !== undefined) {
+      const amount = Number(changes.amount);
+      if (isNaN(amount) || amount <= 0) {
+        throw new Error('Invalid amount: must be a positive number');
+      }
+      updateData.amount = amount;
+    }
+    
+    const templateRef = getRecurringTemplateRef(userId, type, templateId, {
+      ...changes,
+      amount: updateData.amount
+    });
+    
+    await runTransaction(db, async (transaction) => {
+      const template = await readRecurringTemplate(transaction, templateRef);
+      const current = getRecurrenceRule(template);
+      
+      const changed = (field) => changes[field] !== undefined ? changes[field] : current[field];
+      const recurrence = buildRecurrenceFields({
+        frequency: changed('frequency'),
+        interval: changed('interval'),
+        intervalUnit: changed('intervalUnit'),
+        startDate: current.startDate,
+        endDate: changed('endDate'),
+        occurrenceCount: changed('occurrenceCount'),
+        dayOfMonth: changed('dayOfMonth'),
+        dayOfWeek: changed('dayOfWeek')
+      });
+      Object.assign(updateData, recurrence);
+      
+      // Skipped dates belong to the old schedule's occurrences
+      const scheduleChanged = ['frequency', 'interval', 'intervalUnit', 'dayOfMonth', 'dayOfWeek']
+        .some(field => recurrence[field] !== current[field]);
+      if (scheduleChanged) {
+        updateData.skippedDates = [];
+      }
+      
+      if (template.isActive) {
+        // Start from the next occurrence that hasn't been created yet under the new schedule
+        const pendingFrom = new Date(template.nextGenerationDate).getTime() - 1;
+        const after = new Date(Math.min(Date.now(), pendingFrom));
+        const next = getNextOccurrence({ ...current, ...recurrence, skippedDates: updateData.skippedDates ?? current.skippedDates }, after);
+        
+        updateData.nextGenerationDate = next || template.nextGenerationDate;
+        updateData.isActive = !!next;
+      }
+      
+      transaction.update(templateRef, updateData);
+    });
+    
+    return updateData;
+  } catch (error) {
+    console.error('Error updating recurring schedule:', error);
+    throw error;
+  }
+};
+
+/**
+ * Pause or resume a recurring series.
+ * A resumed series carries on from its next occurrence; occurrences missed while it
+ * was paused aren't created.
+ * @param {string} userId - ID of the user
+ * @param {string} type - 'debt' for a recurring debt, 'group' for a recurring group
+ * @param {string} templateId - ID of the recurring debt template or recurring group
+ * @param {boolean} isActive - True to resume, false to pause
+ * @returns {Promise<void>}
+ */
+export const setRecurringActive = async (userId, type, templateId, isActive) => {
+  try {
+    if (!userId || !templateId) {
+      throw new Error('userId and templateId are required');
+    }
+    
+    const now = new Date().toISOString();
+    const templateRef = getRecurringTemplateRef(userId, type, templateId, { isActive });
+    
+    await runTransaction(db, async (transaction) => {
+      const template = await readRecurringTemplate(transaction, templateRef);
+      const updateData = { isActive, updatedAt: now };
+      
+      if (isActive) {
+        const next = getNextOccurrence(getRecurrenceRule(template), now);
+        if (!next) {
+          throw new Error('This series has already ended');
+        }
+        updateData.nextGenerationDate = next;
+      }
+      
+      transaction.update(templateRef, updateData);
+    });
+  } catch (error) {
+    console.error('Error changing recurring series status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Skip one occurrence of a recurring series, so no instance is created for it
+ * @param {string} userId - ID of the user
+ * @param {string} type - 'debt' for a recurring debt, 'group' for a recurring group
+ * @param {string} templateId - ID of the recurring debt template or recurring group
+ * @param {string} occurrenceDate - ISO date of the occurrence to skip
+ * @returns {Promise<void>}
+ */
+export const skipRecurringOccurrence = async (userId, type, templateId, occurrenceDate) => {
+  try {
+    if (!userId || !templateId || !occurrenceDate) {
+      throw new Error('userId, templateId and occurrenceDate are required');
+    }
+    
+    const now = new Date().toISOString();
+    const templateRef = getRecurringTemplateRef(userId, type, templateId, { skippedDates: [occurrenceDate] });
+    
+    await runTransaction(db, async (transaction) => {
+      const template = await readRecurringTemplate(transaction, templateRef);
+      const rule = getRecurrenceRule(template);
+      if (rule.skippedDates.includes(occurrenceDate)) return;
+      
+      const skippedDates = [...rule.skippedDates, occurrenceDate];
+      const updateData = { skippedDates, updatedAt: now };
+      
+      // Skipping the next occurrence moves the series on to the one after it
+      if (template.nextGenerationDate === occurrenceDate) {
+        const next = getNextOccurrence({ ...rule, skippedDates }, occurrenceDate);
+        if (next) {
+          updateData.nextGenerationDate = next;
+        } else {
+          updateData.isActive = false;
+        }
+      }
+      
+      transaction.update(templateRef, updateData);
+    });
+  } catch (error) {
+    console.error('Error skipping recurring occurrence:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all recurring debts for a user
+ * @param {string} userId - ID of the user
+ * @returns {Promise<Array>} - Array of recurring debt documents
+ */
+export const fetchRecurringDebts = async (userId) => {
+  try {
+    if (!userId) {
+      console.warn('fetchRecurringDebts called without a userId');
+      return [];
+    }
+    
+    console.log(`Fetching recurring debts for user: ${userId}`);
+    
+    // Get all recurring debts for the user
+    const recurringDebtsRef = collection(db, 'users', userId, 'recurringDebts');
+    const q = query(recurringDebtsRef, orderBy('createdAt', 'desc'));
+    const querySnapshot = await getDocs(q);
     
     console.log(`Query returned ${querySnapshot.size} recurring debt documents`);
     
@@ -1086,4 +2233,312 @@ export const getRecurringDebtById = async (userId, recurringId) => {
     console.error('Error fetching recurring debt template:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Look up a Paid user by their username
+ * @param {string} username - Username to look up (case-insensitive, leading @ is ignored)
+ * @returns {Promise<Object|null>} - { uid, username, name } or null if no user has that username
+ */
+export const lookupUserByUsername = async (username) => {
+  try {
+    const normalized = String(username || '').trim().replace(/^@/, '').toLowerCase();
+    if (!normalized) return null;
+    
+    const usernameSnap = await getDoc(doc(db, 'usernames', normalized));
+    if (!usernameSnap.exists()) return null;
+    
+    const { uid } = usernameSnap.data();
+    const userSnap = await getDoc(doc(db, 'users', uid));
+    const userData = userSnap.exists() ? userSnap.data() : {};
+    
+    return {
+      uid,
+      username: userData.username || normalized,
+      name: userData.profile?.name || ''
+    };
+  } catch (error) {
+    console.error('Error looking up user by username:', error);
+    throw error;
+  }
+};
+
+/**
+ * Copy the current state of a debt to its shared copy
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the shared debt
+ * @returns {Promise<void>}
+ */
+async function syncSharedDebt(userId, debtId) {
+  const debtSnap = await getDoc(doc(db, 'users', userId, 'debts', debtId));
+  if (!debtSnap.exists()) return;
+  
+  const debtData = debtSnap.data();
+  if (!debtData.sharedDebtId) return;
+  
+  const sharedRef = doc(db, 'sharedDebts', debtData.sharedDebtId);
+  const sharedSnap = await getDoc(sharedRef);
+  if (!sharedSnap.exists()) return;
+  
+  const sharedData = sharedSnap.data();
+  const now = new Date().toISOString();
+  
+  // Paying the debt confirms it; un-paying it reopens the handshake
+  let status = sharedData.status;
+  if (debtData.isPaid) {
+    status = 'confirmed';
+  } else if (status === 'confirmed') {
+    status = 'pending';
+  }
+  
+  await updateDoc(sharedRef, {
+    amount: debtData.amount,
+    currency: debtData.currency || 'USD',
+    paidAmount: getPaidAmount(debtData),
+    description: debtData.description || '',
+    isPaid: !!debtData.isPaid,
+    status,
+    confirmedAt: status === 'confirmed' ? (sharedData.confirmedAt || now) : null,
+    updatedAt: now
+  });
+}
+
+/**
+ * Link a debt to the debtor's Paid account so it shows up in their app
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the debt to share
+ * @param {string} username - Username of the debtor
+ * @returns {Promise<Object|null>} - The shared debt, or null if no user has that username
+ */
+export const shareDebtWithUser = async (userId, debtId, username) => {
+  try {
+    if (!userId || !debtId) {
+      throw new Error('userId and debtId are required');
+    }
+    
+    const debtor = await lookupUserByUsername(username);
+    if (!debtor) return null;
+    
+    if (debtor.uid === userId) {
+      throw new Error('A debt cannot be shared with its creditor');
+    }
+    
+    const debtRef = doc(db, 'users', userId, 'debts', debtId);
+    const debtSnap = await getDoc(debtRef);
+    if (!debtSnap.exists()) {
+      throw new Error(`Debt ${debtId} not found`);
+    }
+    
+    const debtData = debtSnap.data();
+    const creditorSnap = await getDoc(doc(db, 'users', userId));
+    const creditorData = creditorSnap.exists() ? creditorSnap.data() : {};
+    const now = new Date().toISOString();
+    
+    // One shared copy per debt, so re-sharing replaces the previous link
+    const sharedDebtId = `${userId}_${debtId}`;
+    if (debtData.sharedDebtId) {
+      await deleteDoc(doc(db, 'sharedDebts', debtData.sharedDebtId));
+    }
+    
+    const sharedDebt = {
+      debtId,
+      creditorUid: userId,
+      creditorUsername: creditorData.username || '',
+      creditorName: creditorData.profile?.name || '',
+      debtorUid: debtor.uid,
+      debtorUsername: debtor.username,
+      amount: debtData.amount,
+      currency: debtData.currency || 'USD',
+      paidAmount: getPaidAmount(debtData),
+      description: debtData.description || '',
+      isPaid: !!debtData.isPaid,
+      status: debtData.isPaid ? 'confirmed' : 'pending',
+      sentAt: null,
+      confirmedAt: debtData.isPaid ? now : null,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    await setDoc(doc(db, 'sharedDebts', sharedDebtId), sharedDebt);
+    
+    await updateDoc(debtRef, {
+      sharedDebtId,
+      debtorUid: debtor.uid,
+      debtorUsername: debtor.username,
+      updatedAt: now
+    });
+    
+    console.log(`Debt ${debtId} shared with ${debtor.username}`);
+    return {
+      id: sharedDebtId,
+      ...sharedDebt
+    };
+  } catch (error) {
+    console.error('Error sharing debt:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove the link between a debt and the debtor's Paid account
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the shared debt
+ * @returns {Promise<void>}
+ */
+export const unshareDebt = async (userId, debtId) => {
+  try {
+    const debtRef = doc(db, 'users', userId, 'debts', debtId);
+    const debtSnap = await getDoc(debtRef);
+    if (!debtSnap.exists()) {
+      throw new Error(`Debt ${debtId} not found`);
+    }
+    
+    const { sharedDebtId } = debtSnap.data();
+    if (sharedDebtId) {
+      await deleteDoc(doc(db, 'sharedDebts', sharedDebtId));
+    }
+    
+    await updateDoc(debtRef, {
+      sharedDebtId: null,
+      debtorUid: null,
+      debtorUsername: null,
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error unsharing debt:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get a shared debt by ID
+ * @param {string} sharedDebtId - ID of the shared debt
+ * @returns {Promise<Object|null>} - Shared debt or null if not found
+ */
+export const getSharedDebt = async (sharedDebtId) => {
+  try {
+    if (!sharedDebtId) return null;
+    
+    const sharedSnap = await getDoc(doc(db, 'sharedDebts', sharedDebtId));
+    if (!sharedSnap.exists()) return null;
+    
+    return {
+      id: sharedSnap.id,
+      ...sharedSnap.data()
+    };
+  } catch (error) {
+    console.error('Error fetching shared debt:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the debts other Paid users have shared with a user (debts they owe)
+ * @param {string} userId - ID of the user who owes money
+ * @returns {Promise<Array>} - Array of shared debts, newest first
+ */
+export const fetchDebtsOwedByUser = async (userId) => {
+  try {
+    if (!userId) {
+      console.warn('fetchDebtsOwedByUser called without a userId');
+      return [];
+    }
+    
+    const q = query(collection(db, 'sharedDebts'), where('debtorUid', '==', userId));
+    const querySnapshot = await getDocs(q);
+    
+    const sharedDebts = [];
+    querySnapshot.forEach((doc) => {
+      sharedDebts.push({
+        id: doc.id,
+        ...doc.data(),
+      });
+    });
+    
+    // Sort client-side to avoid needing a composite index
+    return sharedDebts.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('Error fetching debts owed by user:', error);
+    if (error.code === 'permission-denied') {
+      console.warn('Permission denied when fetching shared debts. Check Firestore rules.');
+      return [];
+    }
+    throw error;
+  }
+};
+
+/**
+ * Listen to the debts other Paid users have shared with a user (debts they owe)
+ * @param {string} userId - ID of the user who owes money
+ * @param {Function} onChange - Called with the array of shared debts, newest first, whenever they change
+ * @param {Function} [onError] - Called if the listener fails
+ * @returns {Function} - Unsubscribe function
+ */
+export const subscribeToDebtsOwedByUser = (userId, onChange, onError) => {
+  const q = query(collection(db, 'sharedDebts'), where('debtorUid', '==', userId));
+  
+  return onSnapshot(q, (querySnapshot) => {
+    // Sort client-side to avoid needing a composite index
+    onChange(snapshotToArray(querySnapshot).sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+  }, (error) => {
+    console.error('Error listening to debts owed by user:', error);
+    if (onError) onError(error);
+  });
+};
+
+/**
+ * Mark a shared debt as sent by the debtor. The creditor still has to confirm it.
+ * @param {string} sharedDebtId - ID of the shared debt
+ * @returns {Promise<void>}
+ */
+export const markSharedDebtAsSent = async (sharedDebtId) => {
+  try {
+    const now = new Date().toISOString();
+    
+    await updateDoc(doc(db, 'sharedDebts', sharedDebtId), {
+      status: 'sent',
+      sentAt: now,
+      updatedAt: now
+    });
+  } catch (error) {
+    console.error('Error marking shared debt as sent:', error);
+    throw error;
+  }
+};
+
+/**
+ * Respond to a debtor marking a shared debt as sent
+ * Confirming marks the creditor's debt as paid; declining reopens the handshake.
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} sharedDebtId - ID of the shared debt
+ * @param {boolean} received - Whether the creditor received the money
+ * @returns {Promise<void>}
+ */
+export const confirmSharedDebtPayment = async (userId, sharedDebtId, received = true) => {
+  try {
+    const sharedRef = doc(db, 'sharedDebts', sharedDebtId);
+    const sharedSnap = await getDoc(sharedRef);
+    if (!sharedSnap.exists()) {
+      throw new Error(`Shared debt ${sharedDebtId} not found`);
+    }
+    
+    const { debtId, creditorUid } = sharedSnap.data();
+    if (creditorUid !== userId) {
+      throw new Error('Only the creditor can confirm a payment');
+    }
+    
+    if (received) {
+      // Marking the debt as paid syncs the shared copy to confirmed
+      await markDebtAsPaid(userId, debtId, true);
+    } else {
+      await updateDoc(sharedRef, {
+        status: 'pending',
+        sentAt: null,
+        updatedAt: new Date().toISOString()
+      });
+    }
+  } catch (error) {
+    console.error('Error confirming shared debt payment:', error);
+    throw error;
+  }
+};
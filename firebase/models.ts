@@ -1,3 +1,5 @@
+import type { AllocationSettings } from '@/utils/receiptAllocation';
+
 /**
  * Type definitions for Firestore data models
  */
@@ -8,15 +10,34 @@
 export interface Debt {
   id?: string;               // Auto-generated Firestore ID
   debtorName: string;        // Name of the person who owes money
-  amount: number;            // Amount owed in dollars
+  amount: number;            // Amount owed in the debt's currency
+  currency?: CurrencyCode;   // ISO 4217 currency code (defaults to USD when missing)
   description?: string;      // Optional description of what the debt is for
   phoneNumber?: string;      // Optional phone number for contact/reminders
   createdAt: string;         // ISO string timestamp when debt was created
   updatedAt: string;         // ISO string timestamp when debt was last updated
   isPaid: boolean;           // Whether the debt has been paid
   paidAt?: string;           // ISO string timestamp when debt was paid (if paid)
+  dueDate?: string | null;   // ISO string timestamp when the debt is due (optional)
   userId: string;            // ID of the user who is owed money
   groupId?: string;          // Optional reference to parent debt group
+  receiptId?: string;        // Reference to the scanned receipt the debt was split from
+  lastWriteId?: string;      // ID of the last offline write applied to the debt, so a retried write isn't applied twice
+  
+  // Shared debt fields (set when the debtor is linked to a Paid account)
+  sharedDebtId?: string;     // Reference to the shared copy in the sharedDebts collection
+  debtorUid?: string;        // Firestore UID of the linked debtor
+  debtorUsername?: string;   // Username of the linked debtor
+  
+  // Partial payment fields
+  payments?: DebtPayment[];  // Ledger of payments made towards this debt
+  paidAmount?: number;       // Sum of all payments (denormalized from payments)
+  
+  // Reminder fields
+  reminderSchedule?: ReminderSchedule; // Automatic push reminder schedule
+  nextReminderAt?: string | null;      // ISO string timestamp of the next reminder (null when none is due)
+  lastReminderAt?: string;             // ISO string timestamp of the last reminder sent
+  reminderCount?: number;              // Number of reminders sent so far
   
   // Recurring debt fields
   isRecurring?: boolean;     // Whether this is a recurring debt
@@ -24,10 +45,75 @@ export interface Debt {
   recurringInstanceIndex?: number; // Which instance of the recurring series this is
 }
 
+/**
+ * ReminderSchedule model for automatic push reminders on an unpaid debt
+ * e.g., 3 days after creation, then weekly until paid
+ */
+export interface ReminderSchedule {
+  enabled: boolean;                // Whether reminders are turned on for this debt
+  firstAfterDays: number;          // Days after the debt was created to send the first reminder
+  repeatEveryDays: number | null;  // Days between follow-up reminders (null to remind only once)
+}
+
+/**
+ * DebtPayment model representing a single (possibly partial) payment towards a debt
+ */
+export interface DebtPayment {
+  id: string;                // Client-generated payment ID
+  amount: number;            // Amount paid in the debt's currency
+  paidAt: string;            // ISO string timestamp when the payment was made
+  method?: string;           // Optional payment method type (e.g., 'venmo', 'cash')
+  note?: string;             // Optional note about the payment
+  source?: 'markPaid';       // Set on the payment that marking the debt as paid recorded
+}
+
+/**
+ * SharedDebtStatus type for the payment handshake between debtor and creditor
+ * - pending: the debtor hasn't paid yet
+ * - sent: the debtor says they've sent the money
+ * - confirmed: the creditor confirmed they received it
+ */
+export type SharedDebtStatus = 'pending' | 'sent' | 'confirmed';
+
+/**
+ * SharedDebt model for a debt linked to the debtor's Paid account.
+ * Stored in the top-level sharedDebts collection so both users can see it.
+ */
+export interface SharedDebt {
+  id?: string;               // `${creditorUid}_${debtId}`
+  debtId: string;            // ID of the debt under users/{creditorUid}/debts
+  creditorUid: string;       // ID of the user who is owed money
+  creditorUsername: string;  // Username of the user who is owed money
+  creditorName?: string;     // Display name of the user who is owed money
+  debtorUid: string;         // ID of the user who owes money
+  debtorUsername: string;    // Username of the user who owes money
+  amount: number;            // Amount owed in the debt's currency
+  currency?: CurrencyCode;   // ISO 4217 currency code (defaults to USD when missing)
+  paidAmount: number;        // Amount paid so far (mirrors the creditor's debt)
+  description?: string;      // Optional description of what the debt is for
+  isPaid: boolean;           // Whether the debt has been paid
+  status: SharedDebtStatus;  // Where the payment handshake is at
+  sentAt?: string | null;    // ISO string timestamp when the debtor marked it as sent
+  confirmedAt?: string | null; // ISO string timestamp when the creditor confirmed payment
+  createdAt: string;         // ISO string timestamp when the debt was shared
+  updatedAt: string;         // ISO string timestamp when last updated
+}
+
+/**
+ * CurrencyCode type for supported ISO 4217 currencies
+ */
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'CAD' | 'AUD' | 'MXN' | 'INR' | 'CHF' | 'CNY';
+
 /**
  * RecurringFrequency type for recurring debts
+ * (custom repeats every interval of an intervalUnit, e.g. every 4 weeks)
+ */
+export type RecurringFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom';
+
+/**
+ * RecurrenceUnit type for the interval of a custom recurring frequency
  */
-export type RecurringFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+export type RecurrenceUnit = 'day' | 'week' | 'month' | 'year';
 
 /**
  * RecurringDebt model for storing recurring debt templates
@@ -36,7 +122,8 @@ export interface RecurringDebt {
   id?: string;               // Auto-generated Firestore ID
   userId: string;            // ID of the user who is owed money
   debtorName: string;        // Name of the person who owes money
-  amount: number;            // Amount owed in dollars
+  amount: number;            // Amount owed in the debt's currency
+  currency?: CurrencyCode;   // ISO 4217 currency code (defaults to USD when missing)
   description?: string;      // Optional description of what the debt is for
   phoneNumber?: string;      // Optional phone number for contact/reminders
   groupId?: string;          // Optional reference to parent debt group
@@ -45,13 +132,19 @@ export interface RecurringDebt {
 
   // Recurring specific fields
   frequency: RecurringFrequency; // How often the debt recurs
+  interval?: number;         // Number of intervalUnits between instances (custom frequency only)
+  intervalUnit?: RecurrenceUnit; // Unit of the interval (custom frequency only)
   startDate: string;         // ISO string timestamp when recurring starts
   endDate?: string;          // ISO string timestamp when recurring ends (optional)
-  dayOfMonth?: number;       // Day of month for monthly/quarterly/yearly frequency
-  dayOfWeek?: number;        // Day of week for weekly/biweekly frequency (0-6, Sunday is 0)
+  occurrenceCount?: number | null; // Number of instances before the series ends (null for no limit)
+  dayOfMonth?: number;       // Day of month for frequencies counted in months (31 for the last day of every month)
+  dayOfWeek?: number;        // Day of week for frequencies counted in weeks (0-6, Sunday is 0)
+  timeZone?: string;         // IANA time zone the days are counted in (UTC when missing)
+  gracePeriodDays?: number | null; // Days after each instance is generated until it's due (null for no due date)
   lastGeneratedDate: string; // ISO string timestamp when last instance was generated
   nextGenerationDate: string; // ISO string timestamp when next instance should be generated
   isActive: boolean;         // Whether the recurring series is active
+  skippedDates?: string[];   // ISO dates of occurrences the user skipped
   generatedDebtIds: string[]; // References to all generated debt instances
 }
 
@@ -61,10 +154,44 @@ export interface RecurringDebt {
 export interface RecurringOptions {
   isRecurring: boolean;
   frequency: RecurringFrequency;
+  interval?: number;
+  intervalUnit?: RecurrenceUnit;
   startDate: Date;
   endDate: Date | null;
+  occurrenceCount?: number | null;
   dayOfMonth?: number;
   dayOfWeek?: number;
+  gracePeriodDays?: number | null;
+}
+
+/**
+ * DebtGroupMode type for how a group's money flows
+ * - owedToMe: every member owes the user (the default)
+ * - sharedExpenses: any member can pay for an expense and balances are netted
+ */
+export type DebtGroupMode = 'owedToMe' | 'sharedExpenses';
+
+/**
+ * GroupExpense model for an expense paid by one member of a shared expense group
+ */
+export interface GroupExpense {
+  id: string;                // Client-generated expense ID
+  description: string;       // What the expense was for
+  amount: number;            // Amount paid in the group's currency
+  paidBy: string;            // Name of the member who paid
+  splitBetween: string[];    // Names of the members sharing the expense (everyone when empty)
+  createdAt: string;         // ISO string timestamp when the expense was added
+}
+
+/**
+ * GroupSettlement model for money one member of a shared expense group paid another outside the app
+ */
+export interface GroupSettlement {
+  id: string;                // Client-generated settlement ID
+  from: string;              // Name of the member who paid
+  to: string;                // Name of the member who got paid
+  amount: number;            // Amount paid in the group's currency
+  settledAt: string;         // ISO string timestamp when the settlement was recorded
 }
 
 /**
@@ -78,9 +205,18 @@ export interface DebtGroup {
   updatedAt: string;         // ISO string timestamp when last updated
   isCompleted: boolean;      // Whether all debts in the group are paid
   totalAmount: number;       // Sum of all debts in the group
-  paidAmount: number;        // Sum of paid debts in the group
+  currency?: CurrencyCode;   // Currency shared by all debts in the group (defaults to USD)
+  paidAmount: number;        // Sum of payments made towards debts in the group
+  dueDate?: string | null;   // ISO string timestamp when the group's debts are due (optional)
   debtIds: string[];         // Array of IDs of debts that belong to this group
   userId: string;            // ID of the user who is owed money
+  receiptId?: string;        // Reference to the scanned receipt the group was split from
+  
+  // Shared expense fields
+  mode?: DebtGroupMode;      // How money flows in the group (defaults to owedToMe)
+  members?: string[];        // Names of everyone in a shared expense group, including "You"
+  expenses?: GroupExpense[]; // Expenses paid by members of a shared expense group
+  settlements?: GroupSettlement[]; // Payments between members recorded from the settle-up list
   
   // Recurring group fields
   isRecurring?: boolean;
@@ -89,16 +225,36 @@ export interface DebtGroup {
   
   // Recurring template fields (if this group is a recurring template)
   frequency?: RecurringFrequency;
+  interval?: number;
+  intervalUnit?: RecurrenceUnit;
   startDate?: string;
   endDate?: string;
+  occurrenceCount?: number | null;
   dayOfMonth?: number;
   dayOfWeek?: number;
+  timeZone?: string;
+  gracePeriodDays?: number | null;
   lastGeneratedDate?: string;
   nextGenerationDate?: string;
   isActive?: boolean;
+  skippedDates?: string[];
   generatedGroupIds?: string[];
 }
 
+/**
+ * DebtSummary model for a user's totals, stored at users/{uid}/summary/debts.
+ * Kept up to date by the onDebtWrite Cloud Function whenever one of the user's debts changes,
+ * and by the refreshDebtSummaries Cloud Function once refreshAt has passed.
+ */
+export interface DebtSummary {
+  totalOwed: Partial<Record<CurrencyCode, number>>;     // Unpaid balances, by currency
+  overdueCount: number;      // Unpaid debts past their due date
+  paidThisMonth: Partial<Record<CurrencyCode, number>>; // Payments received this month, by currency
+  month: string;             // Month paidThisMonth covers (YYYY-MM, UTC)
+  refreshAt: string;         // ISO date the next due date passes or the next month starts
+  updatedAt: string;         // ISO string timestamp when the summary was calculated
+}
+
 /**
  * User model
  */
@@ -107,14 +263,18 @@ export interface User {
   email: string;             // User's email
   username: string;          // Username
   createdAt: string;         // ISO string timestamp when user was created
+  updatedAt?: string;        // ISO string timestamp when the user document was last updated
   profile?: {
     name?: string;
     backgroundImageUrl?: string;
     location?: string;
     preferredPaymentMethod?: string; // Preferred payment method type (e.g., 'venmo', 'paypal')
+    homeCurrency?: CurrencyCode; // Currency that totals are converted to (defaults to USD)
+    updatedAt?: string;      // ISO string timestamp when the profile was last updated
   };
   profileImageUrl?: string;
   paymentMethods?: PaymentMethod[];
+  expoPushTokens?: string[]; // Expo push tokens of the user's devices (for reminders)
 }
 
 /**
@@ -124,4 +284,63 @@ export interface PaymentMethod {
   type: string;              // Type of payment method (e.g., 'venmo', 'paypal')
   value: string;             // Username or identifier for the payment method
   valueType?: string;        // Optional additional type information
-} 
\ No newline at end of file
+} 
+
+/**
+ * ReceiptLineItem model for one line of a scanned receipt and who it's split between
+ */
+export interface ReceiptLineItem {
+  id: string;                // Client-generated item ID
+  name: string;              // Item name as read from the receipt
+  price: number;             // Price of one unit
+  quantity: number;          // Number of units
+  split: boolean;            // Whether the item is included in the split
+  assignedTo: string | null; // Person ID of the single assignee (older assignments)
+  splitBetween: string[];    // Person IDs sharing the item
+}
+
+/**
+ * ReceiptPerson model for someone a receipt was split with
+ */
+export interface ReceiptPerson {
+  id: string;                // Client-generated person ID ("1" is the user)
+  name: string;
+  phoneNumber?: string;
+  debtId?: string;           // Debt created for this person's share
+}
+
+/**
+ * ReceiptPageImage model for one photo of a receipt taken in several shots
+ */
+export interface ReceiptPageImage {
+  path: string;              // Storage path of the photo
+  url: string;               // Download URL of the photo
+}
+
+/**
+ * Receipt model for a scanned receipt, stored at users/{uid}/receipts/{receiptId}.
+ * Keeps everything needed to show the receipt again and reopen its split.
+ */
+export interface Receipt {
+  id?: string;               // Auto-generated Firestore ID
+  userId: string;            // ID of the user who scanned the receipt
+  store: string;             // Store or restaurant name
+  date: string | null;       // Purchase date as printed on the receipt
+  description: string;       // Description given to the resulting debts
+  currency: CurrencyCode;
+  imagePath?: string | null; // Storage path of the receipt photo
+  imageUrl?: string | null;  // Download URL of the receipt photo
+  pageImages?: ReceiptPageImage[]; // Every photo, top first, when the receipt took more than one
+  items: ReceiptLineItem[];
+  people: ReceiptPerson[];
+  tax: number | null;
+  tip: number | null;
+  extraFees: number | null;
+  subtotal: number;          // Sum of the items included in the split
+  total: number;             // Subtotal plus charges
+  allocationSettings: AllocationSettings; // How tax, tip and fees were split
+  debtIds: string[];         // IDs of the debts created from the receipt
+  groupId?: string | null;   // Group the debts were created in (when split with more than one person)
+  createdAt: string;         // ISO string timestamp when the receipt was saved
+  updatedAt: string;         // ISO string timestamp when the split was last changed
+}
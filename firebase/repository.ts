@@ -0,0 +1,172 @@
+import {
+  collection,
+  CollectionReference,
+  doc,
+  DocumentReference,
+  getDoc,
+  onSnapshot,
+  orderBy,
+  query,
+} from 'firebase/firestore';
+
+import { db } from '@/firebase/config';
+import {
+  debtConverter,
+  debtGroupConverter,
+  receiptConverter,
+  recurringDebtConverter,
+  userConverter,
+} from '@/firebase/converters';
+import { RepositoryError, toRepositoryError } from '@/firebase/errors';
+import type { Debt, DebtGroup, Receipt, RecurringDebt, User } from '@/firebase/models';
+
+/**
+ * Typed reads of the user's Firestore data.
+ * Documents are validated against their model as they're read, after fields that older app
+ * versions stored in another shape are fixed: get functions throw a ValidationError for an
+ * invalid document, and listeners skip invalid documents with a warning.
+ * Firestore errors are wrapped in a RepositoryError.
+ */
+
+const debtsCollection = (userId: string) => {
+  return collection(db, 'users', userId, 'debts').withConverter(debtConverter);
+};
+
+const debtGroupsCollection = (userId: string) => {
+  return collection(db, 'users', userId, 'debtGroups').withConverter(debtGroupConverter);
+};
+
+const recurringDebtsCollection = (userId: string) => {
+  return collection(db, 'users', userId, 'recurringDebts').withConverter(recurringDebtConverter);
+};
+
+const receiptsCollection = (userId: string) => {
+  return collection(db, 'users', userId, 'receipts').withConverter(receiptConverter);
+};
+
+const getDocument = async <T>(ref: DocumentReference<T>): Promise<T | null> => {
+  try {
+    const snapshot = await getDoc(ref);
+    return snapshot.exists() ? snapshot.data() : null;
+  } catch (error) {
+    console.error(`Error fetching ${ref.path}:`, error);
+    throw toRepositoryError(error, ref.path);
+  }
+};
+
+const subscribeToCollection = <T>(
+  ref: CollectionReference<T>,
+  onChange: (documents: T[]) => void,
+  onError?: (error: RepositoryError) => void
+): (() => void) => {
+  const q = query(ref, orderBy('createdAt', 'desc'));
+
+  return onSnapshot(q, (querySnapshot) => {
+    const documents = querySnapshot.docs.flatMap(snapshot => {
+      try {
+        return [snapshot.data()];
+      } catch (error) {
+        console.warn(`Skipping invalid document ${snapshot.ref.path}:`, error);
+        return [];
+      }
+    });
+    onChange(documents);
+  }, (error) => {
+    console.error(`Error listening to ${ref.path}:`, error);
+    if (onError) onError(toRepositoryError(error, ref.path));
+  });
+};
+
+/**
+ * Get a debt by ID
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the debt
+ * @returns {Promise<Debt|null>} The debt, or null if it doesn't exist
+ */
+export const getDebt = (userId: string, debtId: string) => {
+  return getDocument(doc(debtsCollection(userId), debtId));
+};
+
+/**
+ * Listen to all debts for a user, newest first
+ * @param {string} userId - ID of the user whose debts to watch
+ * @param {Function} onChange - Called with the debts whenever they change
+ * @param {Function} [onError] - Called if the listener fails
+ * @returns {Function} Unsubscribe function
+ */
+export const subscribeToDebts = (
+  userId: string,
+  onChange: (debts: Debt[]) => void,
+  onError?: (error: RepositoryError) => void
+) => {
+  return subscribeToCollection(debtsCollection(userId), onChange, onError);
+};
+
+/**
+ * Get a debt group by ID, without its debts
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} groupId - ID of the debt group
+ * @returns {Promise<DebtGroup|null>} The debt group, or null if it doesn't exist
+ */
+export const getDebtGroup = (userId: string, groupId: string) => {
+  return getDocument(doc(debtGroupsCollection(userId), groupId));
+};
+
+/**
+ * Listen to all debt groups for a user, newest first (without their debts)
+ * @param {string} userId - ID of the user who is owed money
+ * @param {Function} onChange - Called with the debt groups whenever they change
+ * @param {Function} [onError] - Called if the listener fails
+ * @returns {Function} Unsubscribe function
+ */
+export const subscribeToDebtGroups = (
+  userId: string,
+  onChange: (groups: DebtGroup[]) => void,
+  onError?: (error: RepositoryError) => void
+) => {
+  return subscribeToCollection(debtGroupsCollection(userId), onChange, onError);
+};
+
+/**
+ * Get a recurring debt template by ID
+ * @param {string} userId - ID of the user
+ * @param {string} recurringId - ID of the recurring debt template
+ * @returns {Promise<RecurringDebt|null>} The template, or null if it doesn't exist
+ */
+export const getRecurringDebt = (userId: string, recurringId: string) => {
+  return getDocument(doc(recurringDebtsCollection(userId), recurringId));
+};
+
+/**
+ * Listen to all recurring debt templates for a user, newest first
+ * @param {string} userId - ID of the user
+ * @param {Function} onChange - Called with the templates whenever they change
+ * @param {Function} [onError] - Called if the listener fails
+ * @returns {Function} Unsubscribe function
+ */
+export const subscribeToRecurringDebts = (
+  userId: string,
+  onChange: (recurringDebts: RecurringDebt[]) => void,
+  onError?: (error: RepositoryError) => void
+) => {
+  return subscribeToCollection(recurringDebtsCollection(userId), onChange, onError);
+};
+
+/**
+ * Get a saved receipt by ID
+ * @param {string} userId - ID of the user
+ * @param {string} receiptId - ID of the receipt
+ * @returns {Promise<Receipt|null>} The receipt, or null if it doesn't exist
+ */
+export const getReceipt = (userId: string, receiptId: string) => {
+  return getDocument(doc(receiptsCollection(userId), receiptId));
+};
+
+/**
+ * Get a user's document
+ * @param {string} userId - ID of the user
+ * @returns {Promise<User|null>} The user, or null if they have no document yet
+ */
+export const getUser = (userId: string): Promise<User | null> => {
+  return getDocument(doc(db, 'users', userId).withConverter(userConverter));
+};
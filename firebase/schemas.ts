@@ -0,0 +1,352 @@
+import { FieldValue } from 'firebase/firestore';
+
+import type { ValidationIssue } from '@/firebase/errors';
+import type {
+  Debt,
+  DebtGroup,
+  DebtPayment,
+  GroupExpense,
+  GroupSettlement,
+  PaymentMethod,
+  Receipt,
+  ReceiptLineItem,
+  ReceiptPageImage,
+  ReceiptPerson,
+  RecurringDebt,
+  ReminderSchedule,
+  User,
+} from '@/firebase/models';
+import type { AllocationSettings, ChargeStrategy } from '@/utils/receiptAllocation';
+import { CURRENCY_CODES } from '@/utils/currency';
+
+/**
+ * Runtime schemas for the Firestore models in models.ts.
+ * A schema lists every field of its model, so adding a field to a model without
+ * adding it here is a type error. Fields that aren't in the schema are left alone.
+ */
+
+/**
+ * Checks a value and returns the problems with it (none when it's valid)
+ */
+export type Validator = (value: unknown, path: string) => ValidationIssue[];
+
+interface FieldRule<Optional extends boolean> {
+  validate: Validator;
+  optional: Optional;
+}
+
+/**
+ * A rule for every field of a model except its ID. Fields that are optional in the
+ * model must use optional() and required fields must use required().
+ */
+export type Schema<T> = {
+  [K in keyof Omit<T, 'id'>]-?: undefined extends T[K] ? FieldRule<true> : FieldRule<false>;
+};
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value;
+};
+
+const expect = (expected: string, test: (value: unknown) => boolean): Validator => {
+  return (value, path) => test(value) ? [] : [{ path, message: `Expected ${expected}, got ${describe(value)}` }];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const string = expect('a string', value => typeof value === 'string');
+export const number = expect('a number', value => typeof value === 'number' && Number.isFinite(value));
+export const boolean = expect('a boolean', value => typeof value === 'boolean');
+export const dateString = expect('an ISO date string', value => typeof value === 'string' && !isNaN(Date.parse(value)));
+
+export const oneOf = (values: readonly string[]): Validator => {
+  return expect(`one of ${values.join(', ')}`, value => values.includes(value as string));
+};
+
+export const nullable = (validator: Validator): Validator => {
+  return (value, path) => value === null ? [] : validator(value, path);
+};
+
+export const arrayOf = (validator: Validator): Validator => {
+  return (value, path) => Array.isArray(value)
+    ? value.flatMap((item, index) => validator(item, `${path}[${index}]`))
+    : [{ path, message: `Expected an array, got ${describe(value)}` }];
+};
+
+export const objectOf = <T>(schema: Schema<T>): Validator => {
+  return (value, path) => isRecord(value)
+    ? validateFields(schema, value, { prefix: `${path}.` })
+    : [{ path, message: `Expected an object, got ${describe(value)}` }];
+};
+
+export const required = (validate: Validator): FieldRule<false> => ({ validate, optional: false });
+export const optional = (validate: Validator): FieldRule<true> => ({ validate, optional: true });
+
+interface ValidateOptions {
+  partial?: boolean;         // Only check the fields that are present (for updates and merges)
+  prefix?: string;           // Prepended to field paths in issues
+}
+
+/**
+ * Check an object's fields against a schema.
+ * Optional fields may be missing or null, and FieldValue sentinels (e.g. arrayUnion) aren't checked.
+ * @param {Schema} schema - Schema to check against
+ * @param {Object} data - Fields to check
+ * @param {ValidateOptions} options - Whether missing required fields are allowed
+ * @returns {ValidationIssue[]} Problems found, empty when the data is valid
+ */
+export const validateFields = <T>(
+  schema: Schema<T>,
+  data: Record<string, unknown>,
+  { partial = false, prefix = '' }: ValidateOptions = {}
+): ValidationIssue[] => {
+  const rules = schema as Record<string, FieldRule<boolean>>;
+
+  return Object.keys(rules).flatMap(field => {
+    const rule = rules[field];
+    const value = data[field];
+    const path = `${prefix}${field}`;
+
+    if (value === undefined || (value === null && rule.optional)) {
+      return partial || rule.optional ? [] : [{ path, message: 'Required' }];
+    }
+    if (value instanceof FieldValue) return [];
+
+    return rule.validate(value, path);
+  });
+};
+
+/**
+ * Drop optional fields stored as null when their model doesn't allow null
+ * (older code writes e.g. paidAt: null and groupId: null instead of leaving them out)
+ * @param {Schema} schema - Schema of the document
+ * @param {Object} data - Fields read from Firestore
+ * @returns {Object} The fields without the nulls
+ */
+export const dropNullFields = <T>(schema: Schema<T>, data: Record<string, unknown>): Record<string, unknown> => {
+  const rules = schema as Record<string, FieldRule<boolean>>;
+
+  return Object.fromEntries(Object.entries(data).filter(([field, value]) => {
+    const rule = rules[field];
+    return !(value === null && rule?.optional && rule.validate(null, field).length > 0);
+  }));
+};
+
+const currency = oneOf(CURRENCY_CODES);
+const frequency = oneOf(['daily', 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly', 'custom']);
+const intervalUnit = oneOf(['day', 'week', 'month', 'year']);
+
+const debtPaymentSchema: Schema<DebtPayment> = {
+  amount: required(number),
+  paidAt: required(dateString),
+  method: optional(string),
+  note: optional(string),
+  source: optional(oneOf(['markPaid'])),
+};
+
+const reminderScheduleSchema: Schema<ReminderSchedule> = {
+  enabled: required(boolean),
+  firstAfterDays: required(number),
+  repeatEveryDays: required(nullable(number)),
+};
+
+const groupExpenseSchema: Schema<GroupExpense> = {
+  description: required(string),
+  amount: required(number),
+  paidBy: required(string),
+  splitBetween: required(arrayOf(string)),
+  createdAt: required(dateString),
+};
+
+const groupSettlementSchema: Schema<GroupSettlement> = {
+  from: required(string),
+  to: required(string),
+  amount: required(number),
+  settledAt: required(dateString),
+};
+
+const paymentMethodSchema: Schema<PaymentMethod> = {
+  type: required(string),
+  value: required(string),
+  valueType: optional(string),
+};
+
+// Payments, expenses, settlements and receipt lines keep their client-generated IDs inside the document
+const withId = (validator: Validator): Validator => {
+  return (value, path) => [
+    ...(isRecord(value) ? string(value.id, `${path}.id`) : []),
+    ...validator(value, path),
+  ];
+};
+
+export const debtSchema: Schema<Debt> = {
+  debtorName: required(string),
+  amount: required(number),
+  currency: optional(currency),
+  description: optional(string),
+  phoneNumber: optional(string),
+  createdAt: required(dateString),
+  updatedAt: required(dateString),
+  isPaid: required(boolean),
+  paidAt: optional(dateString),
+  dueDate: optional(nullable(dateString)),
+  userId: required(string),
+  groupId: optional(string),
+  receiptId: optional(string),
+  lastWriteId: optional(string),
+  sharedDebtId: optional(string),
+  debtorUid: optional(string),
+  debtorUsername: optional(string),
+  payments: optional(arrayOf(withId(objectOf(debtPaymentSchema)))),
+  paidAmount: optional(number),
+  reminderSchedule: optional(objectOf(reminderScheduleSchema)),
+  nextReminderAt: optional(nullable(dateString)),
+  lastReminderAt: optional(dateString),
+  reminderCount: optional(number),
+  isRecurring: optional(boolean),
+  recurringId: optional(string),
+  recurringInstanceIndex: optional(number),
+};
+
+export const debtGroupSchema: Schema<DebtGroup> = {
+  name: required(string),
+  description: optional(string),
+  createdAt: required(dateString),
+  updatedAt: required(dateString),
+  isCompleted: required(boolean),
+  totalAmount: required(number),
+  currency: optional(currency),
+  paidAmount: required(number),
+  dueDate: optional(nullable(dateString)),
+  debtIds: required(arrayOf(string)),
+  userId: required(string),
+  receiptId: optional(string),
+  mode: optional(oneOf(['owedToMe', 'sharedExpenses'])),
+  members: optional(arrayOf(string)),
+  expenses: optional(arrayOf(withId(objectOf(groupExpenseSchema)))),
+  settlements: optional(arrayOf(withId(objectOf(groupSettlementSchema)))),
+  isRecurring: optional(boolean),
+  recurringId: optional(string),
+  recurringInstanceIndex: optional(number),
+  frequency: optional(frequency),
+  interval: optional(number),
+  intervalUnit: optional(intervalUnit),
+  startDate: optional(dateString),
+  endDate: optional(dateString),
+  occurrenceCount: optional(nullable(number)),
+  dayOfMonth: optional(number),
+  dayOfWeek: optional(number),
+  timeZone: optional(string),
+  gracePeriodDays: optional(nullable(number)),
+  lastGeneratedDate: optional(dateString),
+  nextGenerationDate: optional(dateString),
+  isActive: optional(boolean),
+  skippedDates: optional(arrayOf(dateString)),
+  generatedGroupIds: optional(arrayOf(string)),
+};
+
+export const recurringDebtSchema: Schema<RecurringDebt> = {
+  userId: required(string),
+  debtorName: required(string),
+  amount: required(number),
+  currency: optional(currency),
+  description: optional(string),
+  phoneNumber: optional(string),
+  groupId: optional(string),
+  createdAt: required(dateString),
+  updatedAt: required(dateString),
+  frequency: required(frequency),
+  interval: optional(number),
+  intervalUnit: optional(intervalUnit),
+  startDate: required(dateString),
+  endDate: optional(dateString),
+  occurrenceCount: optional(nullable(number)),
+  dayOfMonth: optional(number),
+  dayOfWeek: optional(number),
+  timeZone: optional(string),
+  gracePeriodDays: optional(nullable(number)),
+  lastGeneratedDate: required(dateString),
+  nextGenerationDate: required(dateString),
+  isActive: required(boolean),
+  skippedDates: optional(arrayOf(dateString)),
+  generatedDebtIds: required(arrayOf(string)),
+};
+
+const receiptLineItemSchema: Schema<ReceiptLineItem> = {
+  name: required(string),
+  price: required(number),
+  quantity: required(number),
+  split: required(boolean),
+  assignedTo: required(nullable(string)),
+  splitBetween: required(arrayOf(string)),
+};
+
+const receiptPersonSchema: Schema<ReceiptPerson> = {
+  name: required(string),
+  phoneNumber: optional(string),
+  debtId: optional(string),
+};
+
+const receiptPageImageSchema: Schema<ReceiptPageImage> = {
+  path: required(string),
+  url: required(string),
+};
+
+const chargeStrategySchema: Schema<ChargeStrategy> = {
+  method: required(oneOf(['equal', 'proportional', 'fixed'])),
+  exemptPersonIds: required(arrayOf(string)),
+  fixedAmount: optional(number),
+};
+
+const allocationSettingsSchema: Schema<AllocationSettings> = {
+  tax: required(objectOf(chargeStrategySchema)),
+  tip: required(objectOf(chargeStrategySchema)),
+  extraFees: required(objectOf(chargeStrategySchema)),
+  tipPercentage: required(nullable(number)),
+};
+
+export const receiptSchema: Schema<Receipt> = {
+  userId: required(string),
+  store: required(string),
+  date: required(nullable(string)),
+  description: required(string),
+  currency: required(currency),
+  imagePath: optional(nullable(string)),
+  imageUrl: optional(nullable(string)),
+  pageImages: optional(arrayOf(objectOf(receiptPageImageSchema))),
+  items: required(arrayOf(withId(objectOf(receiptLineItemSchema)))),
+  people: required(arrayOf(withId(objectOf(receiptPersonSchema)))),
+  tax: required(nullable(number)),
+  tip: required(nullable(number)),
+  extraFees: required(nullable(number)),
+  subtotal: required(number),
+  total: required(number),
+  allocationSettings: required(objectOf(allocationSettingsSchema)),
+  debtIds: required(arrayOf(string)),
+  groupId: optional(nullable(string)),
+  createdAt: required(dateString),
+  updatedAt: required(dateString),
+};
+
+const userProfileSchema: Schema<NonNullable<User['profile']>> = {
+  name: optional(string),
+  backgroundImageUrl: optional(string),
+  location: optional(string),
+  preferredPaymentMethod: optional(string),
+  homeCurrency: optional(currency),
+  updatedAt: optional(dateString),
+};
+
+export const userSchema: Schema<User> = {
+  email: required(string),
+  username: required(string),
+  createdAt: required(dateString),
+  updatedAt: optional(dateString),
+  profile: optional(objectOf(userProfileSchema)),
+  profileImageUrl: optional(string),
+  paymentMethods: optional(arrayOf(objectOf(paymentMethodSchema))),
+  expoPushTokens: optional(arrayOf(string)),
+};
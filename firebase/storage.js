@@ -95,6 +95,19 @@ export const uploadBackgroundImage = async (userId, uri, onProgress = undefined)
   return await uploadImage(uri, path, onProgress);
 };
 
+/**
+ * Upload a receipt photo to Firebase Storage so the scanReceipt Cloud Function can read it
+ * @param {string} userId - User ID
+ * @param {string} uri - Local URI of the image
+ * @param {Function} [onProgress] - Optional progress callback
+ * @returns {Promise<{path: string, url: string}>} - Storage path and download URL of the uploaded image
+ */
+export const uploadReceiptImage = async (userId, uri, onProgress = undefined) => {
+  const path = `receipts/${userId}/${Date.now()}-${uri.split('/').pop()}`;
+  const url = await uploadImage(uri, path, onProgress);
+  return { path, url };
+};
+
 /**
  * Delete all storage files associated with a user
  * @param {string} userId - User ID
@@ -132,6 +145,20 @@ export const deleteUserStorageFiles = async (userId) => {
       console.log('No background images found or error deleting them:', error);
     }
     
+    // Delete receipt photos
+    const receiptsRef = ref(storage, `receipts/${userId}`);
+    try {
+      const receiptList = await listAll(receiptsRef);
+      const receiptDeletions = receiptList.items.map(itemRef => {
+        return deleteObject(itemRef);
+      });
+      await Promise.all(receiptDeletions);
+      console.log(`Deleted ${receiptDeletions.length} receipt photos`);
+    } catch (error) {
+      // Ignore errors if the folder doesn't exist
+      console.log('No receipt photos found or error deleting them:', error);
+    }
+    
     console.log('Successfully deleted all user storage files');
   } catch (error) {
     console.error('Error deleting user storage files:', error);
@@ -0,0 +1,58 @@
+const { calculateDebtSummary } = require('../aggregates');
+
+const TODAY = new Date('2026-03-10T09:00:00.000Z');
+
+const debt = (overrides = {}) => ({
+  debtorName: 'Sam',
+  amount: 20,
+  currency: 'USD',
+  isPaid: false,
+  ...overrides
+});
+
+describe('calculateDebtSummary', () => {
+  it('adds up unpaid balances and payments this month by currency', () => {
+    const summary = calculateDebtSummary([
+      debt({ payments: [{ id: 'payment-1', amount: 5, paidAt: '2026-03-02T10:00:00.000Z' }] }),
+      debt({ amount: 1000, currency: 'JPY' }),
+      debt({ isPaid: true, paidAt: '2026-03-05T10:00:00.000Z' }),
+      debt({ isPaid: true, paidAt: '2026-02-05T10:00:00.000Z' })
+    ], TODAY);
+
+    expect(summary).toMatchObject({
+      totalOwed: { USD: 15, JPY: 1000 },
+      paidThisMonth: { USD: 25 },
+      month: '2026-03'
+    });
+  });
+
+  it('counts unpaid debts past their due date as overdue', () => {
+    const summary = calculateDebtSummary([
+      debt({ dueDate: '2026-03-01T00:00:00.000Z' }),
+      debt({ dueDate: '2026-03-01T00:00:00.000Z', isPaid: true, paidAt: '2026-03-02T10:00:00.000Z' }),
+      debt({ dueDate: '2026-03-20T00:00:00.000Z' })
+    ], TODAY);
+
+    expect(summary.overdueCount).toBe(1);
+  });
+
+  it('refreshes when the next unpaid debt falls due', () => {
+    const summary = calculateDebtSummary([
+      debt({ dueDate: '2026-03-01T00:00:00.000Z' }),
+      debt({ dueDate: '2026-03-25T00:00:00.000Z' }),
+      debt({ dueDate: '2026-03-20T00:00:00.000Z' }),
+      debt({ dueDate: '2026-03-15T00:00:00.000Z', isPaid: true, paidAt: '2026-03-02T10:00:00.000Z' })
+    ], TODAY);
+
+    expect(summary.refreshAt).toBe('2026-03-20T00:00:00.000Z');
+  });
+
+  it('refreshes at the start of next month when no due date comes first', () => {
+    const summary = calculateDebtSummary([
+      debt({ dueDate: '2027-01-15T00:00:00.000Z' }),
+      debt({ dueDate: 'not a date' })
+    ], new Date('2026-12-31T23:00:00.000Z'));
+
+    expect(summary.refreshAt).toBe('2027-01-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,265 @@
+const {
+  MAX_CATCH_UP_OCCURRENCES,
+  getDueOccurrences,
+  getNextOccurrence,
+  getOccurrencesAfter
+} = require('../recurrence');
+
+const monthly = (overrides = {}) => ({
+  frequency: 'monthly',
+  startDate: '2026-01-31T09:00:00.000Z',
+  ...overrides
+});
+
+describe('getNextOccurrence', () => {
+  describe('month ends', () => {
+    it('moves to the last day of shorter months without drifting', () => {
+      const rule = monthly();
+
+      expect(getOccurrencesAfter(rule, '2026-01-01T00:00:00.000Z', 4)).toEqual([
+        '2026-01-31T09:00:00.000Z',
+        '2026-02-28T09:00:00.000Z',
+        '2026-03-31T09:00:00.000Z',
+        '2026-04-30T09:00:00.000Z'
+      ]);
+    });
+
+    it('falls on February 29 in leap years', () => {
+      const rule = monthly({ startDate: '2028-01-31T09:00:00.000Z' });
+
+      expect(getNextOccurrence(rule, rule.startDate)).toBe('2028-02-29T09:00:00.000Z');
+    });
+
+    it('uses dayOfMonth over the start date, starting the next month once it has passed', () => {
+      const rule = monthly({ startDate: '2026-01-20T09:00:00.000Z', dayOfMonth: 10 });
+
+      expect(getNextOccurrence(rule, '2026-01-01T00:00:00.000Z')).toBe('2026-02-10T09:00:00.000Z');
+    });
+
+    it('keeps yearly series started on February 29 at the end of February', () => {
+      const rule = { frequency: 'yearly', startDate: '2028-02-29T09:00:00.000Z' };
+
+      expect(getNextOccurrence(rule, rule.startDate)).toBe('2029-02-28T09:00:00.000Z');
+    });
+  });
+
+  describe('dayOfWeek', () => {
+    // March 4, 2026 is a Wednesday
+    const weekly = (overrides = {}) => ({
+      frequency: 'weekly',
+      startDate: '2026-03-04T09:00:00.000Z',
+      dayOfWeek: 1,
+      ...overrides
+    });
+
+    it('starts on the first chosen weekday on or after the start date', () => {
+      expect(getOccurrencesAfter(weekly(), '2026-03-01T00:00:00.000Z', 2)).toEqual([
+        '2026-03-09T09:00:00.000Z',
+        '2026-03-16T09:00:00.000Z'
+      ]);
+      expect(getNextOccurrence(weekly({ dayOfWeek: 3 }), '2026-03-01T00:00:00.000Z')).toBe('2026-03-04T09:00:00.000Z');
+    });
+
+    it('steps biweekly and custom weekly series from the chosen weekday', () => {
+      expect(getOccurrencesAfter(weekly({ frequency: 'biweekly' }), '2026-03-01T00:00:00.000Z', 2)).toEqual([
+        '2026-03-09T09:00:00.000Z',
+        '2026-03-23T09:00:00.000Z'
+      ]);
+      const custom = weekly({ frequency: 'custom', interval: 3, intervalUnit: 'week', dayOfWeek: 5 });
+      expect(getOccurrencesAfter(custom, '2026-03-01T00:00:00.000Z', 2)).toEqual([
+        '2026-03-06T09:00:00.000Z',
+        '2026-03-27T09:00:00.000Z'
+      ]);
+    });
+
+    it('ignores dayOfWeek for series that are not counted in weeks', () => {
+      const rule = { frequency: 'daily', startDate: '2026-03-04T09:00:00.000Z', dayOfWeek: 1 };
+
+      expect(getNextOccurrence(rule, '2026-03-01T00:00:00.000Z')).toBe('2026-03-04T09:00:00.000Z');
+    });
+  });
+
+  describe('time zones', () => {
+    it('counts days on the calendar of the time zone', () => {
+      // 10pm on January 30 in New York is already January 31 in UTC
+      const rule = monthly({ startDate: '2026-01-31T03:00:00.000Z', timeZone: 'America/New_York' });
+
+      expect(getOccurrencesAfter(rule, '2026-01-01T00:00:00.000Z', 2)).toEqual([
+        '2026-01-31T03:00:00.000Z',
+        '2026-03-01T03:00:00.000Z'
+      ]);
+      expect(getNextOccurrence({ ...rule, timeZone: null }, rule.startDate)).toBe('2026-02-28T03:00:00.000Z');
+    });
+
+    it('keeps the local time of day across daylight saving changes', () => {
+      // Midnight in New York, which moves from UTC-5 to UTC-4 on March 8, 2026
+      const rule = { frequency: 'weekly', startDate: '2026-03-02T05:00:00.000Z', timeZone: 'America/New_York' };
+
+      expect(getOccurrencesAfter(rule, '2026-03-01T00:00:00.000Z', 3)).toEqual([
+        '2026-03-02T05:00:00.000Z',
+        '2026-03-09T04:00:00.000Z',
+        '2026-03-16T04:00:00.000Z'
+      ]);
+    });
+
+    it('compares the end date by calendar day in the time zone', () => {
+      // The end date is 8pm on February 28 in New York, and the second occurrence is 10pm the same day
+      const rule = monthly({
+        startDate: '2026-01-31T03:00:00.000Z',
+        timeZone: 'America/New_York',
+        endDate: '2026-03-01T01:00:00.000Z'
+      });
+
+      expect(getNextOccurrence(rule, rule.startDate)).toBe('2026-03-01T03:00:00.000Z');
+      expect(getNextOccurrence(rule, '2026-03-01T03:00:00.000Z')).toBeNull();
+    });
+
+    it('falls back to UTC for an unknown time zone', () => {
+      const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const rule = monthly({ timeZone: 'Mars/Olympus_Mons' });
+
+      expect(getNextOccurrence(rule, rule.startDate)).toBe('2026-02-28T09:00:00.000Z');
+      expect(consoleWarn).toHaveBeenCalledWith('Unknown time zone Mars/Olympus_Mons, using UTC');
+      consoleWarn.mockRestore();
+    });
+  });
+
+  describe('skippedDates', () => {
+    it('moves past skipped occurrences', () => {
+      const rule = monthly({ skippedDates: ['2026-02-28T09:00:00.000Z', '2026-03-31T09:00:00.000Z'] });
+
+      expect(getNextOccurrence(rule, rule.startDate)).toBe('2026-04-30T09:00:00.000Z');
+    });
+
+    it('ends the series when the last occurrence is skipped', () => {
+      const rule = monthly({ occurrenceCount: 2, skippedDates: ['2026-02-28T09:00:00.000Z'] });
+
+      expect(getNextOccurrence(rule, rule.startDate)).toBeNull();
+    });
+  });
+
+  describe('occurrenceCount', () => {
+    it('ends the series after occurrenceCount occurrences', () => {
+      const rule = monthly({ occurrenceCount: 3 });
+
+      expect(getOccurrencesAfter(rule, '2026-01-01T00:00:00.000Z', 10)).toEqual([
+        '2026-01-31T09:00:00.000Z',
+        '2026-02-28T09:00:00.000Z',
+        '2026-03-31T09:00:00.000Z'
+      ]);
+      expect(getNextOccurrence(rule, '2026-03-31T09:00:00.000Z')).toBeNull();
+    });
+
+    it('counts skipped occurrences', () => {
+      const rule = monthly({ occurrenceCount: 3, skippedDates: ['2026-02-28T09:00:00.000Z'] });
+
+      expect(getOccurrencesAfter(rule, '2026-01-01T00:00:00.000Z', 10)).toEqual([
+        '2026-01-31T09:00:00.000Z',
+        '2026-03-31T09:00:00.000Z'
+      ]);
+    });
+
+    it('counts the start date when it is not on the chosen day', () => {
+      const rule = monthly({ startDate: '2026-10-19T09:00:00.000Z', dayOfMonth: 15, occurrenceCount: 3 });
+
+      // The start date's instance is created with the series, so two occurrences follow it
+      expect(getOccurrencesAfter(rule, rule.startDate, 10)).toEqual([
+        '2026-11-15T09:00:00.000Z',
+        '2026-12-15T09:00:00.000Z'
+      ]);
+      expect(getNextOccurrence({ ...rule, occurrenceCount: 1 }, rule.startDate)).toBeNull();
+    });
+
+    it('counts the same number of instances whether or not the start date is on the chosen day', () => {
+      const offDay = monthly({ startDate: '2026-10-19T09:00:00.000Z', dayOfMonth: 15, occurrenceCount: 3 });
+      const onDay = { ...offDay, dayOfMonth: 19 };
+      const now = new Date('2028-01-01T00:00:00.000Z');
+
+      [offDay, onDay].forEach(rule => {
+        const { dueDates } = getDueOccurrences(rule, getNextOccurrence(rule, rule.startDate), now);
+        expect([rule.startDate, ...dueDates]).toHaveLength(3);
+      });
+    });
+
+    it('ends at whichever of endDate and occurrenceCount comes first', () => {
+      const rule = monthly({ occurrenceCount: 5, endDate: '2026-02-28T00:00:00.000Z' });
+
+      expect(getOccurrencesAfter(rule, '2026-01-01T00:00:00.000Z', 10)).toEqual([
+        '2026-01-31T09:00:00.000Z',
+        '2026-02-28T09:00:00.000Z'
+      ]);
+    });
+  });
+});
+
+describe('getDueOccurrences', () => {
+  const daily = (overrides = {}) => ({
+    frequency: 'daily',
+    startDate: '2026-01-01T09:00:00.000Z',
+    ...overrides
+  });
+
+  it('returns nothing before the next occurrence is due', () => {
+    const result = getDueOccurrences(daily(), '2026-01-05T09:00:00.000Z', new Date('2026-01-05T08:59:59.000Z'));
+
+    expect(result).toEqual({ dueDates: [], nextGenerationDate: '2026-01-05T09:00:00.000Z' });
+  });
+
+  it('catches up on every occurrence missed since the last run', () => {
+    const result = getDueOccurrences(monthly(), '2026-01-31T09:00:00.000Z', new Date('2026-04-01T00:00:00.000Z'));
+
+    expect(result).toEqual({
+      dueDates: ['2026-01-31T09:00:00.000Z', '2026-02-28T09:00:00.000Z', '2026-03-31T09:00:00.000Z'],
+      nextGenerationDate: '2026-04-30T09:00:00.000Z'
+    });
+  });
+
+  it('stops at the catch-up limit and leaves the rest for the next run', () => {
+    const now = new Date('2026-06-01T00:00:00.000Z');
+
+    const first = getDueOccurrences(daily(), '2026-01-01T09:00:00.000Z', now);
+    expect(first.dueDates).toHaveLength(MAX_CATCH_UP_OCCURRENCES);
+    expect(first.dueDates[MAX_CATCH_UP_OCCURRENCES - 1]).toBe('2026-01-31T09:00:00.000Z');
+    expect(first.nextGenerationDate).toBe('2026-02-01T09:00:00.000Z');
+
+    const second = getDueOccurrences(daily(), first.nextGenerationDate, now, 5);
+    expect(second.dueDates).toEqual([
+      '2026-02-01T09:00:00.000Z',
+      '2026-02-02T09:00:00.000Z',
+      '2026-02-03T09:00:00.000Z',
+      '2026-02-04T09:00:00.000Z',
+      '2026-02-05T09:00:00.000Z'
+    ]);
+    expect(second.nextGenerationDate).toBe('2026-02-06T09:00:00.000Z');
+  });
+
+  it('leaves out skipped occurrences but moves past them', () => {
+    const rule = daily({ skippedDates: ['2026-01-02T09:00:00.000Z'] });
+
+    const result = getDueOccurrences(rule, '2026-01-01T09:00:00.000Z', new Date('2026-01-03T12:00:00.000Z'));
+
+    expect(result).toEqual({
+      dueDates: ['2026-01-01T09:00:00.000Z', '2026-01-03T09:00:00.000Z'],
+      nextGenerationDate: '2026-01-04T09:00:00.000Z'
+    });
+  });
+
+  it('ends the series after occurrenceCount occurrences', () => {
+    const rule = daily({ occurrenceCount: 3 });
+
+    const result = getDueOccurrences(rule, '2026-01-01T09:00:00.000Z', new Date('2026-02-01T00:00:00.000Z'));
+
+    expect(result).toEqual({
+      dueDates: ['2026-01-01T09:00:00.000Z', '2026-01-02T09:00:00.000Z', '2026-01-03T09:00:00.000Z'],
+      nextGenerationDate: null
+    });
+  });
+
+  it('creates nothing once the next generation date is past the end date', () => {
+    const rule = daily({ endDate: '2026-01-03T00:00:00.000Z' });
+
+    const result = getDueOccurrences(rule, '2026-01-04T09:00:00.000Z', new Date('2026-02-01T00:00:00.000Z'));
+
+    expect(result).toEqual({ dueDates: [], nextGenerationDate: null });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * processDueReminders against the Firestore emulator.
+ * Needs the functions dependencies installed (cd functions && npm install), then run
+ * from the project root with: npm run test:emulator
+ * Skipped when FIRESTORE_EMULATOR_HOST isn't set.
+ */
+
+const { processDueReminders } = require('../reminders');
+
+const PROJECT_ID = 'demo-paid';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TODAY = new Date('2026-03-10T09:00:00.000Z');
+
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('processDueReminders (Firestore emulator)', () => {
+  let app;
+  let db;
+
+  beforeAll(() => {
+    const admin = require('firebase-admin');
+    app = admin.initializeApp({ projectId: PROJECT_ID }, 'reminders-test');
+    db = app.firestore();
+  });
+
+  afterAll(async () => {
+    await app.delete();
+  });
+
+  beforeEach(async () => {
+    await fetch(
+      `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+      { method: 'DELETE' }
+    );
+    await db.collection('users').doc('creditor').set({ username: 'creditor', expoPushTokens: ['ExponentPushToken[creditor]'] });
+  });
+
+  const dueDebt = (overrides = {}) => ({
+    userId: 'creditor',
+    debtorName: 'Sam',
+    amount: 20,
+    currency: 'USD',
+    isPaid: false,
+    createdAt: new Date(TODAY.getTime() - 2 * DAY_MS).toISOString(),
+    reminderSchedule: { enabled: true, firstAfterDays: 1, repeatEveryDays: 3 },
+    nextReminderAt: new Date(TODAY.getTime() - DAY_MS).toISOString(),
+    ...overrides
+  });
+
+  const addDebts = async (debts) => {
+    const debtsRef = db.collection('users').doc('creditor').collection('debts');
+    for (let i = 0; i < debts.length; i += 500) {
+      const batch = db.batch();
+      debts.slice(i, i + 500).forEach(debt => batch.set(debtsRef.doc(), debt));
+      await batch.commit();
+    }
+  };
+
+  const getDebts = async () => {
+    const snapshot = await db.collection('users').doc('creditor').collection('debts').get();
+    return snapshot.docs.map(doc => doc.data());
+  };
+
+  it('sends a due reminder and schedules the next one', async () => {
+    await addDebts([dueDebt()]);
+    const send = jest.fn().mockResolvedValue([]);
+
+    const result = await processDueReminders(db, TODAY, { send });
+
+    expect(result).toEqual({ processed: 1, sent: 1 });
+    expect(send).toHaveBeenCalledWith([
+      expect.objectContaining({ to: 'ExponentPushToken[creditor]', title: 'Remind Sam' })
+    ]);
+
+    const [debt] = await getDebts();
+    expect(debt.lastReminderAt).toBe(TODAY.toISOString());
+    expect(debt.reminderCount).toBe(1);
+    expect(debt.nextReminderAt).toBe(new Date(TODAY.getTime() + 3 * DAY_MS).toISOString());
+  });
+
+  it('stops reminders for paid debts without sending', async () => {
+    await addDebts([dueDebt({ isPaid: true })]);
+    const send = jest.fn().mockResolvedValue([]);
+
+    await processDueReminders(db, TODAY, { send });
+
+    expect(send).not.toHaveBeenCalled();
+    const [debt] = await getDebts();
+    expect(debt.nextReminderAt).toBeNull();
+  });
+
+  it('handles more due debts than fit in one batch', async () => {
+    await addDebts(Array.from({ length: 620 }, () => dueDebt()));
+    const send = jest.fn().mockResolvedValue([]);
+
+    const result = await processDueReminders(db, TODAY, { send });
+
+    expect(result).toEqual({ processed: 620, sent: 620 });
+    expect(send).toHaveBeenCalledTimes(2);
+    const debts = await getDebts();
+    expect(debts.every(debt => debt.reminderCount === 1)).toBe(true);
+  });
+
+  it('records reminders before sending them, so a failed send is not repeated', async () => {
+    await addDebts([dueDebt()]);
+    const send = jest.fn(async () => {
+      const [debt] = await getDebts();
+      expect(debt.lastReminderAt).toBe(TODAY.toISOString());
+      throw new Error('Expo push request failed with status 503');
+    });
+
+    await expect(processDueReminders(db, TODAY, { send })).rejects.toThrow('503');
+    expect(send).toHaveBeenCalledTimes(1);
+
+    // The next hourly run finds nothing due
+    const retrySend = jest.fn().mockResolvedValue([]);
+    const retry = await processDueReminders(db, new Date(TODAY.getTime() + 60 * 60 * 1000), { send: retrySend });
+    expect(retry.processed).toBe(0);
+    expect(retrySend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Debt aggregates kept up to date by the onDebtWrite Cloud Function:
+ * - each group's totalAmount, paidAmount, isCompleted and debtIds
+ * - each user's debt summary at users/{uid}/summary/debts, which the refreshDebtSummaries
+ *   Cloud Function also recalculates once a due date passes or a new month starts
+ *
+ * Everything here takes the Firestore instance as an argument so it can be run
+ * against the Firestore emulator:
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 node -e "
+ *     const admin = require('firebase-admin');
+ *     admin.initializeApp({ projectId: 'demo-paid' });
+ *     require('./aggregates').updateUserSummary(admin.firestore(), 'some-uid', new Date());"
+ */
+
+// Most times a summary is recalculated because another run wrote it first
+const MAX_SUMMARY_ATTEMPTS = 5;
+
+// gRPC status codes of a write whose precondition no longer holds
+const ALREADY_EXISTS = 6;
+const FAILED_PRECONDITION = 9;
+
+// Currencies without minor units (mirrors the decimals in utils/currency.ts)
+const ZERO_DECIMAL_CURRENCIES = ['JPY'];
+
+/**
+ * Convert an amount to integer minor units (mirrors toMinorUnits in utils/money.ts)
+ * @param {number} amount - Amount in major units
+ * @param {string} currency - ISO 4217 currency code
+ * @returns {number} Integer amount in minor units
+ */
+function toMinorUnits(amount, currency) {
+  const value = Number(amount);
+  if (!value || isNaN(value)) return 0;
+  return Math.round(parseFloat((value * getMinorUnitFactor(currency)).toFixed(6)));
+}
+
+function fromMinorUnits(minorUnits, currency) {
+  return minorUnits / getMinorUnitFactor(currency);
+}
+
+function getMinorUnitFactor(currency) {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency) ? 1 : 100;
+}
+
+/**
+ * Get how much has been paid towards a debt in minor units (mirrors getPaidAmount in utils/debtBalance.ts)
+ * @param {Object} debt - The debt
+ * @param {string} currency - Currency to count in
+ * @returns {number} Paid amount in minor units, never more than the debt amount
+ */
+function getPaidMinor(debt, currency) {
+  const amountMinor = toMinorUnits(debt.amount, currency);
+  if (debt.isPaid) return amountMinor;
+
+  const paymentsMinor = (debt.payments || []).reduce((sum, payment) => sum + toMinorUnits(payment.amount, currency), 0);
+  return Math.min(amountMinor, paymentsMinor);
+}
+
+/**
+ * Calculate a group's totals from its debts (mirrors calculateGroupTotals in firebase/firestore.js)
+ * @param {Array} debts - The group's debts, with their IDs
+ * @param {string} currency - The group's currency
+ * @returns {Object} totalAmount, paidAmount, isCompleted and debtIds
+ */
+function calculateGroupTotals(debts, currency) {
+  let totalMinor = 0;
+  let paidMinor = 0;
+
+  debts.forEach(debt => {
+    totalMinor += toMinorUnits(debt.amount, currency);
+    paidMinor += getPaidMinor(debt, currency);
+  });
+
+  return {
+    totalAmount: fromMinorUnits(totalMinor, currency),
+    paidAmount: fromMinorUnits(paidMinor, currency),
+    isCompleted: debts.every(debt => debt.isPaid),
+    debtIds: debts.map(debt => debt.id).sort()
+  };
+}
+
+/**
+ * Calculate a user's debt summary.
+ * Amounts are kept per currency since exchange rates only live on the device.
+ * @param {Array} debts - All of the user's debts
+ * @param {Date} today - Current date
+ * @returns {Object} totalOwed, overdueCount, paidThisMonth, month, and refreshAt (when the next
+ * due date passes or the next month starts, so the summary changes without a debt being written)
+ */
+function calculateDebtSummary(debts, today) {
+  const month = today.toISOString().slice(0, 7);
+  const owedMinor = {};
+  const paidMinor = {};
+  let overdueCount = 0;
+  let refreshTime = Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1);
+
+  const addTo = (totals, currency, minorUnits) => {
+    if (minorUnits > 0) {
+      totals[currency] = (totals[currency] || 0) + minorUnits;
+    }
+  };
+
+  debts.forEach(debt => {
+    const currency = debt.currency || 'USD';
+    const amountMinor = toMinorUnits(debt.amount, currency);
+
+    if (!debt.isPaid) {
+      addTo(owedMinor, currency, amountMinor - getPaidMinor(debt, currency));
+
+      const dueTime = debt.dueDate ? new Date(debt.dueDate).getTime() : NaN;
+      if (dueTime < today.getTime()) {
+        overdueCount++;
+      } else if (dueTime < refreshTime) {
+        refreshTime = dueTime;
+      }
+    }
+
+    // Payments made this month, or the whole amount for paid debts without a payment ledger
+    if (debt.payments && debt.payments.length > 0) {
+      debt.payments
+        .filter(payment => String(payment.paidAt || '').startsWith(month))
+        .forEach(payment => addTo(paidMinor, currency, toMinorUnits(payment.amount, currency)));
+    } else if (debt.isPaid && String(debt.paidAt || '').startsWith(month)) {
+      addTo(paidMinor, currency, amountMinor);
+    }
+  });
+
+  const toAmounts = (totals) => Object.fromEntries(
+    Object.entries(totals).map(([currency, minorUnits]) => [currency, fromMinorUnits(minorUnits, currency)])
+  );
+
+  return {
+    totalOwed: toAmounts(owedMinor),
+    overdueCount,
+    paidThisMonth: toAmounts(paidMinor),
+    month,
+    refreshAt: new Date(refreshTime).toISOString()
+  };
+}
+
+// Whether a stored document already has the calculated values
+function hasValues(data, values) {
+  return Object.keys(values).every(key => JSON.stringify(data[key]) === JSON.stringify(values[key]));
+}
+
+/**
+ * Recalculate a group's totals from the debts that point at it.
+ * The group's updatedAt is left alone so clients don't mistake this for a change to the group.
+ * @param {Object} db - Firestore instance
+ * @param {string} userId - ID of the user who owns the group
+ * @param {string} groupId - ID of the group
+ * @returns {Promise<boolean>} Whether the group was updated
+ */
+async function updateGroupAggregates(db, userId, groupId) {
+  const groupRef = db.doc(`users/${userId}/debtGroups/${groupId}`);
+  const debtsQuery = db.collection(`users/${userId}/debts`).where('groupId', '==', groupId);
+
+  return db.runTransaction(async (transaction) => {
+    const groupSnap = await transaction.get(groupRef);
+    if (!groupSnap.exists) return false;
+
+    const debtsSnap = await transaction.get(debtsQuery);
+    const debts = debtsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+    const group = groupSnap.data();
+    const totals = calculateGroupTotals(debts, group.currency);
+    const storedDebtIds = Array.isArray(group.debtIds) ? [...group.debtIds].sort() : group.debtIds;
+    if (hasValues({ ...group, debtIds: storedDebtIds }, totals)) return false;
+
+    transaction.update(groupRef, totals);
+    return true;
+  });
+}
+
+/**
+ * Recalculate a user's debt summary from all of their debts.
+ * The debts aren't read in a transaction, since a bulk import sets off a run for every debt and
+ * they would all contend on the same documents. Instead the summary is only written if no other
+ * run has written it since it was read, and is recalculated otherwise.
+ * Once the user's profile is deleted the summary is deleted rather than recreated.
+ * @param {Object} db - Firestore instance
+ * @param {string} userId - ID of the user
+ * @param {Date} today - Current date
+ * @returns {Promise<boolean>} Whether the summary was updated
+ */
+async function updateUserSummary(db, userId, today) {
+  const userRef = db.doc(`users/${userId}`);
+  const summaryRef = db.doc(`users/${userId}/summary/debts`);
+  const debtsQuery = db.collection(`users/${userId}/debts`);
+
+  for (let attempt = 1; ; attempt++) {
+    const [userSnap, summarySnap] = await db.getAll(userRef, summaryRef);
+    const unchangedSince = { lastUpdateTime: summarySnap.updateTime };
+
+    try {
+      if (!userSnap.exists) {
+        if (!summarySnap.exists) return false;
+        await summaryRef.delete(unchangedSince);
+        return true;
+      }
+
+      const debtsSnap = await debtsQuery.get();
+      const summary = calculateDebtSummary(debtsSnap.docs.map(doc => doc.data()), today);
+      if (summarySnap.exists && hasValues(summarySnap.data(), summary)) return false;
+
+      const data = { ...summary, updatedAt: today.toISOString() };
+      if (summarySnap.exists) {
+        await summaryRef.update(data, unchangedSince);
+      } else {
+        await summaryRef.create(data);
+      }
+      return true;
+    } catch (error) {
+      const conflict = error.code === ALREADY_EXISTS || error.code === FAILED_PRECONDITION;
+      if (!conflict || attempt >= MAX_SUMMARY_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Recalculate the summaries that have changed with time rather than with a debt being written,
+ * because a due date has passed or a new month has started
+ * @param {Object} db - Firestore instance
+ * @param {Date} today - Current date
+ * @returns {Promise<Object>} Number of summaries processed and updated
+ */
+async function refreshUserSummaries(db, today) {
+  const snapshot = await db.collectionGroup('summary')
+    .where('refreshAt', '<=', today.toISOString())
+    .get();
+  let updated = 0;
+
+  for (const doc of snapshot.docs) {
+    const userId = doc.ref.parent.parent.id;
+    try {
+      if (await updateUserSummary(db, userId, today)) {
+        updated++;
+      }
+    } catch (error) {
+      console.error(`Error refreshing debt summary for user ${userId}:`, error);
+    }
+  }
+
+  return { processed: snapshot.size, updated };
+}
+
+/**
+ * Update the aggregates affected by a debt being created, changed or deleted
+ * @param {Object} db - Firestore instance
+ * @param {string} userId - ID of the user who is owed money
+ * @param {Object|null} before - The debt before the write (null when created)
+ * @param {Object|null} after - The debt after the write (null when deleted)
+ * @param {Date} today - Current date
+ * @returns {Promise<void>}
+ */
+async function handleDebtWrite(db, userId, before, after, today) {
+  // A debt moved between groups changes both of them
+  const groupIds = new Set([before && before.groupId, after && after.groupId].filter(Boolean));
+
+  for (const groupId of groupIds) {
+    await updateGroupAggregates(db, userId, groupId);
+  }
+
+  await updateUserSummary(db, userId, today);
+}
+
+module.exports = {
+  calculateGroupTotals,
+  calculateDebtSummary,
+  updateGroupAggregates,
+  updateUserSummary,
+  refreshUserSummaries,
+  handleDebtWrite
+};
@@ -4,6 +4,10 @@
 
 const functions = require('firebase-functions');
 const admin = require('firebase-admin');
+const { processDueReminders } = require('./reminders');
+const { handleDebtWrite, refreshUserSummaries } = require('./aggregates');
+const { getDueOccurrences } = require('./recurrence');
+const { ReceiptOcrError, scanReceipt } = require('./receiptOcr');
 
 // Initialize Firebase admin
 admin.initializeApp();
@@ -34,7 +38,132 @@ exports.generateRecurringDebts = functions.pubsub
   });
 
 /**
- * Process individual recurring debts
+ * Scheduled function that runs hourly to send debt reminder push notifications
+ */
+exports.sendDebtReminders = functions.pubsub
+  .schedule('every 1 hours')
+  .onRun(async (context) => {
+    const db = admin.firestore();
+    const today = new Date();
+    console.log(`Running debt reminders at ${today.toISOString()}`);
+    
+    try {
+      const result = await processDueReminders(db, today);
+      return { success: true, ...result };
+    } catch (error) {
+      console.error('Error in sendDebtReminders function:', error);
+      throw error;
+    }
+  });
+
+/**
+ * Keep the parent group's totals and the user's debt summary correct whenever a debt
+ * is created, changed or deleted, whichever client or function made the change
+ */
+exports.onDebtWrite = functions.firestore
+  .document('users/{userId}/debts/{debtId}')
+  .onWrite(async (change, context) => {
+    const db = admin.firestore();
+    const { userId, debtId } = context.params;
+    const before = change.before.exists ? change.before.data() : null;
+    const after = change.after.exists ? change.after.data() : null;
+    
+    try {
+      await handleDebtWrite(db, userId, before, after, new Date());
+    } catch (error) {
+      console.error(`Error updating aggregates for debt ${debtId}:`, error);
+      throw error;
+    }
+  });
+
+/**
+ * Scheduled function that runs hourly to update the debt summaries whose overdue count or
+ * payments this month have changed since a debt was last written
+ */
+exports.refreshDebtSummaries = functions.pubsub
+  .schedule('every 1 hours')
+  .onRun(async (context) => {
+    const db = admin.firestore();
+    const today = new Date();
+    console.log(`Refreshing debt summaries at ${today.toISOString()}`);
+    
+    try {
+      const result = await refreshUserSummaries(db, today);
+      return { success: true, ...result };
+    } catch (error) {
+      console.error('Error in refreshDebtSummaries function:', error);
+      throw error;
+    }
+  });
+
+/**
+ * Delete the documents only Cloud Functions can write (the debt summary and usage counters)
+ * when a user deletes their account, since the app isn't allowed to delete them itself
+ */
+exports.onUserDelete = functions.auth.user().onDelete(async (user) => {
+  const db = admin.firestore();
+  const userRef = db.collection('users').doc(user.uid);
+  
+  try {
+    const refs = [
+      ...await userRef.collection('summary').listDocuments(),
+      ...await userRef.collection('usage').listDocuments()
+    ];
+    
+    const batch = db.batch();
+    refs.forEach(ref => batch.delete(ref));
+    await batch.commit();
+    console.log(`Deleted ${refs.length} function-owned documents for user ${user.uid}`);
+  } catch (error) {
+    console.error(`Error cleaning up data for deleted user ${user.uid}:`, error);
+    throw error;
+  }
+});
+
+/**
+ * Read a receipt photo the user uploaded to Storage and return its ReceiptData.
+ * Callers must be signed in, and scans count against a per-user rate limit and daily quota.
+ */
+exports.scanReceipt = functions
+  .runWith({ secrets: ['GROQ_API_KEY'], timeoutSeconds: 120, memory: '512MB' })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'You must be signed in to scan receipts');
+    }
+    
+    const userId = context.auth.uid;
+    
+    try {
+      return await scanReceipt(admin.firestore(), admin.storage().bucket(), userId, data && data.imagePath, {
+        apiKey: process.env.GROQ_API_KEY,
+        now: new Date()
+      });
+    } catch (error) {
+      if (error instanceof ReceiptOcrError) {
+        throw new functions.https.HttpsError(error.code, error.message);
+      }
+      console.error(`Error scanning receipt for user ${userId}:`, error);
+      throw new functions.https.HttpsError('internal', 'Failed to read the receipt');
+    }
+  });
+
+/**
+ * Get the due date of a generated recurring instance
+ * @param {string} scheduledDate - ISO date the instance was scheduled for
+ * @param {number|null} gracePeriodDays - Days until the instance is due (null or missing for no due date)
+ * @returns {string|null} ISO due date
+ */
+function getInstanceDueDate(scheduledDate, gracePeriodDays) {
+  if (gracePeriodDays === null || gracePeriodDays === undefined) return null;
+  
+  const dueDate = new Date(scheduledDate);
+  dueDate.setDate(dueDate.getDate() + Number(gracePeriodDays));
+  return dueDate.toISOString();
+}
+
+/**
+ * Process individual recurring debts, creating an instance for every occurrence
+ * that's come round since the last run
  */
 async function processRecurringDebts(db, today, now) {
   try {
@@ -46,125 +175,83 @@ async function processRecurringDebts(db, today, now) {
     const recurringDebtsSnapshot = await recurringDebtsQuery.get();
     console.log(`Found ${recurringDebtsSnapshot.size} recurring debts to process`);
     
-    // Process each recurring debt
-    const batch = db.batch();
-    const generatedDebts = [];
+    let generatedCount = 0;
     
     for (const doc of recurringDebtsSnapshot.docs) {
       const recurringDebt = doc.data();
-      const docPath = doc.ref.path;
       const userId = recurringDebt.userId;
       
       console.log(`Processing recurring debt ${doc.id} for user ${userId}`);
       
-      // Check if we've reached the end date
-      if (recurringDebt.endDate && new Date(recurringDebt.endDate) <= today) {
-        console.log(`Recurring debt ${doc.id} has reached its end date, marking as inactive`);
-        batch.update(doc.ref, { 
-          isActive: false,
-          updatedAt: now
-        });
-        continue;
-      }
-      
-      // Generate the next instance
       try {
-        // Create new debt document
-        const newDebtRef = db.collection(`users/${userId}/debts`).doc();
-        const instanceIndex = (recurringDebt.generatedDebtIds || []).length;
+        const { dueDates, nextGenerationDate } = getDueOccurrences(recurringDebt, recurringDebt.nextGenerationDate, today);
         
-        const newDebt = {
-          debtorName: recurringDebt.debtorName,
-          amount: recurringDebt.amount,
-          description: recurringDebt.description,
-          phoneNumber: recurringDebt.phoneNumber || '',
-          createdAt: now,
-          updatedAt: now,
-          isPaid: false,
-          userId: userId,
-          isRecurring: true,
-          recurringId: doc.id,
-          recurringInstanceIndex: instanceIndex
-        };
-        
-        // Add groupId if present in the recurring template
-        if (recurringDebt.groupId) {
-          newDebt.groupId = recurringDebt.groupId;
-        }
+        // Create the instances and move the template on together
+        const batch = db.batch();
+        const newDebtIds = [];
+        const firstIndex = (recurringDebt.generatedDebtIds || []).length;
         
-        batch.set(newDebtRef, newDebt);
-        generatedDebts.push({
-          id: newDebtRef.id,
-          userId,
-          recurringId: doc.id,
-          amount: recurringDebt.amount
+        dueDates.forEach((scheduledDate, i) => {
+          const newDebtRef = db.collection(`users/${userId}/debts`).doc();
+          
+          const newDebt = {
+            debtorName: recurringDebt.debtorName,
+            amount: recurringDebt.amount,
+            currency: recurringDebt.currency || 'USD',
+            description: recurringDebt.description,
+            phoneNumber: recurringDebt.phoneNumber || '',
+            createdAt: now,
+            updatedAt: now,
+            isPaid: false,
+            userId: userId,
+            isRecurring: true,
+            recurringId: doc.id,
+            recurringInstanceIndex: firstIndex + i
+          };
+          
+          // Add groupId if present in the recurring template
+          if (recurringDebt.groupId) {
+            newDebt.groupId = recurringDebt.groupId;
+          }
+          
+          // The instance is due a grace period after the date it was scheduled for
+          const dueDate = getInstanceDueDate(scheduledDate, recurringDebt.gracePeriodDays);
+          if (dueDate) {
+            newDebt.dueDate = dueDate;
+          }
+          
+          batch.set(newDebtRef, newDebt);
+          newDebtIds.push(newDebtRef.id);
         });
         
-        // Use current nextGenerationDate as the reference point for the next generation
-        // This ensures we follow the original schedule based on the start date
-        const currentNext = new Date(recurringDebt.nextGenerationDate);
+        const templateUpdate = { updatedAt: now };
         
-        // Calculate next generation date based on frequency
-        switch (recurringDebt.frequency) {
-          case 'daily':
-            currentNext.setDate(currentNext.getDate() + 1);
-            break;
-          case 'weekly':
-            currentNext.setDate(currentNext.getDate() + 7);
-            break;
-          case 'biweekly':
-            currentNext.setDate(currentNext.getDate() + 14);
-            break;
-          case 'monthly':
-            currentNext.setMonth(currentNext.getMonth() + 1);
-            break;
-          case 'quarterly':
-            currentNext.setMonth(currentNext.getMonth() + 3);
-            break;
-          case 'yearly':
-            currentNext.setFullYear(currentNext.getFullYear() + 1);
-            break;
+        if (newDebtIds.length > 0) {
+          Object.assign(templateUpdate, {
+            lastGeneratedDate: now,
+            generatedDebtIds: admin.firestore.FieldValue.arrayUnion(...newDebtIds)
+          });
         }
         
-        batch.update(doc.ref, {
-          lastGeneratedDate: now,
-          nextGenerationDate: currentNext.toISOString(),
-          generatedDebtIds: admin.firestore.FieldValue.arrayUnion(newDebtRef.id),
-          updatedAt: now
-        });
+        if (nextGenerationDate) {
+          templateUpdate.nextGenerationDate = nextGenerationDate;
+        } else {
+          console.log(`Recurring debt ${doc.id} has reached its end date, marking as inactive`);
+          templateUpdate.isActive = false;
+        }
         
-      } catch (err) {
-        console.error(`Error generating debt instance for recurring debt ${doc.id}:`, err);
-      }
-    }
-    
-    // Commit the batch
-    await batch.commit();
-    console.log(`Generated ${generatedDebts.length} new debt instances`);
-    
-    // Update group totals for group debts
-    for (const debt of generatedDebts) {
-      try {
-        const debtDoc = await db.collection(`users/${debt.userId}/debts`).doc(debt.id).get();
-        const debtData = debtDoc.data();
+        batch.update(doc.ref, templateUpdate);
         
-        if (debtData.groupId) {
-          // Update the group's totals
-          console.log(`Updating group ${debtData.groupId} for new debt ${debt.id}`);
-          
-          const groupRef = db.collection(`users/${debt.userId}/debtGroups`).doc(debtData.groupId);
-          await groupRef.update({
-            updatedAt: now,
-            totalAmount: admin.firestore.FieldValue.increment(debt.amount),
-            debtIds: admin.firestore.FieldValue.arrayUnion(debt.id)
-          });
-        }
+        // onDebtWrite updates the totals of any groups the new debts are in
+        await batch.commit();
+        generatedCount += newDebtIds.length;
       } catch (err) {
-        console.error(`Error updating group for debt ${debt.id}:`, err);
+        console.error(`Error generating debt instances for recurring debt ${doc.id}:`, err);
       }
     }
     
-    return { processed: generatedDebts.length };
+    console.log(`Generated ${generatedCount} new debt instances`);
+    return { processed: generatedCount };
   } catch (error) {
     console.error('Error processing recurring debts:', error);
     throw error;
@@ -172,7 +259,8 @@ async function processRecurringDebts(db, today, now) {
 }
 
 /**
- * Process recurring debt groups
+ * Process recurring debt groups, creating a group instance (with a copy of each of the
+ * template's debts) for every occurrence that's come round since the last run
  */
 async function processRecurringGroups(db, today, now) {
   try {
@@ -194,122 +282,119 @@ async function processRecurringGroups(db, today, now) {
       
       console.log(`Processing recurring group ${doc.id} for user ${userId}`);
       
-      // Check if we've reached the end date
-      if (recurringGroup.endDate && new Date(recurringGroup.endDate) <= today) {
-        console.log(`Recurring group ${doc.id} has reached its end date, marking as inactive`);
-        await doc.ref.update({ 
-          isActive: false,
-          updatedAt: now
-        });
-        continue;
-      }
-      
       try {
+        const { dueDates, nextGenerationDate } = getDueOccurrences(recurringGroup, recurringGroup.nextGenerationDate, today);
+        
+        if (dueDates.length === 0) {
+          // Every due occurrence was skipped, or the series has ended
+          if (nextGenerationDate) {
+            await doc.ref.update({ 
+              nextGenerationDate,
+              updatedAt: now
+            });
+          } else {
+            console.log(`Recurring group ${doc.id} has reached its end date, marking as inactive`);
+            await doc.ref.update({ 
+              isActive: false,
+              updatedAt: now
+            });
+          }
+          continue;
+        }
+        
         // Get all debts in this group
         const debtsQuery = db.collection(`users/${userId}/debts`)
           .where('groupId', '==', doc.id);
         const debtsSnapshot = await debtsQuery.get();
+        const firstIndex = (recurringGroup.generatedGroupIds || []).length;
         
-        // Create a new group as the recurring instance
-        const newGroupRef = db.collection(`users/${userId}/debtGroups`).doc();
-        const instanceIndex = (recurringGroup.generatedGroupIds || []).length;
-        
-        const newGroup = {
-          name: recurringGroup.name,
-          description: recurringGroup.description || '',
-          createdAt: now,
-          updatedAt: now,
-          isCompleted: false,
-          totalAmount: 0,
-          paidAmount: 0,
-          debtIds: [],
-          userId: userId,
-          isRecurring: true,
-          recurringId: doc.id,
-          recurringInstanceIndex: instanceIndex
-        };
-        
-        // Add the new group
-        await newGroupRef.set(newGroup);
-        
-        // Add all debts to the new group
-        const batch = db.batch();
-        let totalAmount = 0;
-        
-        for (const debtDoc of debtsSnapshot.docs) {
-          const debt = debtDoc.data();
+        for (let i = 0; i < dueDates.length; i++) {
+          const instanceIndex = firstIndex + i;
+          const dueDate = getInstanceDueDate(dueDates[i], recurringGroup.gracePeriodDays);
           
-          // Create a new debt for this instance
-          const newDebtRef = db.collection(`users/${userId}/debts`).doc();
-          const newDebt = {
-            debtorName: debt.debtorName,
-            amount: debt.amount,
-            description: debt.description || '',
-            phoneNumber: debt.phoneNumber || '',
+          // Create a new group as the recurring instance (onDebtWrite fills in its totals and debt IDs)
+          const batch = db.batch();
+          const newGroupRef = db.collection(`users/${userId}/debtGroups`).doc();
+          
+          const newGroup = {
+            name: recurringGroup.name,
+            description: recurringGroup.description || '',
             createdAt: now,
             updatedAt: now,
-            isPaid: false,
+            isCompleted: false,
+            totalAmount: 0,
+            paidAmount: 0,
+            currency: recurringGroup.currency || 'USD',
+            debtIds: [],
             userId: userId,
-            groupId: newGroupRef.id,
             isRecurring: true,
             recurringId: doc.id,
             recurringInstanceIndex: instanceIndex
           };
           
-          batch.set(newDebtRef, newDebt);
-          totalAmount += debt.amount;
-        }
-        
-        // Update the new group with the correct total amount and debt IDs
-        batch.update(newGroupRef, {
-          totalAmount: totalAmount
-        });
-        
-        // Use current nextGenerationDate as the reference point for the next generation
-        // This ensures we follow the original schedule based on the start date
-        const currentNext = new Date(recurringGroup.nextGenerationDate);
-        
-        // Calculate next generation date based on frequency
-        switch (recurringGroup.frequency) {
-          case 'daily':
-            currentNext.setDate(currentNext.getDate() + 1);
-            break;
-          case 'weekly':
-            currentNext.setDate(currentNext.getDate() + 7);
-            break;
-          case 'biweekly':
-            currentNext.setDate(currentNext.getDate() + 14);
-            break;
-          case 'monthly':
-            currentNext.setMonth(currentNext.getMonth() + 1);
-            break;
-          case 'quarterly':
-            currentNext.setMonth(currentNext.getMonth() + 3);
-            break;
-          case 'yearly':
-            currentNext.setFullYear(currentNext.getFullYear() + 1);
-            break;
+          if (dueDate) {
+            newGroup.dueDate = dueDate;
+          }
+          
+          batch.set(newGroupRef, newGroup);
+          
+          for (const debtDoc of debtsSnapshot.docs) {
+            const debt = debtDoc.data();
+            
+            // Create a new debt for this instance
+            const newDebtRef = db.collection(`users/${userId}/debts`).doc();
+            const newDebt = {
+              debtorName: debt.debtorName,
+              amount: debt.amount,
+              currency: debt.currency || recurringGroup.currency || 'USD',
+              description: debt.description || '',
+              phoneNumber: debt.phoneNumber || '',
+              createdAt: now,
+              updatedAt: now,
+              isPaid: false,
+              userId: userId,
+              groupId: newGroupRef.id,
+              isRecurring: true,
+              recurringId: doc.id,
+              recurringInstanceIndex: instanceIndex
+            };
+            
+            if (dueDate) {
+              newDebt.dueDate = dueDate;
+            }
+            
+            batch.set(newDebtRef, newDebt);
+          }
+          
+          // Move the template on with each instance, so a failure part way doesn't repeat instances
+          const isLast = i === dueDates.length - 1;
+          const following = isLast ? nextGenerationDate : dueDates[i + 1];
+          const templateUpdate = {
+            lastGeneratedDate: now,
+            generatedGroupIds: admin.firestore.FieldValue.arrayUnion(newGroupRef.id),
+            updatedAt: now
+          };
+          
+          if (following) {
+            templateUpdate.nextGenerationDate = following;
+          } else {
+            templateUpdate.isActive = false;
+          }
+          
+          batch.update(doc.ref, templateUpdate);
+          
+          // Commit all the changes
+          await batch.commit();
+          
+          generatedGroups.push({
+            id: newGroupRef.id,
+            userId,
+            recurringId: doc.id,
+            name: recurringGroup.name
+          });
         }
-        
-        batch.update(doc.ref, {
-          lastGeneratedDate: now,
-          nextGenerationDate: currentNext.toISOString(),
-          generatedGroupIds: admin.firestore.FieldValue.arrayUnion(newGroupRef.id),
-          updatedAt: now
-        });
-        
-        // Commit all the changes
-        await batch.commit();
-        
-        generatedGroups.push({
-          id: newGroupRef.id,
-          userId,
-          recurringId: doc.id,
-          name: recurringGroup.name
-        });
-        
       } catch (err) {
-        console.error(`Error generating group instance for recurring group ${doc.id}:`, err);
+        console.error(`Error generating group instances for recurring group ${doc.id}:`, err);
       }
     }
     
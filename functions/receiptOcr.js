@@ -0,0 +1,256 @@
+/**
+ * Receipt OCR for the scanReceipt callable Cloud Function.
+ *
+ * The app uploads the receipt photo to receipts/{uid}/ in Storage and calls scanReceipt
+ * with its path. The photo is read with Groq's vision model here, so the Groq API key
+ * never ships in the app (set it with `firebase functions:secrets:set GROQ_API_KEY`).
+ * Groq fetches the photo from a short-lived signed URL, since it only accepts base64
+ * images up to 4 MB; the functions service account needs the Service Account Token
+ * Creator role to sign it.
+ *
+ * Everything here takes the Firestore instance, the Storage bucket and fetch as
+ * arguments so it can be run against the emulators:
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 FIREBASE_STORAGE_EMULATOR_HOST=localhost:9199 node -e "
+ *     const admin = require('firebase-admin');
+ *     admin.initializeApp({ projectId: 'demo-paid', storageBucket: 'demo-paid.appspot.com' });
+ *     require('./receiptOcr').scanReceipt(admin.firestore(), admin.storage().bucket(), 'some-uid',
+ *       'receipts/some-uid/receipt.jpg', { apiKey: process.env.GROQ_API_KEY, now: new Date() })
+ *       .then(console.log);"
+ */
+
+const { validateReceiptData } = require('./receiptValidation');
+
+const GROQ_CHAT_URL = 'https://api.groq.com/openai/v1/chat/completions';
+const RECEIPT_MODEL = 'meta-llama/llama-4-maverick-17b-128e-instruct';
+
+// Responses that don't match ReceiptData are sent back once with their problems
+const MAX_ATTEMPTS = 2;
+
+// Scans allowed per user in a short window, and per UTC day
+const RATE_LIMIT = { windowMs: 60 * 1000, maxScans: 5 };
+const DAILY_QUOTA = 50;
+
+// Largest photo that will be sent to the model, the upload limit in storage.rules
+// (Groq fetches images of up to 20 MB from a URL)
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+
+// How long Groq has to fetch the photo
+const IMAGE_URL_TTL_MS = 5 * 60 * 1000;
+
+const RECEIPT_PROMPT = `
+You are a receipt OCR assistant. Extract the following information from the receipt image in JSON format:
+1. Store or restaurant name
+2. Date of purchase (if available)
+3. All items with their names and prices
+4. Subtotal
+5. Tax amount (if available)
+6. Tip amount (if available)
+7. Extra fees amount (if available, for service charges, included gratuity, delivery fees, etc.)
+8. Total amount
+
+Return ONLY a valid JSON object with these fields:
+{
+  "store": "string",
+  "date": "string or null",
+  "items": [
+    {
+      "name": "string",
+      "price": number,
+      "quantity": number (default to 1 if not specified)
+    }
+  ],
+  "subtotal": number,
+  "tax": number or null,
+  "tip": number or null,
+  "extraFees": number or null,
+  "total": number
+}
+
+IMPORTANT:
+- If tax or tip amounts are not clearly visible or specified on the receipt, return null for those fields. DO NOT calculate them.
+- For "extraFees", include any service charges, delivery fees, included gratuity, or other miscellaneous fees that are not tax or tip.
+- "price" is the price of one unit; when a line shows a quantity, divide its amount by the quantity.
+- Make sure all prices are non-negative numbers.
+`;
+
+/**
+ * An error the caller can act on, with the HTTPS error code to report it with
+ */
+class ReceiptOcrError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'ReceiptOcrError';
+    this.code = code;
+  }
+}
+
+/**
+ * Count a scan against the user's rate limit and daily quota
+ * @param {FirebaseFirestore.Firestore} db - Firestore instance
+ * @param {string} userId - User scanning the receipt
+ * @param {Date} now - Current time
+ * @throws {ReceiptOcrError} resource-exhausted when the user has scanned too many receipts
+ */
+async function recordScan(db, userId, now) {
+  const usageRef = db.collection('users').doc(userId).collection('usage').doc('receiptOcr');
+  const today = now.toISOString().slice(0, 10);
+
+  await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(usageRef);
+    const usage = snapshot.exists ? snapshot.data() : {};
+
+    const windowStart = usage.windowStart && now.getTime() - new Date(usage.windowStart).getTime() < RATE_LIMIT.windowMs
+      ? usage.windowStart
+      : now.toISOString();
+    const windowCount = windowStart === usage.windowStart ? usage.windowCount || 0 : 0;
+    const dayCount = usage.day === today ? usage.dayCount || 0 : 0;
+
+    if (windowCount >= RATE_LIMIT.maxScans) {
+      throw new ReceiptOcrError('resource-exhausted', 'Too many receipts scanned at once. Please wait a minute and try again.');
+    }
+    if (dayCount >= DAILY_QUOTA) {
+      throw new ReceiptOcrError('resource-exhausted', `You can scan up to ${DAILY_QUOTA} receipts a day. Please try again tomorrow.`);
+    }
+
+    transaction.set(usageRef, {
+      windowStart,
+      windowCount: windowCount + 1,
+      day: today,
+      dayCount: dayCount + 1,
+      updatedAt: now.toISOString(),
+    });
+  });
+}
+
+/**
+ * Check an uploaded receipt photo and get a signed URL the model can read it from
+ * @param {Object} bucket - Storage bucket the photo was uploaded to
+ * @param {string} imagePath - Path of the photo in the bucket
+ * @param {Date} now - Current time
+ * @returns {Promise<string>} Signed URL of the photo
+ */
+async function getReceiptImageUrl(bucket, imagePath, now) {
+  const file = bucket.file(imagePath);
+  const [exists] = await file.exists();
+  if (!exists) {
+    throw new ReceiptOcrError('not-found', 'The receipt photo was not uploaded');
+  }
+
+  const [metadata] = await file.getMetadata();
+  if (Number(metadata.size) > MAX_IMAGE_BYTES) {
+    throw new ReceiptOcrError('invalid-argument', 'The receipt photo is too large');
+  }
+
+  const [url] = await file.getSignedUrl({
+    version: 'v4',
+    action: 'read',
+    expires: now.getTime() + IMAGE_URL_TTL_MS,
+  });
+  return url;
+}
+
+/**
+ * Ask the model for the receipt's JSON
+ * @param {Object[]} messages - Chat messages so far
+ * @param {Object} options - apiKey and fetch
+ * @returns {Promise<string>} The model's response
+ */
+async function requestCompletion(messages, { apiKey, fetch }) {
+  const response = await fetch(GROQ_CHAT_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: RECEIPT_MODEL,
+      messages,
+      response_format: { type: 'json_object' },
+      temperature: 0.3,
+      max_completion_tokens: 1024,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Groq request failed with status ${response.status}: ${await response.text()}`);
+  }
+
+  const completion = await response.json();
+  return (completion.choices && completion.choices[0].message.content) || '';
+}
+
+function readResponse(content) {
+  try {
+    return validateReceiptData(JSON.parse(content));
+  } catch (error) {
+    return { data: null, issues: [{ path: 'response', message: 'Expected a JSON object' }] };
+  }
+}
+
+/**
+ * Read an uploaded receipt photo into ReceiptData, retrying once with the
+ * validation problems when the model's response doesn't match
+ * @param {FirebaseFirestore.Firestore} db - Firestore instance
+ * @param {Object} bucket - Storage bucket the photo was uploaded to
+ * @param {string} userId - User scanning the receipt
+ * @param {string} imagePath - Path of the photo, which must be under receipts/{userId}/
+ * @param {Object} options - apiKey, now, and fetch (defaults to the global fetch)
+ * @returns {Promise<Object>} The receipt
+ */
+async function scanReceipt(db, bucket, userId, imagePath, { apiKey, now, fetch = globalThis.fetch }) {
+  if (typeof imagePath !== 'string' || !imagePath.startsWith(`receipts/${userId}/`) || imagePath.includes('..')) {
+    throw new ReceiptOcrError('invalid-argument', 'imagePath must be a receipt photo uploaded by the user');
+  }
+  if (!apiKey) {
+    throw new Error('GROQ_API_KEY is not set');
+  }
+
+  // Photos that are missing or too large don't count against the quota
+  const imageUrl = await getReceiptImageUrl(bucket, imagePath, now);
+  await recordScan(db, userId, now);
+
+  const messages = [
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: RECEIPT_PROMPT },
+        { type: 'image_url', image_url: { url: imageUrl } },
+      ],
+    },
+  ];
+
+  for (let attempt = 1; ; attempt++) {
+    const content = await requestCompletion(messages, { apiKey, fetch });
+    const { data, issues } = readResponse(content);
+
+    if (data) return data;
+
+    console.warn(`Receipt ${imagePath} failed validation (attempt ${attempt}):`, issues);
+
+    if (attempt >= MAX_ATTEMPTS) {
+      throw new ReceiptOcrError(
+        'unavailable',
+        `The receipt couldn't be read (${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')})`
+      );
+    }
+
+    // Ask the model to correct its own response
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `That JSON doesn't match the required format:\n${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}\n` +
+          'Look at the receipt again and return ONLY the corrected JSON object with every field in the format above.',
+      }
+    );
+  }
+}
+
+module.exports = {
+  DAILY_QUOTA,
+  RATE_LIMIT,
+  ReceiptOcrError,
+  recordScan,
+  scanReceipt,
+};
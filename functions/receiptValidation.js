@@ -0,0 +1,115 @@
+/**
+ * Runtime checks for receipts read by OCR, shared by the scanReceipt Cloud Function and the app.
+ * Everything here is pure (no Firebase), so the app imports this file directly.
+ * OCR output is coerced where the intent is clear (e.g. "12.50" for 12.5) without guessing
+ * at missing values, then checked against the ReceiptData shape.
+ */
+
+/**
+ * @typedef {Object} ReceiptValidationIssue
+ * @property {string} path - Field with the problem, e.g. items[0].price
+ * @property {string} message - What's wrong with it
+ */
+
+function isRecord(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Turn an amount written as a string (e.g. "$1,204.50" or "3,99") into a number
+ * @param {*} value - The amount
+ * @returns {*} The number, or the value unchanged if it isn't a numeric string
+ */
+function coerceAmount(value) {
+  if (typeof value !== 'string') return value;
+
+  const trimmed = value.replace(/[$€£¥\s]/g, '');
+  // A comma followed by exactly two digits at the end is a decimal comma
+  const normalized = /^-?\d+,\d{2}$/.test(trimmed) ? trimmed.replace(',', '.') : trimmed.replace(/,/g, '');
+
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? parseFloat(normalized) : value;
+}
+
+// Optional charges may be left out, or written as an empty string, when there are none
+function coerceCharge(value) {
+  return value === undefined || value === '' ? null : coerceAmount(value);
+}
+
+function checkAmount(value, path, issues, { nullable = false } = {}) {
+  if (value === null && nullable) return;
+  if (value === undefined) {
+    issues.push({ path, message: 'Required' });
+  } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: `Expected a number, got ${value === null ? 'null' : typeof value}` });
+  } else if (value < 0) {
+    issues.push({ path, message: 'Expected a non-negative number' });
+  }
+}
+
+/**
+ * Coerce and validate OCR output as ReceiptData
+ * @param {*} raw - Parsed OCR output
+ * @returns {{ data: Object|null, issues: ReceiptValidationIssue[] }} The coerced receipt (null unless
+ * it's valid) and the problems found
+ */
+function validateReceiptData(raw) {
+  if (!isRecord(raw)) {
+    return { data: null, issues: [{ path: 'receipt', message: 'Expected an object' }] };
+  }
+
+  const issues = [];
+  const data = {
+    store: raw.store === undefined || raw.store === null ? '' : raw.store,
+    date: raw.date === undefined || raw.date === '' ? null : raw.date,
+    items: raw.items,
+    subtotal: coerceAmount(raw.subtotal),
+    tax: coerceCharge(raw.tax),
+    tip: coerceCharge(raw.tip),
+    extraFees: coerceCharge(raw.extraFees),
+    total: coerceAmount(raw.total),
+  };
+
+  if (typeof data.store !== 'string') {
+    issues.push({ path: 'store', message: 'Expected a string' });
+  }
+  if (data.date !== null && typeof data.date !== 'string') {
+    issues.push({ path: 'date', message: 'Expected a string or null' });
+  }
+
+  if (!Array.isArray(data.items)) {
+    issues.push({ path: 'items', message: data.items === undefined ? 'Required' : 'Expected an array' });
+  } else {
+    data.items = data.items.map((item, index) => {
+      const path = `items[${index}]`;
+      if (!isRecord(item)) {
+        issues.push({ path, message: 'Expected an object' });
+        return item;
+      }
+
+      const coerced = {
+        name: typeof item.name === 'string' ? item.name.trim() : item.name,
+        price: coerceAmount(item.price),
+        quantity: item.quantity === null || item.quantity === undefined ? 1 : coerceAmount(item.quantity),
+      };
+      if (typeof coerced.name !== 'string') {
+        issues.push({ path: `${path}.name`, message: 'Expected a string' });
+      }
+      checkAmount(coerced.price, `${path}.price`, issues);
+      checkAmount(coerced.quantity, `${path}.quantity`, issues);
+      return coerced;
+    });
+  }
+
+  checkAmount(data.subtotal, 'subtotal', issues);
+  checkAmount(data.tax, 'tax', issues, { nullable: true });
+  checkAmount(data.tip, 'tip', issues, { nullable: true });
+  checkAmount(data.extraFees, 'extraFees', issues, { nullable: true });
+  checkAmount(data.total, 'total', issues);
+
+  return { data: issues.length === 0 ? data : null, issues };
+}
+
+module.exports = {
+  coerceAmount,
+  validateReceiptData
+};
@@ -0,0 +1,377 @@
+/**
+ * Recurrence rules for recurring debts and groups, shared by the app and the Cloud Functions.
+ * Everything here is pure (no Firebase), so the app imports this file directly.
+ *
+ * Occurrences fall on the calendar of the template's time zone, at the start date's time of day:
+ * - daily series step by one day
+ * - weekly and biweekly series fall on dayOfWeek (or the start date's weekday)
+ * - monthly, quarterly and yearly series fall on dayOfMonth (or the start date's day),
+ *   moving to the last day of shorter months (Jan 31, Feb 28, Mar 31, ...)
+ * - custom series step by interval days, weeks, months or years, following the same rules
+ *   as the daily, weekly, monthly and yearly series
+ * Every occurrence is worked out from the start date rather than the one before it, so series never drift.
+ * A series ends after its endDate or once it has had occurrenceCount occurrences (skipped ones included).
+ * The start date is always the first instance, created along with the series, so when it isn't on
+ * the chosen day it counts towards occurrenceCount ahead of the first occurrence.
+ */
+
+/**
+ * @typedef {Object} RecurrenceRule
+ * @property {string} frequency - daily, weekly, biweekly, monthly, quarterly, yearly or custom
+ * @property {number|null} [interval] - Number of intervalUnits between occurrences of a custom series
+ * @property {string|null} [intervalUnit] - day, week, month or year for a custom series
+ * @property {string} startDate - ISO date the series starts
+ * @property {string|null} [endDate] - ISO date of the last day the series can fall on
+ * @property {number|null} [occurrenceCount] - Number of occurrences before the series ends
+ * @property {number|null} [dayOfMonth] - Day of month (1-31) for series counted in months
+ * @property {number|null} [dayOfWeek] - Day of week (0-6, Sunday is 0) for series counted in weeks
+ * @property {string|null} [timeZone] - IANA time zone the days are counted in (defaults to UTC)
+ * @property {string[]} [skippedDates] - ISO dates of occurrences the user chose to skip
+ */
+
+/**
+ * The part of a RecurrenceRule that sets how often it repeats
+ * @typedef {Object} RecurrencePeriod
+ * @property {string} frequency - daily, weekly, biweekly, monthly, quarterly, yearly or custom
+ * @property {number|null} [interval] - Number of intervalUnits between occurrences of a custom series
+ * @property {string|null} [intervalUnit] - day, week, month or year for a custom series
+ */
+
+// dayOfMonth that always falls on the last day of the month
+const LAST_DAY_OF_MONTH = 31;
+
+// Most occurrences the generator creates for one template in a single run
+const MAX_CATCH_UP_OCCURRENCES = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS = {
+  daily: { days: 1 },
+  weekly: { days: 7 },
+  biweekly: { days: 14 },
+  monthly: { months: 1 },
+  quarterly: { months: 3 },
+  yearly: { months: 12 }
+};
+
+// Length of one intervalUnit of a custom series
+const UNIT_PERIODS = {
+  day: { days: 1 },
+  week: { days: 7 },
+  month: { months: 1 },
+  year: { months: 12 }
+};
+
+// Date formatters by time zone, and the zone each requested time zone resolves to
+const formatters = {};
+const resolvedTimeZones = {};
+
+/**
+ * Get the time zone to count days in, falling back to UTC for missing or unknown zones
+ * @param {string|null} [timeZone] - IANA time zone
+ * @returns {string} A time zone Intl supports
+ */
+function resolveTimeZone(timeZone) {
+  const zone = timeZone || 'UTC';
+
+  if (!(zone in resolvedTimeZones)) {
+    try {
+      formatters[zone] = new Intl.DateTimeFormat('en-US', {
+        timeZone: zone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      });
+      resolvedTimeZones[zone] = zone;
+    } catch (error) {
+      console.warn(`Unknown time zone ${zone}, using UTC`);
+      resolvedTimeZones[zone] = resolveTimeZone('UTC');
+    }
+  }
+
+  return resolvedTimeZones[zone];
+}
+
+/**
+ * Get the calendar date and time of an instant in a time zone
+ * @param {Date} date - The instant
+ * @param {string} timeZone - IANA time zone
+ * @returns {Object} year, month (1-12), day, hour, minute and second
+ */
+function toZonedParts(date, timeZone) {
+  const parts = {};
+  formatters[resolveTimeZone(timeZone)].formatToParts(date).forEach(({ type, value }) => {
+    if (type !== 'literal') parts[type] = Number(value);
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24, // Some engines format midnight as 24
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+function partsToUtc(parts) {
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour || 0, parts.minute || 0, parts.second || 0);
+}
+
+// How far ahead of UTC a time zone is at an instant, in milliseconds
+function getOffset(instant, timeZone) {
+  return partsToUtc(toZonedParts(new Date(instant), timeZone)) - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Get the instant a calendar date and time happens in a time zone.
+ * Times skipped by a daylight saving change move forward by the change.
+ * @param {Object} parts - year, month (1-12), day, hour, minute and second
+ * @param {string} timeZone - IANA time zone
+ * @returns {Date} The instant
+ */
+function fromZonedParts(parts, timeZone) {
+  const asUtc = partsToUtc(parts);
+  const guess = asUtc - getOffset(asUtc, timeZone);
+
+  // Check the offset again at the guessed instant in case a daylight saving change is in between
+  return new Date(asUtc - getOffset(guess, timeZone));
+}
+
+function addDays(date, days) {
+  const result = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: result.getUTCFullYear(), month: result.getUTCMonth() + 1, day: result.getUTCDate() };
+}
+
+function getDaysInMonth(year, month) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function getWeekday(date) {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/**
+ * Get the time between occurrences of a series
+ * @param {RecurrencePeriod} rule - How often the series repeats
+ * @returns {Object} days or months between occurrences
+ */
+function getPeriod(rule) {
+  if (rule.frequency !== 'custom') {
+    return PERIODS[rule.frequency] || PERIODS.monthly;
+  }
+
+  const unit = UNIT_PERIODS[rule.intervalUnit] || UNIT_PERIODS.month;
+  const interval = Number.isInteger(rule.interval) && rule.interval > 0 ? rule.interval : 1;
+  return unit.days ? { days: unit.days * interval } : { months: unit.months * interval };
+}
+
+/**
+ * Whether a series falls on a day of the month (it's counted in months)
+ * @param {RecurrencePeriod} rule - How often the series repeats
+ * @returns {boolean} True if dayOfMonth applies to the series
+ */
+function usesDayOfMonth(rule) {
+  return !!getPeriod(rule).months;
+}
+
+/**
+ * Whether a series falls on a day of the week (it's counted in whole weeks)
+ * @param {RecurrencePeriod} rule - How often the series repeats
+ * @returns {boolean} True if dayOfWeek applies to the series
+ */
+function usesDayOfWeek(rule) {
+  const { days } = getPeriod(rule);
+  return !!days && days % 7 === 0;
+}
+
+const isDayOfWeek = (day) => Number.isInteger(day) && day >= 0 && day <= 6;
+const isDayOfMonth = (day) => Number.isInteger(day) && day >= 1 && day <= LAST_DAY_OF_MONTH;
+
+/**
+ * Get an occurrence of a series by its position
+ * @param {RecurrenceRule} rule - The series
+ * @param {number} index - Position of the occurrence (0 is the first on or after the start date)
+ * @returns {Date} When the occurrence happens
+ */
+function getOccurrence(rule, index) {
+  const timeZone = resolveTimeZone(rule.timeZone);
+  const start = toZonedParts(new Date(rule.startDate), timeZone);
+  const period = getPeriod(rule);
+  let date;
+
+  if (period.days) {
+    // Weekly series start on the first chosen weekday on or after the start date
+    const firstOffset = usesDayOfWeek(rule) && isDayOfWeek(rule.dayOfWeek)
+      ? (rule.dayOfWeek - getWeekday(start) + 7) % 7
+      : 0;
+    date = addDays(start, firstOffset + index * period.days);
+  } else {
+    const dayOfMonth = isDayOfMonth(rule.dayOfMonth) ? rule.dayOfMonth : start.day;
+
+    // Start the following month when the chosen day has already passed in the start month
+    const firstOffset = Math.min(dayOfMonth, getDaysInMonth(start.year, start.month)) < start.day ? 1 : 0;
+    const monthIndex = start.month - 1 + firstOffset + index * period.months;
+    const year = start.year + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    date = { year, month, day: Math.min(dayOfMonth, getDaysInMonth(year, month)) };
+  }
+
+  return fromZonedParts({ ...date, hour: start.hour, minute: start.minute, second: start.second }, timeZone);
+}
+
+/**
+ * Get how many instances come before the first occurrence: the start date's, when the start
+ * date isn't on the chosen day
+ * @param {RecurrenceRule} rule - The series
+ * @returns {number} 1 if the start date comes before the first occurrence, otherwise 0
+ */
+function getStartOffset(rule) {
+  return getOccurrence(rule, 0).getTime() > new Date(rule.startDate).getTime() ? 1 : 0;
+}
+
+/**
+ * Whether an occurrence comes before the series ends: on or before its end date (compared
+ * by calendar day) and within its occurrence count
+ * @param {RecurrenceRule} rule - The series
+ * @param {Date|string} occurrence - When the occurrence happens
+ * @param {number} index - Position of the occurrence
+ * @returns {boolean} Whether the occurrence is part of the series
+ */
+function isWithinEnd(rule, occurrence, index) {
+  if (rule.occurrenceCount && index + getStartOffset(rule) >= rule.occurrenceCount) return false;
+  if (!rule.endDate) return true;
+
+  const timeZone = resolveTimeZone(rule.timeZone);
+  const day = (date) => partsToUtc({ ...toZonedParts(new Date(date), timeZone), hour: 0, minute: 0, second: 0 });
+  return day(occurrence) <= day(rule.endDate);
+}
+
+// Whether the user skipped an occurrence
+function isSkipped(rule, occurrence) {
+  return !!rule.skippedDates && rule.skippedDates.includes(occurrence.toISOString());
+}
+
+/**
+ * Get the position of the first occurrence of a series after an instant
+ * @param {RecurrenceRule} rule - The series
+ * @param {number} afterTime - Occurrences on or before this time (in milliseconds) are left out
+ * @returns {number} Position of the occurrence
+ */
+function getIndexAfter(rule, afterTime) {
+  const period = getPeriod(rule);
+
+  // Jump close to the answer instead of stepping through every earlier occurrence
+  const longestPeriodDays = period.days || period.months * 31;
+  const elapsedDays = (afterTime - new Date(rule.startDate).getTime()) / DAY_MS;
+  let index = Math.max(0, Math.floor(elapsedDays / longestPeriodDays) - 1);
+
+  while (index > 0 && getOccurrence(rule, index - 1).getTime() > afterTime) {
+    index--;
+  }
+  while (getOccurrence(rule, index).getTime() <= afterTime) {
+    index++;
+  }
+
+  return index;
+}
+
+/**
+ * Get the first occurrence of a series after a date, leaving out skipped occurrences
+ * @param {RecurrenceRule} rule - The series
+ * @param {Date|string} after - Occurrences on or before this instant are left out
+ * @returns {string|null} ISO date of the occurrence, or null once the series has ended
+ */
+function getNextOccurrence(rule, after) {
+  let index = getIndexAfter(rule, new Date(after).getTime());
+  let occurrence = getOccurrence(rule, index);
+
+  while (isSkipped(rule, occurrence) && isWithinEnd(rule, occurrence, index)) {
+    index++;
+    occurrence = getOccurrence(rule, index);
+  }
+
+  return isWithinEnd(rule, occurrence, index) ? occurrence.toISOString() : null;
+}
+
+/**
+ * Get the next few occurrences of a series after a date (e.g. for previews)
+ * @param {RecurrenceRule} rule - The series
+ * @param {Date|string} after - Occurrences on or before this instant are left out
+ * @param {number} count - Most occurrences to return
+ * @returns {string[]} ISO dates of the occurrences, fewer than count if the series ends
+ */
+function getOccurrencesAfter(rule, after, count) {
+  const occurrences = [];
+  let next = getNextOccurrence(rule, after);
+
+  while (next && occurrences.length < count) {
+    occurrences.push(next);
+    next = getNextOccurrence(rule, next);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Get the occurrences a generator has to create now, catching up on any periods it missed
+ * @param {RecurrenceRule} rule - The series
+ * @param {string} nextGenerationDate - ISO date of the next occurrence to create
+ * @param {Date} now - Current date
+ * @param {number} [limit] - Most occurrences to create at once; the rest are left for the next run
+ * @returns {Object} dueDates to create, and the nextGenerationDate after them (null once the series has ended)
+ */
+function getDueOccurrences(rule, nextGenerationDate, now, limit = MAX_CATCH_UP_OCCURRENCES) {
+  const dueDates = [];
+  const firstIndex = getIndexAfter(rule, new Date(nextGenerationDate).getTime() - 1);
+  let next = isWithinEnd(rule, nextGenerationDate, firstIndex) ? nextGenerationDate : null;
+
+  while (next && new Date(next) <= now && dueDates.length < limit) {
+    if (!isSkipped(rule, new Date(next))) {
+      dueDates.push(next);
+    }
+    next = getNextOccurrence(rule, next);
+  }
+
+  return { dueDates, nextGenerationDate: next };
+}
+
+/**
+ * Get the occurrences a series will create next, starting with its nextGenerationDate
+ * @param {RecurrenceRule} rule - The series
+ * @param {string} nextGenerationDate - ISO date of the next occurrence to create
+ * @param {number} count - Most occurrences to return
+ * @returns {string[]} ISO dates of the occurrences, fewer than count if the series ends
+ */
+function getUpcomingOccurrences(rule, nextGenerationDate, count) {
+  return getOccurrencesAfter(rule, new Date(new Date(nextGenerationDate).getTime() - 1), count);
+}
+
+/**
+ * Get the device's time zone, to store on new recurring templates
+ * @returns {string} IANA time zone
+ */
+function getDeviceTimeZone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch (error) {
+    return 'UTC';
+  }
+}
+
+module.exports = {
+  LAST_DAY_OF_MONTH,
+  MAX_CATCH_UP_OCCURRENCES,
+  usesDayOfMonth,
+  usesDayOfWeek,
+  getOccurrence,
+  getNextOccurrence,
+  getOccurrencesAfter,
+  getDueOccurrences,
+  getUpcomingOccurrences,
+  getDeviceTimeZone
+};
@@ -0,0 +1,200 @@
+/**
+ * Debt reminder scheduling for the sendDebtReminders Cloud Function.
+ *
+ * Everything here takes the Firestore instance (and the push sender) as arguments
+ * so it can be run against the Firestore emulator (see __tests__/reminders.emulator.test.js).
+ */
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Firestore allows at most 500 writes in a batch
+const BATCH_LIMIT = 500;
+
+/**
+ * Work out when the next reminder for a debt is due
+ * (mirrors getNextReminderDate in utils/reminders.ts)
+ * @param {Object} debt - Debt with createdAt, isPaid, lastReminderAt and reminderSchedule
+ * @returns {string|null} ISO timestamp of the next reminder, or null if none is due
+ */
+function getNextReminderDate(debt) {
+  const schedule = debt.reminderSchedule;
+  if (!schedule || !schedule.enabled || debt.isPaid) return null;
+
+  if (!debt.lastReminderAt) {
+    return new Date(new Date(debt.createdAt).getTime() + schedule.firstAfterDays * DAY_MS).toISOString();
+  }
+
+  if (!schedule.repeatEveryDays) return null;
+
+  return new Date(new Date(debt.lastReminderAt).getTime() + schedule.repeatEveryDays * DAY_MS).toISOString();
+}
+
+/**
+ * Format an amount in a debt's currency for a notification
+ * @param {number} amount - Amount to format
+ * @param {string} currency - ISO 4217 currency code
+ * @returns {string} Formatted amount
+ */
+function formatAmount(amount, currency) {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(amount);
+  } catch (error) {
+    return `${Number(amount).toFixed(2)} ${currency || 'USD'}`;
+  }
+}
+
+/**
+ * Build the reminder notification for a debt.
+ * The debtor is reminded directly when they're a Paid user; otherwise
+ * the creditor is nudged to follow up.
+ * @param {Object} debt - The debt
+ * @param {Object} creditor - The creditor's user document
+ * @returns {Object} Recipient UID, title, body and data for the notification
+ */
+function buildReminderNotification(debt, creditor) {
+  const remaining = Math.max(0, Number(debt.amount) - Number(debt.paidAmount || 0));
+  const amountText = formatAmount(remaining, debt.currency);
+  const description = debt.description ? ` for ${debt.description}` : '';
+
+  if (debt.debtorUid) {
+    const creditorName = (creditor && ((creditor.profile && creditor.profile.name) || creditor.username)) || 'Someone';
+    return {
+      recipientUid: debt.debtorUid,
+      title: 'Payment reminder',
+      body: `You owe ${creditorName} ${amountText}${description}.`,
+      data: { type: 'debtReminder', sharedDebtId: debt.sharedDebtId || null }
+    };
+  }
+
+  return {
+    recipientUid: debt.userId,
+    title: `Remind ${debt.debtorName}`,
+    body: `${debt.debtorName} still owes you ${amountText}${description}.`,
+    data: { type: 'debtReminder', debtId: debt.id }
+  };
+}
+
+/**
+ * Send push notifications through the Expo push service
+ * @param {Array} messages - Expo push messages
+ * @returns {Promise<Array>} Push tickets returned by Expo
+ */
+async function sendPushNotifications(messages) {
+  const tickets = [];
+
+  // Expo accepts at most 100 messages per request
+  for (let i = 0; i < messages.length; i += 100) {
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(messages.slice(i, i + 100))
+    });
+
+    if (!response.ok) {
+      throw new Error(`Expo push request failed with status ${response.status}`);
+    }
+
+    const result = await response.json();
+    tickets.push(...(result.data || []));
+  }
+
+  return tickets;
+}
+
+/**
+ * Find every debt with a reminder due, notify the right person and schedule the next reminder.
+ * Debts are handled in batches, and each batch's reminders are written before they're sent,
+ * so a failed run never sends the same reminder twice.
+ * @param {Object} db - Firestore instance
+ * @param {Date} today - Current date
+ * @param {Object} [options]
+ * @param {Function} [options.send] - Push sender (defaults to the Expo push service)
+ * @returns {Promise<Object>} Number of debts processed and reminders sent
+ */
+async function processDueReminders(db, today, { send = sendPushNotifications } = {}) {
+  const now = today.toISOString();
+
+  try {
+    const dueSnapshot = await db.collectionGroup('debts')
+      .where('nextReminderAt', '<=', now)
+      .get();
+    console.log(`Found ${dueSnapshot.size} debts with reminders due`);
+
+    const userCache = {};
+    const getUser = async (uid) => {
+      if (!uid) return null;
+      if (!(uid in userCache)) {
+        const userSnap = await db.collection('users').doc(uid).get();
+        userCache[uid] = userSnap.exists ? userSnap.data() : null;
+      }
+      return userCache[uid];
+    };
+
+    let sent = 0;
+
+    for (let i = 0; i < dueSnapshot.docs.length; i += BATCH_LIMIT) {
+      const messages = [];
+      const batch = db.batch();
+
+      for (const doc of dueSnapshot.docs.slice(i, i + BATCH_LIMIT)) {
+        const debt = { id: doc.id, ...doc.data() };
+
+        // Paid debts or turned off schedules shouldn't be picked up again
+        if (debt.isPaid || !debt.reminderSchedule || !debt.reminderSchedule.enabled) {
+          batch.update(doc.ref, { nextReminderAt: null });
+          continue;
+        }
+
+        const creditor = await getUser(debt.userId);
+        const notification = buildReminderNotification(debt, creditor);
+        const recipient = notification.recipientUid === debt.userId
+          ? creditor
+          : await getUser(notification.recipientUid);
+        const tokens = (recipient && recipient.expoPushTokens) || [];
+
+        tokens.forEach(token => {
+          messages.push({
+            to: token,
+            title: notification.title,
+            body: notification.body,
+            data: notification.data,
+            sound: 'default',
+            channelId: 'reminders'
+          });
+        });
+
+        // Move on to the next reminder even if the recipient has no devices
+        const remindedDebt = { ...debt, lastReminderAt: now };
+        batch.update(doc.ref, {
+          lastReminderAt: now,
+          reminderCount: (debt.reminderCount || 0) + 1,
+          nextReminderAt: getNextReminderDate(remindedDebt)
+        });
+      }
+
+      // Record the reminders first: if sending fails they're skipped rather than sent again next run
+      await batch.commit();
+
+      if (messages.length > 0) {
+        await send(messages);
+        sent += messages.length;
+      }
+    }
+
+    console.log(`Sent ${sent} reminder notifications`);
+    return { processed: dueSnapshot.size, sent };
+  } catch (error) {
+    console.error('Error processing due reminders:', error);
+    throw error;
+  }
+}
+
+module.exports = {
+  getNextReminderDate,
+  buildReminderNotification,
+  sendPushNotifications,
+  processDueReminders
+};
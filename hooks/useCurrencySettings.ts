@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { CurrencyCode } from '@/firebase/models';
+import { convertAmount, DEFAULT_EXCHANGE_RATES, ExchangeRates, getCurrencyInfo } from '@/utils/currency';
+import eventEmitter from '@/utils/eventEmitter';
+import { loadExchangeRates } from '@/utils/exchangeRates';
+
+/**
+ * Access the user's home currency and locally stored exchange rates
+ */
+export function useCurrencySettings() {
+  const { userProfile } = useAuth();
+  const [rates, setRates] = useState<ExchangeRates>(DEFAULT_EXCHANGE_RATES);
+
+  const homeCurrency: CurrencyCode = getCurrencyInfo(userProfile?.profile?.homeCurrency).code;
+
+  useEffect(() => {
+    let isMounted = true;
+
+    loadExchangeRates().then(loadedRates => {
+      if (isMounted) setRates(loadedRates);
+    });
+
+    // Pick up edits made on the currency settings screen
+    const unsubscribe = eventEmitter.on('EXCHANGE_RATES_UPDATED', setRates);
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  // Convert an amount in any currency to the home currency
+  const toHomeCurrency = (amount: number, currency?: string | null) => {
+    return convertAmount(amount, currency, homeCurrency, rates);
+  };
+
+  return { homeCurrency, rates, toHomeCurrency };
+}
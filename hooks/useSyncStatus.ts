@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import eventEmitter from '@/utils/eventEmitter';
+import { getSyncStatus, SyncStatus } from '@/utils/offlineSync';
+
+/**
+ * Track connectivity and which debts and groups have changes waiting to sync
+ */
+export function useSyncStatus() {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+
+  useEffect(() => {
+    setStatus(getSyncStatus());
+    return eventEmitter.on('SYNC_STATUS_CHANGED', setStatus);
+  }, []);
+
+  const pendingIds = useMemo(() => new Set(status.pendingIds), [status.pendingIds]);
+
+  // Whether a debt or group has changes waiting to sync
+  const isPendingSync = useCallback((id: string) => pendingIds.has(id), [pendingIds]);
+
+  return {
+    isOnline: status.isOnline,
+    isSyncing: status.isSyncing,
+    pendingCount: status.pendingCount,
+    isPendingSync,
+  };
+}
@@ -0,0 +1,123 @@
+import { coerceAmount, validateReceiptData as validateInFunction } from '@/functions/receiptValidation';
+import { reconcileReceipt, validateReceiptData } from '@/services/receiptValidation';
+
+const receipt = (overrides: Record<string, unknown> = {}) => ({
+  store: 'Corner Cafe',
+  date: '2026-03-05',
+  items: [
+    { name: 'Sandwich', price: 9.5, quantity: 1 },
+    { name: 'Fries', price: 4, quantity: 2 },
+  ],
+  subtotal: 17.5,
+  tax: 1.2,
+  tip: null,
+  extraFees: null,
+  total: 18.7,
+  ...overrides,
+});
+
+// The app and the scanReceipt Cloud Function must accept and reject the same receipts
+const validators = [
+  ['app', validateReceiptData],
+  ['scanReceipt', validateInFunction],
+] as const;
+
+describe.each(validators)('validateReceiptData (%s)', (_, validate) => {
+  it('accepts a well-formed receipt as it is', () => {
+    expect(validate(receipt())).toEqual({ data: receipt(), issues: [] });
+  });
+
+  it('coerces amounts written as strings', () => {
+    const { data, issues } = validate(receipt({
+      items: [{ name: '  Sandwich ', price: '$9.50', quantity: '1' }, { name: 'Fries', price: '4,00', quantity: 2 }],
+      subtotal: '17.50',
+      tax: '1.20',
+      total: '$18.70',
+    }));
+
+    expect(issues).toEqual([]);
+    expect(data).toEqual(receipt({
+      items: [{ name: 'Sandwich', price: 9.5, quantity: 1 }, { name: 'Fries', price: 4, quantity: 2 }],
+    }));
+  });
+
+  it('fills in optional fields the model left out', () => {
+    const { data } = validate({
+      items: [{ name: 'Coffee', price: 3 }],
+      subtotal: 3,
+      tax: '',
+      total: 3,
+    });
+
+    expect(data).toEqual({
+      store: '',
+      date: null,
+      items: [{ name: 'Coffee', price: 3, quantity: 1 }],
+      subtotal: 3,
+      tax: null,
+      tip: null,
+      extraFees: null,
+      total: 3,
+    });
+  });
+
+  it('reports missing and mistyped fields by path', () => {
+    const { data, issues } = validate(receipt({
+      store: 42,
+      items: [{ name: 'Sandwich', price: 'a lot' }, 'Fries'],
+      subtotal: undefined,
+      tip: -2,
+    }));
+
+    expect(data).toBeNull();
+    expect(issues.map(issue => issue.path)).toEqual(['store', 'items[0].price', 'items[1]', 'subtotal', 'tip']);
+  });
+
+  it('rejects output that is not an object', () => {
+    expect(validate(null)).toEqual({ data: null, issues: [{ path: 'receipt', message: 'Expected an object' }] });
+    expect(validate([receipt()]).data).toBeNull();
+  });
+
+  it('rejects items that are not a list', () => {
+    const { data, issues } = validate(receipt({ items: { name: 'Sandwich', price: 9.5 } }));
+
+    expect(data).toBeNull();
+    expect(issues).toEqual([{ path: 'items', message: 'Expected an array' }]);
+  });
+});
+
+describe('coerceAmount', () => {
+  it('reads thousands separators, decimal commas and currency symbols', () => {
+    expect(coerceAmount('$1,204.50')).toBe(1204.5);
+    expect(coerceAmount('3,99')).toBe(3.99);
+    expect(coerceAmount('€ 12')).toBe(12);
+    expect(coerceAmount('-4.25')).toBe(-4.25);
+  });
+
+  it('leaves values that are not numeric strings unchanged', () => {
+    expect(coerceAmount('twelve')).toBe('twelve');
+    expect(coerceAmount(12)).toBe(12);
+    expect(coerceAmount(null)).toBeNull();
+  });
+});
+
+describe('reconcileReceipt', () => {
+  it('has no warnings when the amounts add up', () => {
+    expect(reconcileReceipt(receipt())).toEqual([]);
+  });
+
+  it('warns when the items or charges do not add up', () => {
+    expect(reconcileReceipt(receipt({ subtotal: 18, total: 19.2 }))).toEqual([
+      'Items add up to 17.50 but the subtotal is 18.00',
+    ]);
+    expect(reconcileReceipt(receipt({ total: 20 }))).toEqual([
+      'Subtotal, tax, tip and fees add up to 18.70 but the total is 20.00',
+    ]);
+  });
+
+  it('warns when no items were found', () => {
+    expect(reconcileReceipt(receipt({ items: [], subtotal: 0, tax: null, total: 0 }))).toEqual([
+      'No items were found on the receipt',
+    ]);
+  });
+});
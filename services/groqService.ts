@@ -1,114 +1,51 @@
-import { Groq } from 'groq-sdk';
-import * as FileSystem from 'expo-file-system';
-import base64 from 'react-native-base64';
-import config from '../config/env';
+import { httpsCallable } from 'firebase/functions';
 
-// Initialize Groq client
-const groq = new Groq({
-  apiKey: config.GROQ_API_KEY,
-});
+import { auth, functions } from '@/firebase/config';
+import { uploadReceiptImage } from '@/firebase/storage';
+import type { ReceiptOcrProvider, ReceiptProcessResult } from './receiptOcr';
+import { validateReceiptData } from './receiptValidation';
 
-// Type definitions
-export interface ReceiptItem {
-  name: string;
-  price: number;
-  quantity?: number;
-}
-
-export interface ReceiptData {
-  store: string;
-  date: string | null;
-  items: ReceiptItem[];
-  subtotal: number;
-  tax: number | null;
-  tip: number | null;
-  extraFees: number | null;
-  total: number;
-}
+/**
+ * Client for the scanReceipt Cloud Function, which reads receipt photos with Groq's
+ * vision model. The photo is uploaded to Storage first and the function is called
+ * with its path; the Groq API key only lives in the function.
+ */
 
-export interface ReceiptProcessResult {
-  success: boolean;
-  data?: ReceiptData;
-  error?: string;
-}
+const scanReceipt = httpsCallable<{ imagePath: string }, unknown>(functions, 'scanReceipt');
 
 /**
- * Processes an image from a URI using Groq Vision API for OCR
+ * Processes an image from a URI with the scanReceipt Cloud Function
  * @param imageUri - The URI of the image to process
  * @returns Promise with extracted receipt data including items, prices, and totals
  */
-export const processReceiptImage = async (imageUri: string): Promise<ReceiptProcessResult> => {
+const processReceiptImage = async (imageUri: string): Promise<ReceiptProcessResult> => {
   try {
-    // Read the image file as base64
-    const base64Image = await FileSystem.readAsStringAsync(imageUri, {
-      encoding: FileSystem.EncodingType.Base64,
-    });
+    const user = auth.currentUser;
+    if (!user) {
+      return {
+        success: false,
+        error: "You must be logged in to scan receipts"
+      };
+    }
 
-    // Prepare the prompt for receipt OCR
-    const prompt = `
-      You are a receipt OCR assistant. Extract the following information from the receipt image in JSON format:
-      1. Store or restaurant name
-      2. Date of purchase (if available)
-      3. All items with their names and prices
-      4. Subtotal
-      5. Tax amount (if available)
-      6. Tip amount (if available)
-      7. Extra fees amount (if available, for service charges, included gratuity, delivery fees, etc.)
-      8. Total amount
-      
-      Return ONLY a valid JSON object with these fields:
-      {
-        "store": "string",
-        "date": "string or null",
-        "items": [
-          {
-            "name": "string",
-            "price": number,
-            "quantity": number (default to 1 if not specified)
-          }
-        ],
-        "subtotal": number,
-        "tax": number or null,
-        "tip": number or null,
-        "extraFees": number or null,
-        "total": number
-      }
+    const image = await uploadReceiptImage(user.uid, imageUri);
+    const result = await scanReceipt({ imagePath: image.path });
 
-      IMPORTANT: 
-      - If tax or tip amounts are not clearly visible or specified on the receipt, return null for those fields. DO NOT calculate them.
-      - For "extraFees", include any service charges, delivery fees, included gratuity, or other miscellaneous fees that are not tax or tip.
-      - Make sure all prices are non-negative numbers.
-    `;
+    // The function validates the receipt too, but don't trust the response blindly
+    const { data, issues } = validateReceiptData(result.data);
+    if (!data) {
+      console.error("Invalid receipt from scanReceipt:", issues);
+      return {
+        success: false,
+        error: "The receipt couldn't be read"
+      };
+    }
 
-    // Call Groq API with vision capabilities
-    const chatCompletion = await groq.chat.completions.create({
-      messages: [
-        {
-          role: "user",
-          content: [
-            { type: "text", text: prompt },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`,
-              },
-            },
-          ],
-        },
-      ],
-      model: "meta-llama/llama-4-maverick-17b-128e-instruct",
-      response_format: { type: "json_object" },
-      temperature: 0.3,
-      max_completion_tokens: 1024,
-    });
-
-    // Parse the JSON response
-    const responseContent = chatCompletion.choices[0].message.content || '{}'; // Provide default in case it's null
-    const parsedData = JSON.parse(responseContent) as ReceiptData;
-    
+    // The photo is kept with the receipt if it's saved, so it isn't uploaded twice
     return {
       success: true,
-      data: parsedData
+      data,
+      image
     };
   } catch (error: any) {
     console.error("Error processing receipt with Groq:", error);
@@ -117,4 +54,11 @@ export const processReceiptImage = async (imageUri: string): Promise<ReceiptProc
       error: error.message || "Failed to process receipt"
     };
   }
-}; 
\ No newline at end of file
+};
+
+export const groqReceiptProvider: ReceiptOcrProvider = {
+  id: 'groq',
+  name: 'Groq Vision',
+  requiresNetwork: true,
+  processImage: processReceiptImage,
+};
@@ -0,0 +1,237 @@
+import { formatAmount } from '@/utils/currency';
+import { fromMinorUnits, toMinorUnits } from '@/utils/money';
+import type { ReceiptData, ReceiptItem } from './receiptOcr';
+
+/**
+ * Combines the pages of a receipt photographed in more than one shot.
+ * Photos are taken top to bottom, so the store and date come from the first page that
+ * has them and the totals from the last page that printed them. Lines that appear at
+ * the bottom of one photo and the top of the next are only counted once. Overlaps that
+ * could also be the same item bought twice, and pages whose totals disagree, are left
+ * as conflicts for the user to resolve.
+ */
+
+export interface ReceiptMergeOption {
+  label: string;             // Short name for the choice, e.g. "Keep both"
+  detail: string;            // What the choice puts on the receipt
+}
+
+export interface ReceiptMergeConflict {
+  id: string;
+  title: string;             // What needs deciding
+  options: ReceiptMergeOption[];  // The first option is used until the user picks another
+}
+
+// A line of the combined receipt: an item, or the items to use for each option of a conflict
+export type ReceiptMergeLine =
+  | { kind: 'item'; item: ReceiptItem }
+  | { kind: 'choice'; conflictId: string; alternatives: ReceiptItem[][] };
+
+export interface ReceiptMerge {
+  pages: ReceiptData[];
+  lines: ReceiptMergeLine[];
+  totalsPages: number[];     // Indexes of the pages that printed totals, the one used by default first
+  conflicts: ReceiptMergeConflict[];
+}
+
+// The option picked for each conflict, by conflict ID
+export type ReceiptMergeChoices = { [conflictId: string]: number };
+
+type LineMatch = 'same' | 'similar' | 'different';
+
+const TOTALS_CONFLICT_ID = 'totals';
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const getLineMinor = (item: ReceiptItem) => toMinorUnits(item.price * (item.quantity || 1));
+
+const describeItem = (item: ReceiptItem) => `${item.quantity || 1}x ${item.name} at ${formatAmount(item.price)}`;
+
+/**
+ * Count the single-character edits between two names, to allow for OCR misreads
+ * @param {string} a - First name
+ * @param {string} b - Second name
+ * @returns {number} The edit distance
+ */
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Compare a line from the bottom of one photo with a line from the top of the next
+ * @param {ReceiptItem} a - Line from the earlier photo
+ * @param {ReceiptItem} b - Line from the later photo
+ * @returns {LineMatch} 'same' when they read identically, 'similar' when one of the name
+ * or price was probably misread, and 'different' otherwise
+ */
+const compareItems = (a: ReceiptItem, b: ReceiptItem): LineMatch => {
+  const nameA = normalizeName(a.name);
+  const nameB = normalizeName(b.name);
+  const samePrice = toMinorUnits(a.price) === toMinorUnits(b.price) && (a.quantity || 1) === (b.quantity || 1);
+
+  if (nameA === nameB && samePrice) return 'same';
+
+  // Allow about one misread character in five, but not a misread name and price together
+  const maxEdits = Math.max(2, Math.floor(Math.max(nameA.length, nameB.length) / 5));
+  if (nameA === nameB || (samePrice && editDistance(nameA, nameB) <= maxEdits)) return 'similar';
+
+  return 'different';
+};
+
+/**
+ * Find the lines the top of a photo shares with the bottom of the one before it
+ * @param {ReceiptItem[]} previous - Items of the earlier photo
+ * @param {ReceiptItem[]} next - Items of the later photo
+ * @returns {LineMatch[]} How each overlapping line matched, empty when the photos don't overlap
+ */
+const findOverlap = (previous: ReceiptItem[], next: ReceiptItem[]): LineMatch[] => {
+  for (let length = Math.min(previous.length, next.length); length > 0; length--) {
+    const offset = previous.length - length;
+    const matches = next.slice(0, length).map((item, index) => compareItems(previous[offset + index], item));
+
+    if (!matches.includes('different')) return matches;
+  }
+  return [];
+};
+
+/**
+ * Check whether a page printed the receipt's totals, rather than only having items.
+ * A page without totals has no charges and a total that is just its own items.
+ * @param {ReceiptData} page - The page
+ * @returns {boolean} Whether the page has totals
+ */
+const hasPrintedTotals = (page: ReceiptData): boolean => {
+  const itemsMinor = page.items.reduce((sum, item) => sum + getLineMinor(item), 0);
+  return page.tax !== null || page.tip !== null || page.extraFees !== null || toMinorUnits(page.total) !== itemsMinor;
+};
+
+/**
+ * Combine the pages of a receipt, in the order they were photographed
+ * @param {ReceiptData[]} pages - What was read from each photo, top of the receipt first
+ * @returns {ReceiptMerge} The combined lines and anything the user needs to resolve
+ */
+export const mergeReceiptPages = (pages: ReceiptData[]): ReceiptMerge => {
+  const lines: ReceiptMergeLine[] = [];
+  const conflicts: ReceiptMergeConflict[] = [];
+  // Where each item of the previous page ended up in lines
+  let previousLineIndexes: number[] = [];
+
+  pages.forEach((page, pageIndex) => {
+    const previousPage = pages[pageIndex - 1];
+    const overlap = previousPage ? findOverlap(previousPage.items, page.items) : [];
+    const lineIndexes: number[] = [];
+
+    page.items.forEach((item, itemIndex) => {
+      if (itemIndex >= overlap.length) {
+        lineIndexes.push(lines.length);
+        lines.push({ kind: 'item', item });
+        return;
+      }
+
+      const previousItemIndex = previousPage.items.length - overlap.length + itemIndex;
+      const lineIndex = previousLineIndexes[previousItemIndex];
+      const previousItem = previousPage.items[previousItemIndex];
+      lineIndexes.push(lineIndex);
+
+      // Two or more identical lines in a row are the photos overlapping
+      if (overlap[itemIndex] === 'same' && overlap.length > 1) return;
+      // The earlier line may already be a conflict with the page before it
+      if (lines[lineIndex].kind !== 'item') return;
+
+      const conflictId = `overlap-${pageIndex}-${itemIndex}`;
+      const title = `Is "${item.name}" at the top of photo ${pageIndex + 1} the same line as the bottom of photo ${pageIndex}?`;
+
+      if (overlap[itemIndex] === 'same') {
+        // A single matching line could also be the same item bought twice
+        lines[lineIndex] = { kind: 'choice', conflictId, alternatives: [[previousItem], [previousItem, item]] };
+        conflicts.push({
+          id: conflictId,
+          title,
+          options: [
+            { label: 'Same line', detail: `Count ${describeItem(item)} once` },
+            { label: 'Keep both', detail: `Count ${describeItem(item)} twice` },
+          ],
+        });
+      } else {
+        // The line was read differently in each photo, so let the user pick the right reading
+        lines[lineIndex] = { kind: 'choice', conflictId, alternatives: [[previousItem], [item], [previousItem, item]] };
+        conflicts.push({
+          id: conflictId,
+          title,
+          options: [
+            { label: `Use photo ${pageIndex}`, detail: describeItem(previousItem) },
+            { label: `Use photo ${pageIndex + 1}`, detail: describeItem(item) },
+            { label: 'Keep both', detail: `${describeItem(previousItem)} and ${describeItem(item)}` },
+          ],
+        });
+      }
+    });
+
+    previousLineIndexes = lineIndexes;
+  });
+
+  // Totals are printed at the bottom, so the last page that has them comes first
+  const printedTotals = pages
+    .map((page, index) => ({ page, index }))
+    .filter(({ page }) => hasPrintedTotals(page))
+    .reverse();
+  const totalsPages = printedTotals.length > 0 ? printedTotals.map(({ index }) => index) : [pages.length - 1];
+
+  const distinctTotals = new Set(printedTotals.map(({ page }) => toMinorUnits(page.total)));
+  if (distinctTotals.size > 1) {
+    conflicts.push({
+      id: TOTALS_CONFLICT_ID,
+      title: 'The photos show different totals. Which one is right?',
+      options: printedTotals.map(({ page, index }) => ({
+        label: `Photo ${index + 1}`,
+        detail: `Total ${formatAmount(page.total)}${page.tax !== null ? `, tax ${formatAmount(page.tax)}` : ''}`,
+      })),
+    });
+  }
+
+  return { pages, lines, totalsPages, conflicts };
+};
+
+/**
+ * Build the combined receipt from a merge and the user's choices
+ * @param {ReceiptMerge} merge - The merged pages
+ * @param {ReceiptMergeChoices} choices - The option picked for each conflict (the first option when missing)
+ * @returns {ReceiptData} The receipt
+ */
+export const resolveReceiptMerge = (merge: ReceiptMerge, choices: ReceiptMergeChoices = {}): ReceiptData => {
+  const items = merge.lines.flatMap(line =>
+    line.kind === 'item' ? [line.item] : line.alternatives[choices[line.conflictId] ?? 0]
+  );
+
+  const totalsPage = merge.pages[merge.totalsPages[choices[TOTALS_CONFLICT_ID] ?? 0]];
+  const chargesMinor = [totalsPage.tax, totalsPage.tip, totalsPage.extraFees]
+    .reduce((sum: number, charge) => sum + toMinorUnits(charge ?? 0), 0);
+
+  // A subtotal that doesn't fit the page's printed total was only added up from that page's items
+  const subtotalFits = toMinorUnits(totalsPage.subtotal) + chargesMinor === toMinorUnits(totalsPage.total);
+  const subtotal = subtotalFits || merge.pages.length === 1
+    ? totalsPage.subtotal
+    : fromMinorUnits(items.reduce((sum, item) => sum + getLineMinor(item), 0));
+
+  return {
+    store: merge.pages.find(page => page.store)?.store || '',
+    date: merge.pages.find(page => page.date)?.date ?? null,
+    items,
+    subtotal,
+    tax: totalsPage.tax,
+    tip: totalsPage.tip,
+    extraFees: totalsPage.extraFees,
+    total: totalsPage.total,
+  };
+};
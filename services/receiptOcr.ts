@@ -0,0 +1,156 @@
+import config from '../config/env';
+import { groqReceiptProvider } from './groqService';
+import { localReceiptProvider, readReceiptText } from './receiptTextParser';
+import { mockReceiptProvider } from './mockReceiptProvider';
+import { ReceiptMerge, ReceiptMergeChoices, resolveReceiptMerge } from './receiptMerge';
+import { reconcileReceipt } from './receiptValidation';
+
+export { mergeReceiptPages } from './receiptMerge';
+export type { ReceiptMerge, ReceiptMergeChoices, ReceiptMergeConflict } from './receiptMerge';
+
+/**
+ * Receipt OCR behind a common provider interface.
+ * The receipt splitter only talks to this module; which provider reads photos is
+ * chosen by RECEIPT_OCR_PROVIDER in config/env.js (or setReceiptOcrProvider in development).
+ */
+
+export interface ReceiptItem {
+  name: string;
+  price: number;             // Price of one unit
+  quantity?: number;
+}
+
+export interface ReceiptData {
+  store: string;
+  date: string | null;
+  items: ReceiptItem[];
+  subtotal: number;
+  tax: number | null;
+  tip: number | null;
+  extraFees: number | null;
+  total: number;
+}
+
+export interface ReceiptImage {
+  path: string;              // Storage path of the photo
+  url: string;               // Download URL of the photo
+}
+
+export interface ReceiptProcessResult {
+  success: boolean;
+  data?: ReceiptData;
+  error?: string;
+  warnings?: string[];       // Amounts on the receipt that don't add up
+  image?: ReceiptImage;      // Where the photo was uploaded, when the provider uploaded it
+}
+
+// One photo of a receipt taken in several shots, and what was read from it
+export interface ReceiptPage {
+  imageUri: string;
+  data: ReceiptData;
+  image?: ReceiptImage;
+}
+
+export interface ReceiptPagesResult {
+  success: boolean;
+  pages?: ReceiptPage[];
+  error?: string;
+}
+
+export type ReceiptOcrProviderId = 'groq' | 'local' | 'mock';
+
+export interface ReceiptOcrProvider {
+  id: ReceiptOcrProviderId;
+  name: string;
+  requiresNetwork: boolean;
+  processImage: (imageUri: string) => Promise<ReceiptProcessResult>;
+}
+
+const PROVIDERS: Record<ReceiptOcrProviderId, ReceiptOcrProvider> = {
+  groq: groqReceiptProvider,
+  local: localReceiptProvider,
+  mock: mockReceiptProvider,
+};
+
+const isProviderId = (value: unknown): value is ReceiptOcrProviderId => {
+  return typeof value === 'string' && value in PROVIDERS;
+};
+
+let activeProvider: ReceiptOcrProvider = PROVIDERS[
+  isProviderId(config.RECEIPT_OCR_PROVIDER) ? config.RECEIPT_OCR_PROVIDER : 'groq'
+];
+
+/**
+ * Add warnings about amounts that don't add up to a successful result
+ * @param {Promise<ReceiptProcessResult>} pending - Result from a provider or the text parser
+ * @returns {Promise<ReceiptProcessResult>} The result with its warnings
+ */
+const withReconciliation = async (pending: Promise<ReceiptProcessResult>): Promise<ReceiptProcessResult> => {
+  const result = await pending;
+  if (!result.success || !result.data) return result;
+  return { ...result, warnings: reconcileReceipt(result.data) };
+};
+
+/**
+ * Get the provider that reads receipt photos
+ * @returns {ReceiptOcrProvider} The active provider
+ */
+export const getReceiptOcrProvider = (): ReceiptOcrProvider => activeProvider;
+
+/**
+ * Change the provider that reads receipt photos (e.g. to the mock provider while developing)
+ * @param {ReceiptOcrProviderId} id - ID of the provider to use
+ */
+export const setReceiptOcrProvider = (id: ReceiptOcrProviderId): void => {
+  activeProvider = PROVIDERS[id];
+};
+
+/**
+ * Read a receipt photo with the active provider
+ * @param {string} imageUri - URI of the photo
+ * @returns {Promise<ReceiptProcessResult>} The receipt and any warnings, or why it couldn't be read
+ */
+export const processReceiptImage = (imageUri: string): Promise<ReceiptProcessResult> => {
+  return withReconciliation(activeProvider.processImage(imageUri));
+};
+
+/**
+ * Read receipt text (from on-device OCR or pasted by the user) with the local parser.
+ * This works offline whichever provider is active.
+ * @param {string} text - Receipt text, one line per row of the receipt
+ * @returns {Promise<ReceiptProcessResult>} The receipt and any warnings, or why it couldn't be read
+ */
+export const processReceiptText = (text: string): Promise<ReceiptProcessResult> => {
+  return withReconciliation(readReceiptText(text));
+};
+
+/**
+ * Read the photos of a long receipt with the active provider, one after another
+ * @param {string[]} imageUris - URIs of the photos, top of the receipt first
+ * @returns {Promise<ReceiptPagesResult>} What was read from each photo, or why one couldn't be read
+ */
+export const processReceiptImages = async (imageUris: string[]): Promise<ReceiptPagesResult> => {
+  const pages: ReceiptPage[] = [];
+
+  // In sequence, so the provider's rate limit isn't hit all at once
+  for (const [index, imageUri] of imageUris.entries()) {
+    const result = await activeProvider.processImage(imageUri);
+    if (!result.success || !result.data) {
+      return { success: false, error: `Photo ${index + 1}: ${result.error || 'Unknown error'}` };
+    }
+    pages.push({ imageUri, data: result.data, image: result.image });
+  }
+
+  return { success: true, pages };
+};
+
+/**
+ * Build a combined receipt from the user's choices for its conflicts
+ * @param {ReceiptMerge} merge - The combined pages
+ * @param {ReceiptMergeChoices} choices - The option picked for each conflict
+ * @returns {ReceiptProcessResult} The receipt and any warnings
+ */
+export const resolveMergedReceipt = (merge: ReceiptMerge, choices: ReceiptMergeChoices): ReceiptProcessResult => {
+  const data = resolveReceiptMerge(merge, choices);
+  return { success: true, data, warnings: reconcileReceipt(data) };
+};
@@ -0,0 +1,243 @@
+import { fromMinorUnits, toMinorUnits } from '@/utils/money';
+import type { ReceiptData, ReceiptItem, ReceiptOcrProvider, ReceiptProcessResult } from './receiptOcr';
+
+/**
+ * Deterministic parser that turns plain receipt text into ReceiptData.
+ * Each line is read on its own: a line ending in a price is an item unless its label
+ * marks it as a subtotal, tax, tip, fee, total or payment. Amounts are added up in
+ * minor units so the parsed totals are exact.
+ */
+
+type LineKind = 'subtotal' | 'tax' | 'tip' | 'extraFees' | 'total' | 'payment' | 'discount' | 'item';
+
+interface PricedLine {
+  label: string;
+  amountMinor: number;
+}
+
+// Price at the end of a line, e.g. "12.50", "$1,204.00", "3,99", "2.00-" or "4.25 T" (tax flag)
+const PRICE_AT_END = /(?:^|\s)(-?)[$€£¥]?\s?(\d{1,3}(?:,\d{3})+|\d+)[.,](\d{2})(-?)(?:\s+[A-Z*]{1,2})?$/;
+
+const DATE_PATTERNS = {
+  isoDate: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/,
+  numericDate: /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/,
+};
+
+// Checked in order; the first that matches a line's label decides what the line is
+const LINE_KINDS: [LineKind, RegExp][] = [
+  ['subtotal', /\bsub\s*-?\s*total\b/],
+  ['payment', /\b(change|cash|tender(ed)?|visa|mastercard|amex|debit|credit|card|payment|savings|you saved|points|auth)\b/],
+  ['tax', /\b(tax|vat|gst|hst|pst)\b/],
+  ['extraFees', /\b(service\s*(charge|fee)|delivery|surcharge|fees?|included gratuity|auto gratuity)\b/],
+  ['tip', /\b(tip|gratuity)\b/],
+  ['total', /\b(total|amount due|balance due)\b/],
+  ['discount', /\b(discount|coupon|promo)\b/],
+];
+
+// Quantities written around an item's name, e.g. "2 x Burger", "Burger x2", "Burger 2 @ 4.50"
+const QUANTITY_PATTERNS = [
+  /^(\d{1,2})\s*[xX@]\s+(.+)$/,
+  /^(.+?)\s+[xX]\s?(\d{1,2})$/,
+  /^(.+?)\s+(\d{1,2})\s*@\s*[$€£¥]?\s*\d+[.,]\d{2}$/,
+];
+
+/**
+ * Split a line into its label and the price at the end of it
+ * @param {string} line - One line of the receipt
+ * @returns {PricedLine | null} The label and price, or null if the line has no price
+ */
+const readPricedLine = (line: string): PricedLine | null => {
+  const match = line.match(PRICE_AT_END);
+  if (!match || match.index === undefined) return null;
+
+  const [, leadingMinus, whole, fraction, trailingMinus] = match;
+  const amount = parseFloat(`${whole.replace(/,/g, '')}.${fraction}`);
+  const sign = leadingMinus || trailingMinus ? -1 : 1;
+
+  // Drop dot leaders and item codes around the label
+  const label = line.slice(0, match.index)
+    .replace(/[.\s:]+$/, '')
+    .replace(/^\d{4,}\s+/, '')
+    .trim();
+
+  return { label, amountMinor: sign * toMinorUnits(amount) };
+};
+
+/**
+ * Work out what a priced line is from its label
+ * @param {PricedLine} line - The line
+ * @returns {LineKind} What the line is
+ */
+const getLineKind = (line: PricedLine): LineKind => {
+  const label = line.label.toLowerCase();
+  const match = LINE_KINDS.find(([, pattern]) => pattern.test(label));
+
+  if (match) return match[0];
+  return line.amountMinor < 0 ? 'discount' : 'item';
+};
+
+/**
+ * Turn an item line into a receipt item, splitting out its quantity when the
+ * line total divides evenly between the units
+ * @param {PricedLine} line - The item's line
+ * @returns {ReceiptItem} The item, priced per unit
+ */
+const toReceiptItem = (line: PricedLine): ReceiptItem => {
+  for (const pattern of QUANTITY_PATTERNS) {
+    const match = line.label.match(pattern);
+    if (!match) continue;
+
+    const leadingQuantity = pattern === QUANTITY_PATTERNS[0];
+    const quantity = parseInt(leadingQuantity ? match[1] : match[2], 10);
+    const name = leadingQuantity ? match[2] : match[1];
+
+    if (quantity > 1 && line.amountMinor % quantity === 0) {
+      return { name: name.trim(), price: fromMinorUnits(line.amountMinor / quantity), quantity };
+    }
+  }
+
+  return { name: line.label || 'Item', price: fromMinorUnits(line.amountMinor), quantity: 1 };
+};
+
+/**
+ * Find the purchase date in a receipt's lines
+ * @param {string[]} lines - The receipt's lines
+ * @returns {string | null} The date as YYYY-MM-DD, or null if none was found
+ */
+const findDate = (lines: string[]): string | null => {
+  for (const line of lines) {
+    let year: number, month: number, day: number;
+
+    const iso = line.match(DATE_PATTERNS.isoDate);
+    const numeric = line.match(DATE_PATTERNS.numericDate);
+
+    if (iso) {
+      [year, month, day] = iso.slice(1).map(Number);
+    } else if (numeric) {
+      const [first, second, yearPart] = numeric.slice(1).map(Number);
+      // Month first unless that can't be right (e.g. 25/12/2024)
+      [month, day] = first > 12 ? [second, first] : [first, second];
+      year = yearPart < 100 ? 2000 + yearPart : yearPart;
+    } else {
+      continue;
+    }
+
+    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Find the store's name, which is the first line near the top that is only text
+ * @param {string[]} lines - The receipt's lines
+ * @returns {string} The store's name, or an empty string if none was found
+ */
+const findStore = (lines: string[]): string => {
+  const store = lines.slice(0, 5).find(line =>
+    /[a-z]{2}/i.test(line) &&
+    !/^\d/.test(line) &&
+    !readPricedLine(line) &&
+    !findDate([line])
+  );
+  return store || '';
+};
+
+/**
+ * Parse plain receipt text into receipt data
+ * @param {string} text - Receipt text, one line per row of the receipt
+ * @returns {ReceiptData | null} The receipt, or null if no items or totals were found
+ */
+export const parseReceiptText = (text: string): ReceiptData | null => {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+  const itemLines: PricedLine[] = [];
+  const charges = { subtotal: 0, tax: 0, tip: 0, extraFees: 0 };
+  const found = { subtotal: false, tax: false, tip: false, extraFees: false };
+  let totalMinor: number | null = null;
+  let pendingLabel = '';
+
+  for (const line of lines) {
+    const priced = readPricedLine(line);
+
+    if (!priced) {
+      // OCR often puts a long item name on one line and its price on the next
+      pendingLabel = line;
+      continue;
+    }
+    if (!priced.label && pendingLabel) {
+      priced.label = pendingLabel;
+    }
+    pendingLabel = '';
+
+    const kind = getLineKind(priced);
+
+    if (kind === 'total') {
+      // The last total printed is the one that was charged
+      totalMinor = priced.amountMinor;
+    } else if (kind === 'subtotal' || kind === 'tax' || kind === 'tip' || kind === 'extraFees') {
+      charges[kind] += priced.amountMinor;
+      found[kind] = true;
+    } else if (totalMinor !== null) {
+      // Anything priced after the total is payment details, not items
+      continue;
+    } else if (kind === 'discount') {
+      // Discounts come off the item printed above them
+      const previous = itemLines[itemLines.length - 1];
+      if (previous) {
+        previous.amountMinor = Math.max(0, previous.amountMinor - Math.abs(priced.amountMinor));
+      }
+    } else if (kind === 'item' && priced.amountMinor > 0) {
+      itemLines.push(priced);
+    }
+  }
+
+  if (itemLines.length === 0 && totalMinor === null) {
+    return null;
+  }
+
+  const itemsMinor = itemLines.reduce((sum, line) => sum + line.amountMinor, 0);
+  const subtotalMinor = found.subtotal ? charges.subtotal : itemsMinor;
+  const chargesMinor = charges.tax + charges.tip + charges.extraFees;
+
+  return {
+    store: findStore(lines),
+    date: findDate(lines),
+    items: itemLines.map(toReceiptItem),
+    subtotal: fromMinorUnits(subtotalMinor),
+    tax: found.tax ? fromMinorUnits(charges.tax) : null,
+    tip: found.tip ? fromMinorUnits(charges.tip) : null,
+    extraFees: found.extraFees ? fromMinorUnits(charges.extraFees) : null,
+    total: fromMinorUnits(totalMinor ?? subtotalMinor + chargesMinor),
+  };
+};
+
+/**
+ * Read receipt text into a process result, like the photo providers return
+ * @param {string} text - Receipt text, one line per row of the receipt
+ * @returns {Promise<ReceiptProcessResult>} The receipt, or why it couldn't be read
+ */
+export const readReceiptText = async (text: string): Promise<ReceiptProcessResult> => {
+  try {
+    const data = parseReceiptText(text);
+    if (!data) {
+      return { success: false, error: "Couldn't find any items or totals in the receipt text" };
+    }
+    return { success: true, data };
+  } catch (error: any) {
+    console.error('Error parsing receipt text:', error);
+    return { success: false, error: error.message || 'Failed to read receipt text' };
+  }
+};
+
+// Reads pasted or on-device OCR text; it can't read photos by itself
+export const localReceiptProvider: ReceiptOcrProvider = {
+  id: 'local',
+  name: 'On-device',
+  requiresNetwork: false,
+  processImage: async () => ({
+    success: false,
+    error: "Photos can't be read offline. Enter the receipt's text instead.",
+  }),
+};
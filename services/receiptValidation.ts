@@ -0,0 +1,61 @@
+import type { ValidationIssue } from '@/firebase/errors';
+import { validateReceiptData as validateOcrOutput } from '@/functions/receiptValidation';
+import { formatAmount } from '@/utils/currency';
+import { fromMinorUnits, toMinorUnits } from '@/utils/money';
+import type { ReceiptData } from './receiptOcr';
+
+/**
+ * Runtime checks for receipts read by OCR.
+ * Coercing and validating OCR output is shared with the scanReceipt Cloud Function
+ * (see functions/receiptValidation.js). Receipts that pass are reconciled to catch
+ * amounts that were misread, which is reported as warnings rather than errors.
+ */
+
+export interface ReceiptValidationResult {
+  data: ReceiptData | null;  // The coerced receipt, or null when it doesn't match ReceiptData
+  issues: ValidationIssue[];
+}
+
+/**
+ * Coerce and validate OCR output as a receipt
+ * @param {unknown} raw - Parsed OCR output
+ * @returns {ReceiptValidationResult} The receipt when it's valid, and the problems found
+ */
+export const validateReceiptData = (raw: unknown): ReceiptValidationResult => {
+  const { data, issues } = validateOcrOutput(raw);
+  return { data: data as ReceiptData | null, issues };
+};
+
+/**
+ * Check that a receipt's amounts add up
+ * @param {ReceiptData} data - The receipt
+ * @param {string} currency - Currency of the receipt, for rounding and formatting
+ * @returns {string[]} Warnings about amounts that don't add up, empty when they do
+ */
+export const reconcileReceipt = (data: ReceiptData, currency?: string | null): string[] => {
+  const warnings: string[] = [];
+  const format = (minor: number) => formatAmount(fromMinorUnits(minor, currency), currency);
+
+  const itemsMinor = data.items.reduce(
+    (sum, item) => sum + toMinorUnits(item.price * (item.quantity || 1), currency),
+    0
+  );
+  const subtotalMinor = toMinorUnits(data.subtotal, currency);
+  const chargesMinor = [data.tax, data.tip, data.extraFees]
+    .reduce((sum: number, charge) => sum + toMinorUnits(charge ?? 0, currency), 0);
+  const totalMinor = toMinorUnits(data.total, currency);
+
+  if (data.items.length === 0) {
+    warnings.push('No items were found on the receipt');
+  } else if (itemsMinor !== subtotalMinor) {
+    warnings.push(`Items add up to ${format(itemsMinor)} but the subtotal is ${format(subtotalMinor)}`);
+  }
+
+  if (subtotalMinor + chargesMinor !== totalMinor) {
+    warnings.push(
+      `Subtotal, tax, tip and fees add up to ${format(subtotalMinor + chargesMinor)} but the total is ${format(totalMinor)}`
+    );
+  }
+
+  return warnings;
+};
@@ -0,0 +1,118 @@
+import eventEmitter from '@/utils/eventEmitter';
+
+describe('eventEmitter', () => {
+  const unsubscribers: (() => void)[] = [];
+  const track = (unsubscribe: () => void) => {
+    unsubscribers.push(unsubscribe);
+    return unsubscribe;
+  };
+
+  afterEach(() => {
+    unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+    jest.restoreAllMocks();
+  });
+
+  it('calls listeners with the event data', () => {
+    const listener = jest.fn();
+    track(eventEmitter.on('DEBT_PAID', listener));
+
+    eventEmitter.emit('DEBT_PAID', { debtId: 'debt-1', isPaid: true });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ debtId: 'debt-1', isPaid: true });
+  });
+
+  it('only calls listeners of the emitted event', () => {
+    const paidListener = jest.fn();
+    const groupListener = jest.fn();
+    track(eventEmitter.on('DEBT_PAID', paidListener));
+    track(eventEmitter.on('GROUP_UPDATED', groupListener));
+
+    eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-1' });
+
+    expect(paidListener).not.toHaveBeenCalled();
+    expect(groupListener).toHaveBeenCalledWith({ groupId: 'group-1' });
+  });
+
+  it('stops calling a listener once it unsubscribes', () => {
+    const listener = jest.fn();
+    const unsubscribe = eventEmitter.on('GROUP_UPDATED', listener);
+
+    eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-1' });
+    unsubscribe();
+    eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-2' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls a once listener for the next event only', () => {
+    const listener = jest.fn();
+    track(eventEmitter.once('GROUP_UPDATED', listener));
+
+    eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-1' });
+    eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-2' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ groupId: 'group-1' });
+  });
+
+  it('lets a once listener be unsubscribed before the event', () => {
+    const listener = jest.fn();
+    const unsubscribe = eventEmitter.once('GROUP_UPDATED', listener);
+
+    unsubscribe();
+    eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-1' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('calls onAny listeners with the event name and data for every event', () => {
+    const listener = jest.fn();
+    const unsubscribe = eventEmitter.onAny(listener);
+
+    eventEmitter.emit('DEBT_PAID', { debtId: 'debt-1', isPaid: false });
+    eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-1' });
+    unsubscribe();
+    eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-2' });
+
+    expect(listener.mock.calls).toEqual([
+      ['DEBT_PAID', { debtId: 'debt-1', isPaid: false }],
+      ['GROUP_UPDATED', { groupId: 'group-1' }],
+    ]);
+  });
+
+  it('keeps calling the other listeners when one throws', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const before = jest.fn();
+    const after = jest.fn();
+    const wildcard = jest.fn();
+    track(eventEmitter.on('GROUP_UPDATED', before));
+    track(eventEmitter.on('GROUP_UPDATED', () => {
+      throw new Error('listener failed');
+    }));
+    track(eventEmitter.on('GROUP_UPDATED', after));
+    track(eventEmitter.onAny(() => {
+      throw new Error('wildcard failed');
+    }));
+    track(eventEmitter.onAny(wildcard));
+
+    expect(() => eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-1' })).not.toThrow();
+
+    expect(before).toHaveBeenCalledTimes(1);
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(wildcard).toHaveBeenCalledWith('GROUP_UPDATED', { groupId: 'group-1' });
+    expect(consoleError).toHaveBeenCalledTimes(2);
+  });
+
+  it('calls every listener subscribed when the event was emitted, even if one unsubscribes another', () => {
+    const second = jest.fn();
+    let unsubscribeSecond = () => {};
+    track(eventEmitter.on('GROUP_UPDATED', () => unsubscribeSecond()));
+    unsubscribeSecond = track(eventEmitter.on('GROUP_UPDATED', second));
+
+    eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-1' });
+    eventEmitter.emit('GROUP_UPDATED', { groupId: 'group-2' });
+
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,122 @@
+import { allocate, fromMinorUnits, splitAmountEvenly, splitEvenly, sumMoney, toMinorUnits } from '@/utils/money';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('toMinorUnits / fromMinorUnits', () => {
+  it('converts to cents without float noise', () => {
+    expect(toMinorUnits(12.34, 'USD')).toBe(1234);
+    expect(toMinorUnits(1.005, 'USD')).toBe(101);
+    expect(toMinorUnits(0.1 + 0.2, 'USD')).toBe(30);
+    expect(fromMinorUnits(1234, 'USD')).toBe(12.34);
+  });
+
+  it('uses whole units for zero-decimal currencies', () => {
+    expect(toMinorUnits(1500, 'JPY')).toBe(1500);
+    expect(toMinorUnits(1500.4, 'JPY')).toBe(1500);
+    expect(fromMinorUnits(1500, 'JPY')).toBe(1500);
+  });
+
+  it('treats missing amounts as zero', () => {
+    expect(toMinorUnits(NaN, 'USD')).toBe(0);
+    expect(toMinorUnits(0, 'USD')).toBe(0);
+  });
+
+  it('sums amounts exactly', () => {
+    expect(sumMoney([0.1, 0.2, 0.3], 'USD')).toBe(0.6);
+  });
+});
+
+describe('allocate', () => {
+  it('hands the remainder to the largest fractional shares first', () => {
+    // 100 split 1:1:1 is 33.33 each, and the first share gets the leftover cent
+    expect(allocate(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    // 10 split 1:2:3 is 1.67, 3.33, 5, so the 0.67 remainder gets the leftover unit
+    expect(allocate(10, [1, 2, 3])).toEqual([2, 3, 5]);
+  });
+
+  it('breaks ties by position', () => {
+    expect(allocate(2, [1, 1, 1])).toEqual([1, 1, 0]);
+    expect(allocate(5, [1, 1, 1, 1])).toEqual([2, 1, 1, 1]);
+  });
+
+  it('gives nothing to zero weights', () => {
+    expect(allocate(100, [0, 1, 1])).toEqual([0, 50, 50]);
+    expect(allocate(101, [1, 0, 1])).toEqual([51, 0, 50]);
+  });
+
+  it('treats negative and non-finite weights as zero', () => {
+    expect(allocate(100, [-5, 1, 1])).toEqual([0, 50, 50]);
+    expect(allocate(100, [NaN, Infinity, 1])).toEqual([0, 0, 100]);
+  });
+
+  it('splits evenly when every weight is zero', () => {
+    expect(allocate(100, [0, 0, 0])).toEqual([34, 33, 33]);
+    expect(allocate(100, [-1, 0])).toEqual([50, 50]);
+  });
+
+  it('allocates negative totals symmetrically', () => {
+    expect(allocate(-100, [1, 1, 1])).toEqual([-34, -33, -33]);
+    expect(allocate(-10, [0, 1])).toEqual([0, -10]);
+  });
+
+  it('returns no shares for no weights', () => {
+    expect(allocate(100, [])).toEqual([]);
+  });
+
+  it('rounds a fractional total before allocating', () => {
+    expect(sum(allocate(99.6, [1, 1]))).toBe(100);
+  });
+
+  it('always adds back up to the whole', () => {
+    const weightSets = [
+      [1],
+      [1, 1, 1],
+      [0.1, 0.2, 0.7],
+      [3, 0, 7, 11],
+      [1, 1, 1, 1, 1, 1, 1],
+      [0, 0],
+      [-2, 5, 0.5],
+      [1e-9, 1, 1e9],
+    ];
+
+    for (let total = -250; total <= 1000; total += 7) {
+      weightSets.forEach(weights => {
+        const shares = allocate(total, weights);
+        expect(shares).toHaveLength(weights.length);
+        expect(sum(shares)).toBe(total);
+        shares.forEach(share => expect(Number.isInteger(share)).toBe(true));
+      });
+    }
+  });
+});
+
+describe('splitEvenly', () => {
+  it('splits into shares at most one unit apart that sum to the total', () => {
+    for (let count = 1; count <= 12; count++) {
+      for (let total = 0; total <= 500; total += 13) {
+        const shares = splitEvenly(total, count);
+        expect(sum(shares)).toBe(total);
+        expect(Math.max(...shares) - Math.min(...shares)).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it('returns no shares for a zero or negative count', () => {
+    expect(splitEvenly(100, 0)).toEqual([]);
+    expect(splitEvenly(100, -3)).toEqual([]);
+  });
+});
+
+describe('splitAmountEvenly', () => {
+  it('splits dollars into cents that add back up', () => {
+    const shares = splitAmountEvenly(10, 3, 'USD');
+    expect(shares).toEqual([3.34, 3.33, 3.33]);
+    expect(sumMoney(shares, 'USD')).toBe(10);
+  });
+
+  it('splits yen into whole yen', () => {
+    const shares = splitAmountEvenly(1000, 3, 'JPY');
+    expect(shares).toEqual([334, 333, 333]);
+    expect(sum(shares)).toBe(1000);
+  });
+});
@@ -0,0 +1,231 @@
+import { sumMoney } from '@/utils/money';
+import {
+  AllocationItem,
+  AllocationSettings,
+  DEFAULT_ALLOCATION_SETTINGS,
+  allocateReceipt,
+} from '@/utils/receiptAllocation';
+
+const item = (price: number, splitBetween: string[], quantity = 1): AllocationItem => ({
+  price,
+  quantity,
+  split: true,
+  assignedTo: null,
+  splitBetween,
+});
+
+const settings = (overrides: Partial<AllocationSettings> = {}): AllocationSettings => ({
+  ...DEFAULT_ALLOCATION_SETTINGS,
+  ...overrides,
+});
+
+const sumShares = (result: ReturnType<typeof allocateReceipt>) => {
+  return sumMoney(Object.values(result.shares).map(share => share.total), 'USD');
+};
+
+const personIds = ['p1', 'p2', 'p3'];
+
+describe('allocateReceipt', () => {
+  it('gives everyone their items, splitting shared ones evenly', () => {
+    const result = allocateReceipt({
+      items: [item(10, ['p1']), item(7, ['p1', 'p2', 'p3']), { ...item(3, []), assignedTo: 'p3' }],
+      personIds,
+      charges: { tax: null, tip: null, extraFees: null },
+      currency: 'USD',
+    });
+
+    expect(result.subtotal).toBe(20);
+    expect(result.shares.p1.items).toBe(12.34);
+    expect(result.shares.p2.items).toBe(2.33);
+    expect(result.shares.p3.items).toBe(5.33);
+  });
+
+  it('leaves out items that are not part of the split', () => {
+    const result = allocateReceipt({
+      items: [item(10, ['p1']), { ...item(5, ['p2']), split: false }],
+      personIds,
+      charges: { tax: null, tip: null, extraFees: null },
+      currency: 'USD',
+    });
+
+    expect(result.subtotal).toBe(10);
+    expect(result.shares.p2.total).toBe(0);
+  });
+
+  it.each([
+    ['proportional', 'equal', 'proportional'],
+    ['equal', 'proportional', 'equal'],
+    ['proportional', 'proportional', 'proportional'],
+  ] as const)('has shares that sum to the total when tax is %s, tip %s and fees %s', (tax, tip, extraFees) => {
+    [0.01, 0.99, 1.07, 3.33, 12.5].forEach(charge => {
+      const result = allocateReceipt({
+        items: [item(10, ['p1']), item(7, ['p1', 'p2', 'p3']), item(4.99, ['p2'], 3), item(0.01, ['p3'])],
+        personIds,
+        charges: { tax: charge, tip: charge * 2, extraFees: charge / 3 },
+        settings: settings({
+          tax: { method: tax, exemptPersonIds: [] },
+          tip: { method: tip, exemptPersonIds: [] },
+          extraFees: { method: extraFees, exemptPersonIds: [] },
+        }),
+        currency: 'USD',
+      });
+
+      expect(sumShares(result)).toBe(result.total);
+      expect(sumMoney([result.subtotal, result.charges.tax, result.charges.tip, result.charges.extraFees], 'USD'))
+        .toBe(result.total);
+    });
+  });
+
+  it('splits charges proportionally to each person\'s items', () => {
+    const result = allocateReceipt({
+      items: [item(30, ['p1']), item(10, ['p2'])],
+      personIds: ['p1', 'p2'],
+      charges: { tax: 4, tip: null, extraFees: null },
+      settings: settings({ tax: { method: 'proportional', exemptPersonIds: [] } }),
+      currency: 'USD',
+    });
+
+    expect(result.shares.p1).toEqual({ items: 30, tax: 3, tip: 0, extraFees: 0, total: 33 });
+    expect(result.shares.p2).toEqual({ items: 10, tax: 1, tip: 0, extraFees: 0, total: 11 });
+  });
+
+  describe('exempt people', () => {
+    it('splits the charge between everyone else', () => {
+      const result = allocateReceipt({
+        items: [item(10, ['p1']), item(10, ['p2']), item(10, ['p3'])],
+        personIds,
+        charges: { tax: null, tip: 5, extraFees: null },
+        settings: settings({ tip: { method: 'equal', exemptPersonIds: ['p2'] } }),
+        currency: 'USD',
+      });
+
+      expect(result.shares.p1.tip).toBe(2.5);
+      expect(result.shares.p2.tip).toBe(0);
+      expect(result.shares.p3.tip).toBe(2.5);
+      expect(sumShares(result)).toBe(result.total);
+    });
+
+    it('leaves a charge unallocated when everyone is exempt', () => {
+      const result = allocateReceipt({
+        items: [item(10, ['p1']), item(10, ['p2'])],
+        personIds: ['p1', 'p2'],
+        charges: { tax: 2, tip: null, extraFees: null },
+        settings: settings({ tax: { method: 'proportional', exemptPersonIds: ['p1', 'p2'] } }),
+        currency: 'USD',
+      });
+
+      expect(result.shares.p1.tax).toBe(0);
+      expect(result.shares.p2.tax).toBe(0);
+    });
+  });
+
+  describe('fixed', () => {
+    it('charges everyone with items the same amount, replacing the receipt\'s charge', () => {
+      const result = allocateReceipt({
+        items: [item(10, ['p1']), item(20, ['p2'])],
+        personIds,
+        charges: { tax: null, tip: null, extraFees: 9.99 },
+        settings: settings({ extraFees: { method: 'fixed', exemptPersonIds: [], fixedAmount: 1.5 } }),
+        currency: 'USD',
+      });
+
+      expect(result.shares.p1.extraFees).toBe(1.5);
+      expect(result.shares.p2.extraFees).toBe(1.5);
+      expect(result.shares.p3.extraFees).toBe(0); // No items
+      expect(result.charges.extraFees).toBe(3);
+      expect(result.total).toBe(33);
+      expect(sumShares(result)).toBe(result.total);
+    });
+
+    it('leaves out exempt people', () => {
+      const result = allocateReceipt({
+        items: [item(10, ['p1']), item(20, ['p2'])],
+        personIds: ['p1', 'p2'],
+        charges: { tax: null, tip: null, extraFees: null },
+        settings: settings({ extraFees: { method: 'fixed', exemptPersonIds: ['p1'], fixedAmount: 2 } }),
+        currency: 'USD',
+      });
+
+      expect(result.shares.p1.extraFees).toBe(0);
+      expect(result.shares.p2.extraFees).toBe(2);
+      expect(result.charges.extraFees).toBe(2);
+    });
+  });
+
+  describe('tipPercentage', () => {
+    it('works out the tip from the subtotal instead of the receipt\'s tip', () => {
+      const result = allocateReceipt({
+        items: [item(12.5, ['p1']), item(7.5, ['p2'])],
+        personIds: ['p1', 'p2'],
+        charges: { tax: null, tip: 10, extraFees: null },
+        settings: settings({ tipPercentage: 18, tip: { method: 'proportional', exemptPersonIds: [] } }),
+        currency: 'USD',
+      });
+
+      expect(result.charges.tip).toBe(3.6);
+      expect(result.shares.p1.tip).toBe(2.25);
+      expect(result.shares.p2.tip).toBe(1.35);
+      expect(result.total).toBe(23.6);
+      expect(sumShares(result)).toBe(result.total);
+    });
+
+    it('rounds the tip to whole minor units', () => {
+      const result = allocateReceipt({
+        items: [item(9.99, ['p1'])],
+        personIds: ['p1'],
+        charges: { tax: null, tip: null, extraFees: null },
+        settings: settings({ tipPercentage: 15 }),
+        currency: 'USD',
+      });
+
+      expect(result.charges.tip).toBe(1.5);
+      expect(result.shares.p1.total).toBe(11.49);
+    });
+  });
+
+  describe('unassigned items', () => {
+    const items = [item(10, ['p1']), item(10, ['p2']), item(20, [])];
+
+    it('keep their part of a proportional charge out of everyone\'s shares', () => {
+      const result = allocateReceipt({
+        items,
+        personIds: ['p1', 'p2'],
+        charges: { tax: 4, tip: null, extraFees: null },
+        settings: settings({ tax: { method: 'proportional', exemptPersonIds: [] } }),
+        currency: 'USD',
+      });
+
+      expect(result.shares.p1).toEqual({ items: 10, tax: 1, tip: 0, extraFees: 0, total: 11 });
+      expect(result.shares.p2).toEqual({ items: 10, tax: 1, tip: 0, extraFees: 0, total: 11 });
+      expect(result.total).toBe(44);
+      // What's left over is the unassigned items and their share of the tax
+      expect(sumMoney([sumShares(result), 20, 2], 'USD')).toBe(result.total);
+    });
+
+    it('don\'t change an equal split between the people with items', () => {
+      const result = allocateReceipt({
+        items,
+        personIds: ['p1', 'p2'],
+        charges: { tax: 4, tip: null, extraFees: null },
+        settings: settings({ tax: { method: 'equal', exemptPersonIds: [] } }),
+        currency: 'USD',
+      });
+
+      expect(result.shares.p1.tax).toBe(2);
+      expect(result.shares.p2.tax).toBe(2);
+    });
+  });
+
+  it('uses whole units for zero-decimal currencies', () => {
+    const result = allocateReceipt({
+      items: [item(1000, ['p1', 'p2', 'p3'])],
+      personIds,
+      charges: { tax: 100, tip: null, extraFees: null },
+      settings: settings({ tax: { method: 'equal', exemptPersonIds: [] } }),
+      currency: 'JPY',
+    });
+
+    expect(Object.values(result.shares).map(share => share.total)).toEqual([368, 366, 366]);
+    expect(sumMoney(Object.values(result.shares).map(share => share.total), 'JPY')).toBe(result.total);
+  });
+});
@@ -0,0 +1,20 @@
+import { buildSmsUrl } from '@/utils/reminderMessages';
+
+describe('buildSmsUrl', () => {
+  it('keeps only the digits of a local number', () => {
+    expect(buildSmsUrl('Hi', '(555) 123-4567', 'android')).toBe('sms:5551234567?body=Hi');
+  });
+
+  it('keeps the leading + of an international number', () => {
+    expect(buildSmsUrl('Hi', ' +44 20 7946 0958', 'android')).toBe('sms:+442079460958?body=Hi');
+    expect(buildSmsUrl('Hi', '+1 (555) 123-4567', 'ios')).toBe('sms:+15551234567&body=Hi');
+  });
+
+  it('drops a + anywhere but the start', () => {
+    expect(buildSmsUrl('Hi', '555+1234', 'android')).toBe('sms:5551234?body=Hi');
+  });
+
+  it('leaves out the recipient when there is no number', () => {
+    expect(buildSmsUrl('Pay me back', null, 'ios')).toBe('sms:&body=Pay%20me%20back');
+  });
+});
@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  AllocationMethod,
+  AllocationSettings,
+  CHARGE_TYPES,
+  ChargeStrategy,
+  DEFAULT_ALLOCATION_SETTINGS
+} from '@/utils/receiptAllocation';
+
+// Constants for AsyncStorage
+const ALLOCATION_SETTINGS_KEY = 'PAID_APP_ALLOCATION_SETTINGS';
+
+const ALLOCATION_METHODS: AllocationMethod[] = ['equal', 'proportional', 'fixed'];
+
+/**
+ * Coerce a stored charge strategy, falling back to the default for anything invalid
+ * @param {any} value - Stored strategy
+ * @param {ChargeStrategy} fallback - Default strategy
+ * @returns {ChargeStrategy} Valid strategy
+ */
+const parseChargeStrategy = (value: any, fallback: ChargeStrategy): ChargeStrategy => {
+  if (!value || !ALLOCATION_METHODS.includes(value.method)) return { ...fallback };
+
+  const fixedAmount = Number(value.fixedAmount);
+
+  return {
+    method: value.method,
+    exemptPersonIds: Array.isArray(value.exemptPersonIds) ? value.exemptPersonIds.map(String) : [],
+    ...(fixedAmount > 0 ? { fixedAmount } : {}),
+  };
+};
+
+/**
+ * Load the user's default receipt split rules from local storage
+ * @returns {Promise<AllocationSettings>} Saved settings, or the defaults
+ */
+export const loadAllocationSettings = async (): Promise<AllocationSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(ALLOCATION_SETTINGS_KEY);
+    if (!stored) return DEFAULT_ALLOCATION_SETTINGS;
+
+    const parsed = JSON.parse(stored);
+    const settings = { ...DEFAULT_ALLOCATION_SETTINGS };
+
+    CHARGE_TYPES.forEach(type => {
+      settings[type] = parseChargeStrategy(parsed?.[type], DEFAULT_ALLOCATION_SETTINGS[type]);
+    });
+
+    const tipPercentage = Number(parsed?.tipPercentage);
+    settings.tipPercentage = parsed?.tipPercentage !== null && tipPercentage >= 0 ? tipPercentage : null;
+
+    return settings;
+  } catch (error) {
+    console.error('Error loading allocation settings:', error);
+    return DEFAULT_ALLOCATION_SETTINGS;
+  }
+};
+
+/**
+ * Save the user's default receipt split rules to local storage
+ * @param {AllocationSettings} settings - Settings to remember
+ * @returns {Promise<void>}
+ */
+export const saveAllocationSettings = async (settings: AllocationSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(ALLOCATION_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving allocation settings:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,126 @@
+import { CurrencyCode } from '@/firebase/models';
+
+/**
+ * Display information for a supported currency
+ */
+export interface CurrencyInfo {
+  code: CurrencyCode;        // ISO 4217 currency code
+  name: string;              // Human readable name
+  symbol: string;            // Symbol shown before the amount
+  decimals: number;          // Number of minor unit digits (0 for JPY)
+}
+
+/**
+ * Exchange rate table, expressed as units of each currency per 1 USD
+ */
+export type ExchangeRates = Record<CurrencyCode, number>;
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  USD: { code: 'USD', name: 'US Dollar', symbol: '$', decimals: 2 },
+  EUR: { code: 'EUR', name: 'Euro', symbol: '€', decimals: 2 },
+  GBP: { code: 'GBP', name: 'British Pound', symbol: '£', decimals: 2 },
+  JPY: { code: 'JPY', name: 'Japanese Yen', symbol: '¥', decimals: 0 },
+  CAD: { code: 'CAD', name: 'Canadian Dollar', symbol: 'CA$', decimals: 2 },
+  AUD: { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', decimals: 2 },
+  MXN: { code: 'MXN', name: 'Mexican Peso', symbol: 'MX$', decimals: 2 },
+  INR: { code: 'INR', name: 'Indian Rupee', symbol: '₹', decimals: 2 },
+  CHF: { code: 'CHF', name: 'Swiss Franc', symbol: 'CHF ', decimals: 2 },
+  CNY: { code: 'CNY', name: 'Chinese Yuan', symbol: 'CN¥', decimals: 2 },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+/**
+ * Approximate rates used until the user edits their own rate table
+ */
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 150,
+  CAD: 1.36,
+  AUD: 1.52,
+  MXN: 17.1,
+  INR: 83.2,
+  CHF: 0.88,
+  CNY: 7.2,
+};
+
+/**
+ * Check whether a value is a supported currency code
+ * @param {unknown} code - Value to check
+ * @returns {boolean} True if the code is supported
+ */
+export const isCurrencyCode = (code: unknown): code is CurrencyCode => {
+  return typeof code === 'string' && code in CURRENCIES;
+};
+
+/**
+ * Get display information for a currency, falling back to the default currency
+ * @param {string} code - ISO 4217 currency code
+ * @returns {CurrencyInfo} Currency information
+ */
+export const getCurrencyInfo = (code?: string | null): CurrencyInfo => {
+  return isCurrencyCode(code) ? CURRENCIES[code] : CURRENCIES[DEFAULT_CURRENCY];
+};
+
+/**
+ * Round an amount to the minor units of a currency
+ * @param {number} amount - Amount to round
+ * @param {string} code - ISO 4217 currency code
+ * @returns {number} Rounded amount
+ */
+export const roundToCurrency = (amount: number, code?: string | null): number => {
+  const factor = Math.pow(10, getCurrencyInfo(code).decimals);
+  return Math.round(amount * factor) / factor;
+};
+
+/**
+ * Format an amount without its currency symbol (e.g., "12.50" or "1500" for JPY)
+ * @param {number} amount - Amount to format
+ * @param {string} code - ISO 4217 currency code
+ * @returns {string} Formatted number
+ */
+export const formatAmount = (amount: number, code?: string | null): string => {
+  const value = isNaN(amount) ? 0 : amount;
+  return value.toFixed(getCurrencyInfo(code).decimals);
+};
+
+/**
+ * Format an amount with its currency symbol (e.g., "$12.50", "€8.00", "¥1500")
+ * @param {number} amount - Amount to format
+ * @param {string} code - ISO 4217 currency code
+ * @returns {string} Formatted amount
+ */
+export const formatCurrency = (amount: number, code?: string | null): string => {
+  const info = getCurrencyInfo(code);
+  const formatted = formatAmount(Math.abs(amount), info.code);
+  return `${amount < 0 ? '-' : ''}${info.symbol}${formatted}`;
+};
+
+/**
+ * Convert an amount between currencies using a rate table
+ * @param {number} amount - Amount in the source currency
+ * @param {string} from - Source currency code
+ * @param {string} to - Target currency code
+ * @param {ExchangeRates} rates - Units of each currency per 1 USD
+ * @returns {number} Amount in the target currency, rounded to its minor units
+ */
+export const convertAmount = (
+  amount: number,
+  from: string | null | undefined,
+  to: string | null | undefined,
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): number => {
+  const fromCode = getCurrencyInfo(from).code;
+  const toCode = getCurrencyInfo(to).code;
+
+  if (fromCode === toCode) return amount;
+
+  const fromRate = rates[fromCode] || DEFAULT_EXCHANGE_RATES[fromCode];
+  const toRate = rates[toCode] || DEFAULT_EXCHANGE_RATES[toCode];
+
+  return roundToCurrency((amount / fromRate) * toRate, toCode);
+};
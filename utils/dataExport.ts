@@ -0,0 +1,385 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import { CurrencyCode, Debt, DebtGroup, DebtGroupMode, RecurrenceUnit, RecurringDebt, RecurringFrequency } from '@/firebase/models';
+import { formatAmount, getCurrencyInfo } from '@/utils/currency';
+import { getPaidAmount, getRemainingBalance, isPartiallyPaid } from '@/utils/debtBalance';
+import { fromMinorUnits, toMinorUnits } from '@/utils/money';
+
+/**
+ * Export of a user's debts, groups and recurring templates.
+ * The format is documented in README_DATA_EXPORT.md. Bump EXPORT_VERSION
+ * whenever a field or column is renamed or removed; adding fields at the end is fine.
+ */
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_VERSION = 1;
+
+export interface ExportedPayment {
+  id: string;
+  amount: number;
+  paidAt: string | null;
+  method: string | null;
+  note: string | null;
+}
+
+export interface ExportedDebt {
+  id: string;
+  debtorName: string;
+  description: string;
+  amount: number;
+  paidAmount: number;
+  remainingAmount: number;
+  currency: CurrencyCode;
+  status: 'unpaid' | 'partial' | 'paid';
+  createdAt: string | null;
+  updatedAt: string | null;
+  paidAt: string | null;
+  dueDate: string | null;
+  groupId: string | null;
+  recurringId: string | null;
+  phoneNumber: string | null;
+  debtorUsername: string | null;
+  payments: ExportedPayment[];
+}
+
+export interface ExportedGroup {
+  id: string;
+  name: string;
+  description: string;
+  mode: DebtGroupMode;
+  totalAmount: number;
+  paidAmount: number;
+  remainingAmount: number;
+  currency: CurrencyCode;
+  status: 'open' | 'completed';
+  createdAt: string | null;
+  updatedAt: string | null;
+  dueDate: string | null;
+  recurringId: string | null;
+}
+
+export interface ExportedRecurringTemplate {
+  id: string;
+  kind: 'debt' | 'group';    // Recurring group templates share their ID with the group they repeat
+  name: string;              // Debtor name, or group name for group templates
+  description: string;
+  amount: number;
+  currency: CurrencyCode;
+  status: 'active' | 'inactive';
+  frequency: RecurringFrequency;
+  interval: number | null;
+  intervalUnit: RecurrenceUnit | null;
+  startDate: string | null;
+  endDate: string | null;
+  occurrenceCount: number | null;
+  nextGenerationDate: string | null;
+  dayOfMonth: number | null;
+  dayOfWeek: number | null;
+  gracePeriodDays: number | null;
+  groupId: string | null;
+  phoneNumber: string | null;
+}
+
+export interface ExportData {
+  format: 'paid-export';
+  version: number;
+  exportedAt: string;
+  debts: ExportedDebt[];
+  groups: ExportedGroup[];
+  recurringTemplates: ExportedRecurringTemplate[];
+}
+
+// CSV columns, in order. Every record type shares the same columns and leaves the ones it doesn't use empty.
+export const EXPORT_CSV_COLUMNS = [
+  'record_type',
+  'id',
+  'name',
+  'description',
+  'amount',
+  'paid_amount',
+  'remaining_amount',
+  'currency',
+  'status',
+  'created_at',
+  'updated_at',
+  'paid_at',
+  'due_date',
+  'group_id',
+  'recurring_id',
+  'frequency',
+  'start_date',
+  'end_date',
+  'next_generation_date',
+  'phone_number',
+  'interval',
+  'interval_unit',
+  'occurrence_count',
+] as const;
+
+type ExportCsvColumn = typeof EXPORT_CSV_COLUMNS[number];
+type ExportCsvRow = Partial<Record<ExportCsvColumn, string | number | null>>;
+
+/**
+ * Normalize a stored date (ISO string, Date or Firestore Timestamp) to an ISO string
+ * @param {unknown} value - Stored date
+ * @returns {string|null} ISO string, or null when missing or invalid
+ */
+const toIsoDate = (value: unknown): string | null => {
+  if (!value) return null;
+
+  const date = typeof (value as { toDate?: () => Date }).toDate === 'function'
+    ? (value as { toDate: () => Date }).toDate()
+    : new Date(value as string | number | Date);
+
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Convert a debt to its export record
+ * @param {Debt} debt - The debt
+ * @returns {ExportedDebt} Export record
+ */
+const exportDebt = (debt: Debt): ExportedDebt => {
+  const currency = getCurrencyInfo(debt.currency).code;
+  const balanceFields = { ...debt, currency, amount: Number(debt.amount) || 0 };
+
+  return {
+    id: debt.id || '',
+    debtorName: debt.debtorName || '',
+    description: debt.description || '',
+    amount: balanceFields.amount,
+    paidAmount: getPaidAmount(balanceFields),
+    remainingAmount: getRemainingBalance(balanceFields),
+    currency,
+    status: debt.isPaid ? 'paid' : isPartiallyPaid(balanceFields) ? 'partial' : 'unpaid',
+    createdAt: toIsoDate(debt.createdAt),
+    updatedAt: toIsoDate(debt.updatedAt),
+    paidAt: debt.isPaid ? toIsoDate(debt.paidAt) : null,
+    dueDate: toIsoDate(debt.dueDate),
+    groupId: debt.groupId || null,
+    recurringId: debt.recurringId || null,
+    phoneNumber: debt.phoneNumber || null,
+    debtorUsername: debt.debtorUsername || null,
+    payments: (debt.payments || []).map(payment => ({
+      id: payment.id,
+      amount: Number(payment.amount) || 0,
+      paidAt: toIsoDate(payment.paidAt),
+      method: payment.method || null,
+      note: payment.note || null,
+    })),
+  };
+};
+
+/**
+ * Convert a debt group to its export record
+ * @param {DebtGroup} group - The group
+ * @returns {ExportedGroup} Export record
+ */
+const exportGroup = (group: DebtGroup): ExportedGroup => {
+  const currency = getCurrencyInfo(group.currency).code;
+  const totalAmount = Number(group.totalAmount) || 0;
+  const paidAmount = Number(group.paidAmount) || 0;
+  const remainingMinor = toMinorUnits(totalAmount, currency) - toMinorUnits(paidAmount, currency);
+
+  return {
+    id: group.id || '',
+    name: group.name || '',
+    description: group.description || '',
+    mode: group.mode || 'owedToMe',
+    totalAmount,
+    paidAmount,
+    remainingAmount: Math.max(0, fromMinorUnits(remainingMinor, currency)),
+    currency,
+    status: group.isCompleted ? 'completed' : 'open',
+    createdAt: toIsoDate(group.createdAt),
+    updatedAt: toIsoDate(group.updatedAt),
+    dueDate: toIsoDate(group.dueDate),
+    recurringId: group.recurringId || null,
+  };
+};
+
+/**
+ * Convert a recurring debt or recurring group template to its export record
+ * @param {RecurringDebt|DebtGroup} template - The template
+ * @param {string} kind - Whether the template repeats a debt or a group
+ * @returns {ExportedRecurringTemplate} Export record
+ */
+const exportRecurringTemplate = (
+  template: RecurringDebt | DebtGroup,
+  kind: ExportedRecurringTemplate['kind']
+): ExportedRecurringTemplate => {
+  const isDebt = kind === 'debt';
+  const recurringDebt = template as RecurringDebt;
+  const group = template as DebtGroup;
+
+  return {
+    id: template.id || '',
+    kind,
+    name: (isDebt ? recurringDebt.debtorName : group.name) || '',
+    description: template.description || '',
+    amount: Number(isDebt ? recurringDebt.amount : group.totalAmount) || 0,
+    currency: getCurrencyInfo(template.currency).code,
+    status: template.isActive === false ? 'inactive' : 'active',
+    frequency: template.frequency || 'monthly',
+    interval: template.interval ?? null,
+    intervalUnit: template.intervalUnit ?? null,
+    startDate: toIsoDate(template.startDate),
+    endDate: toIsoDate(template.endDate),
+    occurrenceCount: template.occurrenceCount ?? null,
+    nextGenerationDate: toIsoDate(template.nextGenerationDate),
+    dayOfMonth: template.dayOfMonth ?? null,
+    dayOfWeek: template.dayOfWeek ?? null,
+    gracePeriodDays: template.gracePeriodDays ?? null,
+    groupId: isDebt ? recurringDebt.groupId || null : null,
+    phoneNumber: isDebt ? recurringDebt.phoneNumber || null : null,
+  };
+};
+
+/**
+ * Build the export of a user's data
+ * @param {Object} source - Data as loaded from Firestore
+ * @param {Debt[]} source.debts - Every debt, including paid and group debts
+ * @param {DebtGroup[]} source.groups - Every debt group, including recurring group templates
+ * @param {RecurringDebt[]} source.recurringDebts - Recurring debt templates
+ * @param {Date} exportedAt - When the export was made
+ * @returns {ExportData} Export data
+ */
+export const buildExportData = (
+  { debts, groups, recurringDebts }: { debts: Debt[]; groups: DebtGroup[]; recurringDebts: RecurringDebt[] },
+  exportedAt: Date = new Date()
+): ExportData => {
+  // Groups that are the template of a recurring series (instances point back to them with recurringId)
+  const recurringGroups = groups.filter(group => group.isRecurring && !group.recurringId);
+
+  return {
+    format: 'paid-export',
+    version: EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    debts: debts.map(exportDebt),
+    groups: groups.map(exportGroup),
+    recurringTemplates: [
+      ...recurringDebts.map(template => exportRecurringTemplate(template, 'debt')),
+      ...recurringGroups.map(template => exportRecurringTemplate(template, 'group')),
+    ],
+  };
+};
+
+/**
+ * Quote a CSV value when it contains a delimiter, quote or line break
+ * @param {string|number|null} value - Cell value
+ * @returns {string} Escaped cell
+ */
+const escapeCsvValue = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Convert export data to CSV, one row per debt, group and recurring template
+ * @param {ExportData} data - Export data
+ * @returns {string} CSV text with a header row
+ */
+export const exportDataToCsv = (data: ExportData): string => {
+  const rows: ExportCsvRow[] = [
+    ...data.debts.map(debt => ({
+      record_type: 'debt',
+      id: debt.id,
+      name: debt.debtorName,
+      description: debt.description,
+      amount: formatAmount(debt.amount, debt.currency),
+      paid_amount: formatAmount(debt.paidAmount, debt.currency),
+      remaining_amount: formatAmount(debt.remainingAmount, debt.currency),
+      currency: debt.currency,
+      status: debt.status,
+      created_at: debt.createdAt,
+      updated_at: debt.updatedAt,
+      paid_at: debt.paidAt,
+      due_date: debt.dueDate,
+      group_id: debt.groupId,
+      recurring_id: debt.recurringId,
+      phone_number: debt.phoneNumber,
+    })),
+    ...data.groups.map(group => ({
+      record_type: 'group',
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      amount: formatAmount(group.totalAmount, group.currency),
+      paid_amount: formatAmount(group.paidAmount, group.currency),
+      remaining_amount: formatAmount(group.remainingAmount, group.currency),
+      currency: group.currency,
+      status: group.status,
+      created_at: group.createdAt,
+      updated_at: group.updatedAt,
+      due_date: group.dueDate,
+      recurring_id: group.recurringId,
+    })),
+    ...data.recurringTemplates.map(template => ({
+      record_type: `recurring_${template.kind}`,
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      amount: formatAmount(template.amount, template.currency),
+      currency: template.currency,
+      status: template.status,
+      group_id: template.groupId,
+      frequency: template.frequency,
+      start_date: template.startDate,
+      end_date: template.endDate,
+      next_generation_date: template.nextGenerationDate,
+      phone_number: template.phoneNumber,
+      interval: template.interval,
+      interval_unit: template.intervalUnit,
+      occurrence_count: template.occurrenceCount,
+    })),
+  ];
+
+  const lines = [
+    EXPORT_CSV_COLUMNS.join(','),
+    ...rows.map(row => EXPORT_CSV_COLUMNS.map(column => escapeCsvValue(row[column])).join(',')),
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Write export data to a file in the cache directory
+ * @param {ExportData} data - Export data
+ * @param {ExportFormat} format - File format
+ * @returns {Promise<string>} URI of the written file
+ */
+export const writeExportFile = async (data: ExportData, format: ExportFormat): Promise<string> => {
+  try {
+    const date = data.exportedAt.slice(0, 10);
+    const uri = `${FileSystem.cacheDirectory}paid-export-${date}.${format}`;
+    const contents = format === 'csv' ? exportDataToCsv(data) : JSON.stringify(data, null, 2);
+
+    await FileSystem.writeAsStringAsync(uri, contents, { encoding: FileSystem.EncodingType.UTF8 });
+    return uri;
+  } catch (error) {
+    console.error('Error writing export file:', error);
+    throw error;
+  }
+};
+
+/**
+ * Write export data to a file and open the system share sheet for it
+ * @param {ExportData} data - Export data
+ * @param {ExportFormat} format - File format
+ * @returns {Promise<void>}
+ */
+export const shareExport = async (data: ExportData, format: ExportFormat): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const uri = await writeExportFile(data, format);
+
+  await Sharing.shareAsync(uri, format === 'csv'
+    ? { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text', dialogTitle: 'Export Debts (CSV)' }
+    : { mimeType: 'application/json', UTI: 'public.json', dialogTitle: 'Export Debts (JSON)' });
+};
@@ -0,0 +1,44 @@
+import { Debt, DebtPayment } from '@/firebase/models';
+import { fromMinorUnits, sumMoney, toMinorUnits } from '@/utils/money';
+
+type DebtBalanceFields = Pick<Debt, 'amount' | 'isPaid' | 'payments' | 'currency'>;
+
+/**
+ * Sum the payments recorded against a debt
+ * @param {DebtPayment[]} payments - Payment ledger of a debt
+ * @param {string} currency - ISO 4217 currency code of the debt
+ * @returns {number} Total amount paid
+ */
+export const sumPayments = (payments: DebtPayment[] = [], currency?: string | null): number => {
+  return sumMoney(payments.map(payment => Number(payment.amount) || 0), currency);
+};
+
+/**
+ * Get the amount that has been paid towards a debt.
+ * A debt marked as paid counts as fully paid even without a payment ledger.
+ * @param {Debt} debt - The debt
+ * @returns {number} Amount paid, never more than the debt amount
+ */
+export const getPaidAmount = (debt: DebtBalanceFields): number => {
+  if (debt.isPaid) return debt.amount;
+  return Math.min(debt.amount, sumPayments(debt.payments, debt.currency));
+};
+
+/**
+ * Get the remaining balance on a debt
+ * @param {Debt} debt - The debt
+ * @returns {number} Amount still owed
+ */
+export const getRemainingBalance = (debt: DebtBalanceFields): number => {
+  const remainingMinor = toMinorUnits(debt.amount, debt.currency) - toMinorUnits(getPaidAmount(debt), debt.currency);
+  return Math.max(0, fromMinorUnits(remainingMinor, debt.currency));
+};
+
+/**
+ * Whether a debt has received some, but not all, of its payments
+ * @param {Debt} debt - The debt
+ * @returns {boolean} True if the debt is partially paid
+ */
+export const isPartiallyPaid = (debt: DebtBalanceFields): boolean => {
+  return !debt.isPaid && getPaidAmount(debt) > 0;
+};
@@ -0,0 +1,471 @@
+import { CurrencyCode, Debt } from '@/firebase/models';
+import { getCurrencyInfo, isCurrencyCode, roundToCurrency } from '@/utils/currency';
+import { toMinorUnits } from '@/utils/money';
+
+/**
+ * Importing debts from CSV files.
+ * A file is parsed into a table, its rows are mapped to debts using either a column
+ * mapping (spreadsheets, including Paid's own export) or the Splitwise preset, then
+ * each row is validated and checked against the user's existing debts.
+ */
+
+export type ImportPreset = 'spreadsheet' | 'splitwise';
+
+export type ImportField =
+  | 'debtorName' | 'amount' | 'description' | 'currency' | 'date' | 'dueDate' | 'phoneNumber' | 'groupName'
+  | 'paidAmount' | 'status' | 'paidAt';
+
+// Column index for each field (missing when the file has no such column)
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportRow {
+  rowNumber: number;         // Row of the file the debt came from (the header is row 1)
+  debtorName: string;
+  amount: number;            // NaN when the amount couldn't be read
+  currency: CurrencyCode;
+  description: string;
+  createdAt: string | null;  // ISO date of the original debt
+  dueDate: string | null;    // ISO date when the debt is due
+  phoneNumber: string;
+  groupName: string;         // Group to add the debt to (empty for an individual debt)
+  paidAmount: number;        // Amount already paid, recorded as a payment after the debt is created (0 when none)
+  paidAt: string | null;     // ISO date of that payment
+  errors: string[];          // Validation errors, the row is skipped when there are any
+  isDuplicate: boolean;      // Whether a matching debt already exists
+}
+
+export interface ImportGroup {
+  name: string;
+  currency: CurrencyCode;
+  rows: ImportRow[];
+}
+
+export const IMPORT_PRESETS: { preset: ImportPreset; label: string; description: string }[] = [
+  { preset: 'spreadsheet', label: 'Spreadsheet', description: 'One debt per row. Pick which column holds each field.' },
+  { preset: 'splitwise', label: 'Splitwise', description: 'A group or friend export from Splitwise. Each expense you paid becomes a debt for everyone who owes you a share. Settle-up payments are skipped.' },
+];
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'debtorName', label: 'Name', required: true },
+  { field: 'amount', label: 'Amount', required: true },
+  { field: 'description', label: 'Description', required: false },
+  { field: 'currency', label: 'Currency', required: false },
+  { field: 'date', label: 'Date', required: false },
+  { field: 'dueDate', label: 'Due Date', required: false },
+  { field: 'phoneNumber', label: 'Phone', required: false },
+  { field: 'groupName', label: 'Group', required: false },
+  { field: 'paidAmount', label: 'Paid Amount', required: false },
+  { field: 'status', label: 'Status', required: false },
+  { field: 'paidAt', label: 'Paid Date', required: false },
+];
+
+// Header names recognized for each field, compared lowercase without spaces or punctuation
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  debtorName: ['name', 'debtorname', 'debtor', 'person', 'who', 'friend', 'owedby'],
+  amount: ['amount', 'amountowed', 'owed', 'cost', 'total', 'balance'],
+  description: ['description', 'desc', 'for', 'note', 'notes', 'memo', 'item'],
+  currency: ['currency', 'curr'],
+  date: ['date', 'createdat', 'created', 'dateadded'],
+  dueDate: ['duedate', 'due'],
+  phoneNumber: ['phonenumber', 'phone', 'mobile', 'cell'],
+  groupName: ['groupname', 'group'],
+  paidAmount: ['paidamount', 'amountpaid'],
+  status: ['status', 'paidstatus'],
+  paidAt: ['paidat', 'paiddate', 'datepaid', 'paidon'],
+};
+
+// Status values recognized, compared lowercase (Paid's export uses paid, partial and unpaid)
+const PAID_STATUSES = ['paid', 'settled', 'complete', 'completed', 'yes', 'true'];
+const UNPAID_STATUSES = ['unpaid', 'partial', 'open', 'outstanding', 'no', 'false'];
+
+// The first columns of a Splitwise export; every column after them is a member's balance
+const SPLITWISE_COLUMNS = ['date', 'description', 'category', 'cost', 'currency'];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parse CSV text into rows of cells, handling quoted cells with commas, quotes and line breaks
+ * @param {string} text - CSV text
+ * @returns {string[][]} Rows of cells, without blank lines
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip the byte order mark some spreadsheet apps add
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+/**
+ * Guess which column holds each field from the header row
+ * @param {string[]} headers - Header row
+ * @returns {ImportColumnMapping} Column mapping
+ */
+export const detectColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ImportColumnMapping = {};
+
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const alias = FIELD_ALIASES[field].find(name => normalized.includes(name));
+    if (alias) {
+      mapping[field] = normalized.indexOf(alias);
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Whether a header row looks like a Splitwise export
+ * @param {string[]} headers - Header row
+ * @returns {boolean} True for a Splitwise export
+ */
+export const isSplitwiseExport = (headers: string[]): boolean => {
+  return headers.length > SPLITWISE_COLUMNS.length &&
+    SPLITWISE_COLUMNS.every((column, index) => normalizeHeader(headers[index] || '') === column);
+};
+
+/**
+ * Get the member names from a Splitwise export's header row
+ * @param {string[]} headers - Header row
+ * @returns {string[]} Member names
+ */
+export const getSplitwiseMembers = (headers: string[]): string[] => {
+  return headers.slice(SPLITWISE_COLUMNS.length).map(header => header.trim()).filter(Boolean);
+};
+
+/**
+ * Parse an amount as typed in a spreadsheet (e.g., "$1,234.50", "12,50", "-8")
+ * @param {string} value - Cell value
+ * @returns {number} Amount, or NaN if the cell isn't a number
+ */
+export const parseImportAmount = (value: string): number => {
+  let cleaned = (value || '').trim().replace(/[^0-9.,-]/g, '');
+  if (!cleaned) return NaN;
+
+  // A lone comma followed by one or two digits is a decimal comma (e.g., "12,50")
+  if (!cleaned.includes('.') && /^-?\d+,\d{1,2}$/.test(cleaned)) {
+    cleaned = cleaned.replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  return /^-?(\d+\.?\d*|\.\d+)$/.test(cleaned) ? parseFloat(cleaned) : NaN;
+};
+
+/**
+ * Parse a date as typed in a spreadsheet (ISO, "YYYY-MM-DD" or "M/D/YYYY")
+ * @param {string} value - Cell value
+ * @returns {string|null|undefined} ISO date, null for an empty cell, or undefined if it isn't a date
+ */
+export const parseImportDate = (value: string): string | null | undefined => {
+  const text = (value || '').trim();
+  if (!text) return null;
+
+  const dayOnly = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const usDate = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+
+  let date: Date;
+  if (dayOnly) {
+    date = new Date(Number(dayOnly[1]), Number(dayOnly[2]) - 1, Number(dayOnly[3]));
+  } else if (usDate) {
+    const year = Number(usDate[3]) < 100 ? 2000 + Number(usDate[3]) : Number(usDate[3]);
+    date = new Date(year, Number(usDate[1]) - 1, Number(usDate[2]));
+  } else {
+    date = new Date(text);
+  }
+
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Build an import row and validate it
+ * @param {Object} fields - Raw values for the row
+ * @param {string} defaultCurrency - Currency used when the row has none
+ * @returns {ImportRow} Validated row
+ */
+const buildImportRow = (
+  fields: {
+    rowNumber: number;
+    debtorName?: string;
+    amount?: string;
+    description?: string;
+    currency?: string;
+    date?: string;
+    dueDate?: string;
+    phoneNumber?: string;
+    groupName?: string;
+    paidAmount?: string;
+    status?: string;
+    paidAt?: string;
+  },
+  defaultCurrency: CurrencyCode
+): ImportRow => {
+  const errors: string[] = [];
+
+  const debtorName = (fields.debtorName || '').trim();
+  if (!debtorName) errors.push('Missing name');
+
+  const currencyText = (fields.currency || '').trim().toUpperCase();
+  const currency = currencyText ? getCurrencyInfo(currencyText).code : defaultCurrency;
+  if (currencyText && !isCurrencyCode(currencyText)) errors.push(`Unsupported currency "${fields.currency}"`);
+
+  const parsedAmount = parseImportAmount(fields.amount || '');
+  const amount = isNaN(parsedAmount) ? NaN : roundToCurrency(parsedAmount, currency);
+  if (isNaN(amount)) {
+    errors.push(fields.amount?.trim() ? `Amount "${fields.amount}" isn't a number` : 'Missing amount');
+  } else if (amount <= 0) {
+    errors.push('Amount must be more than zero');
+  }
+
+  const createdAt = parseImportDate(fields.date || '');
+  if (createdAt === undefined) errors.push(`Date "${fields.date}" isn't a date`);
+
+  const dueDate = parseImportDate(fields.dueDate || '');
+  if (dueDate === undefined) errors.push(`Due date "${fields.dueDate}" isn't a date`);
+
+  const statusText = (fields.status || '').trim().toLowerCase();
+  const isPaid = PAID_STATUSES.includes(statusText);
+  if (statusText && !isPaid && !UNPAID_STATUSES.includes(statusText)) errors.push(`Status "${fields.status}" isn't paid or unpaid`);
+
+  // A paid debt is settled in full, like marking it as paid in the app
+  const paidText = (fields.paidAmount || '').trim();
+  const parsedPaidAmount = paidText ? parseImportAmount(paidText) : 0;
+  let paidAmount = isNaN(parsedPaidAmount) ? 0 : roundToCurrency(parsedPaidAmount, currency);
+  if (isPaid && !isNaN(amount)) paidAmount = amount;
+  if (isNaN(parsedPaidAmount)) {
+    errors.push(`Paid amount "${fields.paidAmount}" isn't a number`);
+  } else if (parsedPaidAmount < 0) {
+    errors.push('Paid amount can\'t be negative');
+  } else if (!isNaN(amount) && toMinorUnits(paidAmount, currency) > toMinorUnits(amount, currency)) {
+    errors.push('Paid amount is more than the amount');
+  }
+
+  const paidAt = parseImportDate(fields.paidAt || '');
+  if (paidAt === undefined) errors.push(`Paid date "${fields.paidAt}" isn't a date`);
+
+  return {
+    rowNumber: fields.rowNumber,
+    debtorName,
+    amount,
+    currency,
+    description: (fields.description || '').trim(),
+    createdAt: createdAt || null,
+    dueDate: dueDate || null,
+    phoneNumber: (fields.phoneNumber || '').trim(),
+    groupName: (fields.groupName || '').trim(),
+    paidAmount,
+    paidAt: paidAmount > 0 ? paidAt || createdAt || null : null,
+    errors,
+    isDuplicate: false,
+  };
+};
+
+/**
+ * Map spreadsheet rows to debts, one debt per row.
+ * Files exported from Paid only import their debt rows, along with how much was paid.
+ * @param {string[][]} table - Parsed CSV, including the header row
+ * @param {ImportColumnMapping} mapping - Column for each field
+ * @param {string} defaultCurrency - Currency used when a row has none
+ * @returns {ImportRow[]} Import rows
+ */
+export const buildSpreadsheetRows = (
+  table: string[][],
+  mapping: ImportColumnMapping,
+  defaultCurrency: CurrencyCode
+): ImportRow[] => {
+  const [headers = [], ...rows] = table;
+  const recordTypeColumn = headers.map(normalizeHeader).indexOf('recordtype');
+
+  const cell = (cells: string[], field: ImportField): string => {
+    const column = mapping[field];
+    return column === undefined ? '' : cells[column] || '';
+  };
+
+  return rows
+    .map((cells, index) => ({ cells, rowNumber: index + 2 }))
+    .filter(({ cells }) => recordTypeColumn === -1 || cells[recordTypeColumn] === 'debt')
+    .map(({ cells, rowNumber }) => buildImportRow({
+      rowNumber,
+      debtorName: cell(cells, 'debtorName'),
+      amount: cell(cells, 'amount'),
+      description: cell(cells, 'description'),
+      currency: cell(cells, 'currency'),
+      date: cell(cells, 'date'),
+      dueDate: cell(cells, 'dueDate'),
+      phoneNumber: cell(cells, 'phoneNumber'),
+      groupName: cell(cells, 'groupName'),
+      paidAmount: cell(cells, 'paidAmount'),
+      status: cell(cells, 'status'),
+      paidAt: cell(cells, 'paidAt'),
+    }, defaultCurrency));
+};
+
+/**
+ * Map a Splitwise export to debts.
+ * Splitwise lists each member's net share of every expense: positive for whoever
+ * paid and negative for everyone who owes them. For each expense the user paid,
+ * every member with a negative share owes the user that amount.
+ * @param {string[][]} table - Parsed CSV, including the header row
+ * @param {string} member - The user's own column in the export
+ * @param {string} defaultCurrency - Currency used when a row has none
+ * @returns {ImportRow[]} Import rows
+ */
+export const buildSplitwiseRows = (
+  table: string[][],
+  member: string,
+  defaultCurrency: CurrencyCode
+): ImportRow[] => {
+  const [headers = [], ...rows] = table;
+  const memberColumn = headers.findIndex(header => header.trim() === member);
+  if (memberColumn < SPLITWISE_COLUMNS.length) return [];
+
+  const importRows: ImportRow[] = [];
+
+  rows.forEach((cells, index) => {
+    const [date, description, category, , currency] = cells;
+
+    // Skip the "Total balance" summary row and settle-up payments
+    if (!date?.trim() || category?.trim().toLowerCase() === 'payment') return;
+
+    // Only expenses the user paid for are owed to them
+    if (!(parseImportAmount(cells[memberColumn]) > 0)) return;
+
+    headers.forEach((header, column) => {
+      if (column < SPLITWISE_COLUMNS.length || column === memberColumn) return;
+
+      const share = (cells[column] || '').trim();
+      const amount = parseImportAmount(share);
+      if (!share || amount === 0 || amount > 0) return;
+
+      importRows.push(buildImportRow({
+        rowNumber: index + 2,
+        debtorName: header,
+        amount: isNaN(amount) ? share : String(-amount),
+        description,
+        currency,
+        date,
+      }, defaultCurrency));
+    });
+  });
+
+  return importRows;
+};
+
+/**
+ * Flag rows that match a debt the user already has: same name, amount, currency
+ * and description, created on the same day when the row has a date
+ * @param {ImportRow[]} rows - Import rows
+ * @param {Debt[]} existingDebts - The user's debts
+ * @returns {ImportRow[]} Rows with isDuplicate set
+ */
+export const markDuplicates = (rows: ImportRow[], existingDebts: Debt[]): ImportRow[] => {
+  const keyOf = (name: string, amount: number, currency: string | null | undefined, description?: string) =>
+    [
+      name.trim().toLowerCase(),
+      toMinorUnits(amount, currency),
+      getCurrencyInfo(currency).code,
+      (description || '').trim().toLowerCase(),
+    ].join('|');
+
+  const existing = new Map<string, Debt[]>();
+  existingDebts.forEach(debt => {
+    const key = keyOf(debt.debtorName || '', Number(debt.amount), debt.currency, debt.description);
+    existing.set(key, [...(existing.get(key) || []), debt]);
+  });
+
+  return rows.map(row => {
+    if (row.errors.length > 0) return row;
+
+    const matches = existing.get(keyOf(row.debtorName, row.amount, row.currency, row.description)) || [];
+    const isDuplicate = matches.some(debt =>
+      !row.createdAt || new Date(debt.createdAt).toDateString() === new Date(row.createdAt).toDateString()
+    );
+
+    return { ...row, isDuplicate };
+  });
+};
+
+/**
+ * Whether a row will be imported
+ * @param {ImportRow} row - Import row
+ * @returns {boolean} True if the row is valid and not a duplicate
+ */
+export const isImportable = (row: ImportRow): boolean => row.errors.length === 0 && !row.isDuplicate;
+
+/**
+ * Split importable rows into individual debts and groups.
+ * Groups share one currency, so a group name used with several currencies
+ * becomes one group per currency.
+ * @param {ImportRow[]} rows - Import rows
+ * @param {string} defaultGroupName - Group for rows that don't name one (empty for individual debts)
+ * @returns {Object} Individual debts and groups to create
+ */
+export const groupImportRows = (
+  rows: ImportRow[],
+  defaultGroupName: string = ''
+): { debts: ImportRow[]; groups: ImportGroup[] } => {
+  const debts: ImportRow[] = [];
+  const groups = new Map<string, ImportGroup>();
+
+  rows.filter(isImportable).forEach(row => {
+    const name = row.groupName || defaultGroupName.trim();
+    if (!name) {
+      debts.push(row);
+      return;
+    }
+
+    const key = `${name}|${row.currency}`;
+    const group = groups.get(key) || { name, currency: row.currency, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  });
+
+  // Tell apart groups that were split up by currency
+  const allGroups = Array.from(groups.values());
+  const splitNames = allGroups
+    .map(group => group.name)
+    .filter((name, index, names) => names.indexOf(name) !== index);
+
+  return {
+    debts,
+    groups: allGroups.map(group => splitNames.includes(group.name)
+      ? { ...group, name: `${group.name} (${group.currency})` }
+      : group),
+  };
+};
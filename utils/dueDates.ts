@@ -0,0 +1,145 @@
+import { Debt, DebtGroup } from '@/firebase/models';
+
+/**
+ * Due dates and overdue tracking for debts and debt groups.
+ * Due dates are compared by calendar day, so a debt due today isn't overdue until tomorrow.
+ */
+
+export type DueStatus = 'overdue' | 'dueSoon' | 'upcoming';
+
+type DueDateFields = Pick<Debt, 'dueDate' | 'isPaid'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Debts due within this many days are flagged as due soon
+export const DUE_SOON_DAYS = 3;
+
+// Grace periods offered for recurring debts (null means no due date)
+export const GRACE_PERIOD_OPTIONS: (number | null)[] = [null, 0, 3, 7, 14, 30];
+
+export const DEFAULT_GRACE_PERIOD_DAYS = 7;
+
+/**
+ * Get midnight at the start of a date's day
+ * @param {Date|string} date - The date
+ * @returns {Date} Start of the day
+ */
+const startOfDay = (date: Date | string): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Get a due date a number of days after a start date
+ * @param {Date|string} startDate - When the debt starts
+ * @param {number|null} gracePeriodDays - Days until the debt is due (null for no due date)
+ * @returns {string|null} ISO due date, or null when there is no grace period
+ */
+export const getDueDateFromGracePeriod = (startDate: Date | string, gracePeriodDays?: number | null): string | null => {
+  if (gracePeriodDays === null || gracePeriodDays === undefined) return null;
+
+  const dueDate = new Date(startDate);
+  dueDate.setDate(dueDate.getDate() + gracePeriodDays);
+  return dueDate.toISOString();
+};
+
+/**
+ * Count the calendar days from today until a due date
+ * @param {string} dueDate - ISO due date
+ * @param {Date} now - Current date
+ * @returns {number} Days until due (negative once overdue)
+ */
+export const getDaysUntilDue = (dueDate: string, now: Date = new Date()): number => {
+  return Math.round((startOfDay(dueDate).getTime() - startOfDay(now).getTime()) / DAY_MS);
+};
+
+/**
+ * Get how urgent an unpaid debt is
+ * @param {Debt} debt - The debt
+ * @param {Date} now - Current date
+ * @returns {DueStatus|null} Due status, or null if the debt is paid or has no due date
+ */
+export const getDueStatus = (debt: DueDateFields, now: Date = new Date()): DueStatus | null => {
+  if (debt.isPaid || !debt.dueDate) return null;
+
+  const daysUntilDue = getDaysUntilDue(debt.dueDate, now);
+  if (daysUntilDue < 0) return 'overdue';
+  if (daysUntilDue <= DUE_SOON_DAYS) return 'dueSoon';
+  return 'upcoming';
+};
+
+/**
+ * Whether an unpaid debt is past its due date
+ * @param {Debt} debt - The debt
+ * @param {Date} now - Current date
+ * @returns {boolean} True if the debt is overdue
+ */
+export const isOverdue = (debt: DueDateFields, now: Date = new Date()): boolean => {
+  return getDueStatus(debt, now) === 'overdue';
+};
+
+/**
+ * Whether a group is past its due date or has an overdue debt
+ * @param {DebtGroup} group - The group with its debts
+ * @param {Date} now - Current date
+ * @returns {boolean} True if the group is overdue
+ */
+export const isGroupOverdue = (group: DebtGroup & { debts?: Debt[] }, now: Date = new Date()): boolean => {
+  if (group.isCompleted) return false;
+  if (isOverdue({ dueDate: group.dueDate, isPaid: false }, now)) return true;
+  return (group.debts || []).some(debt => isOverdue(debt, now));
+};
+
+/**
+ * Describe when a debt is due relative to today
+ * @param {string} dueDate - ISO due date
+ * @param {Date} now - Current date
+ * @returns {string} e.g., "3 days overdue", "Due today", "Due in 5 days"
+ */
+export const describeDueDate = (dueDate: string, now: Date = new Date()): string => {
+  const daysUntilDue = getDaysUntilDue(dueDate, now);
+
+  if (daysUntilDue < -1) return `${-daysUntilDue} days overdue`;
+  if (daysUntilDue === -1) return '1 day overdue';
+  if (daysUntilDue === 0) return 'Due today';
+  if (daysUntilDue === 1) return 'Due tomorrow';
+  if (daysUntilDue <= 30) return `Due in ${daysUntilDue} days`;
+  return `Due ${new Date(dueDate).toLocaleDateString()}`;
+};
+
+/**
+ * Describe a recurring debt's grace period
+ * @param {number|null} gracePeriodDays - Days until each instance is due
+ * @returns {string} e.g., "No due date", "Same day", "7 days"
+ */
+export const describeGracePeriod = (gracePeriodDays?: number | null): string => {
+  if (gracePeriodDays === null || gracePeriodDays === undefined) return 'No due date';
+  if (gracePeriodDays === 0) return 'Same day';
+  return `${gracePeriodDays} ${gracePeriodDays === 1 ? 'day' : 'days'}`;
+};
+
+/**
+ * Sort comparator putting the most urgent debts first:
+ * unpaid before paid, then by due date (undated last), then newest first
+ * @param {Debt} a - First debt or group
+ * @param {Debt} b - Second debt or group
+ * @returns {number} Sort order
+ */
+export const compareByDueDate = (
+  a: { dueDate?: string | null; isPaid?: boolean; isCompleted?: boolean; createdAt: string },
+  b: { dueDate?: string | null; isPaid?: boolean; isCompleted?: boolean; createdAt: string }
+): number => {
+  const aDone = Boolean(a.isPaid || a.isCompleted);
+  const bDone = Boolean(b.isPaid || b.isCompleted);
+  if (aDone !== bDone) return aDone ? 1 : -1;
+
+  if (a.dueDate && b.dueDate) {
+    const byDueDate = new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+    if (byDueDate !== 0) return byDueDate;
+  } else if (a.dueDate || b.dueDate) {
+    return a.dueDate ? -1 : 1;
+  }
+
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+};
@@ -1,13 +1,39 @@
-type EventCallback = (data: any) => void;
+import type { Debt, DebtGroup, User } from '@/firebase/models';
+import type { ExchangeRates } from '@/utils/currency';
+import type { QueuedWrite } from '@/utils/offlineStore';
+import type { SyncStatus } from '@/utils/offlineSync';
 
 /**
- * A very simple event emitter for cross-component communication
+ * Every app event and the data it carries
+ */
+export interface AppEvents {
+  DEBT_ADDED: Debt | DebtGroup;                        // A debt or group was created
+  DEBT_PAID: { debtId: string; isPaid: boolean };       // A debt was marked as paid or unpaid
+  GROUP_UPDATED: { groupId: string };                   // A group's expenses or members changed
+  PROFILE_UPDATED: User;                                // The signed in user's profile was loaded or changed
+  EXCHANGE_RATES_UPDATED: ExchangeRates;                // Exchange rates were edited or reset
+  SYNC_STATUS_CHANGED: SyncStatus;                      // Connectivity or queued writes changed
+  SYNC_CONFLICTS: QueuedWrite[];                        // Offline writes skipped because the server copy was newer
+  SYNC_FAILED: QueuedWrite[];                           // Offline writes dropped because Firestore rejected them
+}
+
+export type AppEventName = keyof AppEvents;
+
+type EventCallback<K extends AppEventName> = (data: AppEvents[K]) => void;
+type WildcardCallback = <K extends AppEventName>(event: K, data: AppEvents[K]) => void;
+
+/**
+ * A typed event emitter for cross-component communication.
+ * A listener that throws is logged and doesn't stop the others from running.
  */
 class EventEmitter {
-  private events: Record<string, EventCallback[]>;
+  // Callbacks are stored untyped; on and emit check them against AppEvents
+  private events: Partial<Record<AppEventName, ((data: any) => void)[]>>;
+  private wildcardListeners: WildcardCallback[];
 
   constructor() {
     this.events = {};
+    this.wildcardListeners = [];
   }
 
   /**
@@ -16,34 +42,71 @@ class EventEmitter {
    * @param {Function} callback - Callback function
    * @returns {Function} Unsubscribe function
    */
-  on(event: string, callback: EventCallback): () => void {
-    if (!this.events[event]) {
-      this.events[event] = [];
-    }
-    
-    this.events[event].push(callback);
-    
+  on<K extends AppEventName>(event: K, callback: EventCallback<K>): () => void {
+    this.events[event] = [...(this.events[event] || []), callback];
+
     // Return unsubscribe function
     return () => {
-      this.events[event] = this.events[event].filter(cb => cb !== callback);
+      this.events[event] = (this.events[event] || []).filter(cb => cb !== callback);
+    };
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   * @param {string} event - Event name
+   * @param {Function} callback - Callback function
+   * @returns {Function} Unsubscribe function (if the event hasn't happened yet)
+   */
+  once<K extends AppEventName>(event: K, callback: EventCallback<K>): () => void {
+    const unsubscribe = this.on(event, (data) => {
+      unsubscribe();
+      callback(data);
+    });
+
+    return unsubscribe;
+  }
+
+  /**
+   * Subscribe to every event, e.g. to log them while debugging
+   * @param {Function} callback - Called with the event name and data
+   * @returns {Function} Unsubscribe function
+   */
+  onAny(callback: WildcardCallback): () => void {
+    this.wildcardListeners = [...this.wildcardListeners, callback];
+
+    return () => {
+      this.wildcardListeners = this.wildcardListeners.filter(cb => cb !== callback);
     };
   }
 
   /**
    * Emit an event
    * @param {string} event - Event name
-   * @param {any} data - Data to pass to callbacks
+   * @param {Object} data - Data to pass to callbacks
    */
-  emit(event: string, data: any): void {
-    if (this.events[event]) {
-      this.events[event].forEach(callback => {
+  emit<K extends AppEventName>(event: K, data: AppEvents[K]): void {
+    // Copy the listeners so subscribing or unsubscribing while emitting doesn't skip any
+    const listeners = [...(this.events[event] || [])];
+
+    listeners.forEach(callback => {
+      try {
         callback(data);
-      });
-    }
+      } catch (error) {
+        console.error(`Error in ${event} listener:`, error);
+      }
+    });
+
+    [...this.wildcardListeners].forEach(callback => {
+      try {
+        callback(event, data);
+      } catch (error) {
+        console.error(`Error in wildcard listener for ${event}:`, error);
+      }
+    });
   }
 }
 
 // Create a singleton instance
 const eventEmitter = new EventEmitter();
 
-export default eventEmitter; 
\ No newline at end of file
+export default eventEmitter;
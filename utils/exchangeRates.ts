@@ -0,0 +1,63 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DEFAULT_EXCHANGE_RATES, ExchangeRates, isCurrencyCode } from '@/utils/currency';
+import eventEmitter from '@/utils/eventEmitter';
+
+// Constants for AsyncStorage
+const EXCHANGE_RATES_KEY = 'PAID_APP_EXCHANGE_RATES';
+
+/**
+ * Load the user's exchange rate table from local storage.
+ * Missing or invalid entries fall back to the default rates.
+ * @returns {Promise<ExchangeRates>} Units of each currency per 1 USD
+ */
+export const loadExchangeRates = async (): Promise<ExchangeRates> => {
+  try {
+    const stored = await AsyncStorage.getItem(EXCHANGE_RATES_KEY);
+    if (!stored) return { ...DEFAULT_EXCHANGE_RATES };
+
+    const parsed = JSON.parse(stored);
+    const rates = { ...DEFAULT_EXCHANGE_RATES };
+
+    Object.keys(parsed || {}).forEach(code => {
+      const rate = Number(parsed[code]);
+      if (isCurrencyCode(code) && rate > 0) {
+        rates[code] = rate;
+      }
+    });
+
+    return rates;
+  } catch (error) {
+    console.error('Error loading exchange rates:', error);
+    return { ...DEFAULT_EXCHANGE_RATES };
+  }
+};
+
+/**
+ * Save the user's exchange rate table to local storage
+ * @param {ExchangeRates} rates - Units of each currency per 1 USD
+ * @returns {Promise<void>}
+ */
+export const saveExchangeRates = async (rates: ExchangeRates): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(EXCHANGE_RATES_KEY, JSON.stringify(rates));
+    eventEmitter.emit('EXCHANGE_RATES_UPDATED', rates);
+  } catch (error) {
+    console.error('Error saving exchange rates:', error);
+    throw error;
+  }
+};
+
+/**
+ * Reset the exchange rate table to the default rates
+ * @returns {Promise<void>}
+ */
+export const resetExchangeRates = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(EXCHANGE_RATES_KEY);
+    eventEmitter.emit('EXCHANGE_RATES_UPDATED', { ...DEFAULT_EXCHANGE_RATES });
+  } catch (error) {
+    console.error('Error resetting exchange rates:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,142 @@
+import { GroupExpense } from '@/firebase/models';
+import { fromMinorUnits, splitEvenly, toMinorUnits } from '@/utils/money';
+
+/**
+ * Net balances and settle-up transfers for shared expense groups.
+ * A positive balance means the member is owed money; a negative balance
+ * means they owe money. All math is done in integer minor units.
+ */
+
+// Name of the current user in a shared expense group
+export const SELF_MEMBER = 'You';
+
+export interface GroupTransfer {
+  from: string;    // Member who pays
+  to: string;      // Member who gets paid
+  amount: number;  // Amount in the group's currency
+}
+
+/**
+ * Calculate each member's net balance in minor units
+ * @param {string[]} members - Names of everyone in the group
+ * @param {GroupExpense[]} expenses - Expenses paid by members
+ * @param {GroupTransfer[]} settlements - Money that has already changed hands (or been turned into debts)
+ * @param {string} currency - ISO 4217 currency code of the group
+ * @returns {Object} Map of member name to net balance in minor units
+ */
+const computeNetBalancesMinor = (
+  members: string[],
+  expenses: GroupExpense[],
+  settlements: GroupTransfer[],
+  currency?: string | null
+): { [member: string]: number } => {
+  const balances: { [member: string]: number } = {};
+  const adjust = (member: string, amountMinor: number) => {
+    balances[member] = (balances[member] || 0) + amountMinor;
+  };
+
+  members.forEach(member => adjust(member, 0));
+
+  expenses.forEach(expense => {
+    const amountMinor = toMinorUnits(expense.amount, currency);
+    const participants = expense.splitBetween.length > 0 ? expense.splitBetween : members;
+    const shares = splitEvenly(amountMinor, participants.length);
+
+    adjust(expense.paidBy, amountMinor);
+    participants.forEach((member, index) => adjust(member, -shares[index]));
+  });
+
+  // A settlement works like a payment from one member to another
+  settlements.forEach(settlement => {
+    const amountMinor = toMinorUnits(settlement.amount, currency);
+    adjust(settlement.from, amountMinor);
+    adjust(settlement.to, -amountMinor);
+  });
+
+  return balances;
+};
+
+/**
+ * Calculate each member's net balance
+ * @param {string[]} members - Names of everyone in the group
+ * @param {GroupExpense[]} expenses - Expenses paid by members
+ * @param {GroupTransfer[]} settlements - Money that has already changed hands (or been turned into debts)
+ * @param {string} currency - ISO 4217 currency code of the group
+ * @returns {Object} Map of member name to net balance (positive = is owed money)
+ */
+export const computeNetBalances = (
+  members: string[],
+  expenses: GroupExpense[],
+  settlements: GroupTransfer[] = [],
+  currency?: string | null
+): { [member: string]: number } => {
+  const balancesMinor = computeNetBalancesMinor(members, expenses, settlements, currency);
+  const balances: { [member: string]: number } = {};
+
+  Object.keys(balancesMinor).forEach(member => {
+    balances[member] = fromMinorUnits(balancesMinor[member], currency);
+  });
+
+  return balances;
+};
+
+/**
+ * Produce a small set of transfers that settles every balance (min-cash-flow).
+ * The member who owes the most repeatedly pays the member who is owed the most,
+ * so every transfer zeroes out at least one balance and there are at most
+ * (members - 1) transfers. Ties are broken by name so results are stable.
+ * @param {Object} balances - Map of member name to net balance
+ * @param {string} currency - ISO 4217 currency code of the group
+ * @returns {GroupTransfer[]} Transfers that bring every balance to zero
+ */
+export const simplifyDebts = (
+  balances: { [member: string]: number },
+  currency?: string | null
+): GroupTransfer[] => {
+  const remaining = Object.keys(balances)
+    .map(member => ({ member, amountMinor: toMinorUnits(balances[member], currency) }))
+    .filter(entry => entry.amountMinor !== 0);
+
+  const byLargest = (a: { member: string; amountMinor: number }, b: { member: string; amountMinor: number }) =>
+    Math.abs(b.amountMinor) - Math.abs(a.amountMinor) || a.member.localeCompare(b.member);
+
+  const transfers: GroupTransfer[] = [];
+
+  while (true) {
+    const creditors = remaining.filter(entry => entry.amountMinor > 0).sort(byLargest);
+    const debtors = remaining.filter(entry => entry.amountMinor < 0).sort(byLargest);
+    if (creditors.length === 0 || debtors.length === 0) break;
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amountMinor = Math.min(creditor.amountMinor, -debtor.amountMinor);
+
+    transfers.push({
+      from: debtor.member,
+      to: creditor.member,
+      amount: fromMinorUnits(amountMinor, currency)
+    });
+
+    creditor.amountMinor -= amountMinor;
+    debtor.amountMinor += amountMinor;
+  }
+
+  return transfers;
+};
+
+/**
+ * Suggest settle-up transfers for a shared expense group
+ * @param {string[]} members - Names of everyone in the group
+ * @param {GroupExpense[]} expenses - Expenses paid by members
+ * @param {GroupTransfer[]} settlements - Money that has already changed hands (or been turned into debts)
+ * @param {string} currency - ISO 4217 currency code of the group
+ * @returns {GroupTransfer[]} Transfers that settle the remaining balances
+ */
+export const getSettleUpTransfers = (
+  members: string[],
+  expenses: GroupExpense[],
+  settlements: GroupTransfer[] = [],
+  currency?: string | null
+): GroupTransfer[] => {
+  return simplifyDebts(computeNetBalances(members, expenses, settlements, currency), currency);
+};
@@ -0,0 +1,110 @@
+import { getCurrencyInfo } from '@/utils/currency';
+
+/**
+ * Money arithmetic in integer minor units (cents, or whole yen for JPY).
+ * All split math should go through these helpers so that the parts of a
+ * split always add back up to the whole.
+ */
+
+/**
+ * Get the number of minor units in one major unit of a currency
+ * @param {string} currency - ISO 4217 currency code
+ * @returns {number} Minor unit factor (100 for USD, 1 for JPY)
+ */
+const getMinorUnitFactor = (currency?: string | null): number => {
+  return Math.pow(10, getCurrencyInfo(currency).decimals);
+};
+
+/**
+ * Convert an amount to integer minor units
+ * @param {number} amount - Amount in major units (e.g., 12.34)
+ * @param {string} currency - ISO 4217 currency code
+ * @returns {number} Integer amount in minor units (e.g., 1234)
+ */
+export const toMinorUnits = (amount: number, currency?: string | null): number => {
+  if (!amount || isNaN(amount)) return 0;
+  // Trim float noise (e.g., 1.005 * 100 = 100.49999...) before rounding
+  return Math.round(parseFloat((amount * getMinorUnitFactor(currency)).toFixed(6)));
+};
+
+/**
+ * Convert integer minor units back to an amount in major units
+ * @param {number} minorUnits - Integer amount in minor units
+ * @param {string} currency - ISO 4217 currency code
+ * @returns {number} Amount in major units
+ */
+export const fromMinorUnits = (minorUnits: number, currency?: string | null): number => {
+  return minorUnits / getMinorUnitFactor(currency);
+};
+
+/**
+ * Sum a list of amounts in minor units, returning the result in major units
+ * @param {number[]} amounts - Amounts in major units
+ * @param {string} currency - ISO 4217 currency code
+ * @returns {number} Exact sum in major units
+ */
+export const sumMoney = (amounts: number[], currency?: string | null): number => {
+  const totalMinor = amounts.reduce((sum, amount) => sum + toMinorUnits(amount, currency), 0);
+  return fromMinorUnits(totalMinor, currency);
+};
+
+/**
+ * Allocate an integer total across weights using the largest-remainder method.
+ * The result always sums exactly to the total. Ties are broken by position, so
+ * earlier entries receive leftover units first and results are deterministic.
+ * If every weight is zero the total is split evenly.
+ * @param {number} totalMinor - Integer total in minor units
+ * @param {number[]} weights - Non-negative weights, one per share
+ * @returns {number[]} Integer shares in minor units, in the same order as weights
+ */
+export const allocate = (totalMinor: number, weights: number[]): number[] => {
+  if (weights.length === 0) return [];
+
+  const total = Math.round(totalMinor);
+  if (total < 0) {
+    return allocate(-total, weights).map(share => (share === 0 ? 0 : -share));
+  }
+
+  const safeWeights = weights.map(weight => (weight > 0 && isFinite(weight) ? weight : 0));
+  const totalWeight = safeWeights.reduce((sum, weight) => sum + weight, 0);
+  const effectiveWeights = totalWeight > 0 ? safeWeights : safeWeights.map(() => 1);
+  const effectiveTotalWeight = totalWeight > 0 ? totalWeight : effectiveWeights.length;
+
+  const exactShares = effectiveWeights.map(weight => (total * weight) / effectiveTotalWeight);
+  const shares = exactShares.map(share => Math.floor(share));
+
+  let leftover = total - shares.reduce((sum, share) => sum + share, 0);
+
+  // Hand out the leftover units to the largest fractional remainders first
+  const order = exactShares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i = (i + 1) % order.length) {
+    shares[order[i].index] += 1;
+    leftover -= 1;
+  }
+
+  return shares;
+};
+
+/**
+ * Split an integer total evenly between a number of shares
+ * @param {number} totalMinor - Integer total in minor units
+ * @param {number} count - Number of shares
+ * @returns {number[]} Integer shares in minor units that sum to the total
+ */
+export const splitEvenly = (totalMinor: number, count: number): number[] => {
+  return allocate(totalMinor, Array(Math.max(0, count)).fill(1));
+};
+
+/**
+ * Split an amount evenly between a number of shares
+ * @param {number} amount - Amount in major units
+ * @param {number} count - Number of shares
+ * @param {string} currency - ISO 4217 currency code
+ * @returns {number[]} Shares in major units that sum to the amount
+ */
+export const splitAmountEvenly = (amount: number, count: number, currency?: string | null): number[] => {
+  return splitEvenly(toMinorUnits(amount, currency), count).map(share => fromMinorUnits(share, currency));
+};
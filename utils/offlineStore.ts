@@ -0,0 +1,375 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { Debt, DebtGroup, DebtPayment, GroupExpense, GroupSettlement } from '@/firebase/models';
+import { getCurrencyInfo } from '@/utils/currency';
+import { getPaidAmount } from '@/utils/debtBalance';
+import { sumMoney, toMinorUnits } from '@/utils/money';
+
+/**
+ * Local copy of the user's debts and groups, plus the queue of writes waiting to reach Firestore.
+ * The saved copy is always the last data loaded from Firestore; queued writes are applied on top
+ * of it when it's shown, so they stay visible until they've synced.
+ */
+
+export type GroupWithDebts = DebtGroup & { debts: Debt[] };
+
+export interface OfflineData {
+  debts: Debt[];
+  groups: GroupWithDebts[];
+}
+
+// Debt fields as passed to createDebt / updateDebt
+export type DebtWriteData = Partial<Debt> & { [field: string]: unknown };
+export type NewDebtData = DebtWriteData & { debtorName: string; amount: number };
+
+// Group fields as passed to createDebtGroup
+export type NewDebtGroupData = Partial<DebtGroup> & { name: string; [field: string]: unknown };
+
+// A debt to add to a group, with its ID generated when it was queued
+export interface QueuedGroupDebt {
+  debtId: string;
+  data: NewDebtData;
+}
+
+export type QueuedWriteAction =
+  | { type: 'createDebt'; debtId: string; data: NewDebtData }
+  | { type: 'updateDebt'; debtId: string; data: DebtWriteData }
+  | { type: 'markDebtPaid'; debtId: string; isPaid: boolean }
+  | { type: 'recordPayment'; debtId: string; payment: DebtPayment }
+  | { type: 'deleteDebt'; debtId: string }
+  | { type: 'createDebtGroup'; groupId: string; data: NewDebtGroupData; debts: QueuedGroupDebt[] }
+  | { type: 'addDebtsToGroup'; groupId: string; debts: QueuedGroupDebt[] }
+  | { type: 'deleteDebtGroup'; groupId: string; keepDebts: boolean }
+  | { type: 'addGroupExpense'; groupId: string; expense: GroupExpense }
+  | { type: 'removeGroupExpense'; groupId: string; expenseId: string }
+  | { type: 'addGroupSettlement'; groupId: string; settlement: GroupSettlement }
+  | { type: 'removeGroupSettlement'; groupId: string; settlementId: string };
+
+export interface QueuedWriteInfo {
+  id: string;                // Client-generated write ID
+  userId: string;            // User the write belongs to
+  queuedAt: string;          // ISO string timestamp when the change was made
+  attempts: number;          // Failed attempts to reach Firestore so far
+}
+
+export type QueuedWrite = QueuedWriteAction & QueuedWriteInfo;
+
+// Constants for AsyncStorage
+const OFFLINE_DATA_KEY = 'PAID_APP_OFFLINE_DATA';
+const WRITE_QUEUE_KEY = 'PAID_APP_WRITE_QUEUE';
+
+/**
+ * Load the saved copy of a user's debts and groups
+ * @param {string} userId - ID of the signed in user
+ * @returns {Promise<OfflineData|null>} Saved data, or null if there's none for this user
+ */
+export const loadOfflineData = async (userId: string): Promise<OfflineData | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(OFFLINE_DATA_KEY);
+    if (!stored) return null;
+
+    const parsed = JSON.parse(stored);
+    if (parsed?.userId !== userId || !Array.isArray(parsed.debts) || !Array.isArray(parsed.groups)) {
+      return null;
+    }
+
+    return { debts: parsed.debts, groups: parsed.groups };
+  } catch (error) {
+    console.error('Error loading offline data:', error);
+    return null;
+  }
+};
+
+/**
+ * Save a copy of the user's debts and groups as loaded from Firestore
+ * @param {string} userId - ID of the signed in user
+ * @param {OfflineData} data - Debts and groups to save
+ * @returns {Promise<void>}
+ */
+export const saveOfflineData = async (userId: string, data: OfflineData): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(OFFLINE_DATA_KEY, JSON.stringify({
+      userId,
+      debts: data.debts,
+      groups: data.groups,
+      savedAt: new Date().toISOString(),
+    }));
+  } catch (error) {
+    console.error('Error saving offline data:', error);
+  }
+};
+
+/**
+ * Load the queue of writes waiting to reach Firestore
+ * @returns {Promise<QueuedWrite[]>} Queued writes, oldest first
+ */
+export const loadWriteQueue = async (): Promise<QueuedWrite[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(WRITE_QUEUE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error loading write queue:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the queue of writes waiting to reach Firestore
+ * @param {QueuedWrite[]} queue - Queued writes, oldest first
+ * @returns {Promise<void>}
+ */
+export const saveWriteQueue = async (queue: QueuedWrite[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(WRITE_QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error saving write queue:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the IDs of the debts and groups that have writes waiting to sync
+ * @param {QueuedWrite[]} queue - Queued writes
+ * @returns {string[]} Debt and group IDs
+ */
+export const getPendingIds = (queue: QueuedWrite[]): string[] => {
+  return Array.from(new Set(queue.flatMap(write => {
+    switch (write.type) {
+      case 'createDebtGroup':
+      case 'addDebtsToGroup':
+        return [write.groupId, ...write.debts.map(debt => debt.debtId)];
+      case 'deleteDebtGroup':
+      case 'addGroupExpense':
+      case 'removeGroupExpense':
+      case 'addGroupSettlement':
+      case 'removeGroupSettlement':
+        return [write.groupId];
+      default:
+        return [write.debtId];
+    }
+  })));
+};
+
+/**
+ * Build the debt a queued create will add, as it will look once it syncs
+ * @param {QueuedWrite} write - Queued createDebt write
+ * @returns {Debt} The new debt
+ */
+export const getQueuedDebt = (write: Extract<QueuedWrite, { type: 'createDebt' }>): Debt => ({
+  ...write.data,
+  id: write.debtId,
+  currency: getCurrencyInfo(write.data.currency).code,
+  createdAt: write.queuedAt,
+  updatedAt: write.queuedAt,
+  isPaid: false,
+  userId: write.userId,
+} as Debt);
+
+/**
+ * Build the group a queued create will add, as it will look once it syncs (without its debts)
+ * @param {QueuedWrite} write - Queued createDebtGroup write
+ * @returns {GroupWithDebts} The new group
+ */
+export const getQueuedGroup = (write: Extract<QueuedWrite, { type: 'createDebtGroup' }>): GroupWithDebts => ({
+  ...write.data,
+  id: write.groupId,
+  currency: getCurrencyInfo(write.data.currency).code,
+  createdAt: write.queuedAt,
+  updatedAt: write.queuedAt,
+  isCompleted: false,
+  totalAmount: 0,
+  paidAmount: 0,
+  debtIds: [],
+  userId: write.userId,
+  debts: [],
+} as GroupWithDebts);
+
+/**
+ * Build a debt a queued write will add to a group, as it will look once it syncs
+ * @param {QueuedWrite} write - Queued createDebtGroup or addDebtsToGroup write
+ * @param {QueuedGroupDebt} groupDebt - The debt
+ * @returns {Debt} The new debt
+ */
+const getQueuedGroupDebt = (
+  write: Extract<QueuedWrite, { type: 'createDebtGroup' | 'addDebtsToGroup' }>,
+  groupDebt: QueuedGroupDebt
+): Debt => ({
+  ...groupDebt.data,
+  id: groupDebt.debtId,
+  currency: getCurrencyInfo(groupDebt.data.currency).code,
+  createdAt: write.queuedAt,
+  updatedAt: write.queuedAt,
+  isPaid: false,
+  userId: write.userId,
+  groupId: write.groupId,
+} as Debt);
+
+/**
+ * Recalculate a group's totals from its debts
+ * @param {GroupWithDebts} group - The group
+ * @param {Debt[]} debts - The group's debts
+ * @returns {GroupWithDebts} Group with updated debts and totals
+ */
+const withGroupDebts = (group: GroupWithDebts, debts: Debt[]): GroupWithDebts => ({
+  ...group,
+  debts,
+  totalAmount: sumMoney(debts.map(debt => debt.amount), group.currency),
+  paidAmount: sumMoney(debts.map(debt => getPaidAmount(debt)), group.currency),
+  isCompleted: debts.length > 0 && debts.every(debt => debt.isPaid),
+});
+
+/**
+ * Update a debt wherever it appears, in the debt list and inside its group
+ * @param {OfflineData} data - Debts and groups
+ * @param {string} debtId - ID of the debt
+ * @param {Function} update - Returns the updated debt, or null to remove it
+ * @returns {OfflineData} Updated debts and groups
+ */
+const updateDebt = (data: OfflineData, debtId: string, update: (debt: Debt) => Debt | null): OfflineData => {
+  const updateList = (debts: Debt[]) => debts
+    .map(debt => debt.id === debtId ? update(debt) : debt)
+    .filter((debt): debt is Debt => debt !== null);
+
+  return {
+    debts: updateList(data.debts),
+    groups: data.groups.map(group =>
+      group.debts?.some(debt => debt.id === debtId) ? withGroupDebts(group, updateList(group.debts)) : group
+    ),
+  };
+};
+
+/**
+ * Update a group in the group list
+ * @param {OfflineData} data - Debts and groups
+ * @param {string} groupId - ID of the group
+ * @param {Function} update - Returns the updated group
+ * @returns {OfflineData} Updated debts and groups
+ */
+const updateGroup = (data: OfflineData, groupId: string, update: (group: GroupWithDebts) => GroupWithDebts): OfflineData => ({
+  ...data,
+  groups: data.groups.map(group => group.id === groupId ? update(group) : group),
+});
+
+/**
+ * Add the debts of a queued write to the debt list and their group, skipping any that already synced
+ * @param {OfflineData} data - Debts and groups
+ * @param {QueuedWrite} write - Queued createDebtGroup or addDebtsToGroup write
+ * @returns {OfflineData} Updated debts and groups
+ */
+const addGroupDebts = (
+  data: OfflineData,
+  write: Extract<QueuedWrite, { type: 'createDebtGroup' | 'addDebtsToGroup' }>
+): OfflineData => {
+  const newDebts = write.debts
+    .filter(groupDebt => !data.debts.some(debt => debt.id === groupDebt.debtId))
+    .map(groupDebt => getQueuedGroupDebt(write, groupDebt));
+
+  return {
+    debts: [...newDebts, ...data.debts],
+    groups: data.groups.map(group =>
+      group.id === write.groupId ? withGroupDebts(group, [...newDebts, ...(group.debts || [])]) : group
+    ),
+  };
+};
+
+/**
+ * Apply a queued write to debts and groups, the way it will look once it syncs.
+ * Debts and groups are updated independently, so either list can be left empty.
+ * @param {OfflineData} data - Debts and groups
+ * @param {QueuedWrite} write - Queued write
+ * @returns {OfflineData} Updated debts and groups
+ */
+export const applyQueuedWrite = (data: OfflineData, write: QueuedWrite): OfflineData => {
+  switch (write.type) {
+    case 'createDebt': {
+      if (data.debts.some(debt => debt.id === write.debtId)) return data;
+      return { ...data, debts: [getQueuedDebt(write), ...data.debts] };
+    }
+
+    case 'updateDebt':
+      return updateDebt(data, write.debtId, debt => ({ ...debt, ...write.data, updatedAt: write.queuedAt } as Debt));
+
+    case 'markDebtPaid':
+      return updateDebt(data, write.debtId, debt => ({
+        ...debt,
+        isPaid: write.isPaid,
+        paidAt: write.isPaid ? write.queuedAt : undefined,
+        updatedAt: write.queuedAt,
+      }));
+
+    case 'recordPayment':
+      return updateDebt(data, write.debtId, debt => {
+        if (debt.payments?.some(payment => payment.id === write.payment.id)) return debt;
+
+        const payments = [...(debt.payments || []), write.payment];
+        const paidAmount = sumMoney(payments.map(payment => payment.amount), debt.currency);
+        const isPaid = toMinorUnits(paidAmount, debt.currency) >= toMinorUnits(debt.amount, debt.currency);
+
+        return { ...debt, payments, paidAmount, isPaid, paidAt: isPaid ? write.queuedAt : undefined, updatedAt: write.queuedAt };
+      });
+
+    case 'deleteDebt':
+      return updateDebt(data, write.debtId, () => null);
+
+    case 'createDebtGroup': {
+      const withGroup = data.groups.some(group => group.id === write.groupId)
+        ? data
+        : { ...data, groups: [getQueuedGroup(write), ...data.groups] };
+      return addGroupDebts(withGroup, write);
+    }
+
+    case 'addDebtsToGroup':
+      return addGroupDebts(data, write);
+
+    case 'deleteDebtGroup': {
+      const isGroupDebt = (debt: Debt) => debt.groupId === write.groupId;
+
+      return {
+        debts: write.keepDebts
+          ? data.debts.map(debt => isGroupDebt(debt) ? { ...debt, groupId: undefined } : debt)
+          : data.debts.filter(debt => !isGroupDebt(debt)),
+        groups: data.groups.filter(group => group.id !== write.groupId),
+      };
+    }
+
+    case 'addGroupExpense':
+      return updateGroup(data, write.groupId, group => {
+        if (group.expenses?.some(expense => expense.id === write.expense.id)) return group;
+        return { ...group, expenses: [...(group.expenses || []), write.expense], updatedAt: write.queuedAt };
+      });
+
+    case 'removeGroupExpense':
+      return updateGroup(data, write.groupId, group => ({
+        ...group,
+        expenses: (group.expenses || []).filter(expense => expense.id !== write.expenseId),
+        updatedAt: write.queuedAt,
+      }));
+
+    case 'addGroupSettlement':
+      return updateGroup(data, write.groupId, group => {
+        if (group.settlements?.some(settlement => settlement.id === write.settlement.id)) return group;
+        return { ...group, settlements: [...(group.settlements || []), write.settlement], updatedAt: write.queuedAt };
+      });
+
+    case 'removeGroupSettlement':
+      return updateGroup(data, write.groupId, group => ({
+        ...group,
+        settlements: (group.settlements || []).filter(settlement => settlement.id !== write.settlementId),
+        updatedAt: write.queuedAt,
+      }));
+
+    default:
+      return data;
+  }
+};
+
+/**
+ * Apply every queued write, oldest first
+ * @param {OfflineData} data - Debts and groups
+ * @param {QueuedWrite[]} queue - Queued writes
+ * @returns {OfflineData} Updated debts and groups
+ */
+export const applyQueuedWrites = (data: OfflineData, queue: QueuedWrite[]): OfflineData => {
+  return queue.reduce(applyQueuedWrite, data);
+};
@@ -0,0 +1,556 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { AppState } from 'react-native';
+
+import {
+  addDebtsToGroup,
+  addGroupExpense,
+  addGroupSettlement,
+  createDebt,
+  createDebtGroup,
+  deleteDebt,
+  deleteDebtGroup,
+  generateDebtGroupId,
+  generateDebtId,
+  generatePaymentId,
+  markDebtAsPaid,
+  recordDebtPayment,
+  removeGroupExpense,
+  removeGroupSettlement,
+  updateDebt,
+} from '@/firebase/firestore';
+import { Debt, DebtGroup, DebtPayment, GroupExpense, GroupSettlement } from '@/firebase/models';
+import { getDebt, getDebtGroup } from '@/firebase/repository';
+import eventEmitter from '@/utils/eventEmitter';
+import {
+  DebtWriteData,
+  getPendingIds,
+  loadWriteQueue,
+  NewDebtData,
+  NewDebtGroupData,
+  QueuedGroupDebt,
+  QueuedWrite,
+  QueuedWriteAction,
+  QueuedWriteInfo,
+  saveWriteQueue,
+} from '@/utils/offlineStore';
+
+/**
+ * Replays queued writes against Firestore whenever the device is online.
+ * Writes are replayed oldest first. A write is skipped when the debt or group it
+ * changes was updated on the server after the write was queued (the server copy wins).
+ * Replaying a write that already reached Firestore (e.g., one that timed out but went
+ * through) changes nothing: new debts, groups, payments, expenses and settlements get
+ * their IDs when they're queued, and updates mark the debt with the ID of the write.
+ */
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingIds: string[];
+  pendingCount: number;
+}
+
+// How long to wait for a write before treating the device as offline
+const SYNC_TIMEOUT_MS = 15000;
+
+// Firestore error codes that mean the write should be retried later
+const RETRYABLE_ERROR_CODES = ['unavailable', 'deadline-exceeded'];
+
+let queue: QueuedWrite[] = [];
+let queueLoaded: Promise<void> | null = null;
+let isOnline = true;
+let isSyncing = false;
+
+const ensureQueueLoaded = () => {
+  if (!queueLoaded) {
+    queueLoaded = loadWriteQueue().then(storedQueue => {
+      queue = [...storedQueue, ...queue];
+    });
+  }
+  return queueLoaded;
+};
+
+/**
+ * Get the current sync status
+ * @returns {SyncStatus} Connectivity and pending writes
+ */
+export const getSyncStatus = (): SyncStatus => ({
+  isOnline,
+  isSyncing,
+  pendingIds: getPendingIds(queue),
+  pendingCount: queue.length,
+});
+
+const emitStatus = () => {
+  eventEmitter.emit('SYNC_STATUS_CHANGED', getSyncStatus());
+};
+
+/**
+ * Get the writes waiting to sync for a user
+ * @param {string} userId - ID of the signed in user
+ * @returns {Promise<QueuedWrite[]>} Queued writes, oldest first
+ */
+export const getPendingWrites = async (userId: string): Promise<QueuedWrite[]> => {
+  await ensureQueueLoaded();
+  return queue.filter(write => write.userId === userId);
+};
+
+/**
+ * Add a write to the queue and try to sync it straight away
+ * @param {string} userId - ID of the signed in user
+ * @param {QueuedWriteAction} action - The change to make
+ * @returns {Promise<QueuedWrite>} The queued write, to apply to local state
+ */
+const queueWrite = async <A extends QueuedWriteAction>(userId: string, action: A): Promise<A & QueuedWriteInfo> => {
+  await ensureQueueLoaded();
+
+  const write = {
+    ...action,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    userId,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+
+  queue = [...queue, write];
+  await saveWriteQueue(queue);
+  emitStatus();
+
+  replayWriteQueue();
+  return write;
+};
+
+/**
+ * Queue a new debt. The debt ID is generated up front so the debt can be shown and changed before it syncs.
+ * @param {string} userId - ID of the user who is owed money
+ * @param {NewDebtData} data - Debt information, as passed to createDebt
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueCreateDebt = (userId: string, data: NewDebtData) => {
+  return queueWrite(userId, { type: 'createDebt', debtId: generateDebtId(userId), data });
+};
+
+/**
+ * Queue changes to a debt
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the debt
+ * @param {DebtWriteData} data - Fields to update, as passed to updateDebt
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueUpdateDebt = (userId: string, debtId: string, data: DebtWriteData) => {
+  return queueWrite(userId, { type: 'updateDebt', debtId, data });
+};
+
+/**
+ * Queue marking a debt as paid or unpaid
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the debt
+ * @param {boolean} isPaid - Whether the debt is paid
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueMarkDebtAsPaid = (userId: string, debtId: string, isPaid = true) => {
+  return queueWrite(userId, { type: 'markDebtPaid', debtId, isPaid });
+};
+
+/**
+ * Queue recording a (partial) payment towards a debt
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the debt
+ * @param {Object} payment - Amount, method and note, as passed to recordDebtPayment
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueRecordPayment = (
+  userId: string,
+  debtId: string,
+  payment: Pick<DebtPayment, 'amount' | 'method' | 'note'>
+) => {
+  return queueWrite(userId, {
+    type: 'recordPayment',
+    debtId,
+    payment: { ...payment, id: generatePaymentId(), paidAt: new Date().toISOString() },
+  });
+};
+
+/**
+ * Queue deleting a debt
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} debtId - ID of the debt
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueDeleteDebt = (userId: string, debtId: string) => {
+  return queueWrite(userId, { type: 'deleteDebt', debtId });
+};
+
+// Give each new group debt its ID up front, like queueCreateDebt
+const toQueuedGroupDebts = (userId: string, debts: NewDebtData[]): QueuedGroupDebt[] => {
+  return debts.map(data => ({ debtId: generateDebtId(userId), data }));
+};
+
+/**
+ * Queue a new debt group along with its debts
+ * @param {string} userId - ID of the user who is owed money
+ * @param {NewDebtGroupData} data - Group information, as passed to createDebtGroup
+ * @param {NewDebtData[]} debts - Debts to add to the group, as passed to addDebtsToGroup
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueCreateDebtGroup = (userId: string, data: NewDebtGroupData, debts: NewDebtData[] = []) => {
+  return queueWrite(userId, {
+    type: 'createDebtGroup',
+    groupId: generateDebtGroupId(userId),
+    data,
+    debts: toQueuedGroupDebts(userId, debts),
+  });
+};
+
+/**
+ * Queue adding debts to a group
+ * @param {string} userId - ID of the user who is owed money
+ * @param {string} groupId - ID of the group
+ * @param {NewDebtData[]} debts - Debts to add, as passed to addDebtsToGroup
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueAddDebtsToGroup = (userId: string, groupId: string, debts: NewDebtData[]) => {
+  return queueWrite(userId, { type: 'addDebtsToGroup', groupId, debts: toQueuedGroupDebts(userId, debts) });
+};
+
+/**
+ * Queue deleting a debt group
+ * @param {string} userId - ID of the user who owns the group
+ * @param {string} groupId - ID of the group
+ * @param {boolean} keepDebts - Whether to keep the group's debts as individual debts
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueDeleteDebtGroup = (userId: string, groupId: string, keepDebts = true) => {
+  return queueWrite(userId, { type: 'deleteDebtGroup', groupId, keepDebts });
+};
+
+/**
+ * Queue adding an expense to a shared expense group. The expense ID is generated up front, like queueRecordPayment.
+ * @param {string} userId - ID of the user who owns the group
+ * @param {string} groupId - ID of the group
+ * @param {Object} expense - Description, amount, payer and members, as passed to addGroupExpense
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueAddGroupExpense = (userId: string, groupId: string, expense: Omit<GroupExpense, 'id' | 'createdAt'>) => {
+  return queueWrite(userId, {
+    type: 'addGroupExpense',
+    groupId,
+    expense: { ...expense, id: generatePaymentId(), createdAt: new Date().toISOString() },
+  });
+};
+
+/**
+ * Queue removing an expense from a shared expense group
+ * @param {string} userId - ID of the user who owns the group
+ * @param {string} groupId - ID of the group
+ * @param {string} expenseId - ID of the expense
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueRemoveGroupExpense = (userId: string, groupId: string, expenseId: string) => {
+  return queueWrite(userId, { type: 'removeGroupExpense', groupId, expenseId });
+};
+
+/**
+ * Queue recording a payment between two members of a shared expense group
+ * @param {string} userId - ID of the user who owns the group
+ * @param {string} groupId - ID of the group
+ * @param {Object} settlement - Who paid whom and how much, as passed to addGroupSettlement
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueAddGroupSettlement = (
+  userId: string,
+  groupId: string,
+  settlement: Pick<GroupSettlement, 'from' | 'to' | 'amount'>
+) => {
+  return queueWrite(userId, {
+    type: 'addGroupSettlement',
+    groupId,
+    settlement: {
+      id: generatePaymentId(),
+      from: settlement.from,
+      to: settlement.to,
+      amount: settlement.amount,
+      settledAt: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Queue removing a recorded settlement from a shared expense group
+ * @param {string} userId - ID of the user who owns the group
+ * @param {string} groupId - ID of the group
+ * @param {string} settlementId - ID of the settlement
+ * @returns {Promise<QueuedWrite>} The queued write
+ */
+export const queueRemoveGroupSettlement = (userId: string, groupId: string, settlementId: string) => {
+  return queueWrite(userId, { type: 'removeGroupSettlement', groupId, settlementId });
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(Object.assign(new Error('Timed out waiting for Firestore'), { code: 'deadline-exceeded' }));
+    }, ms);
+
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+};
+
+const isRetryableError = (error: any) => {
+  return RETRYABLE_ERROR_CODES.includes(error?.code) || /offline|network/i.test(String(error?.message));
+};
+
+// Whether the server copy changed after the write was queued
+const changedOnServer = (updatedAt: string | undefined, write: QueuedWrite) => {
+  return !!updatedAt && new Date(updatedAt).getTime() > new Date(write.queuedAt).getTime();
+};
+
+// Whether a debt already has the change a queued write makes, from an earlier attempt
+const alreadyApplied = (debt: Debt, write: QueuedWrite) => {
+  switch (write.type) {
+    case 'updateDebt':
+      return debt.lastWriteId === write.id;
+    case 'markDebtPaid':
+      return debt.isPaid === write.isPaid;
+    case 'recordPayment':
+      return !!debt.payments?.some(payment => payment.id === write.payment.id);
+    default:
+      return false;
+  }
+};
+
+// Whether a group already has the expense or settlement a queued write adds, or lacks the one it removes
+const groupAlreadyApplied = (
+  group: DebtGroup,
+  write: Extract<QueuedWrite, { type: 'addGroupExpense' | 'removeGroupExpense' | 'addGroupSettlement' | 'removeGroupSettlement' }>
+) => {
+  switch (write.type) {
+    case 'addGroupExpense':
+      return !!group.expenses?.some(expense => expense.id === write.expense.id);
+    case 'removeGroupExpense':
+      return !group.expenses?.some(expense => expense.id === write.expenseId);
+    case 'addGroupSettlement':
+      return !!group.settlements?.some(settlement => settlement.id === write.settlement.id);
+    case 'removeGroupSettlement':
+      return !group.settlements?.some(settlement => settlement.id === write.settlementId);
+  }
+};
+
+/**
+ * Add the debts of a queued write to their group, skipping any that an earlier attempt added
+ * @param {QueuedWrite} write - Queued createDebtGroup or addDebtsToGroup write
+ * @returns {Promise<number>} Number of debts added
+ */
+const addQueuedGroupDebts = async (write: Extract<QueuedWrite, { type: 'createDebtGroup' | 'addDebtsToGroup' }>) => {
+  const existing = await Promise.all(write.debts.map(({ debtId }) => getDebt(write.userId, debtId)));
+  const missing = write.debts.filter((_, index) => !existing[index]);
+
+  if (missing.length > 0) {
+    await addDebtsToGroup(
+      write.userId,
+      write.groupId,
+      missing.map(({ debtId, data }) => ({ ...data, id: debtId, createdAt: data.createdAt ?? write.queuedAt }))
+    );
+  }
+  return missing.length;
+};
+
+/**
+ * Send one queued write to Firestore
+ * @param {QueuedWrite} write - The write to send
+ * @param {Set<string>} syncedIds - Debts and groups already written during this replay,
+ *   whose newer updatedAt comes from this device rather than a conflicting change
+ * @returns {Promise<'applied'|'skipped'|'conflict'>} What happened to the write
+ */
+const sendWrite = async (write: QueuedWrite, syncedIds: Set<string>): Promise<'applied' | 'skipped' | 'conflict'> => {
+  const { userId } = write;
+
+  if (write.type === 'createDebt') {
+    // Creating is idempotent since the ID was generated when the write was queued
+    const existing = await getDebt(userId, write.debtId);
+    if (!existing) {
+      await createDebt(userId, { ...write.data, id: write.debtId, createdAt: write.queuedAt });
+    }
+    syncedIds.add(write.debtId);
+    return existing ? 'skipped' : 'applied';
+  }
+
+  if (write.type === 'createDebtGroup') {
+    const existing = await getDebtGroup(userId, write.groupId);
+    if (!existing) {
+      await createDebtGroup(userId, { ...write.data, id: write.groupId });
+    }
+    const addedCount = await addQueuedGroupDebts(write);
+    syncedIds.add(write.groupId);
+    return existing && addedCount === 0 ? 'skipped' : 'applied';
+  }
+
+  if (write.type === 'addDebtsToGroup') {
+    const group = await getDebtGroup(userId, write.groupId);
+    if (!group) return 'skipped';
+
+    // Adding debts doesn't conflict with changes to the group
+    const addedCount = await addQueuedGroupDebts(write);
+    syncedIds.add(write.groupId);
+    return addedCount > 0 ? 'applied' : 'skipped';
+  }
+
+  if (write.type === 'deleteDebtGroup') {
+    const group = await getDebtGroup(userId, write.groupId);
+    if (!group) return 'skipped';
+    if (!syncedIds.has(write.groupId) && changedOnServer(group.updatedAt, write)) return 'conflict';
+
+    await deleteDebtGroup(userId, write.groupId, write.keepDebts);
+    syncedIds.add(write.groupId);
+    return 'applied';
+  }
+
+  if (
+    write.type === 'addGroupExpense' ||
+    write.type === 'removeGroupExpense' ||
+    write.type === 'addGroupSettlement' ||
+    write.type === 'removeGroupSettlement'
+  ) {
+    // Expenses and settlements are added and removed by ID, so they don't conflict with other changes to the group
+    const group = await getDebtGroup(userId, write.groupId);
+    if (!group || groupAlreadyApplied(group, write)) return 'skipped';
+
+    switch (write.type) {
+      case 'addGroupExpense':
+        await addGroupExpense(userId, write.groupId, write.expense);
+        break;
+      case 'removeGroupExpense':
+        await removeGroupExpense(userId, write.groupId, write.expenseId);
+        break;
+      case 'addGroupSettlement':
+        await addGroupSettlement(userId, write.groupId, write.settlement);
+        break;
+      case 'removeGroupSettlement':
+        await removeGroupSettlement(userId, write.groupId, write.settlementId);
+        break;
+    }
+
+    syncedIds.add(write.groupId);
+    return 'applied';
+  }
+
+  const debt = await getDebt(userId, write.debtId);
+  if (!debt) return 'skipped';
+
+  // The debt's newer updatedAt is then this write's own, not a conflicting change
+  if (alreadyApplied(debt, write)) {
+    syncedIds.add(write.debtId);
+    return 'skipped';
+  }
+  if (!syncedIds.has(write.debtId) && changedOnServer(debt.updatedAt, write)) return 'conflict';
+
+  switch (write.type) {
+    case 'updateDebt':
+      await updateDebt(userId, write.debtId, { ...write.data, lastWriteId: write.id });
+      break;
+    case 'markDebtPaid':
+      await markDebtAsPaid(userId, write.debtId, write.isPaid);
+      break;
+    case 'recordPayment':
+      await recordDebtPayment(userId, write.debtId, write.payment);
+      break;
+    case 'deleteDebt':
+      await deleteDebt(userId, write.debtId);
+      break;
+  }
+
+  syncedIds.add(write.debtId);
+  return 'applied';
+};
+
+/**
+ * Replay queued writes against Firestore, oldest first.
+ * Stops at the first network error and keeps the rest of the queue for the next attempt.
+ * Emits SYNC_CONFLICTS with the writes the server overrode, and SYNC_FAILED with the
+ * writes dropped because Firestore rejected them.
+ * @returns {Promise<void>}
+ */
+export const replayWriteQueue = async (): Promise<void> => {
+  await ensureQueueLoaded();
+  if (isSyncing || !isOnline || queue.length === 0) return;
+
+  isSyncing = true;
+  emitStatus();
+
+  const syncedIds = new Set<string>();
+  const conflicts: QueuedWrite[] = [];
+  const failures: QueuedWrite[] = [];
+  try {
+    while (queue.length > 0) {
+      const write = queue[0];
+
+      try {
+        const result = await withTimeout(sendWrite(write, syncedIds), SYNC_TIMEOUT_MS);
+        if (result === 'conflict') {
+          console.warn(`Skipping queued ${write.type}: it was changed on the server after ${write.queuedAt}`);
+          conflicts.push(write);
+        }
+      } catch (error) {
+        if (isRetryableError(error)) {
+          queue = queue.map(queued => queued.id === write.id ? { ...queued, attempts: queued.attempts + 1 } : queued);
+          await saveWriteQueue(queue);
+          break;
+        }
+        console.error(`Error syncing queued ${write.type}, dropping it:`, error);
+        failures.push(write);
+      }
+
+      queue = queue.filter(queued => queued.id !== write.id);
+      await saveWriteQueue(queue);
+    }
+  } catch (error) {
+    console.error('Error replaying write queue:', error);
+  } finally {
+    isSyncing = false;
+    emitStatus();
+
+    if (conflicts.length > 0) {
+      eventEmitter.emit('SYNC_CONFLICTS', conflicts);
+    }
+    if (failures.length > 0) {
+      eventEmitter.emit('SYNC_FAILED', failures);
+    }
+  }
+};
+
+const isConnected = (state: NetInfoState) => {
+  return state.isConnected !== false && state.isInternetReachable !== false;
+};
+
+/**
+ * Start watching connectivity and replay queued writes whenever the device comes
+ * back online or the app returns to the foreground
+ * @returns {Function} Stops watching
+ */
+export const startOfflineSync = (): (() => void) => {
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    const connected = isConnected(state);
+    if (connected !== isOnline) {
+      isOnline = connected;
+      emitStatus();
+    }
+    if (connected) replayWriteQueue();
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', nextAppState => {
+    if (nextAppState === 'active') replayWriteQueue();
+  });
+
+  ensureQueueLoaded().then(() => {
+    emitStatus();
+    replayWriteQueue();
+  });
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+  };
+};
@@ -0,0 +1,240 @@
+import { CurrencyCode } from '@/firebase/models';
+import { allocate, fromMinorUnits, splitEvenly, toMinorUnits } from '@/utils/money';
+
+/**
+ * Pure allocation engine for splitting a receipt between people.
+ * Items are split by assignment; tax, tip and extra fees are each split
+ * using a configurable strategy. All math is done in integer minor units.
+ */
+
+/**
+ * How a charge (tax, tip or extra fees) is divided between people
+ * - equal: split evenly between everyone with items
+ * - proportional: split by each person's share of the item subtotal
+ * - fixed: everyone with items pays the same fixed amount
+ */
+export type AllocationMethod = 'equal' | 'proportional' | 'fixed';
+
+export type ChargeType = 'tax' | 'tip' | 'extraFees';
+
+export interface ChargeStrategy {
+  method: AllocationMethod;
+  exemptPersonIds: string[];  // People who pay none of this charge
+  fixedAmount?: number;       // Per-person amount for the 'fixed' method
+}
+
+export interface AllocationSettings {
+  tax: ChargeStrategy;
+  tip: ChargeStrategy;
+  extraFees: ChargeStrategy;
+  tipPercentage: number | null; // When set, the tip is this percentage of the subtotal
+}
+
+export interface AllocationItem {
+  price: number;
+  quantity: number;
+  split: boolean;                // Whether the item is included in the split
+  assignedTo: string | null;     // Single assignee (older assignments)
+  splitBetween: string[];        // Person IDs sharing the item
+}
+
+export interface AllocationCharges {
+  tax: number | null;
+  tip: number | null;
+  extraFees: number | null;
+}
+
+export interface PersonShare {
+  items: number;
+  tax: number;
+  tip: number;
+  extraFees: number;
+  total: number;
+}
+
+export interface AllocationResult {
+  subtotal: number;                          // Sum of all selected items
+  charges: Record<ChargeType, number>;       // Charge amounts after applying strategies
+  total: number;                             // Subtotal plus charges
+  shares: { [personId: string]: PersonShare };
+}
+
+export const CHARGE_TYPES: ChargeType[] = ['tax', 'tip', 'extraFees'];
+
+export const DEFAULT_ALLOCATION_SETTINGS: AllocationSettings = {
+  tax: { method: 'proportional', exemptPersonIds: [] },
+  tip: { method: 'equal', exemptPersonIds: [] },
+  extraFees: { method: 'proportional', exemptPersonIds: [] },
+  tipPercentage: null,
+};
+
+/**
+ * Split a single item between its assignees
+ * @param {AllocationItem} item - Receipt item
+ * @param {CurrencyCode} currency - Currency of the receipt
+ * @returns {Object} Map of person ID to share in minor units
+ */
+export const getItemSharesMinor = (item: AllocationItem, currency?: CurrencyCode): { [personId: string]: number } => {
+  const lineMinor = toMinorUnits(item.price * item.quantity, currency);
+  const shares: { [personId: string]: number } = {};
+
+  if (item.splitBetween && item.splitBetween.length > 0) {
+    const parts = splitEvenly(lineMinor, item.splitBetween.length);
+    item.splitBetween.forEach((personId, index) => {
+      shares[personId] = (shares[personId] || 0) + parts[index];
+    });
+  } else if (item.assignedTo) {
+    shares[item.assignedTo] = lineMinor;
+  }
+
+  return shares;
+};
+
+/**
+ * Allocate a single charge between people according to its strategy
+ * @param {number} chargeMinor - Charge amount in minor units
+ * @param {ChargeStrategy} strategy - How to split the charge
+ * @param {string[]} personIds - IDs of everyone on the receipt
+ * @param {number[]} itemsMinor - Each person's item total in minor units
+ * @param {number} unassignedMinor - Items not assigned to anyone, in minor units
+ * @param {CurrencyCode} currency - Currency of the receipt
+ * @returns {number[]} Each person's share in minor units
+ */
+const allocateCharge = (
+  chargeMinor: number,
+  strategy: ChargeStrategy,
+  personIds: string[],
+  itemsMinor: number[],
+  unassignedMinor: number,
+  currency?: CurrencyCode
+): number[] => {
+  const exempt = new Set(strategy.exemptPersonIds || []);
+  const eligible = personIds.map((personId, index) => itemsMinor[index] > 0 && !exempt.has(personId));
+
+  if (!eligible.some(Boolean)) {
+    return personIds.map(() => 0);
+  }
+
+  switch (strategy.method) {
+    case 'fixed': {
+      const fixedMinor = toMinorUnits(strategy.fixedAmount || 0, currency);
+      return eligible.map(isEligible => (isEligible ? fixedMinor : 0));
+    }
+    case 'equal':
+      return allocate(chargeMinor, eligible.map(isEligible => (isEligible ? 1 : 0)));
+    case 'proportional':
+    default: {
+      // Unassigned items keep their proportional share out of everyone's totals
+      const weights = itemsMinor.map((amount, index) => (eligible[index] ? amount : 0));
+      return allocate(chargeMinor, [...weights, unassignedMinor]).slice(0, personIds.length);
+    }
+  }
+};
+
+/**
+ * Calculate each person's share of a receipt
+ * @param {Object} params - Allocation inputs
+ * @param {AllocationItem[]} params.items - Receipt items
+ * @param {string[]} params.personIds - IDs of everyone on the receipt
+ * @param {AllocationCharges} params.charges - Tax, tip and extra fees from the receipt
+ * @param {AllocationSettings} params.settings - Strategy for each charge type
+ * @param {CurrencyCode} params.currency - Currency of the receipt
+ * @returns {AllocationResult} Per-person shares that sum to the allocated total
+ */
+export const allocateReceipt = ({
+  items,
+  personIds,
+  charges,
+  settings = DEFAULT_ALLOCATION_SETTINGS,
+  currency
+}: {
+  items: AllocationItem[];
+  personIds: string[];
+  charges: AllocationCharges;
+  settings?: AllocationSettings;
+  currency?: CurrencyCode;
+}): AllocationResult => {
+  const itemsByPerson: { [personId: string]: number } = {};
+  let subtotalMinor = 0;
+
+  personIds.forEach(personId => {
+    itemsByPerson[personId] = 0;
+  });
+
+  // Sum up items assigned to each person
+  items.filter(item => item.split).forEach(item => {
+    subtotalMinor += toMinorUnits(item.price * item.quantity, currency);
+
+    const itemShares = getItemSharesMinor(item, currency);
+    Object.keys(itemShares).forEach(personId => {
+      if (personId in itemsByPerson) {
+        itemsByPerson[personId] += itemShares[personId];
+      }
+    });
+  });
+
+  const itemsMinor = personIds.map(personId => itemsByPerson[personId]);
+  const assignedMinor = itemsMinor.reduce((sum, amount) => sum + amount, 0);
+  const unassignedMinor = Math.max(0, subtotalMinor - assignedMinor);
+
+  // A percentage tip is computed from the subtotal
+  const chargeMinor: Record<ChargeType, number> = {
+    tax: toMinorUnits(charges.tax || 0, currency),
+    tip: settings.tipPercentage !== null && settings.tipPercentage !== undefined
+      ? Math.round((subtotalMinor * settings.tipPercentage) / 100)
+      : toMinorUnits(charges.tip || 0, currency),
+    extraFees: toMinorUnits(charges.extraFees || 0, currency),
+  };
+
+  const chargeShares: Record<ChargeType, number[]> = {
+    tax: personIds.map(() => 0),
+    tip: personIds.map(() => 0),
+    extraFees: personIds.map(() => 0),
+  };
+
+  if (subtotalMinor > 0) {
+    CHARGE_TYPES.forEach(type => {
+      const strategy = settings[type];
+      // Fixed amounts apply even when the receipt has no value for the charge
+      if (chargeMinor[type] > 0 || strategy.method === 'fixed') {
+        chargeShares[type] = allocateCharge(
+          chargeMinor[type], strategy, personIds, itemsMinor, unassignedMinor, currency
+        );
+      }
+    });
+  }
+
+  // Fixed per-person charges replace the receipt's amount for that charge
+  CHARGE_TYPES.forEach(type => {
+    if (settings[type].method === 'fixed') {
+      chargeMinor[type] = chargeShares[type].reduce((sum, share) => sum + share, 0);
+    }
+  });
+
+  const shares: { [personId: string]: PersonShare } = {};
+  personIds.forEach((personId, index) => {
+    const totalMinor = itemsMinor[index] +
+      chargeShares.tax[index] +
+      chargeShares.tip[index] +
+      chargeShares.extraFees[index];
+
+    shares[personId] = {
+      items: fromMinorUnits(itemsMinor[index], currency),
+      tax: fromMinorUnits(chargeShares.tax[index], currency),
+      tip: fromMinorUnits(chargeShares.tip[index], currency),
+      extraFees: fromMinorUnits(chargeShares.extraFees[index], currency),
+      total: fromMinorUnits(totalMinor, currency),
+    };
+  });
+
+  return {
+    subtotal: fromMinorUnits(subtotalMinor, currency),
+    charges: {
+      tax: fromMinorUnits(chargeMinor.tax, currency),
+      tip: fromMinorUnits(chargeMinor.tip, currency),
+      extraFees: fromMinorUnits(chargeMinor.extraFees, currency),
+    },
+    total: fromMinorUnits(subtotalMinor + chargeMinor.tax + chargeMinor.tip + chargeMinor.extraFees, currency),
+    shares,
+  };
+};
@@ -0,0 +1,238 @@
+import { CurrencyCode, Debt, DebtGroup, RecurrenceUnit, RecurringDebt, RecurringFrequency } from '@/firebase/models';
+import {
+  LAST_DAY_OF_MONTH,
+  getNextOccurrence,
+  getUpcomingOccurrences,
+  usesDayOfMonth,
+  usesDayOfWeek,
+} from '@/functions/recurrence';
+
+/**
+ * Recurring debts and recurring groups as one kind of series, for screens that manage both.
+ * A recurring debt's template lives in recurringDebts; a recurring group is its own template.
+ */
+
+export type RecurringSeriesType = 'debt' | 'group';
+
+export type RecurringSeriesStatus = 'active' | 'paused' | 'ended';
+
+export interface RecurringSeries {
+  type: RecurringSeriesType;
+  id: string;                // ID of the recurring debt template or recurring group
+  name: string;              // Debtor name or group name
+  amount: number;            // Amount of each debt, or the group's total
+  currency?: CurrencyCode;
+  frequency: RecurringFrequency;
+  interval: number | null;
+  intervalUnit: RecurrenceUnit | null;
+  startDate: string;
+  endDate: string | null;
+  occurrenceCount: number | null;
+  dayOfMonth: number | null;
+  dayOfWeek: number | null;
+  timeZone: string | null;
+  skippedDates: string[];
+  nextGenerationDate: string;
+  status: RecurringSeriesStatus;
+  instanceIds: string[];     // IDs of the debts or groups created so far, oldest first
+}
+
+type ScheduleFields = Pick<
+  RecurringSeries,
+  | 'frequency'
+  | 'interval'
+  | 'intervalUnit'
+  | 'startDate'
+  | 'endDate'
+  | 'occurrenceCount'
+  | 'dayOfMonth'
+  | 'dayOfWeek'
+  | 'timeZone'
+  | 'skippedDates'
+  | 'nextGenerationDate'
+>;
+
+export interface RecurringInstance {
+  id: string;
+  createdAt: string | null;  // Null when the instance has been deleted
+  isPaid: boolean;
+}
+
+const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const FREQUENCY_LABELS: Record<Exclude<RecurringFrequency, 'custom'>, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  quarterly: 'Every 3 months',
+  yearly: 'Yearly',
+};
+
+// Units a custom frequency can repeat in, for pickers
+export const RECURRENCE_UNITS: RecurrenceUnit[] = ['day', 'week', 'month', 'year'];
+
+// Number of upcoming occurrences shown for each series
+export const UPCOMING_OCCURRENCE_COUNT = 5;
+
+/**
+ * Work out whether a series is running, paused by the user or finished
+ * @param {ScheduleFields} schedule - The series' schedule
+ * @param {boolean} isActive - Whether the series' template is active
+ * @param {Date} now - Current date
+ * @returns {RecurringSeriesStatus} The series' status
+ */
+const getStatus = (schedule: ScheduleFields, isActive: boolean | undefined, now: Date): RecurringSeriesStatus => {
+  if (isActive) return 'active';
+  return getNextOccurrence(schedule, now) ? 'paused' : 'ended';
+};
+
+/**
+ * Collect the user's recurring debts and recurring groups into series, newest first
+ * @param {RecurringDebt[]} recurringDebts - Recurring debt templates
+ * @param {DebtGroup[]} groups - All debt groups (only recurring templates are used)
+ * @param {Date} now - Current date
+ * @returns {RecurringSeries[]} The series
+ */
+export const getRecurringSeries = (
+  recurringDebts: RecurringDebt[],
+  groups: DebtGroup[],
+  now: Date = new Date()
+): RecurringSeries[] => {
+  const debtSeries = recurringDebts.filter(template => template.id).map(template => {
+    const fields: ScheduleFields = {
+      frequency: template.frequency,
+      interval: template.interval ?? null,
+      intervalUnit: template.intervalUnit ?? null,
+      startDate: template.startDate,
+      endDate: template.endDate ?? null,
+      occurrenceCount: template.occurrenceCount ?? null,
+      dayOfMonth: template.dayOfMonth ?? null,
+      dayOfWeek: template.dayOfWeek ?? null,
+      timeZone: template.timeZone ?? null,
+      skippedDates: template.skippedDates || [],
+      nextGenerationDate: template.nextGenerationDate,
+    };
+
+    return {
+      ...fields,
+      type: 'debt' as const,
+      id: template.id as string,
+      name: template.debtorName,
+      amount: template.amount,
+      currency: template.currency,
+      status: getStatus(fields, template.isActive, now),
+      instanceIds: template.generatedDebtIds || [],
+      createdAt: template.createdAt,
+    };
+  });
+
+  // Group instances point back at their template with recurringId; templates don't
+  const groupSeries = groups
+    .filter(group => group.id && group.isRecurring && !group.recurringId && group.frequency && group.startDate)
+    .map(group => {
+      const fields: ScheduleFields = {
+        frequency: group.frequency as RecurringFrequency,
+        interval: group.interval ?? null,
+        intervalUnit: group.intervalUnit ?? null,
+        startDate: group.startDate as string,
+        endDate: group.endDate ?? null,
+        occurrenceCount: group.occurrenceCount ?? null,
+        dayOfMonth: group.dayOfMonth ?? null,
+        dayOfWeek: group.dayOfWeek ?? null,
+        timeZone: group.timeZone ?? null,
+        skippedDates: group.skippedDates || [],
+        nextGenerationDate: group.nextGenerationDate || (group.startDate as string),
+      };
+
+      return {
+        ...fields,
+        type: 'group' as const,
+        id: group.id as string,
+        name: group.name,
+        amount: group.totalAmount,
+        currency: group.currency,
+        status: getStatus(fields, group.isActive, now),
+        // The template group is the series' first instance
+        instanceIds: [group.id as string, ...(group.generatedGroupIds || [])],
+        createdAt: group.createdAt,
+      };
+    });
+
+  return [...debtSeries, ...groupSeries]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .map(({ createdAt, ...series }) => series);
+};
+
+/**
+ * Get the next few occurrences a series will create (none while it's paused or ended)
+ * @param {RecurringSeries} series - The series
+ * @param {number} count - Most occurrences to return
+ * @returns {string[]} ISO dates of the occurrences
+ */
+export const getUpcomingCharges = (series: RecurringSeries, count: number = UPCOMING_OCCURRENCE_COUNT): string[] => {
+  if (series.status !== 'active') return [];
+  return getUpcomingOccurrences(series, series.nextGenerationDate, count);
+};
+
+/**
+ * Look up the debts or groups a series has created so far, newest first
+ * @param {RecurringSeries} series - The series
+ * @param {Debt[]} debts - All of the user's debts
+ * @param {DebtGroup[]} groups - All of the user's groups
+ * @returns {RecurringInstance[]} Each instance with its paid status
+ */
+export const getRecurringInstances = (series: RecurringSeries, debts: Debt[], groups: DebtGroup[]): RecurringInstance[] => {
+  return series.instanceIds.map(id => {
+    if (series.type === 'debt') {
+      const debt = debts.find(item => item.id === id);
+      return { id, createdAt: debt?.createdAt ?? null, isPaid: !!debt?.isPaid };
+    }
+    const group = groups.find(item => item.id === id);
+    return { id, createdAt: group?.createdAt ?? null, isPaid: !!group?.isCompleted };
+  }).reverse();
+};
+
+/**
+ * Describe how often a series repeats
+ * @param {Object} schedule - frequency, and interval and intervalUnit for custom frequencies
+ * @returns {string} e.g., "Monthly", "Every 2 weeks", "Every 4 weeks"
+ */
+export const describeFrequency = (schedule: {
+  frequency: RecurringFrequency;
+  interval?: number | null;
+  intervalUnit?: RecurrenceUnit | null;
+}): string => {
+  if (schedule.frequency !== 'custom') {
+    return FREQUENCY_LABELS[schedule.frequency] || 'Recurring';
+  }
+
+  const interval = schedule.interval && schedule.interval > 0 ? schedule.interval : 1;
+  const unit = schedule.intervalUnit || 'month';
+  return interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+};
+
+/**
+ * Describe a series' schedule
+ * @param {RecurringSeries} series - The series (or just its schedule fields)
+ * @returns {string} e.g., "Monthly on the last day", "Every 4 weeks on Friday, 12 times"
+ */
+export const describeSchedule = (
+  series: Pick<RecurringSeries, 'frequency' | 'interval' | 'intervalUnit' | 'startDate' | 'occurrenceCount' | 'dayOfMonth' | 'dayOfWeek'>
+): string => {
+  const frequency = describeFrequency(series);
+  const startDate = new Date(series.startDate);
+  const times = series.occurrenceCount ? `, ${series.occurrenceCount} times` : '';
+
+  if (usesDayOfWeek(series)) {
+    return `${frequency} on ${DAYS_OF_WEEK[series.dayOfWeek ?? startDate.getDay()]}${times}`;
+  }
+  if (!usesDayOfMonth(series)) {
+    return `${frequency}${times}`;
+  }
+
+  const day = series.dayOfMonth ?? startDate.getDate();
+  return day === LAST_DAY_OF_MONTH
+    ? `${frequency} on the last day${times}`
+    : `${frequency} on day ${day}${times}`;
+};
@@ -0,0 +1,212 @@
+import * as Clipboard from 'expo-clipboard';
+import { Alert, Linking, Platform } from 'react-native';
+
+import { Debt, PaymentMethod } from '@/firebase/models';
+import { formatCurrency } from '@/utils/currency';
+import { getRemainingBalance } from '@/utils/debtBalance';
+
+/**
+ * Reminder messages sent to people who owe money.
+ * Templates are plain text with {variables}. Text wrapped in [square brackets]
+ * is only kept when every variable inside it has a value, so optional parts like
+ * "[ for {description}]" disappear cleanly when there's nothing to show.
+ */
+
+export type ReminderTone = 'friendly' | 'firm' | 'finalNotice';
+
+export type ReminderTemplates = Record<ReminderTone, string>;
+
+export interface ReminderTemplateSettings {
+  templates: ReminderTemplates;
+  defaultTone: ReminderTone;
+}
+
+export interface ReminderVariables {
+  name: string;         // Name of the person who owes money
+  amount: string;       // Remaining balance, formatted in the debt's currency
+  description: string;  // What the debt is for
+  dueDate: string;      // When the debt is due
+  link: string;         // Payment link (e.g., trypaid.io/username)
+  items: string;        // Itemized breakdown (e.g., from a split receipt)
+  group: string;        // Name of the debt's group
+}
+
+export const REMINDER_TONES: { tone: ReminderTone; label: string }[] = [
+  { tone: 'friendly', label: 'Friendly' },
+  { tone: 'firm', label: 'Firm' },
+  { tone: 'finalNotice', label: 'Final Notice' },
+];
+
+export const REMINDER_VARIABLES: { key: keyof ReminderVariables; description: string }[] = [
+  { key: 'name', description: 'Their name' },
+  { key: 'amount', description: 'Amount still owed' },
+  { key: 'description', description: 'What it was for' },
+  { key: 'dueDate', description: 'When it is due' },
+  { key: 'link', description: 'Your payment link' },
+  { key: 'items', description: 'Itemized breakdown' },
+  { key: 'group', description: 'Group name' },
+];
+
+export const DEFAULT_REMINDER_TEMPLATES: ReminderTemplates = {
+  friendly: 'Hey, just a reminder that you owe me {amount}[ for {description}].[\n(Part of {group} group)][\n\n{items}][\n\nPay here: {link}]',
+  firm: 'Hi {name}, you still owe me {amount}[ for {description}][, which was due {dueDate}]. Please pay as soon as you can.[\n\nPay here: {link}]',
+  finalNotice: 'Final notice: {name}, you owe me {amount}[ for {description}][ (due {dueDate})]. Please settle this today.[\n\nPay here: {link}]',
+};
+
+export const DEFAULT_REMINDER_TEMPLATE_SETTINGS: ReminderTemplateSettings = {
+  templates: DEFAULT_REMINDER_TEMPLATES,
+  defaultTone: 'friendly',
+};
+
+type PaymentLinkProfile = {
+  username?: string;
+  profileImageUrl?: string;
+  profile?: {
+    name?: string;
+    location?: string;
+    backgroundImageUrl?: string;
+    paymentMethods?: PaymentMethod[];
+  };
+} | null | undefined;
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+const OPTIONAL_PATTERN = /\[([^\[\]]*)\]/g;
+
+/**
+ * Render a reminder template
+ * @param {string} template - Template text with {variables} and [optional parts]
+ * @param {ReminderVariables} variables - Values for the variables
+ * @returns {string} Rendered message
+ */
+export const renderReminderTemplate = (template: string, variables: Partial<ReminderVariables>): string => {
+  const valueOf = (key: string): string | undefined => {
+    if (!(key in variables)) return undefined;
+    return (variables as Record<string, string | undefined>)[key] || '';
+  };
+
+  // Drop optional parts that reference an empty variable
+  const withOptionals = template.replace(OPTIONAL_PATTERN, (_, part: string) => {
+    const keys = Array.from(part.matchAll(VARIABLE_PATTERN), match => match[1]);
+    return keys.every(key => valueOf(key)) ? part : '';
+  });
+
+  // Unknown variables are left as typed so mistakes are easy to spot
+  return withOptionals
+    .replace(VARIABLE_PATTERN, (match, key: string) => valueOf(key) ?? match)
+    .trim();
+};
+
+/**
+ * Get the user's payment link, if their profile is set up enough to share it
+ * @param {Object} userProfile - The signed in user's profile
+ * @returns {string} Payment link, or an empty string
+ */
+export const getPaymentLink = (userProfile: PaymentLinkProfile): string => {
+  if (!userProfile || !userProfile.username) return '';
+
+  // The profile needs at least one of these for the link to be useful
+  const profile = userProfile.profile;
+  const hasProfileData = profile &&
+    (profile.name ||
+     profile.location ||
+     userProfile.profileImageUrl ||
+     profile.backgroundImageUrl ||
+     (profile.paymentMethods && profile.paymentMethods.some(method => method.value)));
+
+  return hasProfileData ? `trypaid.io/${userProfile.username}` : '';
+};
+
+/**
+ * Split a debt's description into its summary and any itemized breakdown after a blank line
+ * @param {string} description - The debt's description
+ * @returns {Object} Summary and items
+ */
+const splitDescription = (description?: string): { summary: string; items: string } => {
+  const [summary, ...rest] = (description || '').split(/\n\s*\n/);
+  return { summary: summary.trim(), items: rest.join('\n\n').trim() };
+};
+
+/**
+ * Build the template variables for a debt
+ * @param {Debt} debt - The debt to remind about
+ * @param {Object} options
+ * @param {string} [options.paymentLink] - The user's payment link
+ * @param {string} [options.groupName] - Name of the debt's group
+ * @param {string} [options.currency] - Currency to fall back to when the debt has none
+ * @param {string} [options.dueDate] - ISO date the debt is due (defaults to the debt's own due date)
+ * @returns {ReminderVariables} Variables for rendering a template
+ */
+export const buildReminderVariables = (
+  debt: Debt,
+  { paymentLink = '', groupName = '', currency, dueDate }: {
+    paymentLink?: string;
+    groupName?: string;
+    currency?: string | null;
+    dueDate?: string | null;
+  } = {}
+): ReminderVariables => {
+  const { summary, items } = splitDescription(debt.description);
+  const due = dueDate ?? debt.dueDate;
+
+  return {
+    name: debt.debtorName,
+    amount: formatCurrency(getRemainingBalance(debt), debt.currency || currency),
+    description: summary,
+    dueDate: due ? new Date(due).toLocaleDateString() : '',
+    link: paymentLink,
+    items,
+    group: groupName,
+  };
+};
+
+/**
+ * Build the reminder message for a debt
+ * @param {Debt} debt - The debt to remind about
+ * @param {ReminderTemplateSettings} settings - The user's templates
+ * @param {Object} options - Tone and extra variable sources
+ * @returns {string} Rendered message
+ */
+export const buildReminderMessage = (
+  debt: Debt,
+  settings: ReminderTemplateSettings,
+  options: Parameters<typeof buildReminderVariables>[1] & { tone?: ReminderTone } = {}
+): string => {
+  const tone = options.tone || settings.defaultTone;
+  const template = settings.templates[tone] || DEFAULT_REMINDER_TEMPLATES[tone];
+  return renderReminderTemplate(template, buildReminderVariables(debt, options));
+};
+
+/**
+ * Build an sms: URL that opens the messages app with the message filled in.
+ * iOS expects "&body=" after the recipient while Android expects "?body=".
+ * @param {string} message - Message text
+ * @param {string} [phoneNumber] - Recipient's phone number
+ * @param {string} [platform] - Platform to build the URL for (defaults to the current one)
+ * @returns {string} sms: URL
+ */
+export const buildSmsUrl = (message: string, phoneNumber?: string | null, platform: string = Platform.OS): string => {
+  // Remove everything but digits, keeping a leading + so international numbers aren't dialed as local ones
+  const recipient = (phoneNumber || '').trim().replace(/(?!^\+)\D/g, '');
+  const separator = platform === 'ios' ? '&' : '?';
+  return `sms:${recipient}${separator}body=${encodeURIComponent(message)}`;
+};
+
+/**
+ * Open the messages app with a reminder, copying it to the clipboard if that fails
+ * @param {string} message - Message text
+ * @param {string} [phoneNumber] - Recipient's phone number
+ * @returns {Promise<void>}
+ */
+export const openReminderMessage = async (message: string, phoneNumber?: string | null): Promise<void> => {
+  try {
+    await Linking.openURL(buildSmsUrl(message, phoneNumber));
+  } catch (error) {
+    console.error('Error opening messages app:', error);
+
+    await Clipboard.setStringAsync(message);
+    Alert.alert(
+      'Message Copied',
+      'The reminder message has been copied to your clipboard.'
+    );
+  }
+};
@@ -0,0 +1,69 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  DEFAULT_REMINDER_TEMPLATE_SETTINGS,
+  REMINDER_TONES,
+  ReminderTemplateSettings,
+  ReminderTone
+} from '@/utils/reminderMessages';
+
+// Constants for AsyncStorage
+const REMINDER_TEMPLATES_KEY = 'PAID_APP_REMINDER_TEMPLATES';
+
+const TONES: ReminderTone[] = REMINDER_TONES.map(option => option.tone);
+
+/**
+ * Load the user's reminder templates from local storage
+ * @returns {Promise<ReminderTemplateSettings>} Saved templates, or the defaults
+ */
+export const loadReminderTemplates = async (): Promise<ReminderTemplateSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(REMINDER_TEMPLATES_KEY);
+    if (!stored) return DEFAULT_REMINDER_TEMPLATE_SETTINGS;
+
+    const parsed = JSON.parse(stored);
+    const templates = { ...DEFAULT_REMINDER_TEMPLATE_SETTINGS.templates };
+
+    TONES.forEach(tone => {
+      const template = parsed?.templates?.[tone];
+      if (typeof template === 'string' && template.trim()) {
+        templates[tone] = template;
+      }
+    });
+
+    return {
+      templates,
+      defaultTone: TONES.includes(parsed?.defaultTone) ? parsed.defaultTone : DEFAULT_REMINDER_TEMPLATE_SETTINGS.defaultTone,
+    };
+  } catch (error) {
+    console.error('Error loading reminder templates:', error);
+    return DEFAULT_REMINDER_TEMPLATE_SETTINGS;
+  }
+};
+
+/**
+ * Save the user's reminder templates to local storage
+ * @param {ReminderTemplateSettings} settings - Templates to remember
+ * @returns {Promise<void>}
+ */
+export const saveReminderTemplates = async (settings: ReminderTemplateSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(REMINDER_TEMPLATES_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving reminder templates:', error);
+    throw error;
+  }
+};
+
+/**
+ * Restore the default reminder templates
+ * @returns {Promise<void>}
+ */
+export const resetReminderTemplates = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(REMINDER_TEMPLATES_KEY);
+  } catch (error) {
+    console.error('Error resetting reminder templates:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,72 @@
+import { Debt, ReminderSchedule } from '@/firebase/models';
+
+/**
+ * Automatic reminder schedules for unpaid debts.
+ * The scheduled `sendDebtReminders` Cloud Function (functions/reminders.js) sends
+ * the reminders; this file mirrors its schedule math so the app can show and
+ * store the next reminder date.
+ */
+
+type DebtReminderFields = Pick<Debt, 'createdAt' | 'isPaid' | 'lastReminderAt' | 'reminderSchedule'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_REMINDER_SCHEDULE: ReminderSchedule = {
+  enabled: true,
+  firstAfterDays: 3,
+  repeatEveryDays: 7
+};
+
+// Options offered in the reminder settings
+export const FIRST_REMINDER_OPTIONS = [1, 3, 7, 14];
+export const REPEAT_REMINDER_OPTIONS: (number | null)[] = [null, 3, 7, 14, 30];
+
+/**
+ * Describe a number of days in words
+ * @param {number} days - Number of days
+ * @returns {string} e.g., "1 day", "7 days"
+ */
+const describeDays = (days: number): string => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+/**
+ * Describe how often a reminder repeats
+ * @param {number|null} repeatEveryDays - Days between reminders (null for no repeat)
+ * @returns {string} e.g., "Weekly", "Every 3 days", "Once"
+ */
+export const describeRepeat = (repeatEveryDays: number | null): string => {
+  if (!repeatEveryDays) return 'Once';
+  if (repeatEveryDays === 7) return 'Weekly';
+  return `Every ${describeDays(repeatEveryDays)}`;
+};
+
+/**
+ * Describe a reminder schedule in words
+ * @param {ReminderSchedule} schedule - The reminder schedule
+ * @returns {string} e.g., "3 days after creation, then weekly until paid"
+ */
+export const describeReminderSchedule = (schedule?: ReminderSchedule | null): string => {
+  if (!schedule || !schedule.enabled) return 'Off';
+
+  const first = `${describeDays(schedule.firstAfterDays)} after creation`;
+  if (!schedule.repeatEveryDays) return first;
+
+  return `${first}, then ${describeRepeat(schedule.repeatEveryDays).toLowerCase()} until paid`;
+};
+
+/**
+ * Work out when the next reminder for a debt is due
+ * @param {Debt} debt - The debt with its reminder schedule
+ * @returns {string|null} ISO timestamp of the next reminder, or null if none is due
+ */
+export const getNextReminderDate = (debt: DebtReminderFields): string | null => {
+  const schedule = debt.reminderSchedule;
+  if (!schedule || !schedule.enabled || debt.isPaid) return null;
+
+  if (!debt.lastReminderAt) {
+    return new Date(new Date(debt.createdAt).getTime() + schedule.firstAfterDays * DAY_MS).toISOString();
+  }
+
+  if (!schedule.repeatEveryDays) return null;
+
+  return new Date(new Date(debt.lastReminderAt).getTime() + schedule.repeatEveryDays * DAY_MS).toISOString();
+};